@@ -0,0 +1,5 @@
+import { PairwiseAligner } from "@/components/pairwise-aligner";
+
+export default function Align() {
+  return <PairwiseAligner />;
+}
@@ -0,0 +1,186 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { fetchUniProtEntry } from "@/lib/protein-api";
+import { parseSequenceInput } from "@/lib/sequence-parser";
+import {
+  prepareSequence,
+  SequenceValidationError,
+} from "@/lib/analysis-pipeline";
+import { ALIGNMENT_MODES, AlignmentError, alignPair } from "@/lib/alignment";
+import { SUBSTITUTION_MATRICES } from "@/lib/substitution-matrices";
+
+export const maxDuration = 60;
+
+interface AlignedSequence {
+  id: string;
+  description?: string;
+  length: number;
+}
+
+/**
+ * Resolve one side of the alignment from pasted input or a UniProt ID
+ */
+async function resolveSequence(
+  label: string,
+  sequence: unknown,
+  uniprotId: unknown
+): Promise<AlignedSequence & { sequence: string }> {
+  if (uniprotId) {
+    let entry;
+    try {
+      entry = await fetchUniProtEntry(String(uniprotId));
+    } catch (error) {
+      throw new SequenceValidationError(
+        `Failed to fetch UniProt sequence for ${label}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+
+    const residues = prepareSequence(entry.sequence?.value);
+    return {
+      id: entry.primaryAccession || String(uniprotId),
+      description:
+        entry.proteinDescription?.recommendedName?.fullName?.value ?? undefined,
+      length: residues.length,
+      sequence: residues,
+    };
+  }
+
+  const records = parseSequenceInput(String(sequence ?? ""));
+  if (records.length > 1) {
+    throw new SequenceValidationError(
+      `${label} contains ${records.length} sequence records; provide one`
+    );
+  }
+
+  const header = records[0]?.header;
+  let residues: string;
+  try {
+    residues = prepareSequence(records[0]?.sequence);
+  } catch (error) {
+    if (error instanceof SequenceValidationError) {
+      throw new SequenceValidationError(
+        `${label}: ${error.message}`,
+        error.invalidResidues
+      );
+    }
+    throw error;
+  }
+
+  return {
+    id: header?.accession || header?.id || label,
+    description: header?.description,
+    length: residues.length,
+    sequence: residues,
+  };
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      query,
+      queryUniprotId,
+      target,
+      targetUniprotId,
+      mode,
+      matrix,
+      gapOpen,
+      gapExtend,
+    } = body;
+
+    if (!query && !queryUniprotId) {
+      return NextResponse.json(
+        { error: "Either query or queryUniprotId is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!target && !targetUniprotId) {
+      return NextResponse.json(
+        { error: "Either target or targetUniprotId is required" },
+        { status: 400 }
+      );
+    }
+
+    if (mode !== undefined && !ALIGNMENT_MODES.includes(mode)) {
+      return NextResponse.json(
+        { error: `mode must be one of: ${ALIGNMENT_MODES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (
+      matrix !== undefined &&
+      !Object.keys(SUBSTITUTION_MATRICES).includes(matrix)
+    ) {
+      return NextResponse.json(
+        {
+          error: `matrix must be one of: ${Object.keys(
+            SUBSTITUTION_MATRICES
+          ).join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    for (const [name, value] of [
+      ["gapOpen", gapOpen],
+      ["gapExtend", gapExtend],
+    ]) {
+      if (value !== undefined && !(typeof value === "number" && value >= 0)) {
+        return NextResponse.json(
+          { error: `${name} must be a non-negative number` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const { sequence: querySequence, ...queryInfo } = await resolveSequence(
+      "Query",
+      query,
+      queryUniprotId
+    );
+    const { sequence: targetSequence, ...targetInfo } = await resolveSequence(
+      "Target",
+      target,
+      targetUniprotId
+    );
+
+    const alignment = alignPair(querySequence, targetSequence, {
+      mode,
+      matrix,
+      gapOpen,
+      gapExtend,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        query: queryInfo,
+        target: targetInfo,
+        alignment,
+      },
+    });
+  } catch (error) {
+    if (error instanceof SequenceValidationError) {
+      return NextResponse.json(
+        { error: error.message, invalidResidues: error.invalidResidues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AlignmentError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      {
+        error: `Server error: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      },
+      { status: 500 }
+    );
+  }
+}
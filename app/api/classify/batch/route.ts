@@ -0,0 +1,202 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { fetchUniProtEntry } from "@/lib/protein-api";
+import { parseSequenceInput } from "@/lib/sequence-parser";
+import {
+  analyzeSequence,
+  type SequenceAnalysis,
+} from "@/lib/analysis-pipeline";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { getEmbeddingProvider } from "@/lib/embedding-providers";
+import {
+  EmbeddingRequestError,
+  resolveEmbeddingRequest,
+} from "@/lib/esm2-embeddings";
+import { HYDROPATHY_SCALES } from "@/lib/hydropathy";
+
+export const maxDuration = 300;
+
+const MAX_BATCH_RECORDS = 500;
+const DEFAULT_CONCURRENCY = 4;
+const MAX_CONCURRENCY = 16;
+
+interface BatchInput {
+  sequenceId: string;
+  description?: string;
+  sequence?: string;
+  uniprotId?: string;
+}
+
+type BatchRecordResult =
+  | {
+      index: number;
+      sequenceId: string;
+      description?: string;
+      status: "ok";
+      data: SequenceAnalysis;
+    }
+  | {
+      index: number;
+      sequenceId: string;
+      description?: string;
+      status: "error";
+      error: string;
+    };
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      fasta,
+      uniprotIds,
+      concurrency,
+      geneticCode,
+      perResidue,
+      model,
+      layers,
+      pH,
+      hydropathyScale,
+    } = body;
+
+    if (!fasta && !(Array.isArray(uniprotIds) && uniprotIds.length > 0)) {
+      return NextResponse.json(
+        { error: "Either fasta or a non-empty uniprotIds array is required" },
+        { status: 400 }
+      );
+    }
+
+    if (pH !== undefined && !(typeof pH === "number" && pH >= 0 && pH <= 14)) {
+      return NextResponse.json(
+        { error: "pH must be a number between 0 and 14" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      hydropathyScale !== undefined &&
+      !Object.keys(HYDROPATHY_SCALES).includes(hydropathyScale)
+    ) {
+      return NextResponse.json(
+        {
+          error: `hydropathyScale must be one of: ${Object.keys(
+            HYDROPATHY_SCALES
+          ).join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    // Reject an unavailable model/layer once rather than per record
+    try {
+      resolveEmbeddingRequest(model ?? getEmbeddingProvider().model, layers);
+    } catch (error) {
+      if (error instanceof EmbeddingRequestError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+
+    const inputs: BatchInput[] = [];
+
+    if (typeof fasta === "string" && fasta.trim()) {
+      for (const record of parseSequenceInput(fasta)) {
+        inputs.push({
+          sequenceId: record.id,
+          description: record.header?.description,
+          sequence: record.sequence,
+        });
+      }
+    }
+
+    if (Array.isArray(uniprotIds)) {
+      for (const id of uniprotIds) {
+        const uniprotId = String(id).trim();
+        if (uniprotId) inputs.push({ sequenceId: uniprotId, uniprotId });
+      }
+    }
+
+    if (inputs.length === 0) {
+      return NextResponse.json(
+        { error: "No sequences found in request" },
+        { status: 400 }
+      );
+    }
+
+    if (inputs.length > MAX_BATCH_RECORDS) {
+      return NextResponse.json(
+        {
+          error: `Batch contains ${inputs.length} records; the maximum is ${MAX_BATCH_RECORDS}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const limit = Math.min(
+      Math.max(Number(concurrency) || DEFAULT_CONCURRENCY, 1),
+      MAX_CONCURRENCY
+    );
+
+    const results = await mapWithConcurrency(
+      inputs,
+      limit,
+      async (input, index): Promise<BatchRecordResult> => {
+        try {
+          let sequence = input.sequence;
+          let sequenceId = input.sequenceId;
+
+          if (input.uniprotId) {
+            const entry = await fetchUniProtEntry(input.uniprotId);
+            sequence = entry.sequence?.value;
+            sequenceId = entry.primaryAccession || input.uniprotId;
+          }
+
+          const data = await analyzeSequence(sequence || "", sequenceId, {
+            geneticCode:
+              geneticCode !== undefined ? Number(geneticCode) : undefined,
+            perResidue: perResidue === true,
+            model,
+            layers,
+            pH,
+            hydropathyScale,
+          });
+
+          return {
+            index,
+            sequenceId,
+            description: input.description,
+            status: "ok",
+            data,
+          };
+        } catch (error) {
+          return {
+            index,
+            sequenceId: input.sequenceId,
+            description: input.description,
+            status: "error",
+            error: error instanceof Error ? error.message : "Unknown error",
+          };
+        }
+      }
+    );
+
+    const succeeded = results.filter((r) => r.status === "ok").length;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        total: results.length,
+        succeeded,
+        failed: results.length - succeeded,
+        results,
+      },
+    });
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: `Server error: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,24 +1,53 @@
 import { type NextRequest, NextResponse } from "next/server";
-import {
-  validateSequence,
-  cleanSequence,
-  getSequenceStats,
-} from "@/lib/protein-api";
-import { classifyProteinWithEmbeddings } from "@/lib/classification-engine";
+import { fetchUniProtEntry } from "@/lib/protein-api";
 import { parseUniProtResponse } from "@/lib/uniprot-parser";
+import { parseSequenceInput, type SequenceHeader } from "@/lib/sequence-parser";
 import {
-  extractEmbeddingFeatures,
-  generateESM2Response,
-  // generateMockESM2Response,
-  parseESM2Response,
-} from "@/lib/esm2-embeddings";
+  analyzeSequence,
+  SequenceValidationError,
+} from "@/lib/analysis-pipeline";
+import { EmbeddingRequestError } from "@/lib/esm2-embeddings";
+import { HYDROPATHY_SCALES } from "@/lib/hydropathy";
+import { compareWithUniProt } from "@/lib/go-agreement";
+import { getGeneOntology } from "@/lib/gene-ontology";
 
 export const maxDuration = 60;
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { sequence, uniprotId } = body;
+    const {
+      sequence,
+      uniprotId,
+      geneticCode,
+      orfId,
+      perResidue,
+      model,
+      layers,
+      pH,
+      hydropathyScale,
+    } = body;
+
+    if (pH !== undefined && !(typeof pH === "number" && pH >= 0 && pH <= 14)) {
+      return NextResponse.json(
+        { error: "pH must be a number between 0 and 14" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      hydropathyScale !== undefined &&
+      !Object.keys(HYDROPATHY_SCALES).includes(hydropathyScale)
+    ) {
+      return NextResponse.json(
+        {
+          error: `hydropathyScale must be one of: ${Object.keys(
+            HYDROPATHY_SCALES
+          ).join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
 
     if (!sequence && !uniprotId) {
       return NextResponse.json(
@@ -30,17 +59,31 @@ export async function POST(request: NextRequest) {
     let proteinSequence = sequence;
     let sequenceId = uniprotId || "N/A";
     let rawUniProtData = null;
+    let sequenceHeader: SequenceHeader | undefined;
+
+    if (!uniprotId) {
+      const records = parseSequenceInput(String(sequence));
+
+      if (records.length > 1) {
+        return NextResponse.json(
+          {
+            error: `Input contains ${records.length} sequence records; use /api/classify/batch for multi-record files`,
+          },
+          { status: 400 }
+        );
+      }
+
+      if (records[0]) {
+        proteinSequence = records[0].sequence;
+        sequenceHeader = records[0].header;
+        sequenceId = sequenceHeader?.accession || sequenceHeader?.id || "N/A";
+      }
+    }
 
     // Fetch and parse full UniProt response when ID provided
     if (uniprotId) {
       try {
-        const response = await fetch(
-          `https://rest.uniprot.org/uniprotkb/${uniprotId}`
-        );
-        if (!response.ok) {
-          throw new Error(`UniProt API error: ${response.statusText}`);
-        }
-        rawUniProtData = await response.json();
+        rawUniProtData = await fetchUniProtEntry(uniprotId);
         proteinSequence = rawUniProtData.sequence?.value;
         sequenceId = rawUniProtData.primaryAccession || uniprotId;
       } catch (error) {
@@ -55,63 +98,50 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Validate sequence
-    const cleaned = cleanSequence(proteinSequence);
-    if (!validateSequence(cleaned)) {
-      return NextResponse.json(
-        { error: "Invalid protein sequence format" },
-        { status: 400 }
-      );
-    }
-
-    if (cleaned.length < 10) {
-      return NextResponse.json(
-        { error: "Sequence must be at least 10 amino acids long" },
-        { status: 400 }
-      );
-    }
-
-    // const esm2Response = generateMockESM2Response(cleaned);
-    const esm2Response = await generateESM2Response(cleaned);
-    const embeddings = parseESM2Response(esm2Response, 12);
-    const embeddingFeatures = extractEmbeddingFeatures(embeddings);
-
-    // Calculate sequence statistics
-    const stats = getSequenceStats(cleaned);
-
-    const classification = classifyProteinWithEmbeddings(
-      cleaned,
-      stats,
-      sequenceId,
-      embeddingFeatures
-    );
+    const analysis = await analyzeSequence(proteinSequence, sequenceId, {
+      geneticCode: geneticCode !== undefined ? Number(geneticCode) : undefined,
+      orfId,
+      perResidue: perResidue === true,
+      model,
+      layers,
+      pH,
+      hydropathyScale,
+    });
 
-    // Parse UniProt data if available
+    // Parse UniProt data if available and compare against its GO annotations
     let uniprotData = null;
+    let agreement = null;
     if (rawUniProtData) {
       uniprotData = parseUniProtResponse(rawUniProtData);
+      agreement = compareWithUniProt(
+        analysis.classification,
+        uniprotData.accession,
+        uniprotData.goTerms,
+        getGeneOntology()
+      );
     }
 
     return NextResponse.json({
       success: true,
       data: {
-        classification,
-        stats,
-        embeddingFeatures,
-        embeddingStats: {
-          dimension: embeddings.length,
-          layer: 12,
-          mean: embeddingFeatures.embeddingStats.mean,
-          std: embeddingFeatures.embeddingStats.std,
-          range: [
-            embeddingFeatures.embeddingStats.min,
-            embeddingFeatures.embeddingStats.max,
-          ],
-        },
+        ...analysis,
+        sequenceHeader,
         uniprotData,
+        agreement,
       },
     });
   } catch (error) {
+    if (error instanceof SequenceValidationError) {
+      return NextResponse.json(
+        { error: error.message, invalidResidues: error.invalidResidues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof EmbeddingRequestError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     return NextResponse.json(
       {
         error: `Server error: ${
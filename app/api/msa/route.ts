@@ -0,0 +1,140 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { fetchUniProtEntry } from "@/lib/protein-api";
+import { parseSequenceInput } from "@/lib/sequence-parser";
+import {
+  prepareSequence,
+  SequenceValidationError,
+} from "@/lib/analysis-pipeline";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { AlignmentError } from "@/lib/alignment";
+import { alignMultiple, MAX_MSA_SEQUENCES, type MsaInput } from "@/lib/msa";
+import { SUBSTITUTION_MATRICES } from "@/lib/substitution-matrices";
+
+export const maxDuration = 60;
+
+const UNIPROT_CONCURRENCY = 4;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { fasta, uniprotIds, matrix, gapOpen, gapExtend } = body;
+
+    if (
+      matrix !== undefined &&
+      !Object.keys(SUBSTITUTION_MATRICES).includes(matrix)
+    ) {
+      return NextResponse.json(
+        {
+          error: `matrix must be one of: ${Object.keys(
+            SUBSTITUTION_MATRICES
+          ).join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    for (const [name, value] of [
+      ["gapOpen", gapOpen],
+      ["gapExtend", gapExtend],
+    ]) {
+      if (value !== undefined && !(typeof value === "number" && value >= 0)) {
+        return NextResponse.json(
+          { error: `${name} must be a non-negative number` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const inputs: MsaInput[] = [];
+
+    if (typeof fasta === "string" && fasta.trim()) {
+      for (const record of parseSequenceInput(fasta)) {
+        try {
+          inputs.push({
+            id: record.id,
+            sequence: prepareSequence(record.sequence),
+          });
+        } catch (error) {
+          if (error instanceof SequenceValidationError) {
+            throw new SequenceValidationError(
+              `${record.id}: ${error.message}`,
+              error.invalidResidues
+            );
+          }
+          throw error;
+        }
+      }
+    }
+
+    const ids = Array.isArray(uniprotIds)
+      ? uniprotIds.map((id) => String(id).trim()).filter(Boolean)
+      : [];
+
+    if (inputs.length + ids.length < 2) {
+      return NextResponse.json(
+        { error: "At least two sequences are required" },
+        { status: 400 }
+      );
+    }
+
+    if (inputs.length + ids.length > MAX_MSA_SEQUENCES) {
+      return NextResponse.json(
+        {
+          error: `Request contains ${
+            inputs.length + ids.length
+          } sequences; the maximum is ${MAX_MSA_SEQUENCES}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const fetched = await mapWithConcurrency(
+      ids,
+      UNIPROT_CONCURRENCY,
+      async (uniprotId): Promise<MsaInput> => {
+        let entry;
+        try {
+          entry = await fetchUniProtEntry(uniprotId);
+        } catch (error) {
+          throw new SequenceValidationError(
+            `Failed to fetch UniProt sequence ${uniprotId}: ${
+              error instanceof Error ? error.message : "Unknown error"
+            }`
+          );
+        }
+        return {
+          id: entry.primaryAccession || uniprotId,
+          sequence: prepareSequence(entry.sequence?.value),
+        };
+      }
+    );
+
+    const alignment = alignMultiple([...inputs, ...fetched], {
+      matrix,
+      gapOpen,
+      gapExtend,
+    });
+
+    return NextResponse.json({ success: true, data: alignment });
+  } catch (error) {
+    if (error instanceof SequenceValidationError) {
+      return NextResponse.json(
+        { error: error.message, invalidResidues: error.invalidResidues },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AlignmentError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      {
+        error: `Server error: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      },
+      { status: 500 }
+    );
+  }
+}
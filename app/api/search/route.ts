@@ -0,0 +1,126 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { fetchUniProtEntry } from "@/lib/protein-api";
+import { parseSequenceInput } from "@/lib/sequence-parser";
+import {
+  prepareSequence,
+  SequenceValidationError,
+} from "@/lib/analysis-pipeline";
+import { getSequenceDatabase } from "@/lib/sequence-database";
+import { searchDatabase } from "@/lib/homology-search";
+
+export const maxDuration = 60;
+
+const MAX_HITS_LIMIT = 500;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { sequence, uniprotId, maxHits, maxEvalue } = body;
+
+    if (!sequence && !uniprotId) {
+      return NextResponse.json(
+        { error: "Either sequence or uniprotId is required" },
+        { status: 400 }
+      );
+    }
+
+    if (
+      maxHits !== undefined &&
+      !(Number.isInteger(maxHits) && maxHits > 0 && maxHits <= MAX_HITS_LIMIT)
+    ) {
+      return NextResponse.json(
+        { error: `maxHits must be an integer between 1 and ${MAX_HITS_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    if (
+      maxEvalue !== undefined &&
+      !(typeof maxEvalue === "number" && maxEvalue > 0)
+    ) {
+      return NextResponse.json(
+        { error: "maxEvalue must be a positive number" },
+        { status: 400 }
+      );
+    }
+
+    const database = getSequenceDatabase();
+    if (!database) {
+      return NextResponse.json(
+        {
+          error:
+            "No sequence database installed (set SEQUENCE_DB_PATH or add data/sequence-db.fasta)",
+        },
+        { status: 503 }
+      );
+    }
+
+    let proteinSequence = sequence;
+    let sequenceId = uniprotId || "Query";
+
+    if (uniprotId) {
+      try {
+        const entry = await fetchUniProtEntry(uniprotId);
+        proteinSequence = entry.sequence?.value;
+        sequenceId = entry.primaryAccession || uniprotId;
+      } catch (error) {
+        return NextResponse.json(
+          {
+            error: `Failed to fetch UniProt sequence: ${
+              error instanceof Error ? error.message : "Unknown error"
+            }`,
+          },
+          { status: 400 }
+        );
+      }
+    } else {
+      const records = parseSequenceInput(String(sequence));
+
+      if (records.length > 1) {
+        return NextResponse.json(
+          {
+            error: `Input contains ${records.length} sequence records; search one sequence at a time`,
+          },
+          { status: 400 }
+        );
+      }
+
+      if (records[0]) {
+        proteinSequence = records[0].sequence;
+        const header = records[0].header;
+        sequenceId = header?.accession || header?.id || sequenceId;
+      }
+    }
+
+    const cleaned = prepareSequence(proteinSequence);
+    const hits = searchDatabase(cleaned, database, { maxHits, maxEvalue });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        query: { id: sequenceId, length: cleaned.length },
+        database: {
+          sequences: database.entries.length,
+          residues: database.residues,
+        },
+        hits,
+      },
+    });
+  } catch (error) {
+    if (error instanceof SequenceValidationError) {
+      return NextResponse.json(
+        { error: error.message, invalidResidues: error.invalidResidues },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: `Server error: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,5 @@
+import { MultipleAligner } from "@/components/multiple-aligner";
+
+export default function Msa() {
+  return <MultipleAligner />;
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import type { PairwiseAlignment } from "@/lib/alignment";
+
+const BLOCK_WIDTH = 60;
+
+interface AlignmentViewProps {
+  alignment: PairwiseAlignment;
+  queryLabel: string;
+  targetLabel: string;
+}
+
+interface AlignmentBlock {
+  rowA: string;
+  rowB: string;
+  markers: string;
+  // Residue numbers of the first and last residue in each row (0 if all gaps)
+  fromA: number;
+  toA: number;
+  fromB: number;
+  toB: number;
+}
+
+/**
+ * Split the gapped rows into fixed-width blocks with residue numbering
+ */
+function toBlocks(alignment: PairwiseAlignment): AlignmentBlock[] {
+  const blocks: AlignmentBlock[] = [];
+  let nextA = alignment.startA;
+  let nextB = alignment.startB;
+
+  for (let i = 0; i < alignment.alignedA.length; i += BLOCK_WIDTH) {
+    const rowA = alignment.alignedA.slice(i, i + BLOCK_WIDTH);
+    const rowB = alignment.alignedB.slice(i, i + BLOCK_WIDTH);
+    const residuesA = rowA.replace(/-/g, "").length;
+    const residuesB = rowB.replace(/-/g, "").length;
+
+    blocks.push({
+      rowA,
+      rowB,
+      markers: alignment.markers.slice(i, i + BLOCK_WIDTH),
+      fromA: residuesA ? nextA : 0,
+      toA: residuesA ? nextA + residuesA - 1 : 0,
+      fromB: residuesB ? nextB : 0,
+      toB: residuesB ? nextB + residuesB - 1 : 0,
+    });
+
+    nextA += residuesA;
+    nextB += residuesB;
+  }
+
+  return blocks;
+}
+
+/**
+ * Monospace alignment blocks with residue numbers and the marker line
+ */
+export function AlignmentText({
+  alignment,
+  queryLabel,
+  targetLabel,
+}: AlignmentViewProps) {
+  const blocks = toBlocks(alignment);
+  const labelWidth = Math.max(queryLabel.length, targetLabel.length, 6);
+  const numberWidth = String(Math.max(alignment.endA, alignment.endB)).length;
+
+  const position = (value: number) =>
+    (value ? String(value) : "").padStart(numberWidth);
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto rounded-md border border-border p-3">
+        <pre className="text-xs font-mono leading-relaxed">
+          {blocks
+            .map((block) =>
+              [
+                `${queryLabel.padEnd(labelWidth)} ${position(block.fromA)} ${
+                  block.rowA
+                } ${position(block.toA)}`,
+                `${"".padEnd(labelWidth)} ${"".padStart(numberWidth)} ${
+                  block.markers
+                }`,
+                `${targetLabel.padEnd(labelWidth)} ${position(block.fromB)} ${
+                  block.rowB
+                } ${position(block.toB)}`,
+              ].join("\n")
+            )
+            .join("\n\n")}
+        </pre>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        | identical · : similar (positive {alignment.matrix} score) · . mismatch
+      </p>
+    </div>
+  );
+}
+
+export function AlignmentView({
+  alignment,
+  queryLabel,
+  targetLabel,
+}: AlignmentViewProps) {
+  const stats = [
+    {
+      label: "Identity",
+      value: `${alignment.stats.identities}/${alignment.stats.length} (${alignment.stats.identity}%)`,
+    },
+    {
+      label: "Similarity",
+      value: `${alignment.stats.similarities}/${alignment.stats.length} (${alignment.stats.similarity}%)`,
+    },
+    {
+      label: "Gaps",
+      value: `${alignment.stats.gaps}/${alignment.stats.length} (${alignment.stats.gapPercent}%)`,
+    },
+    { label: "Score", value: String(alignment.score) },
+  ];
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="px-4 sm:px-6">
+        <div className="flex items-start justify-between gap-3 flex-wrap">
+          <div className="space-y-1.5">
+            <CardTitle className="text-base">Pairwise Alignment</CardTitle>
+
+            <CardDescription>
+              {alignment.matrix}, gap open {alignment.gapOpen}, gap extend{" "}
+              {alignment.gapExtend}
+            </CardDescription>
+          </div>
+
+          <Badge variant="outline" className="capitalize">
+            {alignment.mode === "semiglobal" ? "Semi-global" : alignment.mode}
+          </Badge>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4 px-4 sm:px-6">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {stats.map((stat) => (
+            <div key={stat.label} className="p-3 rounded-md bg-muted/50">
+              <p className="text-xs text-muted-foreground">{stat.label}</p>
+              <p className="text-sm font-medium">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+
+        {alignment.mode === "local" && (
+          <p className="text-xs text-muted-foreground">
+            Aligned region: {queryLabel} {alignment.startA}–{alignment.endA},{" "}
+            {targetLabel} {alignment.startB}–{alignment.endB}
+          </p>
+        )}
+
+        <AlignmentText
+          alignment={alignment}
+          queryLabel={queryLabel}
+          targetLabel={targetLabel}
+        />
+      </CardContent>
+    </Card>
+  );
+}
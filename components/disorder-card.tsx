@@ -0,0 +1,156 @@
+"use client";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ResidueTrack } from "./residue-track";
+import {
+  MIN_DISORDER_REGION_LENGTH,
+  type DisorderPrediction,
+} from "@/lib/disorder";
+import {
+  lowComplexityFraction,
+  SEG_EXTENSION,
+  SEG_TRIGGER,
+  SEG_WINDOW,
+  type LowComplexityRegion,
+} from "@/lib/low-complexity";
+
+interface DisorderCardProps {
+  sequence: string;
+  disorder: DisorderPrediction;
+  lowComplexity: LowComplexityRegion[];
+}
+
+export function DisorderCard({
+  sequence,
+  disorder,
+  lowComplexity,
+}: DisorderCardProps) {
+  const { chargeHydropathy } = disorder;
+  const lowComplexityMask = new Array<number>(sequence.length).fill(0);
+  for (const region of lowComplexity) {
+    for (let i = region.start - 1; i < region.end; i++) {
+      lowComplexityMask[i] = 1;
+    }
+  }
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="px-4 sm:px-6">
+        <CardTitle className="text-base">
+          Disorder &amp; Low Complexity
+        </CardTitle>
+
+        <CardDescription>
+          TOP-IDP and charge-hydropathy disorder scores; SEG low-complexity
+          regions (window {SEG_WINDOW}, {SEG_TRIGGER}/{SEG_EXTENSION} bits)
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4 px-4 sm:px-6">
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground font-medium">
+              DISORDERED
+            </p>
+
+            <p className="font-semibold">
+              {(disorder.fraction * 100).toFixed(1)}%
+            </p>
+
+            <p className="text-xs text-muted-foreground">
+              in regions of {MIN_DISORDER_REGION_LENGTH}+ residues
+            </p>
+          </div>
+
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground font-medium">
+              LOW COMPLEXITY
+            </p>
+
+            <p className="font-semibold">
+              {(
+                lowComplexityFraction(lowComplexity, sequence.length) * 100
+              ).toFixed(1)}
+              %
+            </p>
+
+            <p className="text-xs text-muted-foreground">
+              {lowComplexity.length} region
+              {lowComplexity.length === 1 ? "" : "s"}
+            </p>
+          </div>
+
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground font-medium">
+              CHARGE-HYDROPATHY
+            </p>
+
+            <p className="font-semibold">
+              {chargeHydropathy.disordered ? "Unfolded" : "Folded"}
+            </p>
+
+            <p className="text-xs text-muted-foreground font-mono">
+              ⟨H⟩ {chargeHydropathy.meanHydropathy.toFixed(3)} vs{" "}
+              {chargeHydropathy.boundary.toFixed(3)}
+            </p>
+          </div>
+        </div>
+
+        <ResidueTrack
+          sequence={sequence}
+          tracks={[
+            {
+              label: "Disorder",
+              description: "Per-residue disorder score (0-1)",
+              values: disorder.scores,
+              range: [0, 1],
+            },
+            {
+              label: "Low complexity",
+              description: "Residues inside SEG low-complexity regions",
+              values: lowComplexityMask,
+              range: [0, 1],
+            },
+          ]}
+        />
+
+        {(disorder.regions.length > 0 || lowComplexity.length > 0) && (
+          <div className="pt-3 border-t border-border space-y-2">
+            <p className="text-xs font-medium text-muted-foreground">REGIONS</p>
+
+            <div className="flex flex-wrap gap-1">
+              {disorder.regions.map((region) => (
+                <Badge
+                  key={`disorder-${region.start}`}
+                  variant="outline"
+                  className="text-xs font-mono"
+                >
+                  Disordered {region.start}–{region.end}
+                </Badge>
+              ))}
+
+              {lowComplexity.map((region) => (
+                <Badge
+                  key={`lc-${region.start}`}
+                  variant="outline"
+                  className="text-xs font-mono"
+                  title={region.sequence}
+                >
+                  Low complexity {region.start}–{region.end} (
+                  {region.entropy.toFixed(2)} bits)
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import type { DomainHit } from "@/lib/hmmer";
+
+interface DomainHitsCardProps {
+  length: number;
+  domains: DomainHit[];
+}
+
+// Bundled seed profiles use the domain (UniProt/start-end) as accession
+const PFAM_ACCESSION = /^PF\d{5}(\.\d+)?$/;
+
+const DOMAIN_COLORS = [
+  "var(--chart-1)",
+  "var(--chart-2)",
+  "var(--chart-3)",
+  "var(--chart-4)",
+  "var(--chart-5)",
+];
+
+export function DomainHitsCard({ length, domains }: DomainHitsCardProps) {
+  const families = [...new Set(domains.map((d) => d.accession))];
+  const color = (hit: DomainHit) =>
+    DOMAIN_COLORS[families.indexOf(hit.accession) % DOMAIN_COLORS.length];
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="px-4 sm:px-6">
+        <CardTitle className="text-base">Pfam Domains</CardTitle>
+
+        <CardDescription>
+          Profile HMM search against the local Pfam library (gathering
+          thresholds where available). Seed profiles are single-sequence
+          stand-ins for families and transfer no annotations
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4 px-4 sm:px-6">
+        {domains.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No significant domains found
+          </p>
+        ) : (
+          <>
+            <div className="relative h-6">
+              <div className="absolute inset-x-0 top-1/2 h-0.5 -translate-y-1/2 bg-border" />
+
+              {domains.map((hit) => (
+                <div
+                  key={`${hit.accession}-${hit.seqFrom}`}
+                  className="absolute top-0 h-6 rounded text-[10px] leading-6 text-center text-white truncate px-1"
+                  style={{
+                    left: `${((hit.seqFrom - 1) / length) * 100}%`,
+                    width: `${((hit.seqTo - hit.seqFrom + 1) / length) * 100}%`,
+                    background: color(hit),
+                  }}
+                  title={`${hit.name} ${hit.seqFrom}–${hit.seqTo}`}
+                >
+                  {hit.name}
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              {domains.map((hit) => (
+                <div
+                  key={`${hit.accession}-${hit.seqFrom}`}
+                  className="flex items-center justify-between gap-3 p-2 rounded bg-muted/50"
+                >
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span
+                      className="size-2.5 rounded-full shrink-0"
+                      style={{ background: color(hit) }}
+                    />
+
+                    {PFAM_ACCESSION.test(hit.accession) ? (
+                      <a
+                        href={`https://www.ebi.ac.uk/interpro/entry/pfam/${hit.accession.replace(
+                          /\.\d+$/,
+                          ""
+                        )}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-mono text-sm text-neutral-500 hover:underline shrink-0"
+                      >
+                        {hit.name}
+                      </a>
+                    ) : (
+                      <>
+                        <span
+                          className="font-mono text-sm text-neutral-500 shrink-0"
+                          title={hit.accession}
+                        >
+                          {hit.name}
+                        </span>
+
+                        <Badge variant="outline" className="text-xs shrink-0">
+                          Seed profile
+                        </Badge>
+                      </>
+                    )}
+
+                    <span className="text-sm text-muted-foreground truncate">
+                      {hit.description}
+                    </span>
+                  </div>
+
+                  <div className="text-right text-xs font-mono shrink-0">
+                    <div>
+                      {hit.seqFrom}–{hit.seqTo} (HMM {hit.hmmFrom}–{hit.hmmTo}/
+                      {hit.modelLength})
+                    </div>
+
+                    <div className="text-muted-foreground">
+                      {hit.score} bits · E {hit.evalue.toExponential(1)}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
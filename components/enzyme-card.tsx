@@ -0,0 +1,148 @@
+"use client";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { PredictionEvidenceList } from "./prediction-evidence";
+import type { EcPrediction } from "@/lib/ec-prediction";
+import { ecCovers } from "@/lib/enzyme";
+
+interface EnzymeCardProps {
+  predictions: EcPrediction[];
+  // EC numbers from the UniProt entry, when the query was a UniProt ID
+  uniprotEcNumbers?: string[];
+  accession?: string;
+}
+
+function ecLink(ec: string): string {
+  return `https://enzyme.expasy.org/EC/${ec}`;
+}
+
+export function EnzymeCard({
+  predictions,
+  uniprotEcNumbers,
+  accession,
+}: EnzymeCardProps) {
+  const confirmedBy = (prediction: EcPrediction) =>
+    (uniprotEcNumbers ?? []).filter((ec) => ecCovers(prediction.ec, ec));
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="px-4 sm:px-6">
+        <CardTitle className="text-base">Enzyme Classification</CardTitle>
+
+        <CardDescription>
+          EC numbers from active-site motifs and Pfam domains, plus numbers
+          transferred from ENZYME-annotated neighbours and homologs
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4 px-4 sm:px-6">
+        {predictions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No enzyme activity predicted
+          </p>
+        ) : (
+          predictions.map((prediction) => {
+            const confirmed = confirmedBy(prediction);
+
+            return (
+              <div
+                key={prediction.ec}
+                className="space-y-2 pb-4 border-b border-border last:border-0 last:pb-0"
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1 flex-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <a
+                        href={ecLink(prediction.ec)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-mono text-sm hover:underline"
+                      >
+                        EC {prediction.ec}
+                      </a>
+
+                      {prediction.name && (
+                        <span className="text-sm">{prediction.name}</span>
+                      )}
+
+                      {confirmed.length > 0 && (
+                        <Badge variant="default" className="text-xs">
+                          In UniProt
+                        </Badge>
+                      )}
+                    </div>
+
+                    {prediction.classPath.length > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        {prediction.classPath.join(" › ")}
+                      </p>
+                    )}
+                  </div>
+
+                  <span className="font-semibold shrink-0">
+                    {Math.round(prediction.confidence * 100)}%
+                  </span>
+                </div>
+
+                {prediction.reactions.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="text-xs font-medium text-muted-foreground">
+                      {prediction.reactions.length > 1
+                        ? "REACTIONS"
+                        : "REACTION"}
+                    </p>
+
+                    {prediction.reactions.map((reaction, i) => (
+                      <p key={i} className="text-sm font-mono break-words">
+                        {reaction}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                <PredictionEvidenceList evidence={prediction.evidence} />
+              </div>
+            );
+          })
+        )}
+
+        {uniprotEcNumbers && uniprotEcNumbers.length > 0 && (
+          <div className="pt-3 border-t border-border space-y-2">
+            <p className="text-xs font-medium text-muted-foreground">
+              UNIPROT EC NUMBERS{accession ? ` (${accession})` : ""}
+            </p>
+
+            <div className="flex flex-wrap gap-1">
+              {uniprotEcNumbers.map((ec) => (
+                <a
+                  key={ec}
+                  href={ecLink(ec)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  <Badge
+                    variant={
+                      predictions.some((p) => ecCovers(p.ec, ec))
+                        ? "default"
+                        : "outline"
+                    }
+                    className="text-xs font-mono"
+                  >
+                    {ec}
+                  </Badge>
+                </a>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
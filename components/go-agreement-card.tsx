@@ -0,0 +1,151 @@
+"use client";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import type { AgreementStatus, GoAgreement } from "@/lib/go-agreement";
+
+interface GoAgreementCardProps {
+  agreement: GoAgreement;
+}
+
+const STATUS_VARIANTS: Record<
+  AgreementStatus,
+  "default" | "secondary" | "outline"
+> = {
+  confirmed: "default",
+  related: "secondary",
+  novel: "outline",
+};
+
+function termLink(id: string): string {
+  return `https://www.ebi.ac.uk/QuickGO/term/${id}`;
+}
+
+export function GoAgreementCard({ agreement }: GoAgreementCardProps) {
+  const count = (status: AgreementStatus) =>
+    agreement.predictions.filter((p) => p.status === status).length;
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="px-4 sm:px-6">
+        <CardTitle className="text-base">Agreement with UniProt</CardTitle>
+
+        <CardDescription>
+          Predicted terms checked against the {agreement.curatedCount} GO
+          annotations of {agreement.accession}
+          {agreement.ontologyUsed
+            ? "; related terms follow is_a and part_of"
+            : "; exact matches only (install go-basic.obo for related terms)"}
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4 px-4 sm:px-6">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          {(
+            [
+              ["CONFIRMED", count("confirmed")],
+              ["RELATED", count("related")],
+              ["NOVEL", count("novel")],
+              ["MISSED", agreement.missed.length],
+            ] as const
+          ).map(([label, value]) => (
+            <div key={label} className="space-y-1">
+              <p className="text-xs text-muted-foreground font-medium">
+                {label}
+              </p>
+
+              <p className="font-semibold">{value}</p>
+            </div>
+          ))}
+        </div>
+
+        {agreement.predictions.length > 0 && (
+          <div className="pt-3 border-t border-border space-y-2">
+            <p className="text-xs font-medium text-muted-foreground">
+              PREDICTIONS
+            </p>
+
+            {agreement.predictions.map((prediction) => (
+              <div
+                key={prediction.id}
+                className="flex items-start justify-between gap-4"
+              >
+                <div className="space-y-1 flex-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <a
+                      href={termLink(prediction.id)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-xs font-mono hover:underline"
+                    >
+                      {prediction.id}
+                    </a>
+
+                    <span className="text-sm">{prediction.name}</span>
+                  </div>
+
+                  {prediction.relatedTo.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {prediction.relatedTo
+                        .map(
+                          (r) =>
+                            `${
+                              r.relation === "ancestor"
+                                ? "More general than"
+                                : "More specific than"
+                            } ${r.id} ${r.name}`
+                        )
+                        .join("; ")}
+                    </p>
+                  )}
+                </div>
+
+                <Badge
+                  variant={STATUS_VARIANTS[prediction.status]}
+                  className="text-xs"
+                >
+                  {prediction.status}
+                </Badge>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {agreement.missed.length > 0 && (
+          <div className="pt-3 border-t border-border space-y-2">
+            <p className="text-xs font-medium text-muted-foreground">
+              MISSED UNIPROT TERMS
+            </p>
+
+            <div className="flex flex-wrap gap-1">
+              {agreement.missed.map((term) => (
+                <a
+                  key={term.id}
+                  href={termLink(term.id)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  <Badge
+                    variant="outline"
+                    className="text-xs font-mono"
+                    title={`${term.aspect.replace(/_/g, " ")}${
+                      term.evidence ? `, ${term.evidence}` : ""
+                    }${term.source ? ` (${term.source})` : ""}`}
+                  >
+                    {term.id} {term.name}
+                  </Badge>
+                </a>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
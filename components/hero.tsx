@@ -16,6 +16,20 @@ export function Hero() {
         </div>
 
         <nav className="hidden sm:flex gap-6 text-sm">
+          <Link
+            href="/align"
+            className="text-muted-foreground hover:text-foreground transition"
+          >
+            Align
+          </Link>
+
+          <Link
+            href="/msa"
+            className="text-muted-foreground hover:text-foreground transition"
+          >
+            MSA
+          </Link>
+
           <Link
             href="/learn"
             className="text-muted-foreground hover:text-foreground transition"
@@ -0,0 +1,205 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceArea,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import {
+  HYDROPATHY_SCALES,
+  hydropathyProfile,
+  predictTransmembraneHelices,
+  type HydropathyScaleName,
+} from "@/lib/hydropathy";
+
+interface HydropathyPlotProps {
+  sequence: string;
+  // Scale used by the server for classification
+  scale: HydropathyScaleName;
+  // Excludes the signal peptide h-region from TM helices
+  signalPeptideEnd?: number;
+}
+
+const chartConfig = {
+  hydropathy: {
+    label: "Hydropathy",
+    color: "var(--chart-1)",
+  },
+} satisfies ChartConfig;
+
+export function HydropathyPlot({
+  sequence,
+  scale,
+  signalPeptideEnd,
+}: HydropathyPlotProps) {
+  const [selectedScale, setSelectedScale] = useState(scale);
+
+  // Profiles are cheap, so other scales are computed in the browser
+  const { data, profile, prediction } = useMemo(() => {
+    const profile = hydropathyProfile(sequence, selectedScale);
+    return {
+      profile,
+      prediction: predictTransmembraneHelices(sequence, selectedScale, {
+        signalPeptideEnd,
+      }),
+      data: profile.values.map((value, i) => ({
+        position: i + 1,
+        residue: sequence[i],
+        hydropathy: value,
+      })),
+    };
+  }, [sequence, selectedScale, signalPeptideEnd]);
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="px-4 sm:px-6">
+        <div className="flex items-start justify-between gap-3 flex-wrap">
+          <div className="space-y-1.5">
+            <CardTitle className="text-base">
+              Hydropathy &amp; Transmembrane Helices
+            </CardTitle>
+
+            <CardDescription>
+              {profile.window}-residue window average; shaded regions are
+              predicted membrane-spanning helices
+            </CardDescription>
+          </div>
+
+          <Select
+            value={selectedScale}
+            onValueChange={(v) => setSelectedScale(v as HydropathyScaleName)}
+          >
+            <SelectTrigger size="sm" className="w-52">
+              <SelectValue placeholder="Hydropathy scale" />
+            </SelectTrigger>
+
+            <SelectContent>
+              {Object.values(HYDROPATHY_SCALES).map((option) => (
+                <SelectItem key={option.name} value={option.name}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4 px-4 sm:px-6">
+        <ChartContainer
+          config={chartConfig}
+          className="aspect-auto h-56 w-full"
+        >
+          <LineChart data={data} margin={{ left: 0, right: 8, top: 8 }}>
+            <CartesianGrid vertical={false} />
+
+            <XAxis
+              dataKey="position"
+              type="number"
+              domain={[1, sequence.length]}
+              tickLine={false}
+              axisLine={false}
+            />
+
+            <YAxis tickLine={false} axisLine={false} width={36} />
+
+            {prediction.helices.map((helix) => (
+              <ReferenceArea
+                key={helix.start}
+                x1={helix.start}
+                x2={helix.end}
+                fill="var(--color-hydropathy)"
+                fillOpacity={0.12}
+              />
+            ))}
+
+            <ReferenceLine
+              y={profile.threshold}
+              strokeDasharray="4 4"
+              stroke="var(--muted-foreground)"
+            />
+
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) => {
+                    const point = payload?.[0]?.payload;
+                    return point ? `${point.residue}${point.position}` : "";
+                  }}
+                />
+              }
+            />
+
+            <Line
+              dataKey="hydropathy"
+              type="monotone"
+              stroke="var(--color-hydropathy)"
+              strokeWidth={1.5}
+              dot={false}
+              connectNulls={false}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ChartContainer>
+
+        {prediction.helices.length > 0 ? (
+          <div className="space-y-2">
+            <p className="text-sm">
+              <span className="font-medium">
+                {prediction.helices.length} predicted TM{" "}
+                {prediction.helices.length > 1 ? "helices" : "helix"}
+              </span>{" "}
+              <span className="text-muted-foreground">
+                · N-terminus{" "}
+                {prediction.nTerminus === "in"
+                  ? "cytoplasmic"
+                  : "non-cytoplasmic"}
+              </span>
+            </p>
+
+            <div className="flex flex-wrap gap-1">
+              {prediction.helices.map((helix) => (
+                <Badge
+                  key={helix.start}
+                  variant="outline"
+                  className="text-xs font-mono"
+                >
+                  {helix.start}–{helix.end} ({helix.orientation})
+                </Badge>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No transmembrane helices predicted with this scale
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
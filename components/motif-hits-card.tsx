@@ -0,0 +1,66 @@
+"use client";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import type { MotifHit } from "@/lib/prosite";
+
+interface MotifHitsCardProps {
+  motifs: MotifHit[];
+}
+
+export function MotifHitsCard({ motifs }: MotifHitsCardProps) {
+  return (
+    <Card className="border-border">
+      <CardHeader className="px-4 sm:px-6">
+        <CardTitle className="text-base">Sequence Motifs</CardTitle>
+
+        <CardDescription>
+          PROSITE pattern matches; frequent post-translational modification
+          sites are not scanned
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-2 px-4 sm:px-6">
+        {motifs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No PROSITE patterns matched
+          </p>
+        ) : (
+          motifs.map((hit) => (
+            <div
+              key={`${hit.id}-${hit.start}`}
+              className="flex items-center justify-between gap-3 p-2 rounded bg-muted/50"
+            >
+              <div className="flex items-center gap-2 min-w-0">
+                <a
+                  href={`https://prosite.expasy.org/${hit.id}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-mono text-sm text-neutral-500 hover:underline shrink-0"
+                >
+                  {hit.id}
+                </a>
+
+                <Badge variant="outline" className="text-xs">
+                  {hit.name}
+                </Badge>
+
+                <code className="text-xs font-mono truncate">{hit.match}</code>
+              </div>
+
+              <span className="text-xs font-mono text-muted-foreground shrink-0">
+                {hit.start}–{hit.end}
+              </span>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,231 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { MultipleAlignment } from "@/lib/msa";
+
+interface MsaViewerProps {
+  alignment: MultipleAlignment;
+}
+
+type ConservationScore = "jsd" | "shannon";
+
+const SCORE_LABELS: Record<ConservationScore, string> = {
+  jsd: "Jensen-Shannon divergence",
+  shannon: "Shannon entropy",
+};
+
+// Clustal-style residue classes
+const RESIDUE_CLASSES = [
+  {
+    label: "Hydrophobic",
+    residues: "AILMFWV",
+    className: "bg-blue-200 dark:bg-blue-900/60",
+  },
+  {
+    label: "Positive",
+    residues: "KR",
+    className: "bg-red-200 dark:bg-red-900/60",
+  },
+  {
+    label: "Negative",
+    residues: "DE",
+    className: "bg-fuchsia-200 dark:bg-fuchsia-900/60",
+  },
+  {
+    label: "Polar",
+    residues: "NQST",
+    className: "bg-green-200 dark:bg-green-900/60",
+  },
+  {
+    label: "Aromatic",
+    residues: "HY",
+    className: "bg-cyan-200 dark:bg-cyan-900/60",
+  },
+  {
+    label: "Cysteine",
+    residues: "C",
+    className: "bg-pink-200 dark:bg-pink-900/60",
+  },
+  {
+    label: "Glycine",
+    residues: "G",
+    className: "bg-orange-200 dark:bg-orange-900/60",
+  },
+  {
+    label: "Proline",
+    residues: "P",
+    className: "bg-yellow-200 dark:bg-yellow-900/60",
+  },
+];
+
+const CELL = "inline-block w-3 text-center";
+
+function residueClass(residue: string): string {
+  return (
+    RESIDUE_CLASSES.find((c) => c.residues.includes(residue))?.className ?? ""
+  );
+}
+
+export function MsaViewer({ alignment }: MsaViewerProps) {
+  const [score, setScore] = useState<ConservationScore>("jsd");
+
+  const values = alignment.conservation.map((column) => column[score]);
+  const max = Math.max(...values, 1e-9);
+  const labelWidth = Math.max(...alignment.ids.map((id) => id.length), 9);
+  const columns = Array.from({ length: alignment.length }, (_, i) => i);
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="px-4 sm:px-6">
+        <div className="flex items-start justify-between gap-3 flex-wrap">
+          <div className="space-y-1.5">
+            <CardTitle className="text-base">Multiple Alignment</CardTitle>
+
+            <CardDescription>
+              {alignment.ids.length} sequences · {alignment.length} columns
+            </CardDescription>
+          </div>
+
+          <Select
+            value={score}
+            onValueChange={(v) => setScore(v as ConservationScore)}
+          >
+            <SelectTrigger size="sm" className="w-56">
+              <SelectValue placeholder="Conservation score" />
+            </SelectTrigger>
+
+            <SelectContent>
+              {Object.entries(SCORE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4 px-4 sm:px-6">
+        <ScrollArea className="w-full rounded-md border border-border">
+          <div className="p-3 font-mono text-xs leading-4 w-max">
+            <div className="flex items-end h-8">
+              <span
+                className="shrink-0 text-muted-foreground"
+                style={{ width: `${labelWidth + 1}ch` }}
+              >
+                Conserv.
+              </span>
+
+              {columns.map((c) => (
+                <span key={c} className={`${CELL} h-full flex items-end`}>
+                  <span
+                    className="block w-full bg-primary/70"
+                    style={{ height: `${(values[c] / max) * 100}%` }}
+                    title={`Column ${c + 1}: ${values[c].toFixed(3)} (${Math.round(
+                      alignment.conservation[c].gapFraction * 100
+                    )}% gaps)`}
+                  />
+                </span>
+              ))}
+            </div>
+
+            <div className="flex text-muted-foreground">
+              <span
+                className="shrink-0"
+                style={{ width: `${labelWidth + 1}ch` }}
+              />
+
+              {columns.map((c) => (
+                <span key={c} className={`${CELL} relative h-4`}>
+                  {(c + 1) % 10 === 0 && (
+                    <span className="absolute right-0">{c + 1}</span>
+                  )}
+                </span>
+              ))}
+            </div>
+
+            {alignment.rows.map((row, r) => (
+              <div key={r} className="flex">
+                <span
+                  className="shrink-0 truncate"
+                  style={{ width: `${labelWidth + 1}ch` }}
+                  title={alignment.ids[r]}
+                >
+                  {alignment.ids[r]}
+                </span>
+
+                {row.split("").map((residue, c) => (
+                  <span
+                    key={c}
+                    className={`${CELL} ${
+                      residue === "-"
+                        ? "text-muted-foreground"
+                        : residueClass(residue)
+                    }`}
+                  >
+                    {residue}
+                  </span>
+                ))}
+              </div>
+            ))}
+
+            <div className="flex font-semibold">
+              <span
+                className="shrink-0 text-muted-foreground"
+                style={{ width: `${labelWidth + 1}ch` }}
+              >
+                Consensus
+              </span>
+
+              {alignment.consensus.split("").map((residue, c) => (
+                <span key={c} className={CELL}>
+                  {residue}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <ScrollBar orientation="horizontal" />
+        </ScrollArea>
+
+        <div className="flex flex-wrap gap-2">
+          {RESIDUE_CLASSES.map((c) => (
+            <Badge
+              key={c.label}
+              variant="outline"
+              className={`text-xs ${c.className}`}
+            >
+              {c.label} · {c.residues}
+            </Badge>
+          ))}
+        </div>
+
+        <details className="text-xs">
+          <summary className="cursor-pointer text-muted-foreground">
+            Guide tree (Newick)
+          </summary>
+
+          <code className="block mt-2 font-mono break-all text-muted-foreground">
+            {alignment.guideTree}
+          </code>
+        </details>
+      </CardContent>
+    </Card>
+  );
+}
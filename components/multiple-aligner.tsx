@@ -0,0 +1,220 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, AlertCircle } from "lucide-react";
+import { MsaViewer } from "./msa-viewer";
+import { DEFAULT_GAP_EXTEND, DEFAULT_GAP_OPEN } from "@/lib/alignment";
+import { MAX_MSA_SEQUENCES, type MultipleAlignment } from "@/lib/msa";
+import {
+  DEFAULT_SUBSTITUTION_MATRIX,
+  SUBSTITUTION_MATRICES,
+  type SubstitutionMatrixName,
+} from "@/lib/substitution-matrices";
+import Link from "next/link";
+
+export function MultipleAligner() {
+  const [fasta, setFasta] = useState("");
+  const [uniprotIds, setUniprotIds] = useState("");
+  const [matrix, setMatrix] = useState<SubstitutionMatrixName>(
+    DEFAULT_SUBSTITUTION_MATRIX
+  );
+  const [gapOpen, setGapOpen] = useState(String(DEFAULT_GAP_OPEN));
+  const [gapExtend, setGapExtend] = useState(String(DEFAULT_GAP_EXTEND));
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [alignment, setAlignment] = useState<MultipleAlignment | null>(null);
+
+  const ids = uniprotIds
+    .split(/[\s,;]+/)
+    .map((id) => id.trim())
+    .filter(Boolean);
+  const hasInput = fasta.trim() !== "" || ids.length > 0;
+
+  const handleAlign = async () => {
+    if (!hasInput || isLoading) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/msa", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          fasta,
+          uniprotIds: ids,
+          matrix,
+          gapOpen: Number(gapOpen),
+          gapExtend: Number(gapExtend),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Alignment failed");
+      }
+
+      setAlignment(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="pb-12">
+      <div className="mb-8">
+        <Button
+          asChild
+          variant="ghost"
+          size="sm"
+          className="text-muted-foreground hover:text-foreground"
+        >
+          <Link href={"/"}>
+            <ArrowLeft className="size-4 mr-2" />
+            Back to Home
+          </Link>
+        </Button>
+      </div>
+
+      <div className="max-w-5xl mx-auto space-y-8">
+        <div className="space-y-2">
+          <h1 className="text-2xl sm:text-3xl font-bold">
+            Multiple Sequence Alignment
+          </h1>
+
+          <p className="text-sm sm:text-base text-muted-foreground">
+            Progressively align a protein family and inspect column conservation
+          </p>
+        </div>
+
+        {error && (
+          <Card className="border-destructive bg-destructive/5">
+            <CardContent className="flex gap-3 px-4 sm:px-6">
+              <AlertCircle className="size-5 text-destructive shrink-0 mt-0.5" />
+
+              <div>
+                <p className="font-medium text-foreground">Error</p>
+
+                <p className="text-sm text-muted-foreground">{error}</p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="border-border">
+          <CardHeader className="px-4 sm:px-6">
+            <CardTitle>Sequences</CardTitle>
+
+            <CardDescription>
+              Paste FASTA records and/or list UniProt accessions (2 to{" "}
+              {MAX_MSA_SEQUENCES} sequences in total)
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent className="space-y-6 px-4 sm:px-6">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">FASTA</label>
+
+              <textarea
+                value={fasta}
+                onChange={(e) => setFasta(e.target.value)}
+                placeholder=">seq1&#10;MVLSPADKTNVKAAWGKVGAHAGEYGAEALERMFLSFPTTKTYFPHF..."
+                className="w-full h-40 p-3 rounded-md border border-input bg-background text-foreground font-mono text-sm resize-none focus:outline-none focus:ring-2 focus:ring-accent"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">UniProt IDs</label>
+
+              <input
+                type="text"
+                value={uniprotIds}
+                onChange={(e) => setUniprotIds(e.target.value.toUpperCase())}
+                placeholder="e.g., P69905, P68871, P02144"
+                className="w-full px-3 py-2 rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-accent"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Matrix</label>
+
+                <Select
+                  value={matrix}
+                  onValueChange={(v) => setMatrix(v as SubstitutionMatrixName)}
+                >
+                  <SelectTrigger size="sm" className="w-full">
+                    <SelectValue placeholder="Matrix" />
+                  </SelectTrigger>
+
+                  <SelectContent>
+                    {Object.keys(SUBSTITUTION_MATRICES).map((name) => (
+                      <SelectItem key={name} value={name}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Gap open</label>
+
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={gapOpen}
+                  onChange={(e) => setGapOpen(e.target.value)}
+                  className="w-full px-3 py-1.5 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-accent"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Gap extend</label>
+
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={gapExtend}
+                  onChange={(e) => setGapExtend(e.target.value)}
+                  className="w-full px-3 py-1.5 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-accent"
+                />
+              </div>
+            </div>
+
+            <Button
+              onClick={handleAlign}
+              disabled={!hasInput || isLoading}
+              className="w-full text-white"
+              size="lg"
+            >
+              {isLoading ? "Aligning..." : "Align Sequences"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {alignment && <MsaViewer alignment={alignment} />}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,314 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, AlertCircle } from "lucide-react";
+import { AlignmentView } from "./alignment-view";
+import {
+  ALIGNMENT_MODES,
+  DEFAULT_GAP_EXTEND,
+  DEFAULT_GAP_OPEN,
+  type AlignmentMode,
+  type PairwiseAlignment,
+} from "@/lib/alignment";
+import {
+  DEFAULT_SUBSTITUTION_MATRIX,
+  SUBSTITUTION_MATRICES,
+  type SubstitutionMatrixName,
+} from "@/lib/substitution-matrices";
+import Link from "next/link";
+
+const MODE_LABELS: Record<AlignmentMode, string> = {
+  global: "Global (Needleman-Wunsch)",
+  local: "Local (Smith-Waterman)",
+  semiglobal: "Semi-global (free end gaps)",
+};
+
+interface SequenceSource {
+  type: "sequence" | "uniprot";
+  sequence: string;
+  uniprotId: string;
+}
+
+interface AlignmentResults {
+  query: { id: string; description?: string; length: number };
+  target: { id: string; description?: string; length: number };
+  alignment: PairwiseAlignment;
+}
+
+interface SequenceFieldProps {
+  label: string;
+  source: SequenceSource;
+  onChange: (source: SequenceSource) => void;
+}
+
+function SequenceField({ label, source, onChange }: SequenceFieldProps) {
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">{label}</label>
+
+      <Tabs
+        value={source.type}
+        onValueChange={(v) =>
+          onChange({ ...source, type: v as SequenceSource["type"] })
+        }
+      >
+        <TabsList className="w-full flex">
+          <TabsTrigger value="sequence">Raw Sequence</TabsTrigger>
+
+          <TabsTrigger value="uniprot">UniProt ID</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="sequence">
+          <textarea
+            value={source.sequence}
+            onChange={(e) => onChange({ ...source, sequence: e.target.value })}
+            placeholder="Protein sequence or a single FASTA record"
+            className="w-full h-24 p-3 rounded-md border border-input bg-background text-foreground resize-none focus:outline-none focus:ring-2 focus:ring-accent"
+          />
+        </TabsContent>
+
+        <TabsContent value="uniprot">
+          <input
+            type="text"
+            value={source.uniprotId}
+            onChange={(e) =>
+              onChange({ ...source, uniprotId: e.target.value.toUpperCase() })
+            }
+            placeholder="e.g., P68871"
+            className="w-full px-3 py-2 rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-accent"
+          />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
+
+const EMPTY_SOURCE: SequenceSource = {
+  type: "sequence",
+  sequence: "",
+  uniprotId: "",
+};
+
+export function PairwiseAligner() {
+  const [query, setQuery] = useState<SequenceSource>(EMPTY_SOURCE);
+  const [target, setTarget] = useState<SequenceSource>(EMPTY_SOURCE);
+  const [mode, setMode] = useState<AlignmentMode>("global");
+  const [matrix, setMatrix] = useState<SubstitutionMatrixName>(
+    DEFAULT_SUBSTITUTION_MATRIX
+  );
+  const [gapOpen, setGapOpen] = useState(String(DEFAULT_GAP_OPEN));
+  const [gapExtend, setGapExtend] = useState(String(DEFAULT_GAP_EXTEND));
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [results, setResults] = useState<AlignmentResults | null>(null);
+
+  const hasInput = (source: SequenceSource) =>
+    source.type === "sequence"
+      ? source.sequence.trim() !== ""
+      : source.uniprotId.trim() !== "";
+
+  const handleAlign = async () => {
+    if (!hasInput(query) || !hasInput(target) || isLoading) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/align", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...(query.type === "sequence"
+            ? { query: query.sequence }
+            : { queryUniprotId: query.uniprotId.trim() }),
+          ...(target.type === "sequence"
+            ? { target: target.sequence }
+            : { targetUniprotId: target.uniprotId.trim() }),
+          mode,
+          matrix,
+          gapOpen: Number(gapOpen),
+          gapExtend: Number(gapExtend),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Alignment failed");
+      }
+
+      setResults(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "An error occurred");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="pb-12">
+      <div className="mb-8">
+        <Button
+          asChild
+          variant="ghost"
+          size="sm"
+          className="text-muted-foreground hover:text-foreground"
+        >
+          <Link href={"/"}>
+            <ArrowLeft className="size-4 mr-2" />
+            Back to Home
+          </Link>
+        </Button>
+      </div>
+
+      <div className="max-w-4xl mx-auto space-y-8">
+        <div className="space-y-2">
+          <h1 className="text-2xl sm:text-3xl font-bold">Pairwise Alignment</h1>
+
+          <p className="text-sm sm:text-base text-muted-foreground">
+            Compare a query against its UniProt entry or a homolog
+          </p>
+        </div>
+
+        {error && (
+          <Card className="border-destructive bg-destructive/5">
+            <CardContent className="flex gap-3 px-4 sm:px-6">
+              <AlertCircle className="size-5 text-destructive shrink-0 mt-0.5" />
+
+              <div>
+                <p className="font-medium text-foreground">Error</p>
+
+                <p className="text-sm text-muted-foreground">{error}</p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="border-border">
+          <CardHeader className="px-4 sm:px-6">
+            <CardTitle>Sequences</CardTitle>
+
+            <CardDescription>
+              Paste sequences or fetch them from UniProt
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent className="space-y-6 px-4 sm:px-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <SequenceField label="Query" source={query} onChange={setQuery} />
+
+              <SequenceField
+                label="Target"
+                source={target}
+                onChange={setTarget}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Mode</label>
+
+                <Select
+                  value={mode}
+                  onValueChange={(v) => setMode(v as AlignmentMode)}
+                >
+                  <SelectTrigger size="sm" className="w-full">
+                    <SelectValue placeholder="Mode" />
+                  </SelectTrigger>
+
+                  <SelectContent>
+                    {ALIGNMENT_MODES.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {MODE_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Matrix</label>
+
+                <Select
+                  value={matrix}
+                  onValueChange={(v) => setMatrix(v as SubstitutionMatrixName)}
+                >
+                  <SelectTrigger size="sm" className="w-full">
+                    <SelectValue placeholder="Matrix" />
+                  </SelectTrigger>
+
+                  <SelectContent>
+                    {Object.keys(SUBSTITUTION_MATRICES).map((name) => (
+                      <SelectItem key={name} value={name}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Gap open</label>
+
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={gapOpen}
+                  onChange={(e) => setGapOpen(e.target.value)}
+                  className="w-full px-3 py-1.5 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-accent"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Gap extend</label>
+
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={gapExtend}
+                  onChange={(e) => setGapExtend(e.target.value)}
+                  className="w-full px-3 py-1.5 text-sm rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-accent"
+                />
+              </div>
+            </div>
+
+            <Button
+              onClick={handleAlign}
+              disabled={!hasInput(query) || !hasInput(target) || isLoading}
+              className="w-full text-white"
+              size="lg"
+            >
+              {isLoading ? "Aligning..." : "Align Sequences"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {results && (
+          <AlignmentView
+            alignment={results.alignment}
+            queryLabel={results.query.id}
+            targetLabel={results.target.id}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import { ChevronDown } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  ECO_LABELS,
+  type EvidenceKind,
+  type PredictionEvidence,
+} from "@/lib/evidence";
+
+interface PredictionEvidenceProps {
+  evidence: PredictionEvidence[];
+}
+
+const KIND_LABELS: Record<EvidenceKind, string> = {
+  rule: "Rule",
+  statistic: "Statistic",
+  motif: "Motif",
+  domain: "Domain",
+  neighbour: "Neighbour",
+  homolog: "Homolog",
+  model: "Model",
+  uniprot: "UniProt",
+};
+
+function evidenceLink(item: PredictionEvidence): string | null {
+  if (!item.accession) return null;
+  switch (item.kind) {
+    case "motif":
+      return `https://prosite.expasy.org/${item.accession}`;
+    case "domain":
+      return `https://www.ebi.ac.uk/interpro/entry/pfam/${item.accession}`;
+    case "neighbour":
+    case "homolog":
+    case "uniprot":
+      return `https://www.uniprot.org/uniprotkb/${item.accession}`;
+    default:
+      return null;
+  }
+}
+
+export function PredictionEvidenceList({ evidence }: PredictionEvidenceProps) {
+  if (evidence.length === 0) return null;
+
+  return (
+    <Collapsible className="group space-y-2">
+      <CollapsibleTrigger className="flex items-center gap-1 text-sm font-medium hover:underline">
+        <ChevronDown className="size-4 transition-transform group-data-[state=open]:rotate-180" />
+        Why this prediction?
+      </CollapsibleTrigger>
+
+      <CollapsibleContent>
+        <ul className="space-y-1.5">
+          {evidence.map((item, i) => {
+            const href = evidenceLink(item);
+
+            return (
+              <li key={i} className="flex items-start gap-2 text-xs">
+                <Badge variant="outline" className="text-xs shrink-0">
+                  {KIND_LABELS[item.kind]}
+                </Badge>
+
+                <span className="flex-1 text-muted-foreground">
+                  {href ? (
+                    <a
+                      href={href}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="hover:underline"
+                    >
+                      {item.label}
+                    </a>
+                  ) : (
+                    item.label
+                  )}
+                </span>
+
+                <code
+                  className="font-mono text-muted-foreground shrink-0"
+                  title={ECO_LABELS[item.eco]}
+                >
+                  {item.eco}
+                </code>
+              </li>
+            );
+          })}
+        </ul>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  chargeAtPH,
+  INSTABILITY_THRESHOLD,
+  type ProteinProperties,
+} from "@/lib/protein-properties";
+
+interface ProteinPropertiesCardProps {
+  sequence: string;
+  properties: ProteinProperties;
+}
+
+export function ProteinPropertiesCard({
+  sequence,
+  properties,
+}: ProteinPropertiesCardProps) {
+  const [pH, setPH] = useState(properties.charge.pH);
+  const charge =
+    pH === properties.charge.pH
+      ? properties.charge.value
+      : chargeAtPH(sequence, pH);
+
+  const rows = [
+    {
+      label: "Molecular weight",
+      value: `${properties.molecularWeight.toLocaleString()} Da`,
+      hint: `Monoisotopic ${properties.monoisotopicMass.toLocaleString()} Da`,
+    },
+    {
+      label: "Theoretical pI",
+      value: properties.isoelectricPoint.toFixed(2),
+    },
+    {
+      label: "GRAVY",
+      value: properties.gravy.toFixed(3),
+      hint:
+        properties.gravy > 0 ? "Hydrophobic overall" : "Hydrophilic overall",
+    },
+    {
+      label: "Aliphatic index",
+      value: properties.aliphaticIndex.toFixed(2),
+      hint: "Thermostability indicator",
+    },
+    {
+      label: "Aromaticity",
+      value: properties.aromaticity.toFixed(4),
+      hint: "Relative frequency of F, W, Y",
+    },
+    {
+      label: "Ext. coefficient (M⁻¹ cm⁻¹)",
+      value: properties.extinctionCoefficient.cystines.toLocaleString(),
+      hint: `Reduced Cys ${properties.extinctionCoefficient.reduced.toLocaleString()} · Abs 0.1% ${properties.extinctionCoefficient.absorbanceCystines}`,
+    },
+  ];
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="px-4 sm:px-6">
+        <CardTitle className="text-base">Physicochemical Properties</CardTitle>
+
+        <CardDescription>
+          ProtParam-style parameters computed from the sequence
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4 px-4 sm:px-6">
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {rows.map((row) => (
+            <div key={row.label} className="bg-muted/50 rounded p-2 space-y-1">
+              <p className="text-xs text-muted-foreground">{row.label}</p>
+
+              <p className="font-mono font-semibold text-sm">{row.value}</p>
+
+              {row.hint && (
+                <p className="text-xs text-muted-foreground">{row.hint}</p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 flex-wrap">
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Instability index</span>
+
+            <span className="font-mono font-semibold">
+              {properties.instabilityIndex.toFixed(2)}
+            </span>
+
+            <Badge variant={properties.unstable ? "destructive" : "secondary"}>
+              {properties.unstable ? "Unstable" : "Stable"}
+            </Badge>
+          </div>
+
+          <span className="text-xs text-muted-foreground">
+            Threshold {INSTABILITY_THRESHOLD}
+          </span>
+        </div>
+
+        <div className="pt-3 border-t border-border flex items-center gap-3 flex-wrap text-sm">
+          <label htmlFor="charge-ph" className="text-muted-foreground">
+            Net charge at pH
+          </label>
+
+          <input
+            id="charge-ph"
+            type="number"
+            min={0}
+            max={14}
+            step={0.1}
+            value={pH}
+            onChange={(e) => {
+              const value = Number(e.target.value);
+              if (value >= 0 && value <= 14) setPH(value);
+            }}
+            className="w-20 px-2 py-1 rounded-md border border-input bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-accent"
+          />
+
+          <span className="font-mono font-semibold">
+            {charge > 0 ? "+" : ""}
+            {charge.toFixed(2)}
+          </span>
+        </div>
+
+        {properties.unknownResidues > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {properties.unknownResidues} ambiguous or non-standard residues were
+            excluded from these calculations
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+interface ResidueTrackProps {
+  sequence: string;
+  tracks: {
+    label: string;
+    description?: string;
+    values: number[];
+    // Fixed colour scale; defaults to the track's own [min, max]
+    range?: [number, number];
+  }[];
+}
+
+const CELL_WIDTH = 10;
+const ROW_HEIGHT = 16;
+const LABEL_WIDTH = 110;
+
+/**
+ * Sequence-aligned heat strips, one row per track
+ * Values are scaled per track to its range, or the [min, max] of the track
+ */
+export function ResidueTrack({ sequence, tracks }: ResidueTrackProps) {
+  const residues = sequence.split("");
+  const width = LABEL_WIDTH + residues.length * CELL_WIDTH;
+  const height = ROW_HEIGHT * (tracks.length + 2);
+
+  return (
+    <div className="overflow-x-auto rounded border border-border bg-background">
+      <svg
+        width={width}
+        height={height}
+        className="text-muted-foreground"
+        role="img"
+        aria-label="Per-residue tracks"
+      >
+        {residues.map((residue, i) =>
+          (i + 1) % 10 === 0 ? (
+            <text
+              key={`tick-${i}`}
+              x={LABEL_WIDTH + i * CELL_WIDTH + CELL_WIDTH / 2}
+              y={ROW_HEIGHT - 4}
+              textAnchor="middle"
+              fontSize={9}
+              fill="currentColor"
+            >
+              {i + 1}
+            </text>
+          ) : null
+        )}
+
+        {tracks.map((track, row) => {
+          const [min, max] = track.range ?? [
+            Math.min(...track.values),
+            Math.max(...track.values),
+          ];
+          const span = max - min || 1;
+          const y = ROW_HEIGHT * (row + 1);
+
+          return (
+            <g key={track.label}>
+              <text
+                x={4}
+                y={y + ROW_HEIGHT - 4}
+                fontSize={10}
+                fill="currentColor"
+              >
+                <title>{track.description || track.label}</title>
+                {track.label}
+              </text>
+
+              {track.values.map((value, i) => (
+                <rect
+                  key={i}
+                  x={LABEL_WIDTH + i * CELL_WIDTH}
+                  y={y + 1}
+                  width={CELL_WIDTH}
+                  height={ROW_HEIGHT - 2}
+                  className="fill-blue-600 dark:fill-blue-400"
+                  fillOpacity={0.08 + 0.92 * ((value - min) / span)}
+                >
+                  <title>{`${residues[i] ?? ""}${i + 1} · ${
+                    track.label
+                  }: ${value.toFixed(3)}`}</title>
+                </rect>
+              ))}
+            </g>
+          );
+        })}
+
+        {residues.map((residue, i) => (
+          <text
+            key={`residue-${i}`}
+            x={LABEL_WIDTH + i * CELL_WIDTH + CELL_WIDTH / 2}
+            y={height - 4}
+            textAnchor="middle"
+            fontSize={9}
+            fontFamily="monospace"
+            fill="currentColor"
+          >
+            {residue}
+          </text>
+        ))}
+      </svg>
+    </div>
+  );
+}
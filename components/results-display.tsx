@@ -13,36 +13,90 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { ArrowLeft, Download, ExternalLink, Copy, Check } from "lucide-react";
 import { UniProtMetadataPanel } from "./uniprot-metadata-panel";
+import { ResidueTrack } from "./residue-track";
+import { ProteinPropertiesCard } from "./protein-properties-card";
+import { HydropathyPlot } from "./hydropathy-plot";
+import { TargetingCard } from "./targeting-card";
+import { SecondaryStructureCard } from "./secondary-structure-card";
+import { DisorderCard } from "./disorder-card";
+import { MotifHitsCard } from "./motif-hits-card";
+import { DomainHitsCard } from "./domain-hits-card";
+import { SimilarProteinsCard } from "./similar-proteins-card";
+import { PredictionEvidenceList } from "./prediction-evidence";
+import { GoAgreementCard } from "./go-agreement-card";
+import { EnzymeCard } from "./enzyme-card";
 import type {
   ClassificationResult,
   FunctionalCategory,
 } from "@/lib/classification-engine";
 import type { ParsedUniProtData } from "@/lib/uniprot-parser";
 import type { extractEmbeddingFeatures } from "@/lib/esm2-embeddings";
+import type { ResidueTrack as ResidueTrackData } from "@/lib/residue-tracks";
+import type { ProteinProperties } from "@/lib/protein-properties";
+import type { HydropathyScaleName } from "@/lib/hydropathy";
+import { TARGETING_THRESHOLD, type TargetingPrediction } from "@/lib/targeting";
+import type { SecondaryStructurePrediction } from "@/lib/secondary-structure";
+import type { DisorderPrediction } from "@/lib/disorder";
+import type { LowComplexityRegion } from "@/lib/low-complexity";
+import type { MotifHit } from "@/lib/prosite";
+import type { DomainHit } from "@/lib/hmmer";
+import type { HomologHit } from "@/lib/homology-search";
+import type { GoAgreement } from "@/lib/go-agreement";
+import type { EcPrediction } from "@/lib/ec-prediction";
 
 interface ResultsDisplayProps {
   results: ClassificationResult;
   uniprotData?: ParsedUniProtData;
+  agreement?: GoAgreement;
   embeddingFeatures?: ReturnType<typeof extractEmbeddingFeatures>;
   embeddingStats?: {
     dimension: number;
     layer: number;
+    layers?: number[];
+    model?: string;
     mean: number;
     std: number;
     range: [number, number];
   };
+  residueTracks?: ResidueTrackData[];
+  properties?: ProteinProperties;
+  hydropathyScale?: HydropathyScaleName;
+  targeting?: TargetingPrediction;
+  secondaryStructure?: SecondaryStructurePrediction;
+  disorder?: DisorderPrediction;
+  lowComplexity?: LowComplexityRegion[];
+  motifs?: MotifHit[];
+  domains?: DomainHit[];
+  homologs?: HomologHit[];
+  ecNumbers?: EcPrediction[];
   onBack: () => void;
 }
 
 export function ResultsDisplay({
   results,
   uniprotData,
+  agreement,
   embeddingFeatures,
   embeddingStats,
+  residueTracks,
+  properties,
+  hydropathyScale,
+  targeting,
+  secondaryStructure,
+  disorder,
+  lowComplexity,
+  motifs,
+  domains,
+  homologs,
+  ecNumbers,
   onBack,
 }: ResultsDisplayProps) {
   const [copiedId, setCopiedId] = useState<string | null>(null);
 
+  // Enzyme tab: predicted EC numbers or, for UniProt input, curated ones
+  const showEnzyme =
+    (ecNumbers?.length ?? 0) > 0 || (uniprotData?.ecNumbers?.length ?? 0) > 0;
+
   const copyToClipboard = (text: string, id: string) => {
     navigator.clipboard.writeText(text);
     setCopiedId(id);
@@ -53,6 +107,17 @@ export function ResultsDisplay({
     const exportData = {
       classification: results,
       uniprotData: uniprotData,
+      agreement,
+      properties,
+      targeting,
+      secondaryStructure,
+      disorder,
+      lowComplexity,
+      motifs,
+      domains,
+      homologs,
+      ecNumbers,
+      residueTracks,
       exportDate: new Date().toISOString(),
     };
     const json = JSON.stringify(exportData, null, 2);
@@ -91,29 +156,263 @@ export function ResultsDisplay({
       );
     }
 
+    if (properties) {
+      rows.push(
+        [],
+        ["PHYSICOCHEMICAL PROPERTIES"],
+        ["Molecular Weight (Da)", properties.molecularWeight.toString()],
+        ["Theoretical pI", properties.isoelectricPoint.toString()],
+        [
+          `Net Charge (pH ${properties.charge.pH})`,
+          properties.charge.value.toString(),
+        ],
+        [
+          "Extinction Coefficient (cystines)",
+          properties.extinctionCoefficient.cystines.toString(),
+        ],
+        [
+          "Extinction Coefficient (reduced)",
+          properties.extinctionCoefficient.reduced.toString(),
+        ],
+        ["GRAVY", properties.gravy.toString()],
+        ["Instability Index", properties.instabilityIndex.toString()],
+        ["Aliphatic Index", properties.aliphaticIndex.toString()],
+        ["Aromaticity", properties.aromaticity.toString()]
+      );
+    }
+
+    if (targeting) {
+      rows.push(
+        [],
+        ["TARGETING SIGNALS"],
+        ["Signal", "Score", "Position"],
+        [
+          "Signal peptide",
+          (targeting.signalPeptide?.score ?? 0).toString(),
+          targeting.signalPeptide
+            ? `cleavage after ${targeting.signalPeptide.cleavageSite}`
+            : "",
+        ],
+        [
+          "Mitochondrial transit peptide",
+          targeting.mitochondrialTransit.score.toString(),
+          "",
+        ],
+        [
+          "Chloroplast transit peptide",
+          targeting.chloroplastTransit.score.toString(),
+          "",
+        ],
+        ...targeting.nls.map((signal) => [
+          `NLS (${signal.type})`,
+          signal.motif,
+          `${signal.start}-${signal.end}`,
+        ])
+      );
+    }
+
+    if (secondaryStructure) {
+      rows.push(
+        [],
+        ["SECONDARY STRUCTURE"],
+        ["Helix", secondaryStructure.fractions.helix.toString()],
+        ["Strand", secondaryStructure.fractions.strand.toString()],
+        ["Coil", secondaryStructure.fractions.coil.toString()],
+        ["States", secondaryStructure.states],
+        ["Segment", "Start", "End"],
+        ...secondaryStructure.segments.map((segment) => [
+          segment.state,
+          segment.start.toString(),
+          segment.end.toString(),
+        ])
+      );
+    }
+
+    if (disorder) {
+      rows.push(
+        [],
+        ["DISORDER"],
+        ["Disordered Fraction", disorder.fraction.toString()],
+        ["Mean TOP-IDP", disorder.meanTopIdp.toString()],
+        [
+          "Charge-Hydropathy",
+          disorder.chargeHydropathy.disordered ? "unfolded" : "folded",
+        ],
+        ["Region", "Start", "End", "Mean Score"],
+        ...disorder.regions.map((region) => [
+          "Disordered",
+          region.start.toString(),
+          region.end.toString(),
+          region.meanScore.toString(),
+        ])
+      );
+    }
+
+    if (lowComplexity && lowComplexity.length > 0) {
+      rows.push(
+        [],
+        ["LOW-COMPLEXITY REGIONS"],
+        ["Start", "End", "Entropy (bits)", "Sequence"],
+        ...lowComplexity.map((region) => [
+          region.start.toString(),
+          region.end.toString(),
+          region.entropy.toString(),
+          region.sequence,
+        ])
+      );
+    }
+
+    if (motifs && motifs.length > 0) {
+      rows.push(
+        [],
+        ["SEQUENCE MOTIFS"],
+        ["PROSITE", "Name", "Start", "End", "Match"],
+        ...motifs.map((hit) => [
+          hit.id,
+          hit.name,
+          hit.start.toString(),
+          hit.end.toString(),
+          hit.match,
+        ])
+      );
+    }
+
+    if (domains && domains.length > 0) {
+      rows.push(
+        [],
+        ["PFAM DOMAINS"],
+        ["Accession", "Name", "Start", "End", "Score (bits)", "E-value"],
+        ...domains.map((hit) => [
+          hit.accession,
+          hit.name,
+          hit.seqFrom.toString(),
+          hit.seqTo.toString(),
+          hit.score.toString(),
+          hit.evalue.toExponential(2),
+        ])
+      );
+    }
+
+    if (homologs && homologs.length > 0) {
+      rows.push(
+        [],
+        ["SIMILAR PROTEINS"],
+        [
+          "Accession",
+          "Description",
+          "Organism",
+          "Identity (%)",
+          "Query Start",
+          "Query End",
+          "Subject Start",
+          "Subject End",
+          "Bit Score",
+          "E-value",
+        ],
+        ...homologs.map((hit) => [
+          hit.accession,
+          hit.description,
+          hit.organism || "",
+          hit.identity.toString(),
+          hit.queryStart.toString(),
+          hit.queryEnd.toString(),
+          hit.subjectStart.toString(),
+          hit.subjectEnd.toString(),
+          hit.bitScore.toString(),
+          hit.evalue.toExponential(2),
+        ])
+      );
+    }
+
+    if (ecNumbers && ecNumbers.length > 0) {
+      rows.push(
+        [],
+        ["ENZYME (EC) PREDICTIONS"],
+        ["EC Number", "Name", "Confidence", "Reaction", "Evidence"],
+        ...ecNumbers.map((p) => [
+          p.ec,
+          p.name ?? "",
+          p.confidence.toFixed(3),
+          p.reactions.join("; "),
+          p.evidence.map((e) => `${e.eco} ${e.label}`).join("; "),
+        ])
+      );
+    }
+
     rows.push(
       [],
       ["PRIMARY FUNCTIONS"],
-      ["GO ID", "Function Name", "Type", "Confidence", "Description"],
+      [
+        "GO ID",
+        "Function Name",
+        "Type",
+        "Confidence",
+        "Description",
+        "Evidence",
+      ],
       ...results.primaryFunctions.map((f) => [
         f.id,
         f.name,
         f.type.replace(/_/g, " "),
         f.confidence.toFixed(3),
         f.description,
+        (f.evidence ?? []).map((e) => `${e.eco} ${e.label}`).join("; "),
       ]),
       [],
       ["SECONDARY FUNCTIONS"],
-      ["GO ID", "Function Name", "Type", "Confidence", "Description"],
+      [
+        "GO ID",
+        "Function Name",
+        "Type",
+        "Confidence",
+        "Description",
+        "Evidence",
+      ],
       ...results.secondaryFunctions.map((f) => [
         f.id,
         f.name,
         f.type.replace(/_/g, " "),
         f.confidence.toFixed(3),
         f.description,
+        (f.evidence ?? []).map((e) => `${e.eco} ${e.label}`).join("; "),
       ])
     );
 
+    if (agreement) {
+      rows.push(
+        [],
+        ["UNIPROT GO AGREEMENT"],
+        ["GO ID", "Term Name", "Status", "Details"],
+        ...agreement.predictions.map((p) => [
+          p.id,
+          p.name,
+          p.status,
+          p.relatedTo.map((r) => `${r.relation} of ${r.id}`).join(" "),
+        ]),
+        ...agreement.missed.map((term) => [
+          term.id,
+          term.name,
+          "missed",
+          term.evidence ?? "",
+        ])
+      );
+    }
+
+    if (results.propagatedTerms && results.propagatedTerms.length > 0) {
+      rows.push(
+        [],
+        ["PROPAGATED TERMS"],
+        ["GO ID", "Term Name", "Type", "Confidence", "Inferred From"],
+        ...results.propagatedTerms.map((t) => [
+          t.id,
+          t.name,
+          t.type.replace(/_/g, " "),
+          t.confidence.toFixed(3),
+          t.from.join(" "),
+        ])
+      );
+    }
+
     const csv = rows
       .map((row) => row.map((cell) => `"${cell}"`).join(","))
       .join("\n");
@@ -142,6 +441,58 @@ export function ResultsDisplay({
             </div>
 
             <p className="text-sm text-muted-foreground">{fn.description}</p>
+
+            {fn.ruleId && (
+              <p className="text-xs text-muted-foreground">
+                Rule: <code className="font-mono">{fn.ruleId}</code>
+              </p>
+            )}
+
+            {fn.headBased && (
+              <p className="text-xs text-muted-foreground">
+                Source: embedding classifier head
+              </p>
+            )}
+
+            {fn.caveat && (
+              <p className="text-xs text-amber-600 dark:text-amber-400">
+                {fn.caveat}
+              </p>
+            )}
+
+            {fn.neighbourAccessions && fn.neighbourAccessions.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Neighbours:{" "}
+                <code className="font-mono">
+                  {fn.neighbourAccessions.join(", ")}
+                </code>
+              </p>
+            )}
+
+            {fn.domainAccessions && fn.domainAccessions.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Domains:{" "}
+                <code className="font-mono">
+                  {fn.domainAccessions.join(", ")}
+                </code>
+              </p>
+            )}
+
+            {fn.motifHits && fn.motifHits.length > 0 && (
+              <div className="flex items-center gap-1 flex-wrap text-xs text-muted-foreground">
+                Motifs:
+                {fn.motifHits.map((hit) => (
+                  <Badge
+                    key={`${hit.id}-${hit.start}`}
+                    variant="outline"
+                    className="text-xs font-mono"
+                    title={hit.match}
+                  >
+                    {hit.name} {hit.start}–{hit.end}
+                  </Badge>
+                ))}
+              </div>
+            )}
           </div>
 
           <div className="text-right">
@@ -150,6 +501,15 @@ export function ResultsDisplay({
             </div>
 
             <p className="text-xs text-muted-foreground">confidence</p>
+
+            {fn.rawConfidence !== undefined && (
+              <p
+                className="text-xs text-muted-foreground"
+                title="Calibrated on the labelled benchmark"
+              >
+                raw {(fn.rawConfidence * 100).toFixed(0)}%
+              </p>
+            )}
           </div>
         </div>
 
@@ -181,6 +541,28 @@ export function ResultsDisplay({
               <ExternalLink className="size-4" />
             </a>
           </div>
+
+          {fn.replacedId && (
+            <p className="text-xs text-muted-foreground">
+              Replaces obsolete{" "}
+              <code className="font-mono">{fn.replacedId}</code>
+            </p>
+          )}
+
+          {fn.lineage && fn.lineage.length > 1 && (
+            <p className="text-xs text-muted-foreground">
+              {fn.lineage.map((step, i) => (
+                <span key={step.id}>
+                  {i > 0 && (
+                    <span className="mx-1" title={step.relation}>
+                      ›
+                    </span>
+                  )}
+                  <span title={step.id}>{step.name}</span>
+                </span>
+              ))}
+            </p>
+          )}
         </div>
 
         {fn.examples.length > 0 && (
@@ -197,6 +579,8 @@ export function ResultsDisplay({
           </div>
         )}
 
+        <PredictionEvidenceList evidence={fn.evidence ?? []} />
+
         <div className="space-y-2">
           <p className="text-sm font-medium">References:</p>
 
@@ -310,6 +694,114 @@ export function ResultsDisplay({
               </Card>
             )}
 
+            {results.neighbours && results.neighbours.length > 0 && (
+              <Card className="border-border">
+                <CardHeader className="px-4 sm:px-6">
+                  <CardTitle className="text-base">
+                    Nearest Reference Proteins
+                  </CardTitle>
+
+                  <CardDescription>
+                    Closest annotated proteins in embedding space (cosine
+                    similarity)
+                  </CardDescription>
+                </CardHeader>
+
+                <CardContent className="space-y-3 px-4 sm:px-6">
+                  {results.neighbours.map((neighbour) => (
+                    <div
+                      key={neighbour.accession}
+                      className="flex items-start justify-between gap-4"
+                    >
+                      <div className="min-w-0 space-y-1">
+                        <div className="flex items-center gap-2">
+                          <a
+                            href={`https://www.uniprot.org/uniprotkb/${neighbour.accession}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-sm font-mono font-medium hover:underline"
+                          >
+                            {neighbour.accession}
+                          </a>
+
+                          <span className="text-sm text-muted-foreground truncate">
+                            {neighbour.name}
+                          </span>
+                        </div>
+
+                        <div className="flex flex-wrap gap-1">
+                          {neighbour.goTerms.slice(0, 6).map((term) => (
+                            <Badge
+                              key={term}
+                              variant="outline"
+                              className="text-xs font-mono"
+                            >
+                              {term}
+                            </Badge>
+                          ))}
+                        </div>
+                      </div>
+
+                      <span className="text-sm font-mono text-neutral-500 shrink-0">
+                        {neighbour.similarity.toFixed(3)}
+                      </span>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            {properties && (
+              <ProteinPropertiesCard
+                sequence={results.sequence}
+                properties={properties}
+              />
+            )}
+
+            {domains && (
+              <DomainHitsCard
+                length={results.sequence.length}
+                domains={domains}
+              />
+            )}
+
+            {motifs && <MotifHitsCard motifs={motifs} />}
+
+            {targeting && (
+              <TargetingCard
+                sequence={results.sequence}
+                targeting={targeting}
+              />
+            )}
+
+            {hydropathyScale && (
+              <HydropathyPlot
+                sequence={results.sequence}
+                scale={hydropathyScale}
+                signalPeptideEnd={
+                  targeting?.signalPeptide &&
+                  targeting.signalPeptide.score >= TARGETING_THRESHOLD
+                    ? targeting.signalPeptide.cleavageSite
+                    : undefined
+                }
+              />
+            )}
+
+            {secondaryStructure && (
+              <SecondaryStructureCard
+                sequence={results.sequence}
+                prediction={secondaryStructure}
+              />
+            )}
+
+            {disorder && (
+              <DisorderCard
+                sequence={results.sequence}
+                disorder={disorder}
+                lowComplexity={lowComplexity ?? []}
+              />
+            )}
+
             {/* ESM-2 embedding analysis section */}
             {embeddingFeatures && (
               <Card className="bg-blue-50 dark:bg-blue-950/20 border-blue-200 dark:border-blue-900">
@@ -349,8 +841,17 @@ export function ResultsDisplay({
                       </p>
 
                       <p className="text-xs text-muted-foreground">
-                        Layer {embeddingStats?.layer || 12}
+                        {embeddingStats?.layers &&
+                        embeddingStats.layers.length > 1
+                          ? `Layers ${embeddingStats.layers.join(", ")} (mean)`
+                          : `Layer ${embeddingStats?.layer || 12}`}
                       </p>
+
+                      {embeddingStats?.model && (
+                        <p className="text-xs font-mono text-muted-foreground">
+                          {embeddingStats.model}
+                        </p>
+                      )}
                     </div>
 
                     <div className="space-y-2">
@@ -488,6 +989,39 @@ export function ResultsDisplay({
               </Card>
             )}
 
+            {residueTracks && residueTracks.length > 0 && (
+              <Card className="border-border">
+                <CardHeader className="px-4 sm:px-6">
+                  <CardTitle className="text-base">
+                    Residue-Level Embedding Tracks
+                  </CardTitle>
+
+                  <CardDescription>
+                    Per-position signals from the ESM-2 residue representations;
+                    darker cells mark higher values
+                  </CardDescription>
+                </CardHeader>
+
+                <CardContent className="space-y-3 px-4 sm:px-6">
+                  <ResidueTrack
+                    sequence={results.sequence}
+                    tracks={residueTracks}
+                  />
+
+                  <ul className="space-y-1 text-xs text-muted-foreground">
+                    {residueTracks.map((track) => (
+                      <li key={track.id}>
+                        <span className="font-medium text-foreground">
+                          {track.label}:
+                        </span>{" "}
+                        {track.description}
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            )}
+
             <div className="flex flex-col sm:flex-row gap-3">
               <Button
                 onClick={downloadResults}
@@ -517,6 +1051,29 @@ export function ResultsDisplay({
                 <TabsTrigger value="secondary">
                   Secondary Functions ({results.secondaryFunctions.length})
                 </TabsTrigger>
+
+                {results.propagatedTerms &&
+                  results.propagatedTerms.length > 0 && (
+                    <TabsTrigger value="ancestors">
+                      Ancestors ({results.propagatedTerms.length})
+                    </TabsTrigger>
+                  )}
+
+                {showEnzyme && (
+                  <TabsTrigger value="enzyme">
+                    Enzyme ({ecNumbers?.length ?? 0})
+                  </TabsTrigger>
+                )}
+
+                {agreement && (
+                  <TabsTrigger value="agreement">UniProt Agreement</TabsTrigger>
+                )}
+
+                {homologs && (
+                  <TabsTrigger value="similar">
+                    Similar Proteins ({homologs.length})
+                  </TabsTrigger>
+                )}
               </TabsList>
 
               <TabsContent value="primary" className="space-y-4">
@@ -564,6 +1121,84 @@ export function ResultsDisplay({
                   </Card>
                 )}
               </TabsContent>
+
+              {results.propagatedTerms &&
+                results.propagatedTerms.length > 0 && (
+                  <TabsContent value="ancestors" className="space-y-4">
+                    <p className="text-sm text-muted-foreground">
+                      Broader GO terms implied by the predictions through is_a
+                      and part_of
+                      {results.ontologyVersion
+                        ? ` (${results.ontologyVersion})`
+                        : ""}
+                    </p>
+
+                    <Card className="border-border">
+                      <CardContent className="pt-6 space-y-3 px-4 sm:px-6">
+                        {results.propagatedTerms.map((term) => (
+                          <div
+                            key={term.id}
+                            className="flex items-start justify-between gap-4"
+                          >
+                            <div className="space-y-1 flex-1">
+                              <div className="flex items-center gap-2 flex-wrap">
+                                <a
+                                  href={`https://www.ebi.ac.uk/QuickGO/term/${term.id}`}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="text-xs font-mono hover:underline"
+                                >
+                                  {term.id}
+                                </a>
+
+                                <span className="text-sm font-medium">
+                                  {term.name}
+                                </span>
+
+                                <Badge variant="secondary" className="text-xs">
+                                  {term.type.replace(/_/g, " ")}
+                                </Badge>
+                              </div>
+
+                              <p className="text-xs text-muted-foreground">
+                                From:{" "}
+                                <code className="font-mono">
+                                  {term.from.join(", ")}
+                                </code>
+                              </p>
+                            </div>
+
+                            <span className="text-sm font-semibold text-neutral-500">
+                              {(term.confidence * 100).toFixed(0)}%
+                            </span>
+                          </div>
+                        ))}
+                      </CardContent>
+                    </Card>
+                  </TabsContent>
+                )}
+
+              {showEnzyme && (
+                <TabsContent value="enzyme" className="space-y-4">
+                  <EnzymeCard
+                    predictions={ecNumbers ?? []}
+                    uniprotEcNumbers={uniprotData?.ecNumbers}
+                    accession={uniprotData?.accession}
+                  />
+                </TabsContent>
+              )}
+
+              {agreement && (
+                <TabsContent value="agreement" className="space-y-4">
+                  <GoAgreementCard agreement={agreement} />
+                </TabsContent>
+              )}
+
+              {homologs && (
+                <TabsContent value="similar" className="space-y-4">
+                  <SimilarProteinsCard hits={homologs} />
+                </TabsContent>
+              )}
             </Tabs>
 
             <Card className="border-border bg-muted/30">
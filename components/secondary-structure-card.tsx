@@ -0,0 +1,187 @@
+"use client";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import type {
+  SecondaryStructurePrediction,
+  SecondaryStructureState,
+} from "@/lib/secondary-structure";
+
+interface SecondaryStructureCardProps {
+  sequence: string;
+  prediction: SecondaryStructurePrediction;
+}
+
+const CELL_WIDTH = 10;
+const ROW_HEIGHT = 16;
+const LABEL_WIDTH = 110;
+
+const STATE_STYLES: Record<
+  SecondaryStructureState,
+  { label: string; fill: string; bar: string }
+> = {
+  H: {
+    label: "Helix",
+    fill: "fill-red-500 dark:fill-red-400",
+    bar: "bg-red-500 dark:bg-red-400",
+  },
+  E: {
+    label: "Strand",
+    fill: "fill-amber-500 dark:fill-amber-400",
+    bar: "bg-amber-500 dark:bg-amber-400",
+  },
+  C: {
+    label: "Coil",
+    fill: "fill-neutral-400 dark:fill-neutral-500",
+    bar: "bg-neutral-400 dark:bg-neutral-500",
+  },
+};
+
+/**
+ * Sequence-aligned H/E/C track; cell opacity follows the per-residue confidence
+ */
+export function SecondaryStructureCard({
+  sequence,
+  prediction,
+}: SecondaryStructureCardProps) {
+  const residues = sequence.split("");
+  const states = prediction.states.split("") as SecondaryStructureState[];
+  const width = LABEL_WIDTH + residues.length * CELL_WIDTH;
+  const height = ROW_HEIGHT * 3;
+  const fractions: [SecondaryStructureState, number][] = [
+    ["H", prediction.fractions.helix],
+    ["E", prediction.fractions.strand],
+    ["C", prediction.fractions.coil],
+  ];
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="px-4 sm:px-6">
+        <CardTitle className="text-base">Secondary Structure</CardTitle>
+
+        <CardDescription>
+          Chou-Fasman helix, strand and coil prediction; darker cells mark
+          higher confidence
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4 px-4 sm:px-6">
+        <div className="space-y-2">
+          <div className="flex h-2 rounded-full overflow-hidden bg-muted">
+            {fractions.map(([state, fraction]) => (
+              <div
+                key={state}
+                className={STATE_STYLES[state].bar}
+                style={{ width: `${fraction * 100}%` }}
+              />
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+            {fractions.map(([state, fraction]) => (
+              <span key={state} className="flex items-center gap-1.5">
+                <span
+                  className={`inline-block size-2 rounded-full ${STATE_STYLES[state].bar}`}
+                />
+                {STATE_STYLES[state].label}{" "}
+                <span className="font-mono text-foreground">
+                  {(fraction * 100).toFixed(1)}%
+                </span>
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div className="overflow-x-auto rounded border border-border bg-background">
+          <svg
+            width={width}
+            height={height}
+            className="text-muted-foreground"
+            role="img"
+            aria-label="Predicted secondary structure"
+          >
+            {residues.map((residue, i) =>
+              (i + 1) % 10 === 0 ? (
+                <text
+                  key={`tick-${i}`}
+                  x={LABEL_WIDTH + i * CELL_WIDTH + CELL_WIDTH / 2}
+                  y={ROW_HEIGHT - 4}
+                  textAnchor="middle"
+                  fontSize={9}
+                  fill="currentColor"
+                >
+                  {i + 1}
+                </text>
+              ) : null
+            )}
+
+            <text
+              x={4}
+              y={ROW_HEIGHT * 2 - 4}
+              fontSize={10}
+              fill="currentColor"
+            >
+              Structure
+            </text>
+
+            {states.map((state, i) => (
+              <rect
+                key={i}
+                x={LABEL_WIDTH + i * CELL_WIDTH}
+                y={ROW_HEIGHT + (state === "C" ? 6 : 1)}
+                width={CELL_WIDTH}
+                height={state === "C" ? 4 : ROW_HEIGHT - 2}
+                className={STATE_STYLES[state].fill}
+                fillOpacity={0.2 + 0.8 * prediction.confidence[i]}
+              >
+                <title>{`${residues[i] ?? ""}${i + 1} · ${
+                  STATE_STYLES[state].label
+                } (${prediction.confidence[i].toFixed(2)})`}</title>
+              </rect>
+            ))}
+
+            {residues.map((residue, i) => (
+              <text
+                key={`residue-${i}`}
+                x={LABEL_WIDTH + i * CELL_WIDTH + CELL_WIDTH / 2}
+                y={height - 4}
+                textAnchor="middle"
+                fontSize={9}
+                fontFamily="monospace"
+                fill="currentColor"
+              >
+                {residue}
+              </text>
+            ))}
+          </svg>
+        </div>
+
+        {prediction.segments.length > 0 && (
+          <div className="pt-3 border-t border-border space-y-2">
+            <p className="text-xs font-medium text-muted-foreground">
+              SEGMENTS
+            </p>
+
+            <div className="flex flex-wrap gap-1">
+              {prediction.segments.map((segment) => (
+                <Badge
+                  key={segment.start}
+                  variant="outline"
+                  className="text-xs font-mono"
+                >
+                  {segment.state} {segment.start}–{segment.end}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
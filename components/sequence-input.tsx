@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -10,24 +10,75 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Switch } from "@/components/ui/switch";
 import { ArrowLeft, Upload, AlertCircle } from "lucide-react";
 import { ResultsDisplay } from "./results-display";
 import type { ClassificationResult } from "@/lib/classification-engine";
 import type { ParsedUniProtData } from "@/lib/uniprot-parser";
-import type { extractEmbeddingFeatures } from "@/lib/esm2-embeddings";
+import {
+  ESM2_MODELS,
+  type ESM2ModelSize,
+  type extractEmbeddingFeatures,
+} from "@/lib/esm2-embeddings";
+import type { ResidueTrack } from "@/lib/residue-tracks";
+import type { ProteinProperties } from "@/lib/protein-properties";
+import type {
+  HydropathyProfile,
+  TransmembranePrediction,
+} from "@/lib/hydropathy";
+import type { TargetingPrediction } from "@/lib/targeting";
+import type { SecondaryStructurePrediction } from "@/lib/secondary-structure";
+import type { DisorderPrediction } from "@/lib/disorder";
+import type { LowComplexityRegion } from "@/lib/low-complexity";
+import type { MotifHit } from "@/lib/prosite";
+import type { DomainHit } from "@/lib/hmmer";
+import type { HomologHit } from "@/lib/homology-search";
+import type { GoAgreement } from "@/lib/go-agreement";
+import type { EcPrediction } from "@/lib/ec-prediction";
+import { parseSequenceInput } from "@/lib/sequence-parser";
+import {
+  GENETIC_CODES,
+  detectMoleculeType,
+  findOpenReadingFrames,
+} from "@/lib/translation";
 import Link from "next/link";
 
 interface AnalysisResults {
   classification: ClassificationResult;
   uniprotData?: ParsedUniProtData;
+  agreement?: GoAgreement;
   embeddingFeatures?: ReturnType<typeof extractEmbeddingFeatures>;
   embeddingStats?: {
     dimension: number;
     layer: number;
+    layers?: number[];
+    model?: string;
     mean: number;
     std: number;
     range: [number, number];
   };
+  residueTracks?: ResidueTrack[];
+  properties?: ProteinProperties;
+  hydropathy?: {
+    profile: HydropathyProfile;
+    transmembrane: TransmembranePrediction;
+  };
+  targeting?: TargetingPrediction;
+  secondaryStructure?: SecondaryStructurePrediction;
+  disorder?: DisorderPrediction;
+  lowComplexity?: LowComplexityRegion[];
+  motifs?: MotifHit[];
+  domains?: DomainHit[];
+  homologs?: HomologHit[];
+  ecNumbers?: EcPrediction[];
 }
 
 export function SequenceInput() {
@@ -39,6 +90,40 @@ export function SequenceInput() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [results, setResults] = useState<AnalysisResults | null>(null);
+  const [geneticCode, setGeneticCode] = useState(1);
+  const [selectedOrfId, setSelectedOrfId] = useState<string | null>(null);
+  // "default" leaves the choice to the server's embedding provider
+  const [model, setModel] = useState<ESM2ModelSize | "default">("default");
+  // Per-residue embeddings are large, so residue tracks are opt-in
+  const [perResidue, setPerResidue] = useState(false);
+
+  const parsedRecord = useMemo(
+    () => parseSequenceInput(sequenceInput)[0] ?? null,
+    [sequenceInput]
+  );
+
+  // Three-letter input is converted client-side so the user can review it
+  const convertedRecord =
+    parsedRecord?.notation === "three-letter" ? parsedRecord : null;
+
+  const moleculeType = parsedRecord
+    ? detectMoleculeType(parsedRecord.sequence)
+    : "protein";
+
+  // Nucleotide input: list six-frame ORFs so the user can pick one
+  const orfs = useMemo(
+    () =>
+      parsedRecord && moleculeType !== "protein"
+        ? findOpenReadingFrames(parsedRecord.sequence, { geneticCode }).slice(
+            0,
+            10
+          )
+        : [],
+    [parsedRecord, moleculeType, geneticCode]
+  );
+
+  const activeOrfId =
+    orfs.find((orf) => orf.id === selectedOrfId)?.id ?? orfs[0]?.id;
 
   const handleAnalyze = async () => {
     if ((!sequenceInput && !uniprotId) || isLoading) return;
@@ -51,8 +136,17 @@ export function SequenceInput() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          sequence: sequenceInput || undefined,
+          sequence: convertedRecord
+            ? convertedRecord.header
+              ? `>${convertedRecord.header.raw}\n${convertedRecord.sequence}`
+              : convertedRecord.sequence
+            : sequenceInput || undefined,
           uniprotId: uniprotId || undefined,
+          perResidue,
+          model: model === "default" ? undefined : model,
+          ...(inputType === "sequence" && moleculeType !== "protein"
+            ? { geneticCode, orfId: activeOrfId }
+            : {}),
         }),
       });
 
@@ -65,8 +159,20 @@ export function SequenceInput() {
       setResults({
         classification: data.data.classification,
         uniprotData: data.data.uniprotData,
+        agreement: data.data.agreement ?? undefined,
         embeddingFeatures: data.data.embeddingFeatures,
         embeddingStats: data.data.embeddingStats,
+        residueTracks: data.data.residueTracks,
+        properties: data.data.properties,
+        hydropathy: data.data.hydropathy,
+        targeting: data.data.targeting,
+        secondaryStructure: data.data.secondaryStructure,
+        disorder: data.data.disorder,
+        lowComplexity: data.data.lowComplexity,
+        motifs: data.data.motifs,
+        domains: data.data.domains,
+        homologs: data.data.homologs,
+        ecNumbers: data.data.ecNumbers,
       });
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred");
@@ -76,7 +182,9 @@ export function SequenceInput() {
   };
 
   const isInputValid =
-    (inputType === "sequence" && sequenceInput.trim()) ||
+    (inputType === "sequence" &&
+      sequenceInput.trim() &&
+      (moleculeType === "protein" || orfs.length > 0)) ||
     (inputType === "uniprot" && uniprotId.trim());
 
   if (results) {
@@ -84,8 +192,20 @@ export function SequenceInput() {
       <ResultsDisplay
         results={results.classification}
         uniprotData={results.uniprotData}
+        agreement={results.agreement}
         embeddingFeatures={results.embeddingFeatures}
         embeddingStats={results.embeddingStats}
+        residueTracks={results.residueTracks}
+        properties={results.properties}
+        hydropathyScale={results.hydropathy?.profile.scale}
+        targeting={results.targeting}
+        secondaryStructure={results.secondaryStructure}
+        disorder={results.disorder}
+        lowComplexity={results.lowComplexity}
+        motifs={results.motifs}
+        domains={results.domains}
+        homologs={results.homologs}
+        ecNumbers={results.ecNumbers}
         onBack={() => setResults(null)}
       />
     );
@@ -167,8 +287,92 @@ export function SequenceInput() {
                   />
 
                   <p className="text-xs text-muted-foreground">
-                    Supports standard IUPAC amino acid codes and FASTA format
+                    Supports one- or three-letter IUPAC amino acid codes and
+                    FASTA format
                   </p>
+
+                  {convertedRecord && (
+                    <div className="bg-muted/50 rounded-md p-3 space-y-1">
+                      <p className="text-xs font-medium">
+                        Converted from three-letter code (
+                        {convertedRecord.sequence.length} aa)
+                      </p>
+
+                      <code className="block text-xs font-mono break-all text-muted-foreground">
+                        {convertedRecord.sequence}
+                      </code>
+                    </div>
+                  )}
+
+                  {moleculeType !== "protein" && (
+                    <div className="border border-border rounded-md p-3 space-y-3">
+                      <div className="flex items-center justify-between gap-3 flex-wrap">
+                        <p className="text-sm font-medium">
+                          {moleculeType.toUpperCase()} sequence detected
+                        </p>
+
+                        <Select
+                          value={String(geneticCode)}
+                          onValueChange={(v) => setGeneticCode(Number(v))}
+                        >
+                          <SelectTrigger size="sm" className="w-64">
+                            <SelectValue placeholder="Genetic code" />
+                          </SelectTrigger>
+
+                          <SelectContent>
+                            {GENETIC_CODES.map((code) => (
+                              <SelectItem key={code.id} value={String(code.id)}>
+                                {code.id}. {code.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      {orfs.length > 0 ? (
+                        <>
+                          <p className="text-xs text-muted-foreground">
+                            Choose the open reading frame to classify
+                          </p>
+
+                          <RadioGroup
+                            value={activeOrfId}
+                            onValueChange={setSelectedOrfId}
+                            className="gap-2"
+                          >
+                            {orfs.map((orf) => (
+                              <label
+                                key={orf.id}
+                                className="flex items-start gap-2 text-xs cursor-pointer"
+                              >
+                                <RadioGroupItem
+                                  value={orf.id}
+                                  className="mt-0.5"
+                                />
+
+                                <span className="flex-1 min-w-0">
+                                  <span className="font-medium">
+                                    Frame {orf.strand}
+                                    {orf.frame} · {orf.start}–{orf.end} ·{" "}
+                                    {orf.length} aa
+                                  </span>
+
+                                  <code className="block font-mono text-muted-foreground truncate">
+                                    {orf.protein}
+                                  </code>
+                                </span>
+                              </label>
+                            ))}
+                          </RadioGroup>
+                        </>
+                      ) : (
+                        <p className="text-xs text-muted-foreground">
+                          No open reading frame of at least 30 codons found with
+                          this genetic code
+                        </p>
+                      )}
+                    </div>
+                  )}
                 </div>
               </TabsContent>
 
@@ -192,6 +396,53 @@ export function SequenceInput() {
               </TabsContent>
             </Tabs>
 
+            <div className="flex items-center justify-between gap-3 flex-wrap">
+              <div>
+                <p className="text-sm font-medium">Embedding Model</p>
+
+                <p className="text-xs text-muted-foreground">
+                  Larger ESM-2 models are slower but more informative
+                </p>
+              </div>
+
+              <Select
+                value={model}
+                onValueChange={(v) => setModel(v as ESM2ModelSize | "default")}
+              >
+                <SelectTrigger size="sm" className="w-64">
+                  <SelectValue placeholder="ESM-2 model" />
+                </SelectTrigger>
+
+                <SelectContent>
+                  <SelectItem value="default">Server default</SelectItem>
+
+                  {Object.values(ESM2_MODELS).map((info) => (
+                    <SelectItem key={info.size} value={info.size}>
+                      ESM-2 {info.size.toUpperCase()} · {info.layers} layers ·{" "}
+                      {info.dimension}-dim
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <p className="text-sm font-medium">Residue Tracks</p>
+
+                <p className="text-xs text-muted-foreground">
+                  Request per-residue embeddings for norm, novelty and saliency
+                  tracks (larger response)
+                </p>
+              </div>
+
+              <Switch
+                checked={perResidue}
+                onCheckedChange={setPerResidue}
+                aria-label="Compute residue tracks"
+              />
+            </div>
+
             <div className="bg-accent/5 border border-accent/20 rounded-lg p-4">
               <p className="text-sm font-medium mb-2">Example Proteins:</p>
 
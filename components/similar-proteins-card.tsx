@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlignmentText } from "./alignment-view";
+import type { HomologHit } from "@/lib/homology-search";
+
+interface SimilarProteinsCardProps {
+  hits: HomologHit[];
+}
+
+function formatEvalue(evalue: number): string {
+  return evalue < 1e-3 ? evalue.toExponential(1) : evalue.toPrecision(2);
+}
+
+export function SimilarProteinsCard({ hits }: SimilarProteinsCardProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="px-4 sm:px-6">
+        <CardTitle className="text-base">Similar Proteins</CardTitle>
+
+        <CardDescription>
+          Local BLOSUM62 search of the bundled sequence database; E-values from
+          Karlin-Altschul statistics
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-3 px-4 sm:px-6">
+        {hits.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No significant hits in the sequence database
+          </p>
+        ) : (
+          hits.map((hit) => (
+            <div
+              key={hit.accession}
+              className="space-y-2 p-3 rounded-md bg-muted/50"
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <a
+                      href={`https://www.uniprot.org/uniprotkb/${hit.accession}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-sm font-mono font-medium hover:underline"
+                    >
+                      {hit.accession}
+                    </a>
+
+                    {hit.entryName && (
+                      <Badge variant="outline" className="text-xs font-mono">
+                        {hit.entryName}
+                      </Badge>
+                    )}
+                  </div>
+
+                  <p className="text-sm truncate">{hit.description}</p>
+
+                  {hit.organism && (
+                    <p className="text-xs text-muted-foreground italic">
+                      {hit.organism}
+                    </p>
+                  )}
+                </div>
+
+                <div className="text-right shrink-0">
+                  <p className="text-sm font-mono">
+                    E = {formatEvalue(hit.evalue)}
+                  </p>
+
+                  <p className="text-xs font-mono text-muted-foreground">
+                    {hit.bitScore} bits
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between gap-3 flex-wrap">
+                <p className="text-xs text-muted-foreground">
+                  {hit.identity}% identity · {hit.similarity}% similarity ·{" "}
+                  {hit.queryCoverage}% query coverage · query {hit.queryStart}–
+                  {hit.queryEnd}, subject {hit.subjectStart}–{hit.subjectEnd} of{" "}
+                  {hit.length}
+                </p>
+
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setExpanded(
+                      expanded === hit.accession ? null : hit.accession
+                    )
+                  }
+                >
+                  {expanded === hit.accession
+                    ? "Hide alignment"
+                    : "Show alignment"}
+                </Button>
+              </div>
+
+              {expanded === hit.accession && (
+                <AlignmentText
+                  alignment={hit.alignment}
+                  queryLabel="Query"
+                  targetLabel={hit.accession}
+                />
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { TARGETING_THRESHOLD, type TargetingPrediction } from "@/lib/targeting";
+
+interface TargetingCardProps {
+  sequence: string;
+  targeting: TargetingPrediction;
+}
+
+function ScoreBar({ label, score }: { label: string; score: number }) {
+  const likely = score >= TARGETING_THRESHOLD;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-sm">
+        <span className={likely ? "font-medium" : "text-muted-foreground"}>
+          {label}
+        </span>
+
+        <span className="font-mono text-xs">{score.toFixed(2)}</span>
+      </div>
+
+      <div className="bg-muted rounded-full h-1.5 overflow-hidden">
+        <div
+          className={`h-full rounded-full ${
+            likely ? "bg-blue-600 dark:bg-blue-400" : "bg-neutral-400"
+          }`}
+          style={{ width: `${Math.min(score * 100, 100)}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+export function TargetingCard({ sequence, targeting }: TargetingCardProps) {
+  const signalPeptide = targeting.signalPeptide;
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="px-4 sm:px-6">
+        <CardTitle className="text-base">Targeting Signals</CardTitle>
+
+        <CardDescription>
+          N-terminal sorting signals and nuclear localisation motifs; scores of{" "}
+          {TARGETING_THRESHOLD} and above are treated as likely
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4 px-4 sm:px-6">
+        <div className="space-y-3">
+          <ScoreBar label="Signal peptide" score={signalPeptide?.score ?? 0} />
+
+          <ScoreBar
+            label="Mitochondrial transit peptide"
+            score={targeting.mitochondrialTransit.score}
+          />
+
+          <ScoreBar
+            label="Chloroplast transit peptide"
+            score={targeting.chloroplastTransit.score}
+          />
+        </div>
+
+        {signalPeptide && signalPeptide.score >= TARGETING_THRESHOLD && (
+          <div className="bg-muted/50 rounded p-3 space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Cleavage after residue {signalPeptide.cleavageSite} (n{" "}
+              {signalPeptide.nRegion.join("–")}, h{" "}
+              {signalPeptide.hRegion.join("–")}, c{" "}
+              {signalPeptide.cRegion.join("–")})
+            </p>
+
+            <code className="block text-xs font-mono break-all">
+              <span className="text-muted-foreground">
+                {sequence.slice(0, signalPeptide.hRegion[0] - 1)}
+              </span>
+              <span className="text-blue-600 dark:text-blue-400 font-semibold">
+                {sequence.slice(
+                  signalPeptide.hRegion[0] - 1,
+                  signalPeptide.hRegion[1]
+                )}
+              </span>
+              <span className="text-muted-foreground">
+                {sequence.slice(
+                  signalPeptide.hRegion[1],
+                  signalPeptide.cleavageSite
+                )}
+              </span>
+              <span className="mx-1">|</span>
+              {sequence.slice(
+                signalPeptide.cleavageSite,
+                signalPeptide.cleavageSite + 10
+              )}
+              …
+            </code>
+          </div>
+        )}
+
+        <div className="pt-3 border-t border-border space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">
+            NUCLEAR LOCALISATION SIGNALS
+          </p>
+
+          {targeting.nls.length > 0 ? (
+            <div className="flex flex-wrap gap-1">
+              {targeting.nls.map((signal) => (
+                <Badge
+                  key={signal.start}
+                  variant="outline"
+                  className="text-xs font-mono"
+                >
+                  {signal.motif} ({signal.start}–{signal.end}, {signal.type})
+                </Badge>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">None found</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
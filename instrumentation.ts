@@ -0,0 +1,23 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    // Load and validate the GO rule set at server startup so a broken
+    // rules file fails fast instead of on the first classification
+    const { getRuleSet } = await import("./lib/go-rules");
+    getRuleSet();
+
+    // Index the local sequence database up front rather than on the first
+    // homology search
+    const { getSequenceDatabase } = await import("./lib/sequence-database");
+    getSequenceDatabase();
+
+    // Parsing go-basic.obo takes a few seconds; do it before the first request
+    const { getGeneOntology } = await import("./lib/gene-ontology");
+    getGeneOntology();
+
+    // Same for enzyme.dat, and validate the EC rules alongside the GO rules
+    const { getEnzymeDatabase } = await import("./lib/enzyme");
+    getEnzymeDatabase();
+    const { getEcRules } = await import("./lib/ec-prediction");
+    getEcRules();
+  }
+}
@@ -0,0 +1,353 @@
+/**
+ * Pairwise protein alignment with affine gaps (Gotoh)
+ * Global (Needleman-Wunsch), local (Smith-Waterman) and semi-global modes
+ */
+
+import {
+  DEFAULT_SUBSTITUTION_MATRIX,
+  getSubstitutionMatrix,
+  matrixIndex,
+  substitutionScore,
+  type SubstitutionMatrixName,
+} from "./substitution-matrices";
+
+export type AlignmentMode = "global" | "local" | "semiglobal";
+
+export const ALIGNMENT_MODES: AlignmentMode[] = [
+  "global",
+  "local",
+  "semiglobal",
+];
+
+// EMBOSS needle/water defaults: a gap of length n costs open + (n - 1) * extend
+export const DEFAULT_GAP_OPEN = 10;
+export const DEFAULT_GAP_EXTEND = 0.5;
+
+// Largest DP matrix (query length x target length) we allocate
+export const MAX_ALIGNMENT_CELLS = 16_000_000;
+
+export interface AlignmentOptions {
+  mode?: AlignmentMode;
+  matrix?: SubstitutionMatrixName;
+  // Penalties as positive numbers
+  gapOpen?: number;
+  gapExtend?: number;
+}
+
+export interface AlignmentStats {
+  // Alignment columns, including gaps
+  length: number;
+  identities: number;
+  // Identical or positively scoring pairs
+  similarities: number;
+  gaps: number;
+  identity: number;
+  similarity: number;
+  gapPercent: number;
+}
+
+export interface PairwiseAlignment {
+  mode: AlignmentMode;
+  matrix: SubstitutionMatrixName;
+  gapOpen: number;
+  gapExtend: number;
+  score: number;
+  // Gapped rows ("-" for gaps) and the marker line between them:
+  // "|" identical, ":" positive score, "." other pair, " " gap
+  alignedA: string;
+  alignedB: string;
+  markers: string;
+  // 1-based coordinates of the first and last aligned residue in each input
+  startA: number;
+  endA: number;
+  startB: number;
+  endB: number;
+  stats: AlignmentStats;
+}
+
+/**
+ * Raised for alignment requests that cannot be run (bad options, too large)
+ */
+export class AlignmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AlignmentError";
+  }
+}
+
+// Traceback pointers
+const FROM_M = 0;
+const FROM_X = 1;
+const FROM_Y = 2;
+const FROM_START = 3;
+
+function percent(part: number, total: number): number {
+  return total === 0 ? 0 : Math.round((part / total) * 1000) / 10;
+}
+
+/**
+ * Align two protein sequences
+ * X consumes a residue of A against a gap; Y consumes a residue of B
+ */
+export function alignPair(
+  a: string,
+  b: string,
+  options: AlignmentOptions = {}
+): PairwiseAlignment {
+  const mode = options.mode ?? "global";
+  const matrix = getSubstitutionMatrix(
+    options.matrix ?? DEFAULT_SUBSTITUTION_MATRIX
+  );
+  const open = options.gapOpen ?? DEFAULT_GAP_OPEN;
+  const extend = options.gapExtend ?? DEFAULT_GAP_EXTEND;
+
+  if (!ALIGNMENT_MODES.includes(mode)) {
+    throw new AlignmentError(
+      `Unknown alignment mode "${mode}" (expected one of: ${ALIGNMENT_MODES.join(
+        ", "
+      )})`
+    );
+  }
+  if (!(open >= 0) || !(extend >= 0) || extend > open) {
+    throw new AlignmentError(
+      "Gap penalties must be non-negative with gapExtend <= gapOpen"
+    );
+  }
+  if (a.length === 0 || b.length === 0) {
+    throw new AlignmentError("Both sequences must be non-empty");
+  }
+  if (a.length * b.length > MAX_ALIGNMENT_CELLS) {
+    throw new AlignmentError(
+      `Sequences too long to align (${a.length} x ${b.length} exceeds ${MAX_ALIGNMENT_CELLS.toLocaleString()} cells)`
+    );
+  }
+
+  const n = a.length;
+  const m = b.length;
+  const width = m + 1;
+  const size = (n + 1) * width;
+  const local = mode === "local";
+  const freeEnds = mode === "semiglobal";
+
+  // Half-unit penalties are exact in single precision
+  const M = new Float32Array(size).fill(-Infinity);
+  const X = new Float32Array(size).fill(-Infinity);
+  const Y = new Float32Array(size).fill(-Infinity);
+  const tM = new Uint8Array(size);
+  const tX = new Uint8Array(size);
+  const tY = new Uint8Array(size);
+
+  M[0] = 0;
+  for (let i = 1; i <= n; i++) {
+    X[i * width] = freeEnds
+      ? 0
+      : local
+        ? -Infinity
+        : -(open + (i - 1) * extend);
+    tX[i * width] = i === 1 ? FROM_M : FROM_X;
+  }
+  for (let j = 1; j <= m; j++) {
+    Y[j] = freeEnds ? 0 : local ? -Infinity : -(open + (j - 1) * extend);
+    tY[j] = j === 1 ? FROM_M : FROM_Y;
+  }
+
+  const rowsA = Array.from(a, (aa) => matrix.scores[matrixIndex(aa)]);
+  const columnsB = Array.from(b, matrixIndex);
+
+  let bestScore = local ? 0 : -Infinity;
+  let bestCell = 0;
+
+  // Ties prefer M, then X, then Y
+  for (let i = 1; i <= n; i++) {
+    const scores = rowsA[i - 1];
+    for (let j = 1; j <= m; j++) {
+      const cell = i * width + j;
+
+      let prev = cell - width - 1;
+      let value = M[prev];
+      let from = FROM_M;
+      if (X[prev] > value) {
+        value = X[prev];
+        from = FROM_X;
+      }
+      if (Y[prev] > value) {
+        value = Y[prev];
+        from = FROM_Y;
+      }
+      if (local && !(value > 0)) {
+        value = 0;
+        from = FROM_START;
+      }
+      M[cell] = value + scores[columnsB[j - 1]];
+      tM[cell] = from;
+
+      prev = cell - width;
+      value = M[prev] - open;
+      from = FROM_M;
+      if (X[prev] - extend > value) {
+        value = X[prev] - extend;
+        from = FROM_X;
+      }
+      if (Y[prev] - open > value) {
+        value = Y[prev] - open;
+        from = FROM_Y;
+      }
+      X[cell] = value;
+      tX[cell] = from;
+
+      prev = cell - 1;
+      value = M[prev] - open;
+      from = FROM_M;
+      if (X[prev] - open > value) {
+        value = X[prev] - open;
+        from = FROM_X;
+      }
+      if (Y[prev] - extend > value) {
+        value = Y[prev] - extend;
+        from = FROM_Y;
+      }
+      Y[cell] = value;
+      tY[cell] = from;
+
+      if (local && M[cell] > bestScore) {
+        bestScore = M[cell];
+        bestCell = cell;
+      }
+    }
+  }
+
+  // End point and its state
+  let state = FROM_M;
+  if (local) {
+    if (bestScore <= 0) {
+      throw new AlignmentError("No positively scoring local alignment found");
+    }
+  } else {
+    const ends = freeEnds
+      ? [
+          ...Array.from({ length: m + 1 }, (_, j) => n * width + j),
+          ...Array.from({ length: n }, (_, i) => i * width + m),
+        ]
+      : [size - 1];
+
+    for (const cell of ends) {
+      for (const [s, scores] of [
+        [FROM_M, M],
+        [FROM_X, X],
+        [FROM_Y, Y],
+      ] as const) {
+        if (scores[cell] > bestScore) {
+          bestScore = scores[cell];
+          bestCell = cell;
+          state = s;
+        }
+      }
+    }
+  }
+
+  let i = Math.floor(bestCell / width);
+  let j = bestCell % width;
+  const endA = i;
+  const endB = j;
+  const rowA: string[] = [];
+  const rowB: string[] = [];
+
+  // Free trailing end gaps in semi-global mode
+  if (freeEnds) {
+    for (let k = n; k > i; k--) {
+      rowA.push(a[k - 1]);
+      rowB.push("-");
+    }
+    for (let k = m; k > j; k--) {
+      rowA.push("-");
+      rowB.push(b[k - 1]);
+    }
+  }
+
+  while (i > 0 || j > 0) {
+    const cell = i * width + j;
+
+    if (state === FROM_M) {
+      if (i === 0 || j === 0) break;
+      const from = tM[cell];
+      rowA.push(a[i - 1]);
+      rowB.push(b[j - 1]);
+      i--;
+      j--;
+      if (from === FROM_START) break;
+      state = from;
+    } else if (state === FROM_X) {
+      if (i === 0) break;
+      rowA.push(a[i - 1]);
+      rowB.push("-");
+      state = tX[cell];
+      i--;
+    } else {
+      if (j === 0) break;
+      rowA.push("-");
+      rowB.push(b[j - 1]);
+      state = tY[cell];
+      j--;
+    }
+
+    if (local && i === 0 && j === 0) break;
+    // Leading end gaps run to the origin
+    if (!local && (i === 0 || j === 0)) {
+      state = i === 0 ? FROM_Y : FROM_X;
+      if (i === 0 && j === 0) break;
+    }
+  }
+
+  const startA = i + 1;
+  const startB = j + 1;
+  const alignedA = rowA.reverse().join("");
+  const alignedB = rowB.reverse().join("");
+
+  let identities = 0;
+  let similarities = 0;
+  let gaps = 0;
+  let markers = "";
+  for (let k = 0; k < alignedA.length; k++) {
+    const x = alignedA[k];
+    const y = alignedB[k];
+    if (x === "-" || y === "-") {
+      gaps++;
+      markers += " ";
+    } else if (x === y) {
+      identities++;
+      similarities++;
+      markers += "|";
+    } else if (substitutionScore(matrix, x, y) > 0) {
+      similarities++;
+      markers += ":";
+    } else {
+      markers += ".";
+    }
+  }
+
+  const length = alignedA.length;
+
+  return {
+    mode,
+    matrix: matrix.name,
+    gapOpen: open,
+    gapExtend: extend,
+    score: bestScore,
+    alignedA,
+    alignedB,
+    markers,
+    startA: local ? startA : 1,
+    endA: local ? endA : n,
+    startB: local ? startB : 1,
+    endB: local ? endB : m,
+    stats: {
+      length,
+      identities,
+      similarities,
+      gaps,
+      identity: percent(identities, length),
+      similarity: percent(similarities, length),
+      gapPercent: percent(gaps, length),
+    },
+  };
+}
@@ -0,0 +1,457 @@
+/**
+ * End-to-end analysis pipeline for a single protein sequence
+ * Shared by the single and batch classification routes
+ */
+
+import { cleanSequence, getSequenceStats } from "./protein-api";
+import {
+  describeInvalidResidues,
+  validateResidues,
+  type InvalidResidue,
+} from "./sequence-parser";
+import {
+  classifyProteinWithEmbeddings,
+  type ClassificationResult,
+} from "./classification-engine";
+import {
+  extractEmbeddingFeatures,
+  parseESM2Layers,
+  parseESM2PerResidueLayers,
+  resolveEmbeddingRequest,
+  type ESM2ModelInfo,
+  type ESM2ModelSize,
+} from "./esm2-embeddings";
+import {
+  getEmbeddingProvider,
+  type EmbeddingProvider,
+  type EmbeddingProviderName,
+} from "./embedding-providers";
+import { getReferenceIndex } from "./reference-index";
+import { findNearestNeighbours } from "./knn-classifier";
+import { getClassifierHead, predictWithHead } from "./classifier-head";
+import { computeResidueTracks, type ResidueTrack } from "./residue-tracks";
+import {
+  hydropathyProfile,
+  predictTransmembraneHelices,
+  type HydropathyProfile,
+  type HydropathyScaleName,
+  type TransmembranePrediction,
+} from "./hydropathy";
+import {
+  predictTargeting,
+  TARGETING_THRESHOLD,
+  type TargetingPrediction,
+} from "./targeting";
+import { getPrositeWarnings, scanMotifs, type MotifHit } from "./prosite";
+import type { DomainHit } from "./hmmer";
+import { getPfamLibrary, searchPfamDomains } from "./pfam";
+import { getSequenceDatabase } from "./sequence-database";
+import { searchDatabase, type HomologHit } from "./homology-search";
+import { getEnzymeDatabase } from "./enzyme";
+import { predictEcNumbers, type EcPrediction } from "./ec-prediction";
+import { predictDisorder, type DisorderPrediction } from "./disorder";
+import {
+  findLowComplexityRegions,
+  type LowComplexityRegion,
+} from "./low-complexity";
+import {
+  predictSecondaryStructure,
+  type SecondaryStructurePrediction,
+} from "./secondary-structure";
+import type { CalibrationFile } from "./calibration";
+import type { GeneOntology } from "./gene-ontology";
+import {
+  calculateProteinProperties,
+  type ProteinProperties,
+} from "./protein-properties";
+import {
+  DEFAULT_MIN_ORF_LENGTH,
+  detectMoleculeType,
+  findOpenReadingFrames,
+  getGeneticCode,
+  type OpenReadingFrame,
+} from "./translation";
+
+export const MIN_SEQUENCE_LENGTH = 10;
+
+// ORFs returned to the client for selection
+const MAX_REPORTED_ORFS = 20;
+
+/**
+ * Raised when the input sequence itself is unusable (maps to HTTP 400)
+ */
+export class SequenceValidationError extends Error {
+  invalidResidues?: InvalidResidue[];
+
+  constructor(message: string, invalidResidues?: InvalidResidue[]) {
+    super(message);
+    this.name = "SequenceValidationError";
+    this.invalidResidues = invalidResidues;
+  }
+}
+
+export interface AnalysisOptions {
+  provider?: EmbeddingProvider;
+  // NCBI translation table used when the input is DNA/RNA
+  geneticCode?: number;
+  // ORF to classify (OpenReadingFrame.id); defaults to the longest
+  orfId?: string;
+  // Request per-residue embeddings and derive residue tracks
+  perResidue?: boolean;
+  // ESM-2 checkpoint and representation layers (averaged when several)
+  model?: ESM2ModelSize;
+  layers?: number[];
+  // pH for the reported net charge (default 7)
+  pH?: number;
+  // Scale for the hydropathy profile and TM helix prediction
+  hydropathyScale?: HydropathyScaleName;
+  // Confidence calibration; null reports raw scores (used when fitting)
+  calibration?: CalibrationFile | null;
+  // Ontology for term reconciliation; null reports scores as calibration
+  // sees them (used when fitting)
+  ontology?: GeneOntology | null;
+}
+
+export interface TranslationSummary {
+  moleculeType: "dna" | "rna";
+  geneticCode: number;
+  geneticCodeName: string;
+  selectedOrf: OpenReadingFrame;
+  orfs: OpenReadingFrame[];
+}
+
+export interface SequenceAnalysis {
+  classification: ClassificationResult;
+  stats: ReturnType<typeof getSequenceStats>;
+  properties: ProteinProperties;
+  hydropathy: {
+    profile: HydropathyProfile;
+    transmembrane: TransmembranePrediction;
+  };
+  targeting: TargetingPrediction;
+  secondaryStructure: SecondaryStructurePrediction;
+  disorder: DisorderPrediction;
+  lowComplexity: LowComplexityRegion[];
+  motifs: MotifHit[];
+  // Present when a Pfam HMM library is installed
+  domains?: DomainHit[];
+  // Present when a local sequence database is installed
+  homologs?: HomologHit[];
+  // EC numbers from motif/domain rules and ENZYME-annotated neighbours
+  ecNumbers: EcPrediction[];
+  embeddingFeatures: ReturnType<typeof extractEmbeddingFeatures>;
+  embeddingStats: {
+    dimension: number;
+    // Deepest requested layer
+    layer: number;
+    layers: number[];
+    model: string;
+    mean: number;
+    std: number;
+    range: [number, number];
+  };
+  translation?: TranslationSummary;
+  residueTracks?: ResidueTrack[];
+}
+
+/**
+ * Translate nucleotide input to the selected ORF
+ * Protein input is returned unchanged
+ */
+export function resolveProteinSequence(
+  cleaned: string,
+  options: AnalysisOptions = {}
+): { protein: string; translation?: TranslationSummary } {
+  const moleculeType = detectMoleculeType(cleaned);
+  if (moleculeType === "protein") return { protein: cleaned };
+
+  const geneticCode = options.geneticCode ?? 1;
+  let codeName: string;
+
+  try {
+    codeName = getGeneticCode(geneticCode).name;
+  } catch (error) {
+    throw new SequenceValidationError(
+      error instanceof Error ? error.message : "Unknown genetic code"
+    );
+  }
+
+  const orfs = findOpenReadingFrames(cleaned, { geneticCode });
+
+  if (orfs.length === 0) {
+    throw new SequenceValidationError(
+      `Input looks like ${moleculeType.toUpperCase()} but no open reading frame of at least ${DEFAULT_MIN_ORF_LENGTH} codons was found`
+    );
+  }
+
+  const selectedOrf = options.orfId
+    ? orfs.find((orf) => orf.id === options.orfId)
+    : orfs[0];
+
+  if (!selectedOrf) {
+    throw new SequenceValidationError(
+      `Open reading frame ${options.orfId} not found in input`
+    );
+  }
+
+  return {
+    protein: selectedOrf.protein,
+    translation: {
+      moleculeType,
+      geneticCode,
+      geneticCodeName: codeName,
+      selectedOrf,
+      orfs: orfs.slice(0, MAX_REPORTED_ORFS),
+    },
+  };
+}
+
+/**
+ * Clean and validate a raw sequence, returning the cleaned residues
+ */
+export function prepareSequence(sequence: string | undefined): string {
+  const cleaned = cleanSequence(sequence || "");
+  const validation = validateResidues(cleaned);
+
+  if (validation.length === 0) {
+    throw new SequenceValidationError("No sequence residues found in input");
+  }
+
+  if (!validation.valid) {
+    throw new SequenceValidationError(
+      `Invalid protein sequence: unexpected residues at ${describeInvalidResidues(
+        validation.invalidResidues
+      )} (residue numbers after removing whitespace and digits)`,
+      validation.invalidResidues
+    );
+  }
+
+  if (cleaned.length < MIN_SEQUENCE_LENGTH) {
+    throw new SequenceValidationError(
+      `Sequence must be at least ${MIN_SEQUENCE_LENGTH} amino acids long`
+    );
+  }
+
+  return cleaned;
+}
+
+/**
+ * Why an index or head built from other embeddings cannot be used for the
+ * query; null when checkpoint, provider, layers and dimension all match
+ */
+function embeddingMismatch(
+  source: { model: string; layers?: number[]; dimension: number },
+  provider: EmbeddingProviderName,
+  model: ESM2ModelInfo,
+  layers: number[],
+  dimension: number
+): string | null {
+  const sourceLayers = source.layers?.join(",");
+  // Models are recorded as "<checkpoint> (<provider>)"; mock embeddings in
+  // particular share the checkpoint name but not the vector space
+  const [checkpoint, sourceProvider] = source.model.split(" ");
+  if (
+    checkpoint !== model.name ||
+    (sourceProvider !== undefined && sourceProvider !== `(${provider})`) ||
+    (sourceLayers !== undefined && sourceLayers !== layers.join(",")) ||
+    source.dimension !== dimension
+  ) {
+    return `(${source.model}, layers ${sourceLayers ?? "?"}, ${
+      source.dimension
+    }-dim) does not match the query embedding (${
+      model.name
+    } (${provider}), layers ${layers.join(",")}, ${dimension}-dim)`;
+  }
+  return null;
+}
+
+/**
+ * Embed, compute statistics and classify one protein sequence
+ */
+export async function analyzeSequence(
+  sequence: string,
+  sequenceId: string,
+  options: AnalysisOptions = {}
+): Promise<SequenceAnalysis> {
+  const provider = options.provider ?? getEmbeddingProvider();
+  // Without an explicit model, use the provider's own and its final layer
+  const { model, layers } = resolveEmbeddingRequest(
+    options.model ?? provider.model,
+    options.layers
+  );
+  const { protein, translation } = resolveProteinSequence(
+    cleanSequence(sequence || ""),
+    options
+  );
+  const cleaned = prepareSequence(protein);
+
+  const esm2Response = await provider.embed(cleaned, {
+    perResidue: options.perResidue,
+    model: model.size,
+    layers,
+  });
+  const embeddings = parseESM2Layers(esm2Response, layers);
+  const residueEmbeddings = options.perResidue
+    ? parseESM2PerResidueLayers(esm2Response, layers)
+    : null;
+  const embeddingFeatures = extractEmbeddingFeatures(embeddings);
+
+  // Calculate sequence statistics
+  const stats = getSequenceStats(cleaned);
+
+  const targeting = predictTargeting(cleaned);
+  const disorder = predictDisorder(cleaned);
+  const lowComplexity = findLowComplexityRegions(cleaned);
+  const motifs = scanMotifs(cleaned);
+  const pfamLibrary = getPfamLibrary();
+  const domains = pfamLibrary
+    ? searchPfamDomains(cleaned, pfamLibrary)
+    : undefined;
+  const sequenceDatabase = getSequenceDatabase();
+  const homologs = sequenceDatabase
+    ? searchDatabase(cleaned, sequenceDatabase)
+    : undefined;
+  const signalPeptide = targeting.signalPeptide;
+  const hydropathy = {
+    profile: hydropathyProfile(cleaned, options.hydropathyScale),
+    transmembrane: predictTransmembraneHelices(
+      cleaned,
+      options.hydropathyScale,
+      {
+        signalPeptideEnd:
+          signalPeptide && signalPeptide.score >= TARGETING_THRESHOLD
+            ? signalPeptide.cleavageSite
+            : undefined,
+      }
+    ),
+  };
+
+  // Nearest reference proteins, when an index matching this model and these
+  // layers is installed
+  const referenceIndex = getReferenceIndex();
+  const indexMismatch =
+    referenceIndex &&
+    embeddingMismatch(
+      referenceIndex,
+      provider.name,
+      model,
+      layers,
+      embeddings.length
+    );
+  const neighbours =
+    referenceIndex && !indexMismatch
+      ? findNearestNeighbours(embeddings, referenceIndex)
+      : undefined;
+
+  // Trained classifier head, likewise
+  const classifierHead = getClassifierHead();
+  const headMismatch =
+    classifierHead &&
+    embeddingMismatch(
+      classifierHead,
+      provider.name,
+      model,
+      layers,
+      embeddings.length
+    );
+  const headPredictions =
+    classifierHead && !headMismatch
+      ? predictWithHead(classifierHead, embeddings)
+      : undefined;
+
+  const classification = classifyProteinWithEmbeddings(
+    cleaned,
+    stats,
+    sequenceId,
+    embeddingFeatures,
+    {
+      neighbours,
+      headPredictions,
+      headVersion: classifierHead
+        ? `${classifierHead.version} (${classifierHead.model})`
+        : undefined,
+      transmembrane: hydropathy.transmembrane,
+      targeting,
+      motifs,
+      domains,
+      disorder,
+      lowComplexity,
+      calibration: options.calibration,
+      ontology: options.ontology,
+    }
+  );
+
+  if (indexMismatch) {
+    classification.notes.push(
+      `Reference index ${indexMismatch}; k-NN annotation skipped`
+    );
+  }
+
+  if (headMismatch) {
+    classification.notes.push(
+      `Classifier head ${headMismatch}; head predictions skipped`
+    );
+  }
+
+  const prositeWarnings = getPrositeWarnings();
+  if (prositeWarnings.length > 0) {
+    classification.notes.push(
+      `${prositeWarnings.length} PROSITE ${
+        prositeWarnings.length > 1 ? "patterns" : "pattern"
+      } could not be compiled and ${
+        prositeWarnings.length > 1 ? "were" : "was"
+      } skipped (${prositeWarnings.join("; ")})`
+    );
+  }
+
+  const enzymeDatabase = getEnzymeDatabase();
+  const ecNumbers = predictEcNumbers(
+    { motifs, domains, neighbours, homologs },
+    { database: enzymeDatabase }
+  );
+
+  if (options.perResidue && !residueEmbeddings) {
+    classification.notes.push(
+      `The ${provider.name} embedding provider did not return per-residue representations; residue tracks unavailable`
+    );
+  }
+
+  if (translation) {
+    const orf = translation.selectedOrf;
+    classification.notes.unshift(
+      `Translated from ${translation.moleculeType.toUpperCase()} ORF ${orf.strand}${orf.frame} (${orf.start}-${orf.end}, ${orf.length} aa) using genetic code ${translation.geneticCode}`
+    );
+  }
+
+  return {
+    classification,
+    stats,
+    properties: calculateProteinProperties(cleaned, options.pH),
+    hydropathy,
+    targeting,
+    secondaryStructure: predictSecondaryStructure(cleaned),
+    disorder,
+    lowComplexity,
+    motifs,
+    domains,
+    homologs,
+    ecNumbers,
+    embeddingFeatures,
+    embeddingStats: {
+      dimension: embeddings.length,
+      layer: layers[layers.length - 1],
+      layers,
+      model: model.name,
+      mean: embeddingFeatures.embeddingStats.mean,
+      std: embeddingFeatures.embeddingStats.std,
+      range: [
+        embeddingFeatures.embeddingStats.min,
+        embeddingFeatures.embeddingStats.max,
+      ],
+    },
+    translation,
+    residueTracks: residueEmbeddings
+      ? computeResidueTracks(residueEmbeddings)
+      : undefined,
+  };
+}
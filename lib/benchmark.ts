@@ -0,0 +1,205 @@
+/**
+ * Evaluation of GO predictions against a labelled benchmark
+ * CAFA-style protein-centric precision, recall and Fmax per aspect
+ */
+
+import type { GoAspect } from "./go-rules";
+import type { CalibrationPoint } from "./calibration";
+import {
+  GO_ROOTS,
+  resolveTerm,
+  termAncestors,
+  type GeneOntology,
+} from "./gene-ontology";
+
+export interface ScoredTerm {
+  id: string;
+  type: GoAspect;
+  confidence: number;
+}
+
+export interface BenchmarkCase {
+  accession: string;
+  // Reference annotations
+  truth: { id: string; aspect: GoAspect }[];
+  predictions: ScoredTerm[];
+}
+
+export interface AspectMetrics {
+  aspect: GoAspect;
+  // Benchmark proteins annotated in this aspect
+  proteins: number;
+  fmax: number;
+  // Score threshold at which Fmax is reached
+  threshold: number;
+  precision: number;
+  recall: number;
+  // Share of annotated proteins with a prediction at the threshold
+  coverage: number;
+}
+
+const ASPECTS: GoAspect[] = [
+  "molecular_function",
+  "biological_process",
+  "cellular_component",
+];
+
+// Thresholds 0.01, 0.02, ..., 1.00
+const THRESHOLDS = Array.from({ length: 100 }, (_, i) => (i + 1) / 100);
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Current ids plus their ancestors (aspect roots excluded)
+ * Without an ontology ids are compared as given
+ */
+export function propagateTerms(
+  ids: string[],
+  ontology?: GeneOntology | null
+): Set<string> {
+  if (!ontology) return new Set(ids);
+
+  const terms = new Set<string>();
+  for (const id of ids) {
+    const term = resolveTerm(ontology, id);
+    if (!term) continue;
+    terms.add(term.id);
+    for (const ancestor of termAncestors(ontology, term.id)) {
+      if (!GO_ROOTS.includes(ancestor)) terms.add(ancestor);
+    }
+  }
+  return terms;
+}
+
+/**
+ * Predicted terms and their ancestors, each scored with the highest
+ * confidence among the predictions implying it
+ */
+export function propagatePredictions(
+  predictions: ScoredTerm[],
+  ontology?: GeneOntology | null
+): Map<string, ScoredTerm> {
+  const scored = new Map<string, ScoredTerm>();
+
+  for (const prediction of predictions) {
+    for (const id of propagateTerms([prediction.id], ontology)) {
+      const existing = scored.get(id);
+      if (!existing || existing.confidence < prediction.confidence) {
+        const type = ontology?.terms.get(id)?.namespace ?? prediction.type;
+        scored.set(id, { id, type, confidence: prediction.confidence });
+      }
+    }
+  }
+
+  return scored;
+}
+
+/**
+ * Protein-centric Fmax per aspect; precision is averaged over proteins with
+ * at least one prediction above the threshold, recall over all annotated
+ * proteins
+ */
+export function evaluateFmax(
+  cases: BenchmarkCase[],
+  ontology?: GeneOntology | null
+): AspectMetrics[] {
+  const prepared = cases.map((c) => ({
+    truth: c.truth,
+    predictions: [...propagatePredictions(c.predictions, ontology).values()],
+  }));
+
+  return ASPECTS.map((aspect) => {
+    const annotated = prepared
+      .map((c) => ({
+        truth: propagateTerms(
+          c.truth.filter((t) => t.aspect === aspect).map((t) => t.id),
+          ontology
+        ),
+        predictions: c.predictions.filter((p) => p.type === aspect),
+      }))
+      .filter((c) => c.truth.size > 0);
+
+    const best: AspectMetrics = {
+      aspect,
+      proteins: annotated.length,
+      fmax: 0,
+      threshold: 0,
+      precision: 0,
+      recall: 0,
+      coverage: 0,
+    };
+    if (annotated.length === 0) return best;
+
+    for (const threshold of THRESHOLDS) {
+      let precisionSum = 0;
+      let recallSum = 0;
+      let covered = 0;
+
+      for (const { truth, predictions } of annotated) {
+        const predicted = predictions.filter((p) => p.confidence >= threshold);
+        if (predicted.length === 0) continue;
+
+        const correct = predicted.filter((p) => truth.has(p.id)).length;
+        precisionSum += correct / predicted.length;
+        recallSum += correct / truth.size;
+        covered++;
+      }
+
+      if (covered === 0) continue;
+      const precision = precisionSum / covered;
+      const recall = recallSum / annotated.length;
+      const f =
+        precision + recall > 0
+          ? (2 * precision * recall) / (precision + recall)
+          : 0;
+
+      if (f > best.fmax) {
+        Object.assign(best, {
+          fmax: round(f),
+          threshold,
+          precision: round(precision),
+          recall: round(recall),
+          coverage: round(covered / annotated.length),
+        });
+      }
+    }
+
+    return best;
+  });
+}
+
+/**
+ * Expected calibration error: gap between mean confidence and accuracy in
+ * equal-width score bins, weighted by bin size; lower is better
+ */
+export function expectedCalibrationError(
+  points: CalibrationPoint[],
+  bins = 10
+): number {
+  if (points.length === 0) return 0;
+
+  const totals = Array.from({ length: bins }, () => ({ score: 0, correct: 0 }));
+  for (const p of points) {
+    const bin = totals[Math.min(bins - 1, Math.floor(p.score * bins))];
+    bin.score += p.score;
+    if (p.correct) bin.correct++;
+  }
+
+  return round(
+    totals.reduce((sum, bin) => sum + Math.abs(bin.score - bin.correct), 0) /
+      points.length
+  );
+}
+
+/**
+ * Mean squared error between confidence and outcome; lower is better
+ */
+export function brierScore(points: CalibrationPoint[]): number {
+  if (points.length === 0) return 0;
+  return round(
+    points.reduce((sum, p) => sum + (p.score - (p.correct ? 1 : 0)) ** 2, 0) /
+      points.length
+  );
+}
@@ -0,0 +1,294 @@
+/**
+ * Confidence calibration fitted on a labelled benchmark
+ * Maps raw classifier scores to the observed probability of being correct
+ */
+
+import fs from "fs";
+import path from "path";
+import type { FunctionalCategory } from "./classification-engine";
+
+export type CalibrationMethod = "isotonic" | "platt";
+
+/**
+ * - isotonic: step function; scores at or above thresholds[i] map to values[i]
+ * - platt: p = 1 / (1 + exp(a * score + b))
+ */
+export type CalibrationModel =
+  | { method: "isotonic"; thresholds: number[]; values: number[] }
+  | { method: "platt"; a: number; b: number };
+
+export interface CalibrationFile {
+  version: string;
+  method: CalibrationMethod;
+  // Labelled set the models were fitted on
+  benchmark?: string;
+  // Keyed by rule id, "knn" / "pfam" for annotation transfer or "head" for
+  // the embedding classifier head
+  models: Record<string, CalibrationModel>;
+  // Used for sources without enough labelled predictions of their own
+  fallback?: CalibrationModel;
+  // Raw score of the top primary prediction -> probability it is correct
+  overall?: CalibrationModel;
+}
+
+export interface CalibrationPoint {
+  score: number;
+  correct: boolean;
+}
+
+export const DEFAULT_CALIBRATION_PATH = path.join(
+  process.cwd(),
+  "data",
+  "calibration.json"
+);
+
+// Sources with fewer labelled predictions (or only one outcome) use the fallback
+export const MIN_CALIBRATION_POINTS = 20;
+
+const PLATT_ITERATIONS = 100;
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Key a prediction is calibrated under
+ */
+export function calibrationKey(category: FunctionalCategory): string {
+  if (category.ruleId) return category.ruleId;
+  if (category.domainAccessions) return "pfam";
+  if (category.headBased) return "head";
+  return "knn";
+}
+
+/**
+ * Pool-adjacent-violators fit of a non-decreasing step function
+ */
+export function fitIsotonic(points: CalibrationPoint[]): CalibrationModel {
+  const blocks: { score: number; sum: number; count: number }[] = [];
+
+  for (const point of [...points].sort((a, b) => a.score - b.score)) {
+    blocks.push({ score: point.score, sum: point.correct ? 1 : 0, count: 1 });
+
+    while (
+      blocks.length > 1 &&
+      blocks[blocks.length - 2].sum / blocks[blocks.length - 2].count >=
+        blocks[blocks.length - 1].sum / blocks[blocks.length - 1].count
+    ) {
+      const last = blocks.pop()!;
+      const previous = blocks[blocks.length - 1];
+      previous.sum += last.sum;
+      previous.count += last.count;
+    }
+  }
+
+  return {
+    method: "isotonic",
+    thresholds: blocks.map((b) => round(b.score)),
+    values: blocks.map((b) => round(b.sum / b.count)),
+  };
+}
+
+/**
+ * Platt scaling by Newton's method, with Platt's smoothed targets
+ */
+export function fitPlatt(points: CalibrationPoint[]): CalibrationModel {
+  const positives = points.filter((p) => p.correct).length;
+  const negatives = points.length - positives;
+  const hi = (positives + 1) / (positives + 2);
+  const lo = 1 / (negatives + 2);
+  let a = 0;
+  let b = Math.log((negatives + 1) / (positives + 1));
+
+  for (let iteration = 0; iteration < PLATT_ITERATIONS; iteration++) {
+    // Gradient and Hessian of the log loss with respect to (a, b)
+    let ga = 0;
+    let gb = 0;
+    let haa = 1e-12;
+    let hab = 0;
+    let hbb = 1e-12;
+
+    for (const { score, correct } of points) {
+      const p = 1 / (1 + Math.exp(a * score + b));
+      const d = (correct ? hi : lo) - p;
+      const w = p * (1 - p);
+      ga += score * d;
+      gb += d;
+      haa += score * score * w;
+      hab += score * w;
+      hbb += w;
+    }
+
+    const det = haa * hbb - hab * hab;
+    if (Math.abs(det) < 1e-12) break;
+    const da = (hbb * ga - hab * gb) / det;
+    const db = (haa * gb - hab * ga) / det;
+    a -= da;
+    b -= db;
+    if (Math.abs(da) < 1e-9 && Math.abs(db) < 1e-9) break;
+  }
+
+  return { method: "platt", a: round(a), b: round(b) };
+}
+
+export function fitCalibration(
+  points: CalibrationPoint[],
+  method: CalibrationMethod
+): CalibrationModel {
+  return method === "platt" ? fitPlatt(points) : fitIsotonic(points);
+}
+
+/**
+ * Map a raw score through a fitted model
+ */
+export function applyCalibration(
+  model: CalibrationModel,
+  score: number
+): number {
+  if (model.method === "platt") {
+    return 1 / (1 + Math.exp(model.a * score + model.b));
+  }
+
+  let value = model.values[0] ?? score;
+  for (let i = 0; i < model.thresholds.length; i++) {
+    if (score < model.thresholds[i]) break;
+    value = model.values[i];
+  }
+  return value;
+}
+
+/**
+ * Fit one model per source with enough labelled predictions, plus a
+ * fallback over all of them
+ */
+export function buildCalibration(
+  points: Map<string, CalibrationPoint[]>,
+  overall: CalibrationPoint[],
+  method: CalibrationMethod,
+  benchmark?: string
+): CalibrationFile {
+  const models: Record<string, CalibrationModel> = {};
+  const all: CalibrationPoint[] = [];
+
+  for (const [key, sourcePoints] of [...points].sort(([a], [b]) =>
+    a.localeCompare(b)
+  )) {
+    all.push(...sourcePoints);
+    const positives = sourcePoints.filter((p) => p.correct).length;
+    if (
+      sourcePoints.length >= MIN_CALIBRATION_POINTS &&
+      positives > 0 &&
+      positives < sourcePoints.length
+    ) {
+      models[key] = fitCalibration(sourcePoints, method);
+    }
+  }
+
+  return {
+    version: new Date().toISOString().slice(0, 10),
+    method,
+    benchmark,
+    models,
+    fallback: all.length > 0 ? fitCalibration(all, method) : undefined,
+    overall: overall.length > 0 ? fitCalibration(overall, method) : undefined,
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNumberArray(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "number");
+}
+
+function validateModel(model: unknown, where: string, problems: string[]) {
+  if (!isObject(model)) {
+    problems.push(`${where}: must be an object`);
+  } else if (model.method === "platt") {
+    if (typeof model.a !== "number" || typeof model.b !== "number") {
+      problems.push(`${where}: platt model needs numeric "a" and "b"`);
+    }
+  } else if (model.method === "isotonic") {
+    if (
+      !isNumberArray(model.thresholds) ||
+      !isNumberArray(model.values) ||
+      model.thresholds.length !== model.values.length
+    ) {
+      problems.push(
+        `${where}: isotonic model needs numeric "thresholds" and "values" of equal length`
+      );
+    }
+  } else {
+    problems.push(`${where}: unknown method "${model.method}"`);
+  }
+}
+
+/**
+ * Read and validate a calibration file
+ */
+export function loadCalibration(filePath: string): CalibrationFile {
+  const data: unknown = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  const problems: string[] = [];
+
+  if (!isObject(data)) {
+    throw new Error(`Invalid calibration file (${filePath}): not an object`);
+  }
+
+  if (typeof data.version !== "string") problems.push(`"version" missing`);
+  if (!isObject(data.models)) {
+    problems.push(`"models" must be an object`);
+  } else {
+    for (const [key, model] of Object.entries(data.models)) {
+      validateModel(model, `models.${key}`, problems);
+    }
+  }
+  if (data.fallback) validateModel(data.fallback, "fallback", problems);
+  if (data.overall) validateModel(data.overall, "overall", problems);
+
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid calibration file (${filePath}): ${problems.slice(0, 10).join("; ")}`
+    );
+  }
+
+  return data as unknown as CalibrationFile;
+}
+
+let cachedCalibration: {
+  path: string;
+  calibration: CalibrationFile | null;
+} | null = null;
+
+/**
+ * Load the configured calibration (CALIBRATION_PATH or data/calibration.json)
+ * Returns null when none has been fitted
+ */
+export function getCalibration(): CalibrationFile | null {
+  const filePath = process.env.CALIBRATION_PATH || DEFAULT_CALIBRATION_PATH;
+
+  if (cachedCalibration?.path === filePath) {
+    return cachedCalibration.calibration;
+  }
+
+  const calibration = fs.existsSync(filePath)
+    ? loadCalibration(filePath)
+    : null;
+
+  cachedCalibration = { path: filePath, calibration };
+  return calibration;
+}
+
+/**
+ * Calibrated confidence for a prediction; the raw score when no model applies
+ */
+export function calibrateConfidence(
+  calibration: CalibrationFile,
+  category: FunctionalCategory
+): number {
+  const model =
+    calibration.models[calibrationKey(category)] ?? calibration.fallback;
+  return model
+    ? round(applyCalibration(model, category.confidence))
+    : category.confidence;
+}
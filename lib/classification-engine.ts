@@ -4,6 +4,54 @@
  */
 
 import type { extractEmbeddingFeatures } from "./esm2-embeddings";
+import {
+  evaluateRules,
+  getRuleSet,
+  referencesComposition,
+  type GoRuleSet,
+} from "./go-rules";
+import {
+  annotateFromNeighbours,
+  type findNearestNeighbours,
+  type ReferenceNeighbour,
+} from "./knn-classifier";
+import { annotateFromHead, type HeadPrediction } from "./classifier-head";
+import {
+  predictTransmembraneHelices,
+  type TransmembranePrediction,
+} from "./hydropathy";
+import { scanMotifs, type MotifHit } from "./prosite";
+import type { DomainHit } from "./hmmer";
+import { annotateFromDomains } from "./pfam";
+import {
+  predictTargeting,
+  TARGETING_THRESHOLD,
+  type TargetingPrediction,
+} from "./targeting";
+import { predictDisorder, type DisorderPrediction } from "./disorder";
+import {
+  evidence,
+  statisticEvidence,
+  type PredictionEvidence,
+} from "./evidence";
+import {
+  getGeneOntology,
+  reconcileWithOntology,
+  type GeneOntology,
+  type LineageStep,
+  type PropagatedTerm,
+} from "./gene-ontology";
+import {
+  applyCalibration,
+  calibrateConfidence,
+  getCalibration,
+  type CalibrationFile,
+} from "./calibration";
+import {
+  findLowComplexityRegions,
+  lowComplexityFraction,
+  type LowComplexityRegion,
+} from "./low-complexity";
 
 export interface FunctionalCategory {
   id: string;
@@ -17,6 +65,26 @@ export interface FunctionalCategory {
     uniProt?: string;
   };
   embeddingBased?: boolean;
+  // What supported the prediction, with ECO codes
+  evidence: PredictionEvidence[];
+  // Predicted by the trained embedding classifier head
+  headBased?: boolean;
+  // Rule set entry that produced this prediction
+  ruleId?: string;
+  // Reference proteins the annotation was transferred from
+  neighbourAccessions?: string[];
+  // PROSITE motif hits the rule relied on
+  motifHits?: MotifHit[];
+  // Pfam domains the annotation was mapped from
+  domainAccessions?: string[];
+  // Why a composition-based call may be unreliable for this sequence
+  caveat?: string;
+  // Obsolete GO id this prediction was originally emitted as
+  replacedId?: string;
+  // Path from the aspect root to this term
+  lineage?: LineageStep[];
+  // Classifier score before calibration
+  rawConfidence?: number;
 }
 
 export interface ClassificationResult {
@@ -28,11 +96,53 @@ export interface ClassificationResult {
   confidence: number;
   notes: string[];
   embeddingFeatures?: ReturnType<typeof extractEmbeddingFeatures>;
+  ruleSetVersion?: string;
+  neighbours?: ReferenceNeighbour[];
+  // Ancestors implied by the predictions (present when GO is installed)
+  propagatedTerms?: PropagatedTerm[];
+  ontologyVersion?: string;
+  // Present when confidences were calibrated
+  calibrationVersion?: string;
 }
 
+export interface ClassificationOptions {
+  ruleSet?: GoRuleSet;
+  // Nearest reference proteins for k-NN annotation transfer
+  neighbours?: ReturnType<typeof findNearestNeighbours>;
+  // Classifier head outputs for the pooled embedding, and the head version
+  headPredictions?: HeadPrediction[];
+  headVersion?: string;
+  // Transmembrane helices; predicted with Kyte-Doolittle when omitted
+  transmembrane?: TransmembranePrediction;
+  // N-terminal targeting signals and NLS; predicted when omitted
+  targeting?: TargetingPrediction;
+  // PROSITE motif hits; scanned against the configured library when omitted
+  motifs?: MotifHit[];
+  // Pfam domain hits, mapped to GO through pfam2go
+  domains?: DomainHit[];
+  // Disorder and low-complexity regions; predicted when omitted
+  disorder?: DisorderPrediction;
+  lowComplexity?: LowComplexityRegion[];
+  // Gene Ontology for term validation and propagation; null skips it,
+  // omitted loads the configured OBO file if installed
+  ontology?: GeneOntology | null;
+  // Benchmark calibration; null reports raw scores, omitted loads the
+  // configured calibration file if present
+  calibration?: CalibrationFile | null;
+}
+
+// k-NN and classifier head predictions at or above this confidence are
+// listed as primary
+const KNN_PRIMARY_THRESHOLD = 0.5;
+
+// Composition-based calls are flagged above these fractions; the matching
+// confidence penalties live in the rule set
+const DISORDER_CAVEAT_FRACTION = 0.3;
+const LOW_COMPLEXITY_CAVEAT_FRACTION = 0.2;
+
 /**
  * Rule-based classifier for functional categories
- * Maps sequence features to GO terms
+ * Maps sequence features to GO terms using the configured rule set
  */
 export function classifyProtein(
   sequence: string,
@@ -49,171 +159,207 @@ export function classifyProteinWithEmbeddings(
   sequence: string,
   stats: ReturnType<typeof import("./protein-api").getSequenceStats>,
   sequenceId: string,
-  embeddingFeatures?: ReturnType<typeof extractEmbeddingFeatures>
+  embeddingFeatures?: ReturnType<typeof extractEmbeddingFeatures>,
+  options: ClassificationOptions = {}
 ): ClassificationResult {
   const primaryFunctions: FunctionalCategory[] = [];
   const secondaryFunctions: FunctionalCategory[] = [];
-
-  // Hydrophobic-rich proteins: membrane proteins, lipid binding
-  if (stats.hydrophobicity > 45) {
-    const confidence = 0.75 + (stats.hydrophobicity - 45) * 0.005;
-    // Boost confidence if embedding suggests structured membrane protein
-    const boostedConfidence =
-      embeddingFeatures && embeddingFeatures.complexity > 0.5
-        ? Math.min(confidence + 0.1, 0.95)
-        : confidence;
-
-    primaryFunctions.push({
-      id: "GO:0005215",
-      name: "Transporter Activity",
-      type: "molecular_function",
-      confidence: boostedConfidence,
-      description:
-        "Enables the directed movement of substances across membranes or cellular components.",
-      examples: ["Ion channels", "Aquaporins", "Transporters"],
-      references: {
-        geneOntology: "GO:0005215",
-        uniProt: "TRANSMEM",
-      },
-      embeddingBased: embeddingFeatures ? true : false,
+  const ruleSet = options.ruleSet ?? getRuleSet();
+  const targeting = options.targeting ?? predictTargeting(sequence);
+  const signalPeptide =
+    targeting.signalPeptide &&
+    targeting.signalPeptide.score >= TARGETING_THRESHOLD
+      ? targeting.signalPeptide
+      : null;
+  const motifs = options.motifs ?? scanMotifs(sequence);
+  const transmembrane =
+    options.transmembrane ??
+    predictTransmembraneHelices(sequence, undefined, {
+      signalPeptideEnd: signalPeptide?.cleavageSite,
     });
+  const disorder = options.disorder ?? predictDisorder(sequence);
+  const lowComplexity =
+    options.lowComplexity ?? findLowComplexityRegions(sequence);
+  const lowComplexityShare = lowComplexityFraction(
+    lowComplexity,
+    sequence.length
+  );
 
-    secondaryFunctions.push({
-      id: "GO:0031224",
-      name: "Intrinsic Component of Membrane",
-      type: "cellular_component",
-      confidence: 0.68,
-      description:
-        "Proteins with strong hydrophobic character often localize to membranes.",
-      examples: ["GPCRs", "Tight junction proteins", "Adhesion molecules"],
-      references: {
-        geneOntology: "GO:0031224",
-      },
-    });
+  const caveats: string[] = [];
+  if (disorder.fraction >= DISORDER_CAVEAT_FRACTION) {
+    caveats.push(
+      `${Math.round(disorder.fraction * 100)}% of residues lie in predicted disordered regions`
+    );
+  }
+  if (lowComplexityShare >= LOW_COMPLEXITY_CAVEAT_FRACTION) {
+    caveats.push(
+      `${Math.round(lowComplexityShare * 100)}% of residues lie in low-complexity regions`
+    );
   }
+  const compositionCaveat =
+    caveats.length > 0
+      ? `Composition-based call; ${caveats.join(" and ")}`
+      : undefined;
 
-  // Highly charged proteins: DNA/RNA binding, enzymatic activity
-  if (Math.abs(stats.netCharge) > 15) {
-    // Embedding complexity as indicator of functional regions
-    const chargeConfidence = 0.7 + (embeddingFeatures?.complexity || 0) * 0.15;
+  const matches = evaluateRules(ruleSet, {
+    sequence,
+    stats,
+    embedding: embeddingFeatures,
+    membrane: {
+      tmHelixCount: transmembrane.helices.length,
+      longestHelix: Math.max(0, ...transmembrane.helices.map((h) => h.length)),
+    },
+    targeting: {
+      signalPeptide: targeting.signalPeptide?.score ?? 0,
+      mitochondrialTransit: targeting.mitochondrialTransit.score,
+      chloroplastTransit: targeting.chloroplastTransit.score,
+      nlsCount: targeting.nls.length,
+    },
+    motifs,
+    disorder: {
+      fraction: disorder.fraction,
+      lowComplexityFraction: lowComplexityShare,
+    },
+  });
 
-    primaryFunctions.push({
-      id: "GO:0003677",
-      name: "DNA Binding",
-      type: "molecular_function",
-      confidence: Math.min(chargeConfidence, 0.95),
-      description: "Interacting selectively and non-covalently with DNA.",
-      examples: ["Transcription factors", "Histones", "Helicases"],
+  for (const {
+    rule,
+    confidence,
+    usesEmbedding,
+    motifHits,
+    triggers,
+  } of matches) {
+    const category: FunctionalCategory = {
+      id: rule.go.id,
+      name: rule.go.name,
+      type: rule.go.aspect,
+      confidence,
+      description: rule.description,
+      examples: rule.examples,
       references: {
-        geneOntology: "GO:0003677",
-        uniProt: "DNA_BIND",
+        geneOntology: rule.go.id,
+        uniProt: rule.references?.uniProt,
       },
-      embeddingBased: embeddingFeatures ? true : false,
-    });
+      embeddingBased: usesEmbedding,
+      ruleId: rule.id,
+      motifHits: motifHits.length > 0 ? motifHits : undefined,
+      caveat: referencesComposition(rule) ? compositionCaveat : undefined,
+      evidence: [
+        evidence("rule", `Rule ${rule.id} (rule set ${ruleSet.version})`, {
+          ruleId: rule.id,
+          version: ruleSet.version,
+        }),
+        ...triggers.map((trigger) => statisticEvidence(rule.id, trigger)),
+        ...motifHits.map((hit) =>
+          evidence(
+            "motif",
+            `${hit.id} ${hit.name} at ${hit.start}-${hit.end}`,
+            {
+              ruleId: rule.id,
+              accession: hit.id,
+              start: hit.start,
+              end: hit.end,
+            }
+          )
+        ),
+        ...(rule.references?.uniProt
+          ? [
+              evidence(
+                "uniprot",
+                `Corresponds to UniProt ${rule.references.uniProt} annotations`,
+                { ruleId: rule.id }
+              ),
+            ]
+          : []),
+      ],
+    };
 
-    primaryFunctions.push({
-      id: "GO:0003723",
-      name: "RNA Binding",
-      type: "molecular_function",
-      confidence: 0.65,
-      description: "Interacting selectively and non-covalently with RNA.",
-      examples: ["Ribosomes", "snRNPs", "tRNA synthetases"],
-      references: {
-        geneOntology: "GO:0003723",
-        uniProt: "RNA_BIND",
-      },
-    });
+    if (rule.tier === "primary") {
+      primaryFunctions.push(category);
+    } else {
+      secondaryFunctions.push(category);
+    }
   }
 
-  // Enzyme-like characteristics
-  if (stats.composition["H"] && stats.composition["H"] > 2) {
-    primaryFunctions.push({
-      id: "GO:0016740",
-      name: "Transferase Activity",
-      type: "molecular_function",
-      confidence: 0.62,
-      description:
-        "Catalyzes the transfer of a group from one compound to another.",
-      examples: ["Kinases", "Phosphatases", "Methyltransferases"],
-      references: {
-        geneOntology: "GO:0016740",
-        uniProt: "TRANSFERASE",
-      },
-    });
+  // Embedding k-NN annotation transfer
+  for (const category of annotateFromNeighbours(options.neighbours ?? [])) {
+    const existing = [...primaryFunctions, ...secondaryFunctions].find(
+      (f) => f.id === category.id
+    );
+
+    if (existing) {
+      existing.confidence = Math.max(existing.confidence, category.confidence);
+      existing.neighbourAccessions = category.neighbourAccessions;
+      existing.embeddingBased = true;
+      existing.evidence.push(...category.evidence);
+    } else if (category.confidence >= KNN_PRIMARY_THRESHOLD) {
+      primaryFunctions.push(category);
+    } else {
+      secondaryFunctions.push(category);
+    }
   }
 
-  // Proline-rich proteins: signal transduction, structural
-  if (stats.composition["P"] && stats.composition["P"] > 5) {
-    secondaryFunctions.push({
-      id: "GO:0004871",
-      name: "Signal Transducer Activity",
-      type: "molecular_function",
-      confidence: 0.58,
-      description: "Conveys a signal across a cell to trigger a response.",
-      examples: ["SH3-domain proteins", "PH-domain proteins"],
-      references: {
-        geneOntology: "GO:0004871",
-      },
-    });
+  // Trained classifier head over the pooled embedding
+  for (const category of annotateFromHead(options.headPredictions ?? [], {
+    version: options.headVersion,
+  })) {
+    const existing = [...primaryFunctions, ...secondaryFunctions].find(
+      (f) => f.id === category.id
+    );
+
+    if (existing) {
+      existing.confidence = Math.max(existing.confidence, category.confidence);
+      existing.embeddingBased = true;
+      existing.evidence.push(...category.evidence);
+    } else if (category.confidence >= KNN_PRIMARY_THRESHOLD) {
+      primaryFunctions.push(category);
+    } else {
+      secondaryFunctions.push(category);
+    }
   }
 
-  // Cysteine-rich: structural proteins, redox activity
-  if (stats.composition["C"] && stats.composition["C"] > 3) {
-    secondaryFunctions.push({
-      id: "GO:0015035",
-      name: "Protein Disulfide Oxidoreductase Activity",
-      type: "molecular_function",
-      confidence: 0.64,
-      description: "Catalyzes the formation and reduction of disulfide bonds.",
-      examples: ["Thioredoxins", "PDI", "Glutaredoxins"],
-      references: {
-        geneOntology: "GO:0015035",
-      },
-    });
+  // Pfam domain annotation via pfam2go
+  for (const category of annotateFromDomains(options.domains ?? [])) {
+    const existing = [...primaryFunctions, ...secondaryFunctions].find(
+      (f) => f.id === category.id
+    );
 
-    secondaryFunctions.push({
-      id: "GO:0005200",
-      name: "Structural Protein Activity",
-      type: "molecular_function",
-      confidence: 0.6,
-      description: "Provides structural support to cells.",
-      examples: ["Keratins", "Collagens", "Fibrinogen"],
-      references: {
-        geneOntology: "GO:0005200",
-      },
-    });
+    if (existing) {
+      existing.confidence = Math.max(existing.confidence, category.confidence);
+      existing.domainAccessions = category.domainAccessions;
+      existing.evidence.push(...category.evidence);
+    } else {
+      primaryFunctions.push(category);
+    }
   }
 
-  // Cell signaling / metabolic processes
-  if (stats.length > 300) {
-    primaryFunctions.push({
-      id: "GO:0008152",
-      name: "Metabolic Process",
-      type: "biological_process",
-      confidence: 0.55,
-      description: "Chemical reactions and pathways that modify substances.",
-      examples: ["Glycolysis", "TCA cycle", "Photosynthesis"],
-      references: {
-        geneOntology: "GO:0008152",
-      },
-    });
+  // Map raw scores to benchmark precision before propagation, so ancestors
+  // inherit calibrated values
+  const calibration =
+    options.calibration === undefined ? getCalibration() : options.calibration;
+  if (calibration) {
+    for (const category of [...primaryFunctions, ...secondaryFunctions]) {
+      category.rawConfidence = category.confidence;
+      category.confidence = calibrateConfidence(calibration, category);
+    }
   }
 
-  // General cellular localization
-  primaryFunctions.push({
-    id: "GO:0005623",
-    name: "Intracellular Component",
-    type: "cellular_component",
-    confidence: 0.5,
-    description: "Proteins contained within the cell.",
-    examples: ["Soluble proteins", "Organellar proteins"],
-    references: {
-      geneOntology: "GO:0005623",
-    },
-  });
+  // Validate terms against the ontology and propagate to ancestors
+  const notes: string[] = [];
+  const ontology =
+    options.ontology === undefined ? getGeneOntology() : options.ontology;
+  let candidates = [...primaryFunctions, ...secondaryFunctions];
+  let propagatedTerms: PropagatedTerm[] | undefined;
+
+  if (ontology) {
+    const reconciled = reconcileWithOntology(candidates, ontology);
+    candidates = reconciled.categories;
+    propagatedTerms = reconciled.propagated;
+    notes.push(...reconciled.notes);
+  }
 
   // Sort by confidence and filter
-  const allFunctions = [...primaryFunctions, ...secondaryFunctions]
+  const allFunctions = candidates
     .sort((a, b) => b.confidence - a.confidence)
     .slice(0, 8);
 
@@ -225,13 +371,24 @@ export function classifyProteinWithEmbeddings(
     secondaryFunctions.includes(f)
   );
 
-  const overallConfidence =
+  const rawOverallConfidence =
     sortedPrimary.length > 0
-      ? sortedPrimary.reduce((sum, f) => sum + f.confidence, 0) /
-        sortedPrimary.length
+      ? sortedPrimary.reduce(
+          (sum, f) => sum + (f.rawConfidence ?? f.confidence),
+          0
+        ) / sortedPrimary.length
       : 0.5;
+  // Calibrated overall confidence is the probability that the top primary
+  // prediction is correct, fitted on that prediction's raw score
+  const top = sortedPrimary[0];
+  const overallConfidence =
+    calibration?.overall && top
+      ? applyCalibration(
+          calibration.overall,
+          top.rawConfidence ?? top.confidence
+        )
+      : rawOverallConfidence;
 
-  const notes: string[] = [];
   if (stats.hydrophobicity > 45) {
     notes.push(
       `High hydrophobicity (${stats.hydrophobicity.toFixed(
@@ -239,11 +396,34 @@ export function classifyProteinWithEmbeddings(
       )}%) suggests membrane association`
     );
   }
+  if (signalPeptide) {
+    notes.push(
+      `Signal peptide predicted with cleavage after residue ${signalPeptide.cleavageSite}`
+    );
+  }
+  if (transmembrane.helices.length > 0) {
+    notes.push(
+      `${transmembrane.helices.length} predicted transmembrane ${
+        transmembrane.helices.length > 1 ? "helices" : "helix"
+      } (N-terminus ${
+        transmembrane.nTerminus === "in" ? "cytoplasmic" : "non-cytoplasmic"
+      })`
+    );
+  }
   if (Math.abs(stats.netCharge) > 15) {
     notes.push(
       `High net charge (${
         stats.netCharge > 0 ? "+" : ""
-      }${stats.netCharge.toFixed(1)}) suggests nucleic acid binding`
+      }${stats.netCharge.toFixed(1)}) suggests nucleic acid binding${
+        compositionCaveat ? ", though it may reflect disordered regions" : ""
+      }`
+    );
+  }
+  if (compositionCaveat) {
+    notes.push(
+      `${caveats.join(
+        " and "
+      )}; composition-based predictions are down-weighted`
     );
   }
   if (stats.length < 50) {
@@ -274,5 +454,10 @@ export function classifyProteinWithEmbeddings(
     confidence: overallConfidence,
     notes,
     embeddingFeatures,
+    ruleSetVersion: ruleSet.version,
+    neighbours: options.neighbours?.slice(0, 5).map(({ terms, ...n }) => n),
+    propagatedTerms,
+    ontologyVersion: ontology?.version,
+    calibrationVersion: calibration?.version,
   };
 }
@@ -0,0 +1,446 @@
+/**
+ * Multi-label classifier head over pooled ESM-2 embeddings
+ * Logistic regression or a one-hidden-layer MLP, trained on CPU, stored as JSON
+ * None is bundled; heads are trained locally with train:classifier-head
+ */
+
+import fs from "fs";
+import path from "path";
+import type { FunctionalCategory } from "./classification-engine";
+import type { GoAspect } from "./go-rules";
+import type { ReferenceGoTerm } from "./reference-index";
+import { evidence } from "./evidence";
+
+export interface HeadLayer {
+  // weights[output][input]
+  weights: number[][];
+  bias: number[];
+}
+
+export interface ClassifierHead {
+  version: string;
+  // Embedding model and layers the head was trained on
+  model: string;
+  layers?: number[];
+  dimension: number;
+  labels: ReferenceGoTerm[];
+  // Input standardisation
+  mean: number[];
+  std: number[];
+  // Dense layers with ReLU in between and a sigmoid on the output
+  network: HeadLayer[];
+}
+
+export interface HeadPrediction {
+  term: ReferenceGoTerm;
+  probability: number;
+}
+
+export interface TrainingExample {
+  embedding: number[];
+  // GO ids annotated to the protein
+  labels: string[];
+}
+
+export interface TrainingOptions {
+  // Hidden units; 0 trains plain logistic regression
+  hidden?: number;
+  epochs?: number;
+  learningRate?: number;
+  // L2 penalty on weights
+  l2?: number;
+  batchSize?: number;
+  seed?: number;
+  onEpoch?: (epoch: number, loss: number) => void;
+}
+
+export interface HeadAnnotationOptions {
+  // Predictions below this probability are not reported
+  minConfidence?: number;
+  maxPerAspect?: number;
+  // Head version recorded in the evidence
+  version?: string;
+}
+
+export const DEFAULT_CLASSIFIER_HEAD_PATH = path.join(
+  process.cwd(),
+  "data",
+  "classifier-head.json"
+);
+
+const DEFAULT_MIN_CONFIDENCE = 0.3;
+const DEFAULT_MAX_PER_ASPECT = 3;
+
+// Adam moment decay rates
+const BETA1 = 0.9;
+const BETA2 = 0.999;
+const EPSILON = 1e-8;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNumberArray(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "number");
+}
+
+/**
+ * Validate parsed head JSON
+ */
+export function buildClassifierHead(
+  data: unknown,
+  source = "classifier head"
+): ClassifierHead {
+  if (!isObject(data)) {
+    throw new Error(`Invalid classifier head (${source}): not an object`);
+  }
+
+  const problems: string[] = [];
+
+  for (const key of ["version", "model"]) {
+    if (typeof data[key] !== "string") problems.push(`"${key}" missing`);
+  }
+  const { dimension, labels, network } = data;
+  if (typeof dimension !== "number") problems.push(`"dimension" missing`);
+  if (!Array.isArray(labels) || labels.length === 0) {
+    problems.push(`"labels" must be a non-empty array`);
+  }
+  for (const key of ["mean", "std"]) {
+    const values = data[key];
+    if (!isNumberArray(values) || values.length !== dimension) {
+      problems.push(`"${key}" must have ${dimension} values`);
+    }
+  }
+  if (!Array.isArray(network) || network.length === 0) {
+    problems.push(`"network" must be a non-empty array`);
+  }
+
+  if (
+    problems.length === 0 &&
+    typeof dimension === "number" &&
+    Array.isArray(labels) &&
+    Array.isArray(network)
+  ) {
+    let inputs = dimension;
+    network.forEach((layer: unknown, i: number) => {
+      const weights = isObject(layer) ? layer.weights : undefined;
+      const bias = isObject(layer) ? layer.bias : undefined;
+      if (
+        !Array.isArray(weights) ||
+        !isNumberArray(bias) ||
+        weights.length !== bias.length ||
+        weights.some((row) => !isNumberArray(row) || row.length !== inputs)
+      ) {
+        problems.push(
+          `network[${i}]: expected ${isNumberArray(bias) ? bias.length : "?"} x ${inputs} weights`
+        );
+        return;
+      }
+      inputs = bias.length;
+    });
+    if (inputs !== labels.length) {
+      problems.push(
+        `output layer has ${inputs} units for ${labels.length} labels`
+      );
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid classifier head (${source}): ${problems.slice(0, 10).join("; ")}`
+    );
+  }
+
+  return data as unknown as ClassifierHead;
+}
+
+let cachedHead: { path: string; head: ClassifierHead | null } | null = null;
+
+/**
+ * Load the configured head (CLASSIFIER_HEAD_PATH or data/classifier-head.json)
+ * Returns null when no head has been trained
+ */
+export function getClassifierHead(): ClassifierHead | null {
+  const filePath =
+    process.env.CLASSIFIER_HEAD_PATH || DEFAULT_CLASSIFIER_HEAD_PATH;
+
+  if (cachedHead?.path === filePath) return cachedHead.head;
+
+  const head = fs.existsSync(filePath)
+    ? buildClassifierHead(
+        JSON.parse(fs.readFileSync(filePath, "utf8")),
+        filePath
+      )
+    : null;
+
+  cachedHead = { path: filePath, head };
+  return head;
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+function standardize(
+  embedding: number[],
+  mean: number[],
+  std: number[]
+): number[] {
+  return embedding.map((v, i) => (v - mean[i]) / (std[i] || 1));
+}
+
+/**
+ * Activations of every layer; the last entry holds output probabilities
+ */
+function forward(network: HeadLayer[], input: number[]): number[][] {
+  const activations = [input];
+
+  network.forEach((layer, l) => {
+    const previous = activations[activations.length - 1];
+    const last = l === network.length - 1;
+    activations.push(
+      layer.weights.map((row, j) => {
+        let z = layer.bias[j];
+        for (let i = 0; i < row.length; i++) z += row[i] * previous[i];
+        return last ? sigmoid(z) : Math.max(0, z);
+      })
+    );
+  });
+
+  return activations;
+}
+
+/**
+ * Probability of every label for a pooled embedding, highest first
+ */
+export function predictWithHead(
+  head: ClassifierHead,
+  embedding: number[]
+): HeadPrediction[] {
+  if (embedding.length !== head.dimension) {
+    throw new Error(
+      `Embedding dimension ${embedding.length} does not match classifier head dimension ${head.dimension}`
+    );
+  }
+
+  const activations = forward(
+    head.network,
+    standardize(embedding, head.mean, head.std)
+  );
+  const probabilities = activations[activations.length - 1];
+
+  return head.labels
+    .map((term, i) => ({ term, probability: probabilities[i] }))
+    .sort((a, b) => b.probability - a.probability);
+}
+
+/**
+ * Turn head outputs into GO predictions, keeping the best few per aspect
+ */
+export function annotateFromHead(
+  predictions: HeadPrediction[],
+  options: HeadAnnotationOptions = {}
+): FunctionalCategory[] {
+  const minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+  const maxPerAspect = options.maxPerAspect ?? DEFAULT_MAX_PER_ASPECT;
+  const perAspect = new Map<GoAspect, number>();
+  const categories: FunctionalCategory[] = [];
+
+  for (const { term, probability } of predictions) {
+    if (probability < minConfidence) break;
+    const count = perAspect.get(term.aspect) ?? 0;
+    if (count >= maxPerAspect) continue;
+    perAspect.set(term.aspect, count + 1);
+
+    categories.push({
+      id: term.id,
+      name: term.name,
+      type: term.aspect,
+      confidence: probability,
+      description: `Predicted from the whole-protein embedding by the trained classifier head (p = ${probability.toFixed(
+        3
+      )}).`,
+      examples: [],
+      references: { geneOntology: term.id },
+      embeddingBased: true,
+      headBased: true,
+      evidence: [
+        evidence(
+          "model",
+          `Classifier head${options.version ? ` ${options.version}` : ""}: p = ${probability.toFixed(3)}`,
+          { score: probability, version: options.version }
+        ),
+      ],
+    });
+  }
+
+  return categories;
+}
+
+// mulberry32; deterministic initialisation and shuffling
+function random(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Fit the head with mini-batch Adam on binary cross-entropy
+ */
+export function trainClassifierHead(
+  examples: TrainingExample[],
+  labels: ReferenceGoTerm[],
+  options: TrainingOptions = {}
+): Omit<ClassifierHead, "version" | "model" | "layers"> {
+  if (examples.length === 0) throw new Error("No training examples");
+
+  const hidden = options.hidden ?? 0;
+  const epochs = options.epochs ?? 50;
+  const learningRate = options.learningRate ?? 1e-3;
+  const l2 = options.l2 ?? 1e-4;
+  const batchSize = options.batchSize ?? 32;
+  const rand = random(options.seed ?? 1);
+  const dimension = examples[0].embedding.length;
+
+  const mean = new Array<number>(dimension).fill(0);
+  const std = new Array<number>(dimension).fill(0);
+  for (const { embedding } of examples) {
+    embedding.forEach((v, i) => (mean[i] += v / examples.length));
+  }
+  for (const { embedding } of examples) {
+    embedding.forEach((v, i) => (std[i] += (v - mean[i]) ** 2));
+  }
+  for (let i = 0; i < dimension; i++) {
+    std[i] = Math.sqrt(std[i] / examples.length) || 1;
+  }
+
+  const labelIndex = new Map(labels.map((term, i) => [term.id, i]));
+  const data = examples.map(({ embedding, labels: ids }) => {
+    const target = new Array<number>(labels.length).fill(0);
+    for (const id of ids) {
+      const index = labelIndex.get(id);
+      if (index !== undefined) target[index] = 1;
+    }
+    return { input: standardize(embedding, mean, std), target };
+  });
+
+  // He initialisation for ReLU layers, Xavier for the output
+  const sizes =
+    hidden > 0
+      ? [dimension, hidden, labels.length]
+      : [dimension, labels.length];
+  const network: HeadLayer[] = sizes.slice(1).map((outputs, l) => {
+    const scale = Math.sqrt((l < sizes.length - 2 ? 2 : 1) / sizes[l]);
+    return {
+      weights: Array.from({ length: outputs }, () =>
+        Array.from({ length: sizes[l] }, () => (rand() * 2 - 1) * scale)
+      ),
+      bias: new Array<number>(outputs).fill(0),
+    };
+  });
+
+  const zeros = () =>
+    network.map((layer) => ({
+      weights: layer.weights.map((row) =>
+        new Array<number>(row.length).fill(0)
+      ),
+      bias: new Array<number>(layer.bias.length).fill(0),
+    }));
+  const m = zeros();
+  const v = zeros();
+  let step = 0;
+
+  for (let epoch = 1; epoch <= epochs; epoch++) {
+    // Fisher-Yates shuffle
+    const order = data.map((_, i) => i);
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(rand() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+
+    let loss = 0;
+
+    for (let start = 0; start < order.length; start += batchSize) {
+      const batch = order.slice(start, start + batchSize);
+      const gradient = zeros();
+
+      for (const index of batch) {
+        const { input, target } = data[index];
+        const activations = forward(network, input);
+        const output = activations[activations.length - 1];
+
+        // Sigmoid + cross-entropy: dL/dz = p - y
+        let delta = output.map((p, j) => {
+          const clamped = Math.min(Math.max(p, 1e-7), 1 - 1e-7);
+          loss -=
+            target[j] * Math.log(clamped) +
+            (1 - target[j]) * Math.log(1 - clamped);
+          return (p - target[j]) / batch.length;
+        });
+
+        for (let l = network.length - 1; l >= 0; l--) {
+          const previous = activations[l];
+          const layer = network[l];
+          const next = new Array<number>(previous.length).fill(0);
+          const propagate = l > 0;
+
+          for (let j = 0; j < delta.length; j++) {
+            if (delta[j] === 0) continue;
+            gradient[l].bias[j] += delta[j];
+            const row = layer.weights[j];
+            const gradRow = gradient[l].weights[j];
+            for (let i = 0; i < previous.length; i++) {
+              gradRow[i] += delta[j] * previous[i];
+              if (propagate) next[i] += delta[j] * row[i];
+            }
+          }
+
+          // ReLU derivative of the layer below
+          delta = next.map((d, i) => (previous[i] > 0 ? d : 0));
+        }
+      }
+
+      step++;
+      const correction1 = 1 - BETA1 ** step;
+      const correction2 = 1 - BETA2 ** step;
+      const update = (
+        params: number[],
+        grads: number[],
+        m1: number[],
+        m2: number[],
+        decay: number
+      ) => {
+        for (let i = 0; i < params.length; i++) {
+          const g = grads[i] + decay * params[i];
+          m1[i] = BETA1 * m1[i] + (1 - BETA1) * g;
+          m2[i] = BETA2 * m2[i] + (1 - BETA2) * g * g;
+          params[i] -=
+            (learningRate * (m1[i] / correction1)) /
+            (Math.sqrt(m2[i] / correction2) + EPSILON);
+        }
+      };
+
+      network.forEach((layer, l) => {
+        layer.weights.forEach((row, j) =>
+          update(
+            row,
+            gradient[l].weights[j],
+            m[l].weights[j],
+            v[l].weights[j],
+            l2
+          )
+        );
+        update(layer.bias, gradient[l].bias, m[l].bias, v[l].bias, 0);
+      });
+    }
+
+    options.onEpoch?.(epoch, loss / (data.length * labels.length));
+  }
+
+  return { dimension, labels, mean, std, network };
+}
@@ -0,0 +1,27 @@
+/**
+ * Small async helpers for bounded parallel work
+ */
+
+/**
+ * Map over items with at most `limit` calls in flight
+ * Results keep the order of the input array
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  const workerCount = Math.max(1, Math.min(Math.floor(limit), items.length));
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
@@ -0,0 +1,185 @@
+/**
+ * Intrinsic disorder prediction from sequence composition
+ * Combines the TOP-IDP propensity scale with Uversky charge-hydropathy analysis
+ */
+
+import { KYTE_DOOLITTLE } from "./protein-properties";
+
+// Residues at or above this score are predicted disordered
+export const DISORDER_THRESHOLD = 0.5;
+
+// TOP-IDP disorder propensity (Campen et al. 2008); higher is more disordered
+const TOP_IDP: Record<string, number> = {
+  W: -0.884,
+  F: -0.697,
+  Y: -0.51,
+  I: -0.486,
+  M: -0.397,
+  L: -0.326,
+  V: -0.121,
+  N: 0.007,
+  C: 0.02,
+  T: 0.059,
+  A: 0.06,
+  G: 0.166,
+  R: 0.18,
+  D: 0.192,
+  H: 0.303,
+  Q: 0.318,
+  K: 0.586,
+  S: 0.341,
+  E: 0.736,
+  P: 0.987,
+};
+// Mean TOP-IDP separating ordered from disordered proteins; the windowed
+// boundary is higher so that folded proteins stay mostly below threshold
+const TOP_IDP_BOUNDARY = 0.185;
+const WINDOW_TOP_IDP_BOUNDARY = 0.25;
+
+// Centred window for per-residue scores, and the shortest reported region
+const WINDOW = 21;
+export const MIN_DISORDER_REGION_LENGTH = 30;
+// Logistic slopes mapping each signal's distance from its boundary to [0, 1]
+const TOP_IDP_SLOPE = 10;
+const CHARGE_HYDROPATHY_SLOPE = 25;
+
+export interface DisorderRegion {
+  // 1-based, inclusive
+  start: number;
+  end: number;
+  meanScore: number;
+}
+
+export interface ChargeHydropathy {
+  // Mean Kyte-Doolittle hydropathy rescaled to [0, 1]
+  meanHydropathy: number;
+  // Absolute mean net charge per residue (K, R +1; D, E -1)
+  meanNetCharge: number;
+  // Hydropathy below which a protein of this charge is predicted unfolded
+  boundary: number;
+  disordered: boolean;
+}
+
+export interface DisorderPrediction {
+  // Per-residue disorder score in [0, 1]
+  scores: number[];
+  // Long disordered regions (at least MIN_DISORDER_REGION_LENGTH residues)
+  regions: DisorderRegion[];
+  // Fraction of residues inside long disordered regions
+  fraction: number;
+  meanTopIdp: number;
+  chargeHydropathy: ChargeHydropathy;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+function normalizedHydropathy(residue: string): number {
+  return ((KYTE_DOOLITTLE[residue] ?? 0) + 4.5) / 9;
+}
+
+function charge(residue: string): number {
+  if (residue === "K" || residue === "R") return 1;
+  if (residue === "D" || residue === "E") return -1;
+  return 0;
+}
+
+/**
+ * Uversky boundary: <H>b = (<R> + 1.151) / 2.785 (Uversky et al. 2000)
+ */
+export function chargeHydropathyBoundary(meanNetCharge: number): number {
+  return (meanNetCharge + 1.151) / 2.785;
+}
+
+/**
+ * Whole-sequence charge-hydropathy classification
+ */
+export function chargeHydropathy(sequence: string): ChargeHydropathy {
+  const residues = sequence.toUpperCase().split("");
+  const n = Math.max(residues.length, 1);
+  const meanHydropathy =
+    residues.reduce((sum, r) => sum + normalizedHydropathy(r), 0) / n;
+  const meanNetCharge = Math.abs(
+    residues.reduce((sum, r) => sum + charge(r), 0) / n
+  );
+  const boundary = chargeHydropathyBoundary(meanNetCharge);
+
+  return {
+    meanHydropathy: round(meanHydropathy),
+    meanNetCharge: round(meanNetCharge),
+    boundary: round(boundary),
+    disordered: meanHydropathy < boundary,
+  };
+}
+
+/**
+ * Per-residue disorder scores from windowed TOP-IDP and charge-hydropathy
+ * Windows are truncated at the termini so every residue is scored
+ */
+export function predictDisorder(sequence: string): DisorderPrediction {
+  const residues = sequence.toUpperCase().split("");
+  const n = residues.length;
+  const half = Math.floor(WINDOW / 2);
+
+  const scores = residues.map((_, i) => {
+    const from = Math.max(0, i - half);
+    const to = Math.min(n, i + half + 1);
+    let topIdp = 0;
+    let hydropathy = 0;
+    let netCharge = 0;
+
+    for (let j = from; j < to; j++) {
+      topIdp += TOP_IDP[residues[j]] ?? TOP_IDP_BOUNDARY;
+      hydropathy += normalizedHydropathy(residues[j]);
+      netCharge += charge(residues[j]);
+    }
+
+    const size = to - from;
+    const boundary = chargeHydropathyBoundary(Math.abs(netCharge / size));
+    const composition = sigmoid(
+      TOP_IDP_SLOPE * (topIdp / size - WINDOW_TOP_IDP_BOUNDARY)
+    );
+    const foldability = sigmoid(
+      CHARGE_HYDROPATHY_SLOPE * (boundary - hydropathy / size)
+    );
+
+    return round((composition + foldability) / 2);
+  });
+
+  const regions: DisorderRegion[] = [];
+  for (let i = 0; i < n;) {
+    if (scores[i] < DISORDER_THRESHOLD) {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j < n && scores[j] >= DISORDER_THRESHOLD) j++;
+    if (j - i >= MIN_DISORDER_REGION_LENGTH) {
+      const run = scores.slice(i, j);
+      regions.push({
+        start: i + 1,
+        end: j,
+        meanScore: round(run.reduce((a, b) => a + b, 0) / run.length),
+      });
+    }
+    i = j;
+  }
+
+  const disordered = regions.reduce((sum, r) => sum + r.end - r.start + 1, 0);
+
+  return {
+    scores,
+    regions,
+    fraction: n === 0 ? 0 : round(disordered / n),
+    meanTopIdp: round(
+      residues.reduce((sum, r) => sum + (TOP_IDP[r] ?? TOP_IDP_BOUNDARY), 0) /
+        Math.max(n, 1)
+    ),
+    chargeHydropathy: chargeHydropathy(sequence),
+  };
+}
@@ -0,0 +1,373 @@
+/**
+ * Enzyme Commission number prediction
+ * Combines motif/domain rules (data/ec-rules.json) with EC numbers transferred
+ * from ENZYME-annotated embedding neighbours and sequence homologs
+ */
+
+import fs from "fs";
+import path from "path";
+import type { DomainHit } from "./hmmer";
+import type { HomologHit } from "./homology-search";
+import type { ReferenceNeighbour } from "./knn-classifier";
+import type { MotifHit } from "./prosite";
+import { evidence, type PredictionEvidence } from "./evidence";
+import {
+  ecLevel,
+  ecName,
+  ecPrefix,
+  isEcNumber,
+  type EnzymeDatabase,
+} from "./enzyme";
+import { pfamAccession } from "./pfam";
+
+export interface EcRule {
+  id: string;
+  // Full or partial EC number, e.g. "2.7.11.-"
+  ec: string;
+  // PROSITE accession or Pfam accession (without version); exactly one is set
+  motif?: string;
+  domain?: string;
+  confidence: number;
+  description: string;
+}
+
+export interface EcRuleSet {
+  version: string;
+  description?: string;
+  rules: EcRule[];
+}
+
+export interface EcPrediction {
+  ec: string;
+  // Number of specified levels; 3 is the sub-subclass
+  level: number;
+  name?: string;
+  // Catalysed reactions, for full EC numbers found in the ENZYME database
+  reactions: string[];
+  // Class, subclass and sub-subclass names, most general first
+  classPath: string[];
+  confidence: number;
+  evidence: PredictionEvidence[];
+}
+
+export interface EcPredictionInput {
+  motifs?: MotifHit[];
+  domains?: DomainHit[];
+  neighbours?: ReferenceNeighbour[];
+  homologs?: HomologHit[];
+}
+
+export interface EcPredictionOptions {
+  database?: EnzymeDatabase | null;
+  rules?: EcRuleSet;
+  // Predictions scoring below this are not reported
+  minConfidence?: number;
+  maxPredictions?: number;
+}
+
+export const DEFAULT_EC_RULES_PATH = path.join(
+  process.cwd(),
+  "data",
+  "ec-rules.json"
+);
+
+const DEFAULT_MIN_CONFIDENCE = 0.3;
+const DEFAULT_MAX_PREDICTIONS = 5;
+
+// Homologs transfer EC numbers only from confident, mostly full-length hits
+const HOMOLOG_MAX_EVALUE = 1e-5;
+const HOMOLOG_MIN_COVERAGE = 50;
+
+type SourceKind = "rule" | "neighbour" | "homolog";
+
+interface Support {
+  ec: string;
+  kind: SourceKind;
+  score: number;
+  evidence: PredictionEvidence;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read and validate an EC rule set
+ */
+export function loadEcRules(filePath: string): EcRuleSet {
+  const data: unknown = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  const problems: string[] = [];
+
+  if (!isObject(data)) {
+    throw new Error(`Invalid EC rule set (${filePath}): not an object`);
+  }
+
+  if (typeof data.version !== "string") problems.push(`"version" missing`);
+  if (!Array.isArray(data.rules)) {
+    problems.push(`"rules" must be an array`);
+  } else {
+    data.rules.forEach((entry: unknown, i: number) => {
+      if (!isObject(entry)) {
+        problems.push(`rules[${i}]: must be an object`);
+        return;
+      }
+      const rule = entry;
+      const where = `rules[${i}]${typeof rule.id === "string" && rule.id ? ` (${rule.id})` : ""}`;
+      if (typeof rule.id !== "string" || !rule.id) {
+        problems.push(`${where}: "id" must be a non-empty string`);
+      }
+      if (typeof rule.ec !== "string" || !isEcNumber(rule.ec)) {
+        problems.push(`${where}: "ec" must look like 1.2.3.4 or 1.2.3.-`);
+      }
+      const hasMotif = rule.motif !== undefined;
+      const hasDomain = rule.domain !== undefined;
+      if (hasMotif === hasDomain) {
+        problems.push(`${where}: set exactly one of "motif" or "domain"`);
+      } else if (
+        hasMotif &&
+        (typeof rule.motif !== "string" || !/^PS\d{5}$/.test(rule.motif))
+      ) {
+        problems.push(
+          `${where}: "motif" must be a PROSITE accession (PS00000)`
+        );
+      } else if (
+        hasDomain &&
+        (typeof rule.domain !== "string" || !/^PF\d{5}$/.test(rule.domain))
+      ) {
+        problems.push(`${where}: "domain" must be a Pfam accession (PF00000)`);
+      }
+      if (
+        typeof rule.confidence !== "number" ||
+        rule.confidence <= 0 ||
+        rule.confidence > 1
+      ) {
+        problems.push(`${where}: "confidence" must be in (0, 1]`);
+      }
+    });
+  }
+
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid EC rule set (${filePath}): ${problems.slice(0, 10).join("; ")}`
+    );
+  }
+
+  return data as unknown as EcRuleSet;
+}
+
+let cachedRules: { path: string; rules: EcRuleSet } | null = null;
+
+/**
+ * Get the configured rule set (EC_RULES_PATH or data/ec-rules.json)
+ */
+export function getEcRules(): EcRuleSet {
+  const filePath = process.env.EC_RULES_PATH || DEFAULT_EC_RULES_PATH;
+
+  if (cachedRules?.path !== filePath) {
+    cachedRules = { path: filePath, rules: loadEcRules(filePath) };
+  }
+  return cachedRules.rules;
+}
+
+function ruleSupport(input: EcPredictionInput, rules: EcRuleSet): Support[] {
+  const support: Support[] = [];
+
+  for (const rule of rules.rules) {
+    if (rule.motif) {
+      const hit = input.motifs?.find((m) => m.id === rule.motif);
+      if (!hit) continue;
+      support.push({
+        ec: rule.ec,
+        kind: "rule",
+        score: rule.confidence,
+        evidence: evidence(
+          "motif",
+          `${hit.id} ${hit.name} (${rule.description})`,
+          {
+            ruleId: rule.id,
+            accession: hit.id,
+            start: hit.start,
+            end: hit.end,
+            version: rules.version,
+          }
+        ),
+      });
+    } else if (rule.domain) {
+      const hit = input.domains?.find(
+        (d) => pfamAccession(d.accession) === rule.domain
+      );
+      if (!hit) continue;
+      support.push({
+        ec: rule.ec,
+        kind: "rule",
+        score: rule.confidence,
+        evidence: evidence(
+          "domain",
+          `${hit.accession} ${hit.name} (${rule.description})`,
+          {
+            ruleId: rule.id,
+            accession: pfamAccession(hit.accession),
+            start: hit.seqFrom,
+            end: hit.seqTo,
+            score: hit.evalue,
+            version: rules.version,
+          }
+        ),
+      });
+    }
+  }
+
+  return support;
+}
+
+/**
+ * Similarity-weighted share of neighbours carrying an EC number, scaled by the
+ * similarity of the closest one (as for k-NN GO transfer)
+ */
+function neighbourSupport(
+  neighbours: ReferenceNeighbour[],
+  database: EnzymeDatabase
+): Support[] {
+  const weight = (n: ReferenceNeighbour) => Math.max(n.similarity, 0);
+  const totalWeight = neighbours.reduce((sum, n) => sum + weight(n), 0);
+  if (totalWeight === 0) return [];
+
+  const votes = new Map<
+    string,
+    { weight: number; supporters: ReferenceNeighbour[] }
+  >();
+  for (const neighbour of neighbours) {
+    for (const ec of database.byUniProt.get(neighbour.accession) ?? []) {
+      const vote = votes.get(ec) ?? { weight: 0, supporters: [] };
+      vote.weight += weight(neighbour);
+      vote.supporters.push(neighbour);
+      votes.set(ec, vote);
+    }
+  }
+
+  return [...votes].map(([ec, { weight: ecWeight, supporters }]) => {
+    const best = supporters[0];
+    return {
+      ec,
+      kind: "neighbour",
+      score: (ecWeight / totalWeight) * weight(best),
+      evidence: evidence(
+        "neighbour",
+        `${supporters.length} of ${neighbours.length} nearest reference proteins are ${ec} (closest: ${best.accession}, cosine ${best.similarity.toFixed(3)})`,
+        { accession: best.accession, score: best.similarity }
+      ),
+    };
+  });
+}
+
+/**
+ * EC numbers of significant homologs, scored by percent identity
+ */
+function homologSupport(
+  homologs: HomologHit[],
+  database: EnzymeDatabase
+): Support[] {
+  return homologs
+    .filter(
+      (hit) =>
+        hit.evalue <= HOMOLOG_MAX_EVALUE &&
+        hit.queryCoverage >= HOMOLOG_MIN_COVERAGE
+    )
+    .flatMap((hit) =>
+      (database.byUniProt.get(hit.accession) ?? []).map((ec): Support => ({
+        ec,
+        kind: "homolog",
+        score: hit.identity / 100,
+        evidence: evidence(
+          "homolog",
+          `${hit.accession} ${hit.description} is ${ec} (${hit.identity.toFixed(1)}% identity, E-value ${hit.evalue.toExponential(1)})`,
+          { accession: hit.accession, score: hit.evalue }
+        ),
+      }))
+    );
+}
+
+/**
+ * Class, subclass and sub-subclass names for an EC number
+ */
+function classPath(ec: string, database?: EnzymeDatabase | null): string[] {
+  const names: string[] = [];
+  for (let level = 1; level <= Math.min(ecLevel(ec), 3); level++) {
+    const name = ecName(ecPrefix(ec, level), database);
+    if (name) names.push(name);
+  }
+  return names;
+}
+
+/**
+ * Predict EC numbers from motif and domain hits, and, when an ENZYME database
+ * is installed, from the EC numbers of embedding neighbours and homologs
+ *
+ * Each source kind contributes its best score for an EC number and for the
+ * sub-subclass containing it; kinds are combined by noisy-OR so independent
+ * lines of evidence reinforce each other
+ */
+export function predictEcNumbers(
+  input: EcPredictionInput,
+  options: EcPredictionOptions = {}
+): EcPrediction[] {
+  const database = options.database;
+  const minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+
+  const support = [
+    ...ruleSupport(input, options.rules ?? getEcRules()),
+    ...(database ? neighbourSupport(input.neighbours ?? [], database) : []),
+    ...(database ? homologSupport(input.homologs ?? [], database) : []),
+  ].filter((s) => !database?.entries.get(s.ec)?.deleted);
+
+  // Candidates are the supported numbers plus their sub-subclasses
+  const candidates = new Set<string>();
+  for (const s of support) {
+    candidates.add(s.ec);
+    if (ecLevel(s.ec) > 3) candidates.add(ecPrefix(s.ec, 3));
+  }
+
+  const scored = [...candidates].map((ec) => {
+    const level = ecLevel(ec);
+    const covering = support.filter(
+      (s) => s.ec === ec || (level === 3 && ecPrefix(s.ec, 3) === ec)
+    );
+
+    const best = new Map<SourceKind, number>();
+    for (const s of covering) {
+      best.set(s.kind, Math.max(best.get(s.kind) ?? 0, s.score));
+    }
+    const confidence =
+      1 - [...best.values()].reduce((miss, score) => miss * (1 - score), 1);
+
+    return { ec, level, confidence, covering };
+  });
+
+  // A sub-subclass is redundant when a full number inside it is as confident
+  const predictions = scored.filter(
+    (p) =>
+      p.confidence >= minConfidence &&
+      !scored.some(
+        (q) =>
+          q.level > p.level &&
+          ecPrefix(q.ec, p.level) === p.ec &&
+          q.confidence >= p.confidence
+      )
+  );
+
+  return predictions
+    .sort((a, b) => b.confidence - a.confidence || b.level - a.level)
+    .slice(0, options.maxPredictions ?? DEFAULT_MAX_PREDICTIONS)
+    .map(({ ec, level, confidence, covering }) => {
+      const entry = database?.entries.get(ec);
+      return {
+        ec,
+        level,
+        name: ecName(ec, database),
+        reactions: entry?.reactions ?? [],
+        classPath: classPath(ec, database),
+        confidence: Math.round(confidence * 1000) / 1000,
+        evidence: covering.map((s) => s.evidence),
+      };
+    });
+}
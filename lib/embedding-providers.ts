@@ -0,0 +1,110 @@
+/**
+ * Embedding provider abstraction
+ * Selects the ESM-2 backend (remote, mock or local ONNX) from configuration
+ */
+
+import {
+  generateESM2Response,
+  generateMockESM2Response,
+  type EmbedOptions,
+  type ESM2ModelSize,
+  type ESM2Response,
+} from "./esm2-embeddings";
+import { generateOnnxESM2Response, getOnnxESM2Options } from "./esm2-onnx";
+
+export type EmbeddingProviderName = "biolm" | "mock" | "onnx";
+
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName;
+  // Checkpoint the provider is limited to; requests without a model use it
+  model?: ESM2ModelSize;
+  embed(sequence: string, options?: EmbedOptions): Promise<ESM2Response>;
+}
+
+export const EMBEDDING_PROVIDER_NAMES: EmbeddingProviderName[] = [
+  "biolm",
+  "mock",
+  "onnx",
+];
+
+/**
+ * Remote ESM-2 via the biolm.ai API (requires LM_API_KEY)
+ */
+export function createBiolmProvider(): EmbeddingProvider {
+  return {
+    name: "biolm",
+    embed: (sequence, embedOptions) =>
+      generateESM2Response(sequence, embedOptions),
+  };
+}
+
+/**
+ * Deterministic mock embeddings for development and tests
+ */
+export function createMockProvider(): EmbeddingProvider {
+  return {
+    name: "mock",
+    embed: async (sequence, embedOptions) =>
+      generateMockESM2Response(sequence, embedOptions),
+  };
+}
+
+/**
+ * Local ESM-2 model executed on CPU with ONNX Runtime
+ * Model path, size and layer come from ESM2_ONNX_MODEL_PATH / ESM2_ONNX_MODEL /
+ * ESM2_ONNX_LAYER
+ */
+export function createOnnxProvider(): EmbeddingProvider {
+  const options = getOnnxESM2Options();
+
+  return {
+    name: "onnx",
+    model: options.model,
+    embed: (sequence, embedOptions) =>
+      generateOnnxESM2Response(sequence, options, embedOptions),
+  };
+}
+
+/**
+ * Create a provider by name
+ */
+export function createEmbeddingProvider(
+  name: EmbeddingProviderName
+): EmbeddingProvider {
+  switch (name) {
+    case "biolm":
+      return createBiolmProvider();
+    case "mock":
+      return createMockProvider();
+    case "onnx":
+      return createOnnxProvider();
+  }
+}
+
+let defaultProvider: EmbeddingProvider | null = null;
+
+/**
+ * Get the provider selected by the EMBEDDING_PROVIDER environment variable
+ * Defaults to the remote biolm.ai backend
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const configured = (process.env.EMBEDDING_PROVIDER || "biolm")
+    .trim()
+    .toLowerCase();
+
+  if (!EMBEDDING_PROVIDER_NAMES.includes(configured as EmbeddingProviderName)) {
+    throw new Error(
+      `Unknown embedding provider "${configured}" (expected one of: ${EMBEDDING_PROVIDER_NAMES.join(
+        ", "
+      )})`
+    );
+  }
+
+  if (!defaultProvider || defaultProvider.name !== configured) {
+    defaultProvider = createEmbeddingProvider(
+      configured as EmbeddingProviderName
+    );
+  }
+
+  return defaultProvider;
+}
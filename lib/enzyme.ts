@@ -0,0 +1,227 @@
+/**
+ * ENZYME nomenclature database (enzyme.dat / enzclass.txt) and
+ * Enzyme Commission number helpers
+ */
+
+import fs from "fs";
+import path from "path";
+
+export interface EnzymeEntry {
+  ec: string;
+  name: string;
+  alternativeNames: string[];
+  // Catalysed reactions, one per numbered CA statement
+  reactions: string[];
+  cofactors: string[];
+  // Swiss-Prot accessions annotated with this EC number
+  uniprot: string[];
+  // Set for transferred entries
+  transferredTo?: string[];
+  deleted?: boolean;
+}
+
+export interface EnzymeDatabase {
+  // Release date from the file header, e.g. 17-Jan-2024
+  release?: string;
+  entries: Map<string, EnzymeEntry>;
+  // Swiss-Prot accession -> EC numbers
+  byUniProt: Map<string, string[]>;
+  // Class, subclass and sub-subclass names keyed by EC prefix ("2.7.11.-")
+  classes: Map<string, string>;
+}
+
+export const DEFAULT_ENZYME_PATH = path.join(
+  process.cwd(),
+  "data",
+  "enzyme.dat"
+);
+
+// Top-level classes, used when enzclass.txt is not installed
+export const EC_CLASSES: Record<string, string> = {
+  "1.-.-.-": "Oxidoreductases",
+  "2.-.-.-": "Transferases",
+  "3.-.-.-": "Hydrolases",
+  "4.-.-.-": "Lyases",
+  "5.-.-.-": "Isomerases",
+  "6.-.-.-": "Ligases",
+  "7.-.-.-": "Translocases",
+};
+
+const EC_PATTERN = /^\d+\.(\d+|-)\.(\d+|-)\.(n?\d+|-)$/;
+
+/**
+ * Whether a string is an EC number, possibly partial ("3.4.21.-")
+ */
+export function isEcNumber(value: string): boolean {
+  return EC_PATTERN.test(value);
+}
+
+/**
+ * Number of specified levels (1-4)
+ */
+export function ecLevel(ec: string): number {
+  return ec.split(".").filter((part) => part !== "-").length;
+}
+
+/**
+ * Truncate an EC number to the given level, e.g. ("2.7.11.1", 3) -> "2.7.11.-"
+ */
+export function ecPrefix(ec: string, level: number): string {
+  return ec
+    .split(".")
+    .map((part, i) => (i < level ? part : "-"))
+    .join(".");
+}
+
+/**
+ * Whether a (partial) EC number includes another, e.g. 3.4.21.- covers 3.4.21.4
+ */
+export function ecCovers(prefix: string, ec: string): boolean {
+  const outer = prefix.split(".");
+  const inner = ec.split(".");
+  return outer.every((part, i) => part === "-" || part === inner[i]);
+}
+
+/**
+ * Parse enzyme.dat; the header block supplies the release date
+ */
+export function parseEnzymeDat(text: string): Omit<EnzymeDatabase, "classes"> {
+  const entries = new Map<string, EnzymeEntry>();
+  const byUniProt = new Map<string, string[]>();
+  let release: string | undefined;
+
+  for (const block of text.split(/^\/\/\s*$/m)) {
+    const fields: Record<string, string[]> = {};
+    for (const line of block.split(/\r?\n/)) {
+      const code = line.slice(0, 2);
+      if (!/^[A-Z]{2}$/.test(code)) continue;
+      (fields[code] ??= []).push(line.slice(5).trim());
+    }
+
+    if (!fields.ID) {
+      release ??= (fields.CC ?? [])
+        .join(" ")
+        .match(/Release of (\S+)/)?.[1]
+        ?.replace(/\.$/, "");
+      continue;
+    }
+
+    const ec = fields.ID[0];
+    const description = (fields.DE ?? []).join(" ").replace(/\.$/, "");
+    const transferred = description.match(/^Transferred entry:\s*(.+)$/);
+
+    // Numbered reactions start with "(1)"; continuation lines are joined
+    const reactions = (fields.CA ?? [])
+      .join(" ")
+      .split(/\s*\(\d+\)\s+/)
+      .map((reaction) => reaction.trim().replace(/\.$/, ""))
+      .filter(Boolean);
+
+    const uniprot = [
+      ...(fields.DR ?? []).join(" ").matchAll(/(\w+),\s*\w+;/g),
+    ].map((match) => match[1]);
+
+    entries.set(ec, {
+      ec,
+      name: description,
+      alternativeNames: (fields.AN ?? []).map((an) => an.replace(/\.$/, "")),
+      reactions,
+      cofactors: (fields.CF ?? [])
+        .join(" ")
+        .replace(/\.$/, "")
+        .split(/;\s*/)
+        .filter(Boolean),
+      uniprot,
+      transferredTo: transferred
+        ? transferred[1].split(/,\s*|\s+and\s+/).filter(isEcNumber)
+        : undefined,
+      deleted: description === "Deleted entry" || undefined,
+    });
+
+    for (const accession of uniprot) {
+      byUniProt.set(accession, [...(byUniProt.get(accession) ?? []), ec]);
+    }
+  }
+
+  return { release, entries, byUniProt };
+}
+
+/**
+ * Parse enzclass.txt lines such as " 2. 7.11.-    Protein-serine/threonine kinases."
+ */
+export function parseEnzymeClasses(text: string): Map<string, string> {
+  const classes = new Map<string, string>();
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.match(
+      /^\s*(\d+)\.\s*(\d+|-)\.\s*(\d+|-)\.\s*-\s+(.+?)\.?\s*$/
+    );
+    if (match) {
+      classes.set(`${match[1]}.${match[2]}.${match[3]}.-`, match[4]);
+    }
+  }
+
+  return classes;
+}
+
+/**
+ * Read enzyme.dat and, when present, enzclass.txt from disk
+ */
+export function loadEnzymeDatabase(
+  filePath: string,
+  classPath?: string
+): EnzymeDatabase {
+  try {
+    const database = parseEnzymeDat(fs.readFileSync(filePath, "utf8"));
+    const classes =
+      classPath && fs.existsSync(classPath)
+        ? parseEnzymeClasses(fs.readFileSync(classPath, "utf8"))
+        : new Map<string, string>();
+
+    return { ...database, classes };
+  } catch (error) {
+    throw new Error(
+      `Failed to read ENZYME database ${filePath}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+}
+
+let cachedDatabase: { path: string; database: EnzymeDatabase | null } | null =
+  null;
+
+/**
+ * Load the configured database (ENZYME_PATH or data/enzyme.dat, with
+ * enzclass.txt alongside). Returns null when no dump is installed
+ */
+export function getEnzymeDatabase(): EnzymeDatabase | null {
+  const filePath = process.env.ENZYME_PATH || DEFAULT_ENZYME_PATH;
+
+  if (cachedDatabase?.path === filePath) return cachedDatabase.database;
+
+  const database = fs.existsSync(filePath)
+    ? loadEnzymeDatabase(
+        filePath,
+        path.join(path.dirname(filePath), "enzclass.txt")
+      )
+    : null;
+
+  cachedDatabase = { path: filePath, database };
+  return database;
+}
+
+/**
+ * Name of a full or partial EC number: the entry name for full numbers,
+ * the class name otherwise
+ */
+export function ecName(
+  ec: string,
+  database?: EnzymeDatabase | null
+): string | undefined {
+  return (
+    database?.entries.get(ec)?.name ??
+    database?.classes.get(ec) ??
+    EC_CLASSES[ec]
+  );
+}
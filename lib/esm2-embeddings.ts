@@ -8,15 +8,125 @@ interface ESM2ResponseLayer {
   embedding: number[];
 }
 
+interface ESM2ResponsePerTokenLayer {
+  layer: number;
+  // One vector per residue (L x D), without special tokens
+  embeddings: number[][];
+}
+
 interface ESM2ResponseResult {
   sequence_index: number;
   embeddings: ESM2ResponseLayer[];
+  per_token_embeddings?: ESM2ResponsePerTokenLayer[];
 }
 
 export interface ESM2Response {
   results: ESM2ResponseResult[];
 }
 
+export type ESM2ModelSize = "8m" | "35m" | "150m" | "650m";
+
+export interface ESM2ModelInfo {
+  size: ESM2ModelSize;
+  name: string;
+  layers: number;
+  dimension: number;
+}
+
+/**
+ * Published ESM-2 checkpoints; layer 0 is the token embedding layer
+ */
+export const ESM2_MODELS: Record<ESM2ModelSize, ESM2ModelInfo> = {
+  "8m": { size: "8m", name: "esm2_t6_8M_UR50D", layers: 6, dimension: 320 },
+  "35m": {
+    size: "35m",
+    name: "esm2_t12_35M_UR50D",
+    layers: 12,
+    dimension: 480,
+  },
+  "150m": {
+    size: "150m",
+    name: "esm2_t30_150M_UR50D",
+    layers: 30,
+    dimension: 640,
+  },
+  "650m": {
+    size: "650m",
+    name: "esm2_t33_650M_UR50D",
+    layers: 33,
+    dimension: 1280,
+  },
+};
+
+export const DEFAULT_ESM2_MODEL: ESM2ModelSize = "35m";
+
+export interface EmbedOptions {
+  // Also return per-residue (L x D) representations
+  perResidue?: boolean;
+  model?: ESM2ModelSize;
+  // Representation layers to return; defaults to the model's final layer
+  layers?: number[];
+}
+
+/**
+ * Raised when the requested model or layers are not available (maps to HTTP 400)
+ */
+export class EmbeddingRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EmbeddingRequestError";
+  }
+}
+
+/**
+ * Validate a model/layer request and fill in defaults
+ */
+export function resolveEmbeddingRequest(
+  model: unknown = DEFAULT_ESM2_MODEL,
+  layers?: unknown
+): { model: ESM2ModelInfo; layers: number[] } {
+  const size = String(model).toLowerCase();
+  const info = ESM2_MODELS[size as ESM2ModelSize];
+
+  if (!info) {
+    throw new EmbeddingRequestError(
+      `Unknown ESM-2 model "${model}" (expected one of: ${Object.keys(
+        ESM2_MODELS
+      ).join(", ")})`
+    );
+  }
+
+  if (layers === undefined || layers === null) {
+    return { model: info, layers: [info.layers] };
+  }
+
+  const requested = Array.isArray(layers) ? layers : [layers];
+
+  if (requested.length === 0) {
+    throw new EmbeddingRequestError("At least one layer must be requested");
+  }
+
+  const invalid = requested.filter(
+    (layer) =>
+      !Number.isInteger(layer) ||
+      (layer as number) < 0 ||
+      (layer as number) > info.layers
+  );
+
+  if (invalid.length > 0) {
+    throw new EmbeddingRequestError(
+      `Layer ${invalid.join(", ")} not present in ${info.name} (layers 0-${
+        info.layers
+      })`
+    );
+  }
+
+  return {
+    model: info,
+    layers: Array.from(new Set(requested as number[])).sort((a, b) => a - b),
+  };
+}
+
 export interface ProcessedEmbedding {
   sequenceIndex: number;
   layer: number;
@@ -29,11 +139,12 @@ export interface ProcessedEmbedding {
 
 /**
  * Parse official ESM-2 API response
- * Extracts embeddings from the specified layer (default: 12)
+ * Extracts embeddings from the specified layer; models differ in depth, so
+ * callers pass a layer resolved by resolveEmbeddingRequest
  */
 export function parseESM2Response(
   response: ESM2Response,
-  layer = 12
+  layer: number
 ): number[] {
   try {
     if (!response.results || response.results.length === 0) {
@@ -57,6 +168,59 @@ export function parseESM2Response(
   }
 }
 
+/**
+ * Extract several layers and combine them by averaging
+ */
+export function parseESM2Layers(
+  response: ESM2Response,
+  layers: number[]
+): number[] {
+  return averageVectors(
+    layers.map((layer) => parseESM2Response(response, layer))
+  );
+}
+
+function averageVectors(vectors: number[][]): number[] {
+  if (vectors.length === 1) return vectors[0];
+
+  return vectors[0].map(
+    (_, d) => vectors.reduce((sum, v) => sum + v[d], 0) / vectors.length
+  );
+}
+
+/**
+ * Extract per-residue representations (L x D) for a layer
+ * Returns null when the response only carries pooled embeddings
+ */
+export function parseESM2PerResidue(
+  response: ESM2Response,
+  layer: number
+): number[][] | null {
+  const perToken = response.results?.[0]?.per_token_embeddings;
+  if (!perToken) return null;
+
+  const layerData = perToken.find((e) => e.layer === layer);
+  if (!layerData) {
+    throw new Error(`Layer ${layer} not found in per-residue ESM-2 embeddings`);
+  }
+
+  return layerData.embeddings;
+}
+
+/**
+ * Per-residue counterpart of parseESM2Layers
+ */
+export function parseESM2PerResidueLayers(
+  response: ESM2Response,
+  layers: number[]
+): number[][] | null {
+  const perLayer = layers.map((layer) => parseESM2PerResidue(response, layer));
+  if (perLayer.some((residues) => !residues)) return null;
+
+  const residues = perLayer as number[][][];
+  return residues[0].map((_, i) => averageVectors(residues.map((r) => r[i])));
+}
+
 /**
  * Calculate statistical properties of embedding
  */
@@ -131,57 +295,103 @@ export function cosineSimilarity(
  * Generate mock ESM-2 response for development/testing
  * Matches the official API response format
  */
-export function generateMockESM2Response(sequence: string): ESM2Response {
-  // Generate a deterministic 1280-dim embedding from sequence
-  const embedding = new Array(1280).fill(0);
-
-  for (let i = 0; i < sequence.length; i++) {
-    const charCode = sequence.charCodeAt(i);
-    for (let j = 0; j < 1280; j++) {
-      embedding[j] += Math.sin((charCode + j) * 0.01) * 0.05;
+export function generateMockESM2Response(
+  sequence: string,
+  options: EmbedOptions = {}
+): ESM2Response {
+  const { model, layers } = resolveEmbeddingRequest(
+    options.model,
+    options.layers
+  );
+  const dimension = model.dimension;
+
+  // Deterministic embedding per layer; the layer shifts the phase
+  const embeddings = layers.map((layer) => {
+    const embedding = new Array(dimension).fill(0);
+
+    for (let i = 0; i < sequence.length; i++) {
+      const charCode = sequence.charCodeAt(i);
+      for (let j = 0; j < dimension; j++) {
+        embedding[j] += Math.sin((charCode + j) * 0.01 + layer * 0.1) * 0.05;
+      }
     }
-  }
 
-  // Normalize embedding
-  const stats = calculateEmbeddingStats(embedding);
-  const normalized = embedding.map(
-    (x) => (x - stats.mean) / (stats.std + 1e-8)
-  );
+    // Normalize embedding
+    const stats = calculateEmbeddingStats(embedding);
+    return {
+      layer,
+      embedding: embedding.map((x) => (x - stats.mean) / (stats.std + 1e-8)),
+    };
+  });
+
+  // Per-residue vectors mix each residue with its immediate neighbours
+  const perResidue = options.perResidue
+    ? layers.map((layer) => ({
+        layer,
+        embeddings: Array.from(sequence, (_, i) => {
+          const self = sequence.charCodeAt(i);
+          const context =
+            (sequence.charCodeAt(i - 1) || self) +
+            (sequence.charCodeAt(i + 1) || self);
+          return Array.from(
+            { length: dimension },
+            (_, j) =>
+              Math.sin((self + j) * 0.01 + layer * 0.1) +
+              0.5 * Math.sin((context + j) * 0.013)
+          );
+        }),
+      }))
+    : undefined;
 
   return {
     results: [
       {
         sequence_index: 0,
-        embeddings: [
-          {
-            layer: 12,
-            embedding: normalized,
-          },
-        ],
+        embeddings,
+        per_token_embeddings: perResidue,
       },
     ],
   };
 }
 
+/**
+ * Request ESM-2 embeddings from the biolm.ai API
+ * Requires the LM_API_KEY environment variable
+ */
 export async function generateESM2Response(
-  sequence: string
+  sequence: string,
+  options: EmbedOptions = {}
 ): Promise<ESM2Response> {
-  // Generate a deterministic 1280-dim embedding from sequence
-  const response = await fetch("https://biolm.ai/api/v3/esm2-35m/encode/", {
-    method: "POST",
-    body: JSON.stringify({
-      items: [
-        {
-          sequence,
+  if (!process.env.LM_API_KEY) {
+    throw new Error("LM_API_KEY is not configured for the biolm provider");
+  }
+
+  const { model, layers } = resolveEmbeddingRequest(
+    options.model,
+    options.layers
+  );
+
+  const response = await fetch(
+    `https://biolm.ai/api/v3/esm2-${model.size}/encode/`,
+    {
+      method: "POST",
+      body: JSON.stringify({
+        items: [
+          {
+            sequence,
+          },
+        ],
+        params: {
+          repr_layers: layers,
+          include: options.perResidue ? ["mean", "per_token"] : ["mean"],
         },
-      ],
-      params: {},
-    }),
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Token ${process.env.LM_API_KEY}`,
-    },
-  });
+      }),
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Token ${process.env.LM_API_KEY}`,
+      },
+    }
+  );
 
   const data = await response.json();
 
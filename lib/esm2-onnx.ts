@@ -0,0 +1,253 @@
+/**
+ * Local ESM-2 inference with ONNX Runtime (CPU)
+ * Produces responses in the same format as the remote ESM-2 API
+ */
+
+import path from "path";
+import type { InferenceSession, Tensor } from "onnxruntime-node";
+import {
+  EmbeddingRequestError,
+  ESM2_MODELS,
+  resolveEmbeddingRequest,
+  type EmbedOptions,
+  type ESM2ModelSize,
+  type ESM2Response,
+} from "./esm2-embeddings";
+
+/**
+ * ESM-2 alphabet (fair-esm / HuggingFace EsmTokenizer ordering)
+ */
+const ESM2_VOCAB: Record<string, number> = {
+  "<cls>": 0,
+  "<pad>": 1,
+  "<eos>": 2,
+  "<unk>": 3,
+  L: 4,
+  A: 5,
+  G: 6,
+  V: 7,
+  S: 8,
+  E: 9,
+  R: 10,
+  T: 11,
+  I: 12,
+  D: 13,
+  P: 14,
+  K: 15,
+  Q: 16,
+  N: 17,
+  F: 18,
+  Y: 19,
+  M: 20,
+  H: 21,
+  W: 22,
+  C: 23,
+  X: 24,
+  B: 25,
+  U: 26,
+  Z: 27,
+  O: 28,
+  ".": 29,
+  "-": 30,
+  "<mask>": 32,
+};
+
+export interface OnnxESM2Options {
+  modelPath: string;
+  // Checkpoint the ONNX file was exported from
+  model: ESM2ModelSize;
+  // Layer exposed as last_hidden_state; defaults to the model's final layer
+  layer: number;
+  threads?: number;
+}
+
+let cachedSession: {
+  modelPath: string;
+  session: Promise<InferenceSession>;
+} | null = null;
+
+/**
+ * Read ONNX provider settings from the environment
+ */
+export function getOnnxESM2Options(): OnnxESM2Options {
+  const threads = Number(process.env.ESM2_ONNX_THREADS);
+  const size = (process.env.ESM2_ONNX_MODEL || "35m").trim().toLowerCase();
+  const info = ESM2_MODELS[size as ESM2ModelSize];
+
+  if (!info) {
+    throw new Error(
+      `Unknown ESM2_ONNX_MODEL "${size}" (expected one of: ${Object.keys(
+        ESM2_MODELS
+      ).join(", ")})`
+    );
+  }
+
+  return {
+    modelPath:
+      process.env.ESM2_ONNX_MODEL_PATH ||
+      path.join(process.cwd(), "models", `${info.name}.onnx`),
+    model: info.size,
+    layer: Number(process.env.ESM2_ONNX_LAYER) || info.layers,
+    threads: Number.isFinite(threads) && threads > 0 ? threads : undefined,
+  };
+}
+
+/**
+ * Convert a protein sequence into ESM-2 token ids
+ * Adds <cls> and <eos> around the residues
+ */
+export function tokenizeESM2(sequence: string): number[] {
+  const ids = [ESM2_VOCAB["<cls>"]];
+
+  for (const residue of sequence.toUpperCase()) {
+    ids.push(ESM2_VOCAB[residue] ?? ESM2_VOCAB["<unk>"]);
+  }
+
+  ids.push(ESM2_VOCAB["<eos>"]);
+  return ids;
+}
+
+/**
+ * Load (once) the ONNX Runtime session for the configured model
+ */
+async function getSession(options: OnnxESM2Options): Promise<InferenceSession> {
+  if (cachedSession && cachedSession.modelPath === options.modelPath) {
+    return cachedSession.session;
+  }
+
+  const session = import("onnxruntime-node").then((ort) =>
+    ort.InferenceSession.create(options.modelPath, {
+      executionProviders: ["cpu"],
+      intraOpNumThreads: options.threads,
+    })
+  );
+
+  cachedSession = { modelPath: options.modelPath, session };
+  // Allow a retry after a failed load (e.g. model file copied in later)
+  session.catch(() => {
+    if (cachedSession?.session === session) cachedSession = null;
+  });
+
+  return session;
+}
+
+/**
+ * Run the local ESM-2 model and mean-pool residue representations
+ * Optionally returns the per-residue representations as well
+ */
+export async function generateOnnxESM2Response(
+  sequence: string,
+  options: OnnxESM2Options = getOnnxESM2Options(),
+  embedOptions: EmbedOptions = {}
+): Promise<ESM2Response> {
+  const ort = await import("onnxruntime-node");
+  let session: InferenceSession;
+
+  try {
+    session = await getSession(options);
+  } catch (error) {
+    throw new Error(
+      `Failed to load ONNX model at ${options.modelPath}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+
+  if ((embedOptions.model ?? options.model) !== options.model) {
+    throw new EmbeddingRequestError(
+      `The local ONNX provider serves ESM-2 ${options.model}, not ${embedOptions.model}`
+    );
+  }
+
+  const { layers: requestedLayers } = resolveEmbeddingRequest(
+    options.model,
+    embedOptions.layers ?? [options.layer]
+  );
+
+  // last_hidden_state carries options.layer; other layers need extra
+  // hidden_state_<n> outputs in the exported graph
+  const layerOutputs = requestedLayers.map((layer) => {
+    const outputName =
+      layer === options.layer
+        ? session.outputNames.includes("last_hidden_state")
+          ? "last_hidden_state"
+          : session.outputNames[0]
+        : `hidden_state_${layer}`;
+
+    if (!session.outputNames.includes(outputName)) {
+      throw new EmbeddingRequestError(
+        `Layer ${layer} is not exported by the ONNX model at ${options.modelPath}`
+      );
+    }
+
+    return { layer, outputName };
+  });
+
+  const ids = tokenizeESM2(sequence);
+  const feeds: Record<string, Tensor> = {
+    input_ids: new ort.Tensor(
+      "int64",
+      BigInt64Array.from(ids.map((id) => BigInt(id))),
+      [1, ids.length]
+    ),
+  };
+
+  if (session.inputNames.includes("attention_mask")) {
+    feeds.attention_mask = new ort.Tensor(
+      "int64",
+      new BigInt64Array(ids.length).fill(BigInt(1)),
+      [1, ids.length]
+    );
+  }
+
+  const outputs = await session.run(feeds);
+  const layers = layerOutputs.map(({ layer, outputName }) => {
+    const hidden = outputs[outputName];
+
+    if (!hidden || hidden.dims.length !== 3) {
+      throw new Error(`Unexpected ONNX output shape for ${outputName}`);
+    }
+
+    const [, tokens, dimension] = hidden.dims;
+    const data = hidden.data as Float32Array;
+    const embedding = new Array(dimension).fill(0);
+
+    // Skip <cls> (first) and <eos> (last) tokens when pooling
+    for (let t = 1; t < tokens - 1; t++) {
+      const offset = t * dimension;
+      for (let d = 0; d < dimension; d++) {
+        embedding[d] += data[offset + d];
+      }
+    }
+
+    const residueCount = Math.max(tokens - 2, 1);
+
+    return {
+      layer,
+      embedding: embedding.map((v) => v / residueCount),
+      residues: embedOptions.perResidue
+        ? Array.from({ length: tokens - 2 }, (_, r) =>
+            Array.from(data.subarray((r + 1) * dimension, (r + 2) * dimension))
+          )
+        : undefined,
+    };
+  });
+
+  return {
+    results: [
+      {
+        sequence_index: 0,
+        embeddings: layers.map(({ layer, embedding }) => ({
+          layer,
+          embedding,
+        })),
+        per_token_embeddings: embedOptions.perResidue
+          ? layers.map(({ layer, residues }) => ({
+              layer,
+              embeddings: residues ?? [],
+            }))
+          : undefined,
+      },
+    ],
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Structured provenance for GO and EC predictions
+ * Each item records what supported a term and its ECO evidence code
+ */
+
+import type { ComparisonOperator, FeatureTrigger } from "./go-rules";
+
+export type EvidenceKind =
+  | "rule"
+  | "statistic"
+  | "motif"
+  | "domain"
+  | "neighbour"
+  | "homolog"
+  | "model"
+  | "uniprot";
+
+export interface PredictionEvidence {
+  kind: EvidenceKind;
+  // Evidence & Conclusion Ontology code
+  eco: string;
+  // One-line human readable summary
+  label: string;
+  ruleId?: string;
+  // Triggering statistic, the threshold it crossed and its value
+  feature?: string;
+  operator?: ComparisonOperator;
+  threshold?: number;
+  value?: number;
+  // PROSITE, Pfam or UniProt accession
+  accession?: string;
+  start?: number;
+  end?: number;
+  // Bit score, E-value or cosine similarity, depending on kind
+  score?: number;
+  // Rule set or model version that produced the evidence
+  version?: string;
+}
+
+// Evidence & Conclusion Ontology codes used for automatic assertions
+export const ECO_CODES: Record<EvidenceKind, string> = {
+  // computational evidence used in automatic assertion
+  rule: "ECO:0007669",
+  statistic: "ECO:0007669",
+  // match to InterPro member signature evidence used in automatic assertion
+  motif: "ECO:0000259",
+  domain: "ECO:0000259",
+  // computational evidence used in automatic assertion
+  neighbour: "ECO:0007669",
+  // similarity evidence used in automatic assertion
+  homolog: "ECO:0000251",
+  model: "ECO:0007669",
+  // evidence used in automatic assertion
+  uniprot: "ECO:0000501",
+};
+
+export const ECO_LABELS: Record<string, string> = {
+  "ECO:0007669": "computational evidence used in automatic assertion",
+  "ECO:0000259":
+    "match to InterPro member signature evidence used in automatic assertion",
+  "ECO:0000251": "similarity evidence used in automatic assertion",
+  "ECO:0000501": "evidence used in automatic assertion",
+};
+
+function format(value: number): string {
+  return Number.isInteger(value) ? value.toString() : value.toFixed(2);
+}
+
+/**
+ * Evidence item with the ECO code for its kind filled in
+ */
+export function evidence(
+  kind: EvidenceKind,
+  label: string,
+  details: Omit<PredictionEvidence, "kind" | "eco" | "label"> = {}
+): PredictionEvidence {
+  return { kind, eco: ECO_CODES[kind], label, ...details };
+}
+
+/**
+ * Evidence for a statistic crossing a rule threshold,
+ * e.g. "stats.hydrophobicity = 47.60 (> 45)"
+ */
+export function statisticEvidence(
+  ruleId: string,
+  trigger: FeatureTrigger
+): PredictionEvidence {
+  const feature = trigger.abs ? `|${trigger.feature}|` : trigger.feature;
+  return evidence(
+    "statistic",
+    `${feature} = ${format(trigger.value)} (${trigger.op} ${format(
+      trigger.threshold
+    )})`,
+    {
+      ruleId,
+      feature: trigger.feature,
+      operator: trigger.op,
+      threshold: trigger.threshold,
+      value: trigger.value,
+    }
+  );
+}
@@ -0,0 +1,366 @@
+/**
+ * Gene Ontology loader (OBO 1.2) with obsolete-term resolution and
+ * propagation of predictions up the is_a / part_of graph
+ */
+
+import fs from "fs";
+import path from "path";
+import type { FunctionalCategory } from "./classification-engine";
+import type { GoAspect } from "./go-rules";
+
+export type GoRelation = "is_a" | "part_of";
+
+export interface OntologyTerm {
+  id: string;
+  name: string;
+  namespace: GoAspect;
+  altIds: string[];
+  parents: { id: string; relation: GoRelation }[];
+  obsolete: boolean;
+  replacedBy?: string;
+  consider: string[];
+}
+
+export interface GeneOntology {
+  // data-version header, e.g. releases/2024-01-17
+  version?: string;
+  terms: Map<string, OntologyTerm>;
+  // Secondary (alt_id) -> primary id
+  altIds: Map<string, string>;
+}
+
+export interface LineageStep {
+  id: string;
+  name: string;
+  // Relation from the previous (more general) step to this one
+  relation?: GoRelation;
+}
+
+export interface PropagatedTerm {
+  id: string;
+  name: string;
+  type: GoAspect;
+  // Highest confidence among the predicted descendants
+  confidence: number;
+  // Predicted terms this ancestor was inferred from
+  from: string[];
+}
+
+export const DEFAULT_GO_OBO_PATH = path.join(
+  process.cwd(),
+  "data",
+  "go-basic.obo"
+);
+
+// Aspect roots carry no information and are never reported as propagated
+export const GO_ROOTS = ["GO:0003674", "GO:0008150", "GO:0005575"];
+
+const NAMESPACES: GoAspect[] = [
+  "molecular_function",
+  "biological_process",
+  "cellular_component",
+];
+
+// Longest replaced_by chain followed before giving up
+const MAX_REPLACEMENTS = 10;
+
+function stripComment(value: string): string {
+  const bang = value.indexOf(" ! ");
+  return (bang >= 0 ? value.slice(0, bang) : value).trim();
+}
+
+/**
+ * Parse an OBO file; only [Term] stanzas are kept
+ */
+export function parseObo(text: string): GeneOntology {
+  const terms = new Map<string, OntologyTerm>();
+  const altIds = new Map<string, string>();
+  let version: string | undefined;
+  let current: Partial<OntologyTerm> | null = null;
+  let inHeader = true;
+
+  const flush = () => {
+    if (!current?.id) return;
+    if (!current.name || !current.namespace) {
+      throw new Error(`GO term ${current.id} is missing a name or namespace`);
+    }
+    terms.set(current.id, current as OntologyTerm);
+    for (const alt of current.altIds ?? []) altIds.set(alt, current.id);
+  };
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith("!")) continue;
+
+    if (line.startsWith("[")) {
+      flush();
+      inHeader = false;
+      current =
+        line === "[Term]"
+          ? { altIds: [], parents: [], obsolete: false, consider: [] }
+          : null;
+      continue;
+    }
+
+    const colon = line.indexOf(":");
+    if (colon < 0) continue;
+    const tag = line.slice(0, colon);
+    const value = line.slice(colon + 1).trim();
+
+    if (inHeader) {
+      if (tag === "data-version") version = value;
+      continue;
+    }
+    if (!current) continue;
+
+    switch (tag) {
+      case "id":
+        current.id = value;
+        break;
+      case "name":
+        current.name = value;
+        break;
+      case "namespace":
+        if (!NAMESPACES.includes(value as GoAspect)) {
+          throw new Error(`Unknown GO namespace "${value}" for ${current.id}`);
+        }
+        current.namespace = value as GoAspect;
+        break;
+      case "alt_id":
+        current.altIds!.push(stripComment(value));
+        break;
+      case "is_a":
+        current.parents!.push({ id: stripComment(value), relation: "is_a" });
+        break;
+      case "relationship": {
+        const [relation, target] = stripComment(value).split(/\s+/);
+        if (relation === "part_of" && target) {
+          current.parents!.push({ id: target, relation: "part_of" });
+        }
+        break;
+      }
+      case "is_obsolete":
+        current.obsolete = value === "true";
+        break;
+      case "replaced_by":
+        current.replacedBy = stripComment(value);
+        break;
+      case "consider":
+        current.consider!.push(stripComment(value));
+        break;
+    }
+  }
+  flush();
+
+  return { version, terms, altIds };
+}
+
+/**
+ * Read and parse an OBO file from disk
+ */
+export function loadGeneOntology(filePath: string): GeneOntology {
+  try {
+    return parseObo(fs.readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Failed to read Gene Ontology ${filePath}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+}
+
+let cachedOntology: { path: string; ontology: GeneOntology | null } | null =
+  null;
+
+/**
+ * Load the configured ontology (GO_OBO_PATH or data/go-basic.obo)
+ * Returns null when no OBO file is installed
+ */
+export function getGeneOntology(): GeneOntology | null {
+  const filePath = process.env.GO_OBO_PATH || DEFAULT_GO_OBO_PATH;
+
+  if (cachedOntology?.path === filePath) return cachedOntology.ontology;
+
+  const ontology = fs.existsSync(filePath) ? loadGeneOntology(filePath) : null;
+
+  cachedOntology = { path: filePath, ontology };
+  return ontology;
+}
+
+/**
+ * Map a GO id to its current term, following alt_id and replaced_by
+ * Returns null for unknown ids and obsolete terms without a replacement
+ */
+export function resolveTerm(
+  ontology: GeneOntology,
+  id: string
+): OntologyTerm | null {
+  let term = ontology.terms.get(ontology.altIds.get(id) ?? id);
+
+  for (let i = 0; term?.obsolete && i < MAX_REPLACEMENTS; i++) {
+    if (!term.replacedBy) return null;
+    const next = term.replacedBy;
+    term = ontology.terms.get(ontology.altIds.get(next) ?? next);
+  }
+
+  return term && !term.obsolete ? term : null;
+}
+
+/**
+ * All is_a / part_of ancestors of a term (excluding the term itself)
+ */
+export function termAncestors(ontology: GeneOntology, id: string): Set<string> {
+  const seen = new Set<string>();
+  const stack = [...(ontology.terms.get(id)?.parents ?? [])].map((p) => p.id);
+
+  while (stack.length > 0) {
+    const next = stack.pop()!;
+    if (seen.has(next)) continue;
+    seen.add(next);
+    for (const parent of ontology.terms.get(next)?.parents ?? []) {
+      stack.push(parent.id);
+    }
+  }
+
+  return seen;
+}
+
+/**
+ * Shortest path from an aspect root down to the term, preferring is_a edges
+ */
+export function termLineage(ontology: GeneOntology, id: string): LineageStep[] {
+  const start = ontology.terms.get(id);
+  if (!start) return [];
+
+  // Breadth-first search upwards; child records the step back down
+  const child = new Map<string, { id: string; relation: GoRelation }>();
+  const queue = [start.id];
+  let root: string | null = null;
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const parents = [...(ontology.terms.get(current)?.parents ?? [])].sort(
+      (a, b) => (a.relation === b.relation ? 0 : a.relation === "is_a" ? -1 : 1)
+    );
+
+    if (parents.length === 0) {
+      root = current;
+      break;
+    }
+    for (const parent of parents) {
+      if (parent.id === start.id || child.has(parent.id)) continue;
+      child.set(parent.id, { id: current, relation: parent.relation });
+      queue.push(parent.id);
+    }
+  }
+
+  if (!root) return [];
+
+  const steps: LineageStep[] = [
+    { id: root, name: ontology.terms.get(root)?.name ?? root },
+  ];
+  for (let next = child.get(root); next; next = child.get(next.id)) {
+    steps.push({
+      id: next.id,
+      name: ontology.terms.get(next.id)?.name ?? next.id,
+      relation: next.relation,
+    });
+  }
+
+  return steps;
+}
+
+/**
+ * Validate predictions against the ontology and make them consistent:
+ * - obsolete ids are replaced via replaced_by, unknown ids are dropped
+ * - duplicates created by replacement are merged (highest confidence)
+ * - a predicted ancestor is never less confident than a predicted descendant
+ * - unpredicted ancestors are returned as propagated terms
+ * Categories are updated in place; the kept ones are returned
+ */
+export function reconcileWithOntology(
+  categories: FunctionalCategory[],
+  ontology: GeneOntology
+): {
+  categories: FunctionalCategory[];
+  propagated: PropagatedTerm[];
+  notes: string[];
+} {
+  const notes: string[] = [];
+  const kept = new Map<string, FunctionalCategory>();
+
+  for (const category of categories) {
+    const term = resolveTerm(ontology, category.id);
+
+    if (!term) {
+      notes.push(
+        `${category.id} (${category.name}) is ${
+          ontology.terms.has(category.id) ? "obsolete" : "not in the ontology"
+        } and was removed`
+      );
+      continue;
+    }
+
+    if (term.id !== category.id) {
+      notes.push(
+        `${category.id} (${category.name}) is obsolete; reported as ${term.id} (${term.name})`
+      );
+      category.replacedId = category.id;
+      category.id = term.id;
+      category.name = term.name;
+      category.type = term.namespace;
+      category.references = { ...category.references, geneOntology: term.id };
+    }
+
+    const existing = kept.get(term.id);
+    if (existing) {
+      if (category.confidence > existing.confidence) {
+        existing.confidence = category.confidence;
+      }
+      existing.evidence.push(...category.evidence);
+      continue;
+    }
+    kept.set(term.id, category);
+  }
+
+  const propagated = new Map<string, PropagatedTerm>();
+
+  for (const category of kept.values()) {
+    for (const ancestor of termAncestors(ontology, category.id)) {
+      const predicted = kept.get(ancestor);
+      if (predicted) {
+        predicted.confidence = Math.max(
+          predicted.confidence,
+          category.confidence
+        );
+        continue;
+      }
+      if (GO_ROOTS.includes(ancestor)) continue;
+
+      const term = ontology.terms.get(ancestor);
+      if (!term) continue;
+
+      const entry = propagated.get(ancestor) ?? {
+        id: ancestor,
+        name: term.name,
+        type: term.namespace,
+        confidence: 0,
+        from: [],
+      };
+      entry.confidence = Math.max(entry.confidence, category.confidence);
+      entry.from.push(category.id);
+      propagated.set(ancestor, entry);
+    }
+
+    category.lineage = termLineage(ontology, category.id);
+  }
+
+  return {
+    categories: [...kept.values()],
+    propagated: [...propagated.values()].sort(
+      (a, b) => b.confidence - a.confidence || a.id.localeCompare(b.id)
+    ),
+    notes,
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * Agreement between predicted GO terms and a protein's UniProt annotations
+ * Used as a live check of the predictor on every known protein
+ */
+
+import type { ClassificationResult } from "./classification-engine";
+import type { GoAspect } from "./go-rules";
+import type { UniProtGoTerm } from "./uniprot-parser";
+import { resolveTerm, termAncestors, type GeneOntology } from "./gene-ontology";
+
+// confirmed: annotated in UniProt; related: an ancestor or descendant of an
+// annotated term; novel: not supported by the curated annotations
+export type AgreementStatus = "confirmed" | "related" | "novel";
+
+export interface PredictionAgreement {
+  id: string;
+  name: string;
+  type: GoAspect;
+  confidence: number;
+  status: AgreementStatus;
+  // Curated terms a related prediction is more general (ancestor) or more
+  // specific (descendant) than
+  relatedTo: {
+    id: string;
+    name: string;
+    relation: "ancestor" | "descendant";
+  }[];
+}
+
+export interface GoAgreement {
+  accession: string;
+  predictions: PredictionAgreement[];
+  // Curated terms no prediction matches exactly or by a more specific term;
+  // a prediction that is only an ancestor does not cover them
+  missed: UniProtGoTerm[];
+  curatedCount: number;
+  // Ontology used for related terms; exact matches only when absent
+  ontologyVersion?: string;
+  ontologyUsed: boolean;
+}
+
+/**
+ * Classify each prediction against the curated terms and list the misses
+ */
+export function compareWithUniProt(
+  classification: ClassificationResult,
+  accession: string,
+  curated: UniProtGoTerm[],
+  ontology?: GeneOntology | null
+): GoAgreement {
+  const current = (id: string) =>
+    (ontology && resolveTerm(ontology, id)?.id) || id;
+  const ancestors = new Map<string, Set<string>>();
+  const ancestorsOf = (id: string) => {
+    if (!ontology) return new Set<string>();
+    if (!ancestors.has(id)) ancestors.set(id, termAncestors(ontology, id));
+    return ancestors.get(id)!;
+  };
+
+  const curatedTerms = curated.map((term) => ({
+    term,
+    id: current(term.id),
+  }));
+  const matched = new Set<string>();
+
+  const predictions = [
+    ...classification.primaryFunctions,
+    ...classification.secondaryFunctions,
+  ].map((fn): PredictionAgreement => {
+    const id = current(fn.id);
+    const base = {
+      id: fn.id,
+      name: fn.name,
+      type: fn.type,
+      confidence: fn.confidence,
+    };
+
+    const exact = curatedTerms.filter((c) => c.id === id);
+    if (exact.length > 0) {
+      exact.forEach((c) => matched.add(c.term.id));
+      return { ...base, status: "confirmed", relatedTo: [] };
+    }
+
+    const relatedTo: PredictionAgreement["relatedTo"] = [];
+    for (const c of curatedTerms) {
+      let relation: "ancestor" | "descendant";
+      if (ancestorsOf(c.id).has(id)) relation = "ancestor";
+      else if (ancestorsOf(id).has(c.id)) relation = "descendant";
+      else continue;
+      if (relation === "descendant") matched.add(c.term.id);
+      relatedTo.push({ id: c.term.id, name: c.term.name, relation });
+    }
+
+    return {
+      ...base,
+      status: relatedTo.length > 0 ? "related" : "novel",
+      relatedTo,
+    };
+  });
+
+  return {
+    accession,
+    predictions,
+    missed: curated.filter((term) => !matched.has(term.id)),
+    curatedCount: curated.length,
+    ontologyVersion: ontology?.version,
+    ontologyUsed: !!ontology,
+  };
+}
@@ -0,0 +1,628 @@
+/**
+ * Data-driven GO rule engine
+ * Loads, validates and evaluates the versioned rule set in data/go-rules.json
+ */
+
+import fs from "fs";
+import path from "path";
+import { getPrositeLibrary, type MotifHit } from "./prosite";
+
+export type GoAspect =
+  "molecular_function" | "biological_process" | "cellular_component";
+
+export type ComparisonOperator = ">" | ">=" | "<" | "<=" | "==" | "!=";
+
+/**
+ * Rule conditions
+ * - feature: compare a context value (e.g. "stats.hydrophobicity",
+ *   "membrane.tmHelixCount") to a number
+ * - pattern: regular expression matched against the sequence
+ * - motif: PROSITE accession (e.g. "PS00108") hit at least minHits times
+ *   (default 1)
+ * - all / any / not: boolean combinators
+ */
+export type RuleCondition =
+  | {
+      feature: string;
+      op: ComparisonOperator;
+      value: number;
+      abs?: boolean;
+    }
+  | { pattern: string }
+  | { motif: string; minHits?: number }
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition };
+
+/**
+ * confidence = base + sum(scale * (feature - offset)) + matching adjustments,
+ * clamped to [min, max]
+ */
+export interface ConfidenceFormula {
+  base: number;
+  terms?: { feature: string; scale: number; offset?: number }[];
+  adjustments?: { when: RuleCondition; add: number }[];
+  min?: number;
+  max?: number;
+}
+
+export interface GoRule {
+  id: string;
+  tier: "primary" | "secondary";
+  go: {
+    id: string;
+    name: string;
+    aspect: GoAspect;
+  };
+  description: string;
+  examples: string[];
+  references?: { uniProt?: string };
+  when?: RuleCondition;
+  confidence: ConfidenceFormula;
+}
+
+export interface GoRuleSet {
+  version: string;
+  description?: string;
+  rules: GoRule[];
+}
+
+export interface RuleContext {
+  sequence: string;
+  stats: Record<string, unknown>;
+  embedding?: Record<string, unknown>;
+  // Transmembrane helix summary (tmHelixCount, longestHelix)
+  membrane?: Record<string, unknown>;
+  // Targeting signal scores (signalPeptide, mitochondrialTransit,
+  // chloroplastTransit) and nlsCount
+  targeting?: Record<string, unknown>;
+  // PROSITE motif hits
+  motifs?: MotifHit[];
+  // Fraction of residues in long disordered regions (fraction) and in
+  // low-complexity regions (lowComplexityFraction)
+  disorder?: Record<string, unknown>;
+}
+
+// A feature comparison that held when a rule matched
+export interface FeatureTrigger {
+  feature: string;
+  op: ComparisonOperator;
+  threshold: number;
+  value: number;
+  abs?: boolean;
+}
+
+export interface RuleMatch {
+  rule: GoRule;
+  confidence: number;
+  usesEmbedding: boolean;
+  // Hits of the motifs the rule refers to
+  motifHits: MotifHit[];
+  // Feature comparisons that made the rule fire
+  triggers: FeatureTrigger[];
+}
+
+/**
+ * Raised when a rule file fails validation; lists every problem found
+ */
+export class RuleSetValidationError extends Error {
+  issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(
+      `Invalid GO rule set (${source}):\n${issues
+        .map((i) => `  - ${i}`)
+        .join("\n")}`
+    );
+    this.name = "RuleSetValidationError";
+    this.issues = issues;
+  }
+}
+
+const OPERATORS: ComparisonOperator[] = [">", ">=", "<", "<=", "==", "!="];
+const ASPECTS: GoAspect[] = [
+  "molecular_function",
+  "biological_process",
+  "cellular_component",
+];
+
+// Every numeric path the classifier puts in the rule context; a misspelt
+// feature would otherwise never resolve and its rule would silently not fire
+export const FEATURE_PATHS: ReadonlySet<string> = new Set([
+  "stats.length",
+  "stats.hydrophobicity",
+  "stats.positiveCharge",
+  "stats.negativeCharge",
+  "stats.netCharge",
+  ..."ACDEFGHIKLMNPQRSTVWYBZXUO"
+    .split("")
+    .map((aa) => `stats.composition.${aa}`),
+  "embedding.overallMagnitude",
+  "embedding.dynamicRange",
+  "embedding.complexity",
+  ...["mean", "std", "min", "max"].map((s) => `embedding.embeddingStats.${s}`),
+  ...Array.from({ length: 10 }, (_, i) => `embedding.regions.${i}`),
+  "membrane.tmHelixCount",
+  "membrane.longestHelix",
+  "targeting.signalPeptide",
+  "targeting.mitochondrialTransit",
+  "targeting.chloroplastTransit",
+  "targeting.nlsCount",
+  "disorder.fraction",
+  "disorder.lowComplexityFraction",
+]);
+
+export const DEFAULT_RULES_PATH = path.join(
+  process.cwd(),
+  "data",
+  "go-rules.json"
+);
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isOperator(value: unknown): value is ComparisonOperator {
+  return OPERATORS.includes(value as ComparisonOperator);
+}
+
+function isAspect(value: unknown): value is GoAspect {
+  return ASPECTS.includes(value as GoAspect);
+}
+
+function isUnitInterval(value: unknown): value is number {
+  return typeof value === "number" && value >= 0 && value <= 1;
+}
+
+// Optional array fields: absent is empty, anything else but an array is null
+function optionalArray(value: unknown): unknown[] | null {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : null;
+}
+
+function validateFeature(feature: unknown, where: string, issues: string[]) {
+  if (typeof feature !== "string" || !feature) {
+    issues.push(`${where}: "feature" must be a non-empty string`);
+    return;
+  }
+  if (!FEATURE_PATHS.has(feature)) {
+    issues.push(`${where}: unknown feature "${feature}"`);
+  }
+}
+
+function validateCondition(
+  condition: unknown,
+  where: string,
+  issues: string[],
+  motifIds?: ReadonlySet<string>
+) {
+  if (!isObject(condition)) {
+    issues.push(`${where}: condition must be an object`);
+    return;
+  }
+
+  if ("all" in condition || "any" in condition) {
+    const key = "all" in condition ? "all" : "any";
+    const children = condition[key];
+    if (!Array.isArray(children)) {
+      issues.push(`${where}.${key}: must be an array`);
+      return;
+    }
+    children.forEach((c: unknown, i: number) =>
+      validateCondition(c, `${where}.${key}[${i}]`, issues, motifIds)
+    );
+  } else if ("not" in condition) {
+    validateCondition(condition.not, `${where}.not`, issues, motifIds);
+  } else if ("pattern" in condition) {
+    if (typeof condition.pattern !== "string") {
+      issues.push(`${where}: "pattern" must be a string`);
+      return;
+    }
+    try {
+      new RegExp(condition.pattern);
+    } catch {
+      issues.push(`${where}: invalid pattern "${condition.pattern}"`);
+    }
+  } else if ("motif" in condition) {
+    if (
+      typeof condition.motif !== "string" ||
+      !/^PS\d{5}$/.test(condition.motif)
+    ) {
+      issues.push(
+        `${where}: "motif" must be a PROSITE accession like PS00000 (got ${JSON.stringify(
+          condition.motif
+        )})`
+      );
+    } else if (motifIds && !motifIds.has(condition.motif)) {
+      issues.push(
+        `${where}: motif ${condition.motif} is not in the PROSITE library`
+      );
+    }
+    if (
+      condition.minHits !== undefined &&
+      (typeof condition.minHits !== "number" ||
+        !Number.isInteger(condition.minHits) ||
+        condition.minHits < 1)
+    ) {
+      issues.push(`${where}: "minHits" must be a positive integer`);
+    }
+  } else if ("feature" in condition) {
+    validateFeature(condition.feature, where, issues);
+    if (!isOperator(condition.op)) {
+      issues.push(
+        `${where}: "op" must be one of ${OPERATORS.join(" ")} (got ${JSON.stringify(
+          condition.op
+        )})`
+      );
+    }
+    if (typeof condition.value !== "number") {
+      issues.push(`${where}: "value" must be a number`);
+    }
+  } else {
+    issues.push(
+      `${where}: condition needs one of "feature", "pattern", "motif", "all", "any", "not"`
+    );
+  }
+}
+
+function validateConfidence(
+  formula: unknown,
+  where: string,
+  issues: string[],
+  motifIds?: ReadonlySet<string>
+) {
+  if (!isObject(formula)) {
+    issues.push(`${where}: confidence must be an object`);
+    return;
+  }
+
+  if (!isUnitInterval(formula.base)) {
+    issues.push(`${where}.base: must be a number between 0 and 1`);
+  }
+
+  for (const bound of ["min", "max"] as const) {
+    if (formula[bound] !== undefined && !isUnitInterval(formula[bound])) {
+      issues.push(`${where}.${bound}: must be a number between 0 and 1`);
+    }
+  }
+
+  const terms = optionalArray(formula.terms);
+  if (!terms) issues.push(`${where}.terms: must be an array`);
+  terms?.forEach((term, i) => {
+    const at = `${where}.terms[${i}]`;
+    if (!isObject(term)) {
+      issues.push(`${at}: must be an object`);
+      return;
+    }
+    validateFeature(term.feature, at, issues);
+    if (typeof term.scale !== "number") {
+      issues.push(`${at}: "scale" must be a number`);
+    }
+    if (term.offset !== undefined && typeof term.offset !== "number") {
+      issues.push(`${at}: "offset" must be a number`);
+    }
+  });
+
+  const adjustments = optionalArray(formula.adjustments);
+  if (!adjustments) issues.push(`${where}.adjustments: must be an array`);
+  adjustments?.forEach((adjustment, i) => {
+    const at = `${where}.adjustments[${i}]`;
+    if (!isObject(adjustment)) {
+      issues.push(`${at}: must be an object`);
+      return;
+    }
+    validateCondition(adjustment.when, `${at}.when`, issues, motifIds);
+    if (typeof adjustment.add !== "number") {
+      issues.push(`${at}: "add" must be a number`);
+    }
+  });
+}
+
+/**
+ * Validate parsed rule-set JSON, throwing RuleSetValidationError on problems
+ * Motif accessions are checked against motifIds when given
+ */
+export function validateRuleSet(
+  data: unknown,
+  source = "rules",
+  motifIds?: ReadonlySet<string>
+): GoRuleSet {
+  const issues: string[] = [];
+
+  if (!isObject(data)) {
+    throw new RuleSetValidationError(source, ["root must be an object"]);
+  }
+
+  if (typeof data.version !== "string" || !data.version) {
+    issues.push(`"version" must be a non-empty string`);
+  }
+
+  if (!Array.isArray(data.rules)) {
+    throw new RuleSetValidationError(source, [
+      ...issues,
+      `"rules" must be an array`,
+    ]);
+  }
+
+  const seen = new Set<string>();
+
+  data.rules.forEach((rule: unknown, i: number) => {
+    if (!isObject(rule)) {
+      issues.push(`rules[${i}]: must be an object`);
+      return;
+    }
+
+    const where = `rules[${i}]${
+      typeof rule.id === "string" && rule.id ? ` (${rule.id})` : ""
+    }`;
+
+    if (typeof rule.id !== "string" || !rule.id) {
+      issues.push(`${where}: "id" must be a non-empty string`);
+    } else if (seen.has(rule.id)) {
+      issues.push(`${where}: duplicate rule id`);
+    } else {
+      seen.add(rule.id);
+    }
+
+    if (rule.tier !== "primary" && rule.tier !== "secondary") {
+      issues.push(`${where}: "tier" must be "primary" or "secondary"`);
+    }
+
+    if (!isObject(rule.go)) {
+      issues.push(`${where}: "go" must be an object`);
+    } else {
+      if (typeof rule.go.id !== "string" || !/^GO:\d{7}$/.test(rule.go.id)) {
+        issues.push(`${where}: go.id must look like GO:0000000`);
+      }
+      if (typeof rule.go.name !== "string" || !rule.go.name) {
+        issues.push(`${where}: go.name must be a non-empty string`);
+      }
+      if (!isAspect(rule.go.aspect)) {
+        issues.push(`${where}: go.aspect must be one of ${ASPECTS.join(", ")}`);
+      }
+    }
+
+    if (typeof rule.description !== "string") {
+      issues.push(`${where}: "description" must be a string`);
+    }
+
+    if (
+      !Array.isArray(rule.examples) ||
+      rule.examples.some((e: unknown) => typeof e !== "string")
+    ) {
+      issues.push(`${where}: "examples" must be an array of strings`);
+    }
+
+    if (rule.when !== undefined) {
+      validateCondition(rule.when, `${where}.when`, issues, motifIds);
+    }
+
+    validateConfidence(
+      rule.confidence,
+      `${where}.confidence`,
+      issues,
+      motifIds
+    );
+  });
+
+  if (issues.length > 0) {
+    throw new RuleSetValidationError(source, issues);
+  }
+
+  return data as unknown as GoRuleSet;
+}
+
+/**
+ * Read and validate a rule set from disk
+ */
+export function loadRuleSet(
+  filePath: string,
+  motifIds?: ReadonlySet<string>
+): GoRuleSet {
+  let data: unknown;
+
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Failed to read GO rule set ${filePath}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+
+  return validateRuleSet(data, filePath, motifIds);
+}
+
+let defaultRuleSet: GoRuleSet | null = null;
+
+/**
+ * Get the configured rule set (GO_RULES_PATH or data/go-rules.json)
+ * Loaded once per process; motifs must exist in the configured PROSITE library
+ */
+export function getRuleSet(): GoRuleSet {
+  if (!defaultRuleSet) {
+    defaultRuleSet = loadRuleSet(
+      process.env.GO_RULES_PATH || DEFAULT_RULES_PATH,
+      new Set(getPrositeLibrary().map((motif) => motif.id))
+    );
+  }
+  return defaultRuleSet;
+}
+
+/**
+ * Resolve a dotted feature path such as "stats.composition.H"
+ */
+export function resolveFeature(
+  context: RuleContext,
+  feature: string
+): number | undefined {
+  let value: unknown = context;
+
+  for (const key of feature.split(".")) {
+    if (!isObject(value) && !Array.isArray(value)) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+
+  return typeof value === "number" && Number.isFinite(value)
+    ? value
+    : undefined;
+}
+
+/**
+ * Evaluate a condition; missing features never match
+ */
+export function evaluateCondition(
+  condition: RuleCondition,
+  context: RuleContext
+): boolean {
+  if ("all" in condition) {
+    return condition.all.every((c) => evaluateCondition(c, context));
+  }
+  if ("any" in condition) {
+    return condition.any.some((c) => evaluateCondition(c, context));
+  }
+  if ("not" in condition) {
+    return !evaluateCondition(condition.not, context);
+  }
+  if ("pattern" in condition) {
+    return new RegExp(condition.pattern).test(context.sequence);
+  }
+  if ("motif" in condition) {
+    const hits = (context.motifs ?? []).filter(
+      (hit) => hit.id === condition.motif
+    );
+    return hits.length >= (condition.minHits ?? 1);
+  }
+
+  const raw = resolveFeature(context, condition.feature);
+  if (raw === undefined) return false;
+
+  const value = condition.abs ? Math.abs(raw) : raw;
+
+  switch (condition.op) {
+    case ">":
+      return value > condition.value;
+    case ">=":
+      return value >= condition.value;
+    case "<":
+      return value < condition.value;
+    case "<=":
+      return value <= condition.value;
+    case "==":
+      return value === condition.value;
+    case "!=":
+      return value !== condition.value;
+  }
+}
+
+/**
+ * Feature comparisons that hold within a condition; branches under "not" and
+ * unmatched "any" alternatives are skipped
+ */
+export function matchedFeatures(
+  condition: RuleCondition,
+  context: RuleContext
+): FeatureTrigger[] {
+  if ("all" in condition) {
+    return condition.all.flatMap((c) => matchedFeatures(c, context));
+  }
+  if ("any" in condition) {
+    return condition.any
+      .filter((c) => evaluateCondition(c, context))
+      .flatMap((c) => matchedFeatures(c, context));
+  }
+  if (!("feature" in condition) || !evaluateCondition(condition, context)) {
+    return [];
+  }
+
+  const raw = resolveFeature(context, condition.feature)!;
+  return [
+    {
+      feature: condition.feature,
+      op: condition.op,
+      threshold: condition.value,
+      value: condition.abs ? Math.abs(raw) : raw,
+      abs: condition.abs,
+    },
+  ];
+}
+
+/**
+ * Compute a rule's confidence; missing term features contribute nothing
+ */
+export function computeConfidence(
+  formula: ConfidenceFormula,
+  context: RuleContext
+): number {
+  let confidence = formula.base;
+
+  for (const term of formula.terms ?? []) {
+    const value = resolveFeature(context, term.feature);
+    if (value !== undefined) {
+      confidence += term.scale * (value - (term.offset ?? 0));
+    }
+  }
+
+  for (const adjustment of formula.adjustments ?? []) {
+    if (evaluateCondition(adjustment.when, context)) {
+      confidence += adjustment.add;
+    }
+  }
+
+  return Math.min(Math.max(confidence, formula.min ?? 0), formula.max ?? 1);
+}
+
+function referencesEmbedding(rule: GoRule): boolean {
+  return JSON.stringify([rule.when, rule.confidence]).includes('"embedding.');
+}
+
+/**
+ * Whether a rule's condition depends on amino acid composition or net charge,
+ * which disordered and low-complexity regions can inflate
+ */
+export function referencesComposition(rule: GoRule): boolean {
+  const when = JSON.stringify(rule.when ?? {});
+  return (
+    when.includes('"stats.composition.') || when.includes('"stats.netCharge"')
+  );
+}
+
+/**
+ * PROSITE accessions referenced anywhere in a rule
+ */
+export function referencedMotifs(rule: GoRule): string[] {
+  const ids = new Set<string>();
+  const visit = (condition: RuleCondition | undefined) => {
+    if (!condition) return;
+    if ("motif" in condition) ids.add(condition.motif);
+    if ("all" in condition) condition.all.forEach(visit);
+    if ("any" in condition) condition.any.forEach(visit);
+    if ("not" in condition) visit(condition.not);
+  };
+
+  visit(rule.when);
+  rule.confidence.adjustments?.forEach((adjustment) => visit(adjustment.when));
+
+  return [...ids];
+}
+
+/**
+ * Evaluate every rule and return those whose condition holds
+ */
+export function evaluateRules(
+  ruleSet: GoRuleSet,
+  context: RuleContext
+): RuleMatch[] {
+  return ruleSet.rules
+    .filter((rule) => !rule.when || evaluateCondition(rule.when, context))
+    .map((rule) => ({
+      rule,
+      confidence: computeConfidence(rule.confidence, context),
+      usesEmbedding: !!context.embedding && referencesEmbedding(rule),
+      motifHits: (context.motifs ?? []).filter((hit) =>
+        referencedMotifs(rule).includes(hit.id)
+      ),
+      triggers: rule.when ? matchedFeatures(rule.when, context) : [],
+    }));
+}
@@ -0,0 +1,771 @@
+/**
+ * HMMER3 profile HMM reader and local multi-hit Viterbi / Forward scoring
+ * Scores are bit scores against an i.i.d. null model; no null2 bias correction
+ */
+
+import {
+  getSubstitutionMatrix,
+  substitutionScore,
+} from "./substitution-matrices";
+
+export const AMINO_ALPHABET = "ACDEFGHIKLMNPQRSTVWY";
+
+// Background residue frequencies used by HMMER (p7_bg), in alphabet order
+const BACKGROUND = [
+  0.0787945, 0.01516, 0.0535222, 0.0668298, 0.0397062, 0.0695071, 0.0229198,
+  0.0590092, 0.0594422, 0.0963728, 0.0237718, 0.0414386, 0.0482904, 0.0395639,
+  0.0540978, 0.0683364, 0.0540687, 0.0673417, 0.0114135, 0.0304133,
+];
+
+const K = AMINO_ALPHABET.length;
+
+// Transition order within a node line
+const T_MM = 0;
+const T_MI = 1;
+const T_MD = 2;
+const T_IM = 3;
+const T_II = 4;
+const T_DM = 5;
+const T_DD = 6;
+
+export interface ProfileHmm {
+  name: string;
+  // Versioned accession as in the file, e.g. PF00069.28
+  accession: string;
+  description: string;
+  length: number;
+  // Pfam gathering thresholds (sequence, domain) in bits
+  gathering?: [number, number];
+  stats: {
+    viterbi: { mu: number; lambda: number };
+    forward: { tau: number; lambda: number };
+  };
+  // Natural-log probabilities, node-major; node 0 holds the begin state
+  match: Float64Array;
+  insert: Float64Array;
+  transitions: Float64Array;
+}
+
+export interface DomainHit {
+  accession: string;
+  name: string;
+  description: string;
+  // Sequence and model coordinates of the Viterbi alignment (1-based)
+  seqFrom: number;
+  seqTo: number;
+  hmmFrom: number;
+  hmmTo: number;
+  modelLength: number;
+  // Domain (forward) score and independent E-value
+  score: number;
+  evalue: number;
+  // Whole-sequence forward score and E-value for this model
+  sequenceScore: number;
+  sequenceEvalue: number;
+}
+
+export interface SingleSequenceOptions {
+  name: string;
+  accession: string;
+  description: string;
+  // Gap open and extend probabilities (hmmbuild's single-sequence defaults)
+  popen?: number;
+  pextend?: number;
+  // Seed for the random sequences the score distributions are fitted on
+  seed?: number;
+}
+
+export interface DomainSearchOptions {
+  // Reporting threshold when a model has no gathering cutoff
+  maxEvalue?: number;
+  // Database size for E-values; defaults to the number of models searched
+  z?: number;
+}
+
+/**
+ * Raised for malformed HMMER3 text
+ */
+export class HmmParseError extends Error {
+  constructor(message: string, line?: number) {
+    super(line === undefined ? message : `${message} (line ${line})`);
+    this.name = "HmmParseError";
+  }
+}
+
+const DEFAULT_MAX_EVALUE = 0.01;
+
+function logProbability(field: string, line: number): number {
+  if (field === "*") return -Infinity;
+  const value = Number(field);
+  if (!Number.isFinite(value)) {
+    throw new HmmParseError(`Expected a probability, got "${field}"`, line);
+  }
+  return -value;
+}
+
+/**
+ * Parse one or more HMMER3 (3/a-3/f) text-format models
+ */
+export function parseHmmFile(text: string): ProfileHmm[] {
+  const lines = text.split(/\r?\n/);
+  const models: ProfileHmm[] = [];
+  let i = 0;
+
+  const fields = (n: number) => lines[n].trim().split(/\s+/);
+
+  while (i < lines.length) {
+    if (!lines[i].trim()) {
+      i++;
+      continue;
+    }
+    if (!lines[i].startsWith("HMMER3")) {
+      throw new HmmParseError("Expected a HMMER3 header", i + 1);
+    }
+
+    const header: Record<string, string> = {};
+    const stats: Record<string, number[]> = {};
+    i++;
+
+    while (i < lines.length && !/^HMM\s/.test(lines[i])) {
+      const tag = lines[i].slice(0, 6).trim();
+      const value = lines[i].slice(6).trim();
+      if (tag === "STATS") {
+        const [, kind, mu, lambda] = value.split(/\s+/);
+        stats[kind] = [Number(mu), Number(lambda)];
+      } else if (tag) {
+        header[tag] = value;
+      }
+      i++;
+    }
+    if (i >= lines.length) throw new HmmParseError("Missing HMM section");
+
+    const length = Number(header.LENG);
+    if (!header.NAME || !Number.isInteger(length) || length < 1) {
+      throw new HmmParseError("NAME and LENG are required", i + 1);
+    }
+    if (header.ALPH && header.ALPH !== "amino") {
+      throw new HmmParseError(`Unsupported alphabet "${header.ALPH}"`, i + 1);
+    }
+    if (!stats.VITERBI || !stats.FORWARD) {
+      throw new HmmParseError(
+        `${header.NAME}: STATS LOCAL VITERBI and FORWARD lines are required`
+      );
+    }
+
+    const match = new Float64Array((length + 1) * K).fill(-Infinity);
+    const insert = new Float64Array((length + 1) * K);
+    const transitions = new Float64Array((length + 1) * 7);
+
+    // Skip the alphabet and transition header lines, and the optional COMPO
+    i += 2;
+    if (lines[i]?.trim().startsWith("COMPO")) i++;
+
+    const readInsertAndTransitions = (node: number) => {
+      const emissions = fields(i);
+      const moves = fields(i + 1);
+      if (emissions.length < K || moves.length < 7) {
+        throw new HmmParseError(`Truncated node ${node}`, i + 1);
+      }
+      for (let a = 0; a < K; a++) {
+        insert[node * K + a] = logProbability(emissions[a], i + 1);
+      }
+      for (let t = 0; t < 7; t++) {
+        transitions[node * 7 + t] = logProbability(moves[t], i + 2);
+      }
+      i += 2;
+    };
+
+    readInsertAndTransitions(0);
+
+    for (let node = 1; node <= length; node++) {
+      const row = fields(i);
+      if (Number(row[0]) !== node || row.length < K + 1) {
+        throw new HmmParseError(`Expected match line for node ${node}`, i + 1);
+      }
+      for (let a = 0; a < K; a++) {
+        match[node * K + a] = logProbability(row[a + 1], i + 1);
+      }
+      i++;
+      readInsertAndTransitions(node);
+    }
+
+    if (lines[i]?.trim() !== "//") {
+      throw new HmmParseError(`${header.NAME}: expected "//"`, i + 1);
+    }
+    i++;
+
+    const ga = header.GA?.replace(/;$/, "").split(/\s+/).map(Number);
+
+    models.push({
+      name: header.NAME,
+      accession: header.ACC ?? header.NAME,
+      description: header.DESC ?? "",
+      length,
+      gathering:
+        ga && ga.length >= 2 && ga.every(Number.isFinite)
+          ? [ga[0], ga[1]]
+          : undefined,
+      stats: {
+        viterbi: { mu: stats.VITERBI[0], lambda: stats.VITERBI[1] },
+        forward: { tau: stats.FORWARD[0], lambda: stats.FORWARD[1] },
+      },
+      match,
+      insert,
+      transitions,
+    });
+  }
+
+  return models;
+}
+
+/**
+ * Residue indices into AMINO_ALPHABET; -1 for anything else (X, B, Z, ...)
+ */
+function digitize(sequence: string): Int8Array {
+  const digits = new Int8Array(sequence.length);
+  for (let i = 0; i < sequence.length; i++) {
+    digits[i] = AMINO_ALPHABET.indexOf(sequence[i].toUpperCase());
+  }
+  return digits;
+}
+
+interface ConfiguredProfile {
+  hmm: ProfileHmm;
+  // Match emission log-odds; inserts score 0 as in HMMER
+  msc: Float64Array;
+  entry: number;
+  loop: number;
+  move: number;
+  toJ: number;
+  toC: number;
+  // Null model log-likelihood for this target length
+  nullScore: number;
+}
+
+/**
+ * Local profile configured for a target length (multi-hit or uni-hit)
+ */
+function configure(
+  hmm: ProfileHmm,
+  length: number,
+  multihit: boolean
+): ConfiguredProfile {
+  const M = hmm.length;
+  const msc = new Float64Array((M + 1) * K);
+  for (let k = 1; k <= M; k++) {
+    for (let a = 0; a < K; a++) {
+      msc[k * K + a] = hmm.match[k * K + a] - Math.log(BACKGROUND[a]);
+    }
+  }
+
+  const hits = multihit ? 3 : 2;
+
+  return {
+    hmm,
+    msc,
+    entry: Math.log(2 / (M * (M + 1))),
+    loop: Math.log(length / (length + hits)),
+    move: Math.log(hits / (length + hits)),
+    toJ: multihit ? Math.log(0.5) : -Infinity,
+    toC: multihit ? Math.log(0.5) : 0,
+    nullScore: length * Math.log(length / (length + 1)) - Math.log(length + 1),
+  };
+}
+
+function logSum(a: number, b: number): number {
+  if (a === -Infinity) return b;
+  if (b === -Infinity) return a;
+  return a > b
+    ? a + Math.log1p(Math.exp(b - a))
+    : b + Math.log1p(Math.exp(a - b));
+}
+
+interface DpMatrices {
+  M: Float64Array;
+  I: Float64Array;
+  D: Float64Array;
+  N: Float64Array;
+  B: Float64Array;
+  E: Float64Array;
+  J: Float64Array;
+  C: Float64Array;
+  // Final score in nats, before null correction
+  total: number;
+}
+
+function fillMatrices(
+  profile: ConfiguredProfile,
+  digits: Int8Array,
+  viterbi: boolean
+): DpMatrices {
+  const { hmm, msc, entry, loop, move, toJ, toC } = profile;
+  const M = hmm.length;
+  const L = digits.length;
+  const width = M + 1;
+  const t = hmm.transitions;
+  const add = viterbi ? Math.max : logSum;
+
+  const mat = new Float64Array((L + 1) * width).fill(-Infinity);
+  const ins = new Float64Array((L + 1) * width).fill(-Infinity);
+  const del = new Float64Array((L + 1) * width).fill(-Infinity);
+  const N = new Float64Array(L + 1).fill(-Infinity);
+  const B = new Float64Array(L + 1).fill(-Infinity);
+  const E = new Float64Array(L + 1).fill(-Infinity);
+  const J = new Float64Array(L + 1).fill(-Infinity);
+  const C = new Float64Array(L + 1).fill(-Infinity);
+
+  N[0] = 0;
+  B[0] = move;
+
+  for (let i = 1; i <= L; i++) {
+    const x = digits[i - 1];
+    const row = i * width;
+    const prev = (i - 1) * width;
+    let end = -Infinity;
+
+    for (let k = 1; k <= M; k++) {
+      const p = k - 1;
+      let value = B[i - 1] + entry;
+      if (p > 0) {
+        value = add(value, mat[prev + p] + t[p * 7 + T_MM]);
+        value = add(value, ins[prev + p] + t[p * 7 + T_IM]);
+        value = add(value, del[prev + p] + t[p * 7 + T_DM]);
+      }
+      mat[row + k] = value + (x >= 0 ? msc[k * K + x] : 0);
+
+      if (k < M) {
+        ins[row + k] = add(
+          mat[prev + k] + t[k * 7 + T_MI],
+          ins[prev + k] + t[k * 7 + T_II]
+        );
+      }
+      if (k > 1) {
+        del[row + k] = add(
+          mat[row + p] + t[p * 7 + T_MD],
+          del[row + p] + t[p * 7 + T_DD]
+        );
+      }
+
+      end = add(end, add(mat[row + k], del[row + k]));
+    }
+
+    E[i] = end;
+    J[i] = add(J[i - 1] + loop, end + toJ);
+    C[i] = add(C[i - 1] + loop, end + toC);
+    N[i] = N[i - 1] + loop;
+    B[i] = add(N[i] + move, J[i] + move);
+  }
+
+  return { M: mat, I: ins, D: del, N, B, E, J, C, total: C[L] + move };
+}
+
+function toBits(profile: ConfiguredProfile, nats: number): number {
+  return (nats - profile.nullScore) / Math.LN2;
+}
+
+/**
+ * Local multi-hit Viterbi bit score of a sequence against a model
+ */
+export function viterbiScore(hmm: ProfileHmm, sequence: string): number {
+  const profile = configure(hmm, sequence.length, true);
+  return toBits(profile, fillMatrices(profile, digitize(sequence), true).total);
+}
+
+/**
+ * Local Forward bit score (sum over all alignments)
+ */
+export function forwardScore(
+  hmm: ProfileHmm,
+  sequence: string,
+  multihit = true
+): number {
+  const profile = configure(hmm, sequence.length, multihit);
+  return toBits(
+    profile,
+    fillMatrices(profile, digitize(sequence), false).total
+  );
+}
+
+/**
+ * P-value of a Forward score (exponential tail fitted by hmmbuild)
+ */
+export function forwardPvalue(hmm: ProfileHmm, bits: number): number {
+  const { tau, lambda } = hmm.stats.forward;
+  return bits < tau ? 1 : Math.exp(-lambda * (bits - tau));
+}
+
+/**
+ * P-value of a Viterbi score (Gumbel fitted by hmmbuild)
+ */
+export function viterbiPvalue(hmm: ProfileHmm, bits: number): number {
+  const { mu, lambda } = hmm.stats.viterbi;
+  return -Math.expm1(-Math.exp(-lambda * (bits - mu)));
+}
+
+function same(a: number, b: number): boolean {
+  return Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a));
+}
+
+/**
+ * Trace the multi-hit Viterbi path back into aligned domain segments
+ */
+function traceDomains(
+  profile: ConfiguredProfile,
+  digits: Int8Array,
+  dp: DpMatrices
+): { seqFrom: number; seqTo: number; hmmFrom: number; hmmTo: number }[] {
+  const { hmm, msc, entry, loop, move } = profile;
+  const M = hmm.length;
+  const width = M + 1;
+  const t = hmm.transitions;
+  const domains: {
+    seqFrom: number;
+    seqTo: number;
+    hmmFrom: number;
+    hmmTo: number;
+  }[] = [];
+
+  let state: "C" | "J" | "E" | "M" | "I" | "D" | "B" = "C";
+  let i = digits.length;
+  let k = 0;
+  let seqTo = 0;
+  let hmmTo = 0;
+
+  // Every step moves left in the sequence or the model, so the path is finite
+  for (;;) {
+    if (state === "C" || state === "J") {
+      const loopScores = state === "C" ? dp.C : dp.J;
+      if (i > 0 && same(loopScores[i], loopScores[i - 1] + loop)) {
+        i--;
+      } else {
+        state = "E";
+      }
+    } else if (state === "E") {
+      if (i === 0) break;
+      const target = dp.E[i];
+      for (k = M; k >= 1; k--) {
+        if (same(dp.M[i * width + k], target)) {
+          state = "M";
+          break;
+        }
+        if (same(dp.D[i * width + k], target)) {
+          state = "D";
+          break;
+        }
+      }
+      if (k < 1) break;
+      seqTo = i;
+      hmmTo = k;
+    } else if (state === "M") {
+      const x = digits[i - 1];
+      const value = dp.M[i * width + k] - (x >= 0 ? msc[k * K + x] : 0);
+      const p = k - 1;
+      const prev = (i - 1) * width;
+      if (same(value, dp.B[i - 1] + entry)) {
+        domains.push({ seqFrom: i, seqTo, hmmFrom: k, hmmTo });
+        i--;
+        state = "B";
+      } else if (p > 0 && same(value, dp.M[prev + p] + t[p * 7 + T_MM])) {
+        i--;
+        k = p;
+      } else if (p > 0 && same(value, dp.I[prev + p] + t[p * 7 + T_IM])) {
+        i--;
+        k = p;
+        state = "I";
+      } else if (p > 0 && same(value, dp.D[prev + p] + t[p * 7 + T_DM])) {
+        i--;
+        k = p;
+        state = "D";
+      } else {
+        break;
+      }
+    } else if (state === "I") {
+      const prev = (i - 1) * width;
+      const value = dp.I[i * width + k];
+      i--;
+      if (same(value, dp.M[prev + k] + t[k * 7 + T_MI])) state = "M";
+    } else if (state === "D") {
+      const value = dp.D[i * width + k];
+      const p = k - 1;
+      k = p;
+      if (same(value, dp.M[i * width + p] + t[p * 7 + T_MD])) state = "M";
+    } else {
+      // B: back to N (done) or J (another domain upstream)
+      if (same(dp.B[i], dp.N[i] + move)) break;
+      state = "J";
+    }
+  }
+
+  return domains.reverse();
+}
+
+/**
+ * Search one sequence against a model library and return significant
+ * domains: Pfam gathering cutoffs when present, otherwise i-Evalue
+ */
+export function searchDomains(
+  sequence: string,
+  library: ProfileHmm[],
+  options: DomainSearchOptions = {}
+): DomainHit[] {
+  const digits = digitize(sequence);
+  const z = options.z ?? library.length;
+  const maxEvalue = options.maxEvalue ?? DEFAULT_MAX_EVALUE;
+  const hits: DomainHit[] = [];
+
+  if (digits.length === 0) return hits;
+
+  for (const hmm of library) {
+    const multi = configure(hmm, digits.length, true);
+    const sequenceScore = toBits(
+      multi,
+      fillMatrices(multi, digits, false).total
+    );
+    const sequenceEvalue = forwardPvalue(hmm, sequenceScore) * z;
+
+    if (
+      hmm.gathering ? sequenceScore < hmm.gathering[0] : sequenceEvalue > 10
+    ) {
+      continue;
+    }
+
+    const viterbi = fillMatrices(multi, digits, true);
+
+    for (const segment of traceDomains(multi, digits, viterbi)) {
+      const domainDigits = digits.subarray(segment.seqFrom - 1, segment.seqTo);
+      const uni = configure(hmm, domainDigits.length, false);
+      const score = toBits(uni, fillMatrices(uni, domainDigits, false).total);
+      const evalue = forwardPvalue(hmm, score) * z;
+
+      const significant = hmm.gathering
+        ? score >= hmm.gathering[1]
+        : evalue <= maxEvalue;
+      if (!significant) continue;
+
+      hits.push({
+        accession: hmm.accession,
+        name: hmm.name,
+        description: hmm.description,
+        ...segment,
+        modelLength: hmm.length,
+        score: Math.round(score * 10) / 10,
+        evalue,
+        sequenceScore: Math.round(sequenceScore * 10) / 10,
+        sequenceEvalue,
+      });
+    }
+  }
+
+  return hits.sort((a, b) => a.seqFrom - b.seqFrom || a.evalue - b.evalue);
+}
+
+// BLOSUM62 scale (nats per score unit) for the conditional match emissions
+const BLOSUM62_LAMBDA = 0.3176;
+
+// Calibration as in hmmbuild: fixed lambda, location fitted on random
+// i.i.d. sequences; Forward uses the exponential tail above TAIL_MASS
+const STATS_LAMBDA = Math.LN2;
+const CALIBRATION_SEQUENCES = 200;
+const VITERBI_CALIBRATION_LENGTH = 200;
+const FORWARD_CALIBRATION_LENGTH = 100;
+const TAIL_MASS = 0.04;
+
+// mulberry32; keeps calibration reproducible
+function random(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomSequence(length: number, rand: () => number): string {
+  let sequence = "";
+  for (let i = 0; i < length; i++) {
+    let r = rand();
+    let a = 0;
+    while (a < K - 1 && r >= BACKGROUND[a]) r -= BACKGROUND[a++];
+    sequence += AMINO_ALPHABET[a];
+  }
+  return sequence;
+}
+
+/**
+ * Maximum-likelihood Gumbel location for scores with a known lambda
+ */
+function gumbelLocation(scores: number[], lambda: number): number {
+  const mean =
+    scores.reduce((sum, x) => sum + Math.exp(-lambda * x), 0) / scores.length;
+  return -Math.log(mean) / lambda;
+}
+
+/**
+ * Build a profile HMM from a single sequence the way hmmbuild does:
+ * BLOSUM62 conditional match emissions, background insert emissions and
+ * fixed gap probabilities. Viterbi and Forward score distributions are
+ * fitted on random sequences
+ */
+export function buildSingleSequenceHmm(
+  sequence: string,
+  options: SingleSequenceOptions
+): ProfileHmm {
+  const popen = options.popen ?? 0.02;
+  const pextend = options.pextend ?? 0.4;
+  const blosum = getSubstitutionMatrix("BLOSUM62");
+  const digits = digitize(sequence);
+  const M = digits.length;
+
+  if (M === 0) {
+    throw new Error(`${options.name}: cannot build a model from no residues`);
+  }
+
+  const match = new Float64Array((M + 1) * K).fill(-Infinity);
+  const insert = new Float64Array((M + 1) * K);
+  const transitions = new Float64Array((M + 1) * 7);
+
+  for (let k = 0; k <= M; k++) {
+    for (let b = 0; b < K; b++) insert[k * K + b] = Math.log(BACKGROUND[b]);
+
+    const moves = transitions.subarray(k * 7, k * 7 + 7);
+    moves[T_MM] = Math.log(k === M ? 1 - popen : 1 - 2 * popen);
+    moves[T_MI] = Math.log(popen);
+    moves[T_MD] = k === M ? -Infinity : Math.log(popen);
+    moves[T_IM] = Math.log(1 - pextend);
+    moves[T_II] = Math.log(pextend);
+    // No D0 state, and D_M can only move to E
+    moves[T_DM] = k === 0 || k === M ? 0 : Math.log(1 - pextend);
+    moves[T_DD] = k === 0 || k === M ? -Infinity : Math.log(pextend);
+
+    if (k === 0) continue;
+
+    // P(b | a) proportional to p(b) exp(lambda * s(a, b))
+    const a = digits[k - 1];
+    const weights = BACKGROUND.map((p, b) =>
+      a < 0
+        ? p
+        : p *
+          Math.exp(
+            BLOSUM62_LAMBDA *
+              substitutionScore(blosum, AMINO_ALPHABET[a], AMINO_ALPHABET[b])
+          )
+    );
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    for (let b = 0; b < K; b++) {
+      match[k * K + b] = Math.log(weights[b] / total);
+    }
+  }
+
+  const hmm: ProfileHmm = {
+    name: options.name,
+    accession: options.accession,
+    description: options.description,
+    length: M,
+    stats: {
+      viterbi: { mu: 0, lambda: STATS_LAMBDA },
+      forward: { tau: 0, lambda: STATS_LAMBDA },
+    },
+    match,
+    insert,
+    transitions,
+  };
+
+  const rand = random(options.seed ?? 42);
+  const sample = (length: number, score: (s: string) => number) =>
+    Array.from({ length: CALIBRATION_SEQUENCES }, () =>
+      score(randomSequence(length, rand))
+    );
+
+  hmm.stats.viterbi.mu = gumbelLocation(
+    sample(VITERBI_CALIBRATION_LENGTH, (s) => viterbiScore(hmm, s)),
+    STATS_LAMBDA
+  );
+
+  // tau = Gumbel quantile at 1 - TAIL_MASS, shifted so the exponential tail
+  // carries TAIL_MASS
+  const forwardMu = gumbelLocation(
+    sample(FORWARD_CALIBRATION_LENGTH, (s) => forwardScore(hmm, s)),
+    STATS_LAMBDA
+  );
+  hmm.stats.forward.tau =
+    forwardMu -
+    Math.log(-Math.log(1 - TAIL_MASS)) / STATS_LAMBDA +
+    Math.log(TAIL_MASS) / STATS_LAMBDA;
+
+  return hmm;
+}
+
+function formatProbability(logp: number): string {
+  return logp === -Infinity ? "*" : (-logp).toFixed(5);
+}
+
+/**
+ * Write models in HMMER3/f text format, readable by parseHmmFile and HMMER
+ * Optional comment lines are written as COM records
+ */
+export function formatHmmFile(
+  models: (ProfileHmm & { comment?: string })[]
+): string {
+  const row = (values: Float64Array | number[]) =>
+    Array.from(values, (v) => formatProbability(v).padStart(8)).join(" ");
+
+  return models
+    .map((hmm) => {
+      const M = hmm.length;
+      const consensus = (k: number) => {
+        let best = 0;
+        for (let a = 1; a < K; a++) {
+          if (hmm.match[k * K + a] > hmm.match[k * K + best]) best = a;
+        }
+        return AMINO_ALPHABET[best].toLowerCase();
+      };
+
+      const lines = [
+        "HMMER3/f [plant-analyzer]",
+        `NAME  ${hmm.name}`,
+        `ACC   ${hmm.accession}`,
+        `DESC  ${hmm.description}`,
+        `LENG  ${M}`,
+        "ALPH  amino",
+        "RF    no",
+        "MM    no",
+        "CONS  yes",
+        "CS    no",
+        "MAP   no",
+        ...(hmm.comment ? [`COM   ${hmm.comment}`] : []),
+        "NSEQ  1",
+        ...(hmm.gathering
+          ? [`GA    ${hmm.gathering[0]} ${hmm.gathering[1]};`]
+          : []),
+        `STATS LOCAL VITERBI ${hmm.stats.viterbi.mu.toFixed(4)} ${hmm.stats.viterbi.lambda.toFixed(5)}`,
+        `STATS LOCAL FORWARD ${hmm.stats.forward.tau.toFixed(4)} ${hmm.stats.forward.lambda.toFixed(5)}`,
+        `HMM     ${AMINO_ALPHABET.split("")
+          .map((a) => a.padStart(8))
+          .join(" ")}`,
+        `        ${["m->m", "m->i", "m->d", "i->m", "i->i", "d->m", "d->d"]
+          .map((t) => t.padStart(8))
+          .join(" ")}`,
+      ];
+
+      const node = (k: number) => [
+        `        ${row(hmm.insert.subarray(k * K, k * K + K))}`,
+        `        ${row(hmm.transitions.subarray(k * 7, k * 7 + 7))}`,
+      ];
+
+      lines.push(...node(0));
+      for (let k = 1; k <= M; k++) {
+        lines.push(
+          `${String(k).padStart(7)} ${row(
+            hmm.match.subarray(k * K, k * K + K)
+          )}       - ${consensus(k)} - - -`,
+          ...node(k)
+        );
+      }
+      lines.push("//");
+
+      return lines.join("\n") + "\n";
+    })
+    .join("");
+}
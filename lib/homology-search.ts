@@ -0,0 +1,291 @@
+/**
+ * BLAST-like homology search against the local sequence database
+ * Neighbourhood word seeds, two-hit ungapped extension, gapped Smith-Waterman
+ */
+
+import { alignPair, type PairwiseAlignment } from "./alignment";
+import {
+  getSequenceDatabase,
+  WORD_ALPHABET_SIZE,
+  WORD_SIZE,
+  type SequenceDatabase,
+} from "./sequence-database";
+import { getSubstitutionMatrix, matrixIndex } from "./substitution-matrices";
+
+export interface HomologHit {
+  accession: string;
+  entryName?: string;
+  description: string;
+  organism?: string;
+  length: number;
+  // Raw BLOSUM62 score, bit score and Karlin-Altschul E-value
+  score: number;
+  bitScore: number;
+  evalue: number;
+  identity: number;
+  similarity: number;
+  // Percentage of the query covered by the local alignment
+  queryCoverage: number;
+  // 1-based, inclusive
+  queryStart: number;
+  queryEnd: number;
+  subjectStart: number;
+  subjectEnd: number;
+  alignment: PairwiseAlignment;
+}
+
+export interface HomologySearchOptions {
+  maxHits?: number;
+  maxEvalue?: number;
+  // Minimum BLOSUM62 score for a neighbourhood word (BLASTP T)
+  wordThreshold?: number;
+}
+
+// BLASTP defaults: gap open 11, extend 1 (a gap of n costs 11 + n), i.e.
+// open 12 / extend 1 in the alignment module's open + (n - 1) * extend form
+const GAP_OPEN = 12;
+const GAP_EXTEND = 1;
+
+// Karlin-Altschul parameters for gapped BLOSUM62 11/1 (NCBI BLAST)
+export const KARLIN_ALTSCHUL = { lambda: 0.267, k: 0.041, h: 0.14 };
+
+const DEFAULT_WORD_THRESHOLD = 11;
+const DEFAULT_MAX_HITS = 25;
+const DEFAULT_MAX_EVALUE = 10;
+
+// Two hits on one diagonal within this distance trigger an extension
+const TWO_HIT_WINDOW = 40;
+// Ungapped X-drop (~7 bits) and the score that triggers a gapped alignment
+// (~22 bits), both in raw BLOSUM62 units
+const UNGAPPED_XDROP = 16;
+const GAP_TRIGGER = 41;
+
+/**
+ * Convert a raw score to bits
+ */
+export function bitScore(score: number): number {
+  const { lambda, k } = KARLIN_ALTSCHUL;
+  return (lambda * score - Math.log(k)) / Math.LN2;
+}
+
+/**
+ * Effective search space after the Altschul-Gish length adjustment
+ */
+export function searchSpace(
+  queryLength: number,
+  databaseResidues: number,
+  databaseSequences: number
+): number {
+  const { k, h } = KARLIN_ALTSCHUL;
+  let adjustment = 0;
+
+  for (let i = 0; i < 5; i++) {
+    const m = Math.max(queryLength - adjustment, 1 / k);
+    const n = Math.max(databaseResidues - databaseSequences * adjustment, 1);
+    adjustment = Math.max(Math.log(k * m * n) / h, 0);
+  }
+
+  adjustment = Math.min(adjustment, queryLength - 1 / k);
+  return (
+    Math.max(queryLength - adjustment, 1 / k) *
+    Math.max(databaseResidues - databaseSequences * adjustment, 1)
+  );
+}
+
+/**
+ * E-value of a raw score in the given search space
+ */
+export function evalue(score: number, space: number): number {
+  const { lambda, k } = KARLIN_ALTSCHUL;
+  return k * space * Math.exp(-lambda * score);
+}
+
+/**
+ * Word codes scoring at least `threshold` against each query word
+ */
+export function neighbourhoodWords(
+  query: string,
+  scores: number[][],
+  threshold: number
+): number[][] {
+  const rows = Array.from(query, (aa) => scores[matrixIndex(aa)]);
+  // Best score any word residue achieves against each query residue
+  const best = rows.map((row) => Math.max(...row.slice(0, WORD_ALPHABET_SIZE)));
+
+  const words: number[][] = [];
+  for (let q = 0; q + WORD_SIZE <= query.length; q++) {
+    const found: number[] = [];
+    const [r0, r1, r2] = [rows[q], rows[q + 1], rows[q + 2]];
+
+    for (let a = 0; a < WORD_ALPHABET_SIZE; a++) {
+      const s0 = r0[a];
+      if (s0 + best[q + 1] + best[q + 2] < threshold) continue;
+      for (let b = 0; b < WORD_ALPHABET_SIZE; b++) {
+        const s1 = s0 + r1[b];
+        if (s1 + best[q + 2] < threshold) continue;
+        for (let c = 0; c < WORD_ALPHABET_SIZE; c++) {
+          if (s1 + r2[c] >= threshold) {
+            found.push((a * WORD_ALPHABET_SIZE + b) * WORD_ALPHABET_SIZE + c);
+          }
+        }
+      }
+    }
+
+    words.push(found);
+  }
+
+  return words;
+}
+
+/**
+ * X-drop ungapped extension of a word hit in both directions
+ * Returns the best HSP score and the query end it reached
+ */
+function extendUngapped(
+  query: number[],
+  subject: string,
+  scores: number[][],
+  q: number,
+  s: number
+): { score: number; queryEnd: number } {
+  let score = 0;
+  for (let i = 0; i < WORD_SIZE; i++) {
+    score += scores[query[q + i]][matrixIndex(subject[s + i])];
+  }
+
+  let right = score;
+  let best = score;
+  let queryEnd = q + WORD_SIZE - 1;
+  for (
+    let i = q + WORD_SIZE, j = s + WORD_SIZE;
+    i < query.length && j < subject.length;
+    i++, j++
+  ) {
+    right += scores[query[i]][matrixIndex(subject[j])];
+    if (right > best) {
+      best = right;
+      queryEnd = i;
+    } else if (best - right > UNGAPPED_XDROP) {
+      break;
+    }
+  }
+
+  let left = best;
+  let total = best;
+  for (let i = q - 1, j = s - 1; i >= 0 && j >= 0; i--, j--) {
+    left += scores[query[i]][matrixIndex(subject[j])];
+    if (left > total) {
+      total = left;
+    } else if (total - left > UNGAPPED_XDROP) {
+      break;
+    }
+  }
+
+  return { score: total, queryEnd };
+}
+
+/**
+ * Search the database for local alignments to the query, best E-value first
+ * Returns [] when no database is installed
+ */
+export function searchDatabase(
+  query: string,
+  database: SequenceDatabase | null = getSequenceDatabase(),
+  options: HomologySearchOptions = {}
+): HomologHit[] {
+  if (!database || query.length < WORD_SIZE) return [];
+
+  const maxHits = options.maxHits ?? DEFAULT_MAX_HITS;
+  const maxEvalue = options.maxEvalue ?? DEFAULT_MAX_EVALUE;
+  const matrix = getSubstitutionMatrix("BLOSUM62");
+  const queryIndex = Array.from(query, matrixIndex);
+  const words = neighbourhoodWords(
+    query,
+    matrix.scores,
+    options.wordThreshold ?? DEFAULT_WORD_THRESHOLD
+  );
+
+  const { offsets, entry, position } = database.index;
+  const diagonals = query.length + database.maxLength + 1;
+  const lastHit = new Map<number, number>();
+  const extendedTo = new Map<number, number>();
+  const bestUngapped = new Map<number, number>();
+
+  for (let q = 0; q < words.length; q++) {
+    for (const code of words[q]) {
+      for (let k = offsets[code]; k < offsets[code + 1]; k++) {
+        const e = entry[k];
+        const s = position[k];
+        const diagonal = e * diagonals + s - q + query.length;
+
+        if ((extendedTo.get(diagonal) ?? -1) >= q) continue;
+
+        // Overlapping hits neither extend nor replace the earlier hit
+        const previous = lastHit.get(diagonal);
+        if (previous !== undefined && q - previous < WORD_SIZE) continue;
+        lastHit.set(diagonal, q);
+        if (previous === undefined || q - previous > TWO_HIT_WINDOW) continue;
+
+        const hsp = extendUngapped(
+          queryIndex,
+          database.entries[e].sequence,
+          matrix.scores,
+          q,
+          s
+        );
+        extendedTo.set(diagonal, hsp.queryEnd);
+        if (hsp.score > (bestUngapped.get(e) ?? -Infinity)) {
+          bestUngapped.set(e, hsp.score);
+        }
+      }
+    }
+  }
+
+  const space = searchSpace(
+    query.length,
+    database.residues,
+    database.entries.length
+  );
+
+  // Gapped alignment for the strongest candidates only
+  const candidates = [...bestUngapped.entries()]
+    .filter(([, score]) => score >= GAP_TRIGGER)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, Math.max(maxHits * 2, 50));
+
+  return candidates
+    .map(([e]) => {
+      const target = database.entries[e];
+      const alignment = alignPair(query, target.sequence, {
+        mode: "local",
+        matrix: "BLOSUM62",
+        gapOpen: GAP_OPEN,
+        gapExtend: GAP_EXTEND,
+      });
+
+      return {
+        accession: target.accession,
+        entryName: target.entryName,
+        description: target.description,
+        organism: target.organism,
+        length: target.sequence.length,
+        score: alignment.score,
+        bitScore: Math.round(bitScore(alignment.score) * 10) / 10,
+        evalue: evalue(alignment.score, space),
+        identity: alignment.stats.identity,
+        similarity: alignment.stats.similarity,
+        queryCoverage:
+          Math.round(
+            ((alignment.endA - alignment.startA + 1) / query.length) * 1000
+          ) / 10,
+        queryStart: alignment.startA,
+        queryEnd: alignment.endA,
+        subjectStart: alignment.startB,
+        subjectEnd: alignment.endB,
+        alignment,
+      };
+    })
+    .filter((hit) => hit.evalue <= maxEvalue)
+    .sort((a, b) => a.evalue - b.evalue || b.score - a.score)
+    .slice(0, maxHits);
+}
@@ -0,0 +1,296 @@
+/**
+ * Sliding-window hydropathy profiles and transmembrane helix prediction
+ * Topology follows the positive-inside rule (von Heijne 1992)
+ */
+
+import { KYTE_DOOLITTLE } from "./protein-properties";
+
+export type HydropathyScaleName =
+  "kyte-doolittle" | "eisenberg" | "wimley-white";
+
+export interface HydropathyScale {
+  name: HydropathyScaleName;
+  label: string;
+  values: Record<string, number>;
+  // Default window, and the window average above which a segment is taken as
+  // membrane-spanning (1.6 for Kyte-Doolittle; the others tuned to match it)
+  window: number;
+  threshold: number;
+}
+
+export const HYDROPATHY_SCALES: Record<HydropathyScaleName, HydropathyScale> = {
+  "kyte-doolittle": {
+    name: "kyte-doolittle",
+    label: "Kyte–Doolittle",
+    values: KYTE_DOOLITTLE,
+    window: 19,
+    threshold: 1.6,
+  },
+  // Normalized consensus scale (Eisenberg et al. 1984)
+  eisenberg: {
+    name: "eisenberg",
+    label: "Eisenberg",
+    values: {
+      A: 0.62,
+      R: -2.53,
+      N: -0.78,
+      D: -0.9,
+      C: 0.29,
+      Q: -0.85,
+      E: -0.74,
+      G: 0.48,
+      H: -0.4,
+      I: 1.38,
+      L: 1.06,
+      K: -1.5,
+      M: 0.64,
+      F: 1.19,
+      P: 0.12,
+      S: -0.18,
+      T: -0.05,
+      W: 0.81,
+      Y: 0.26,
+      V: 1.08,
+    },
+    window: 21,
+    threshold: 0.55,
+  },
+  // Whole-residue octanol scale (Wimley & White 1996), sign flipped so that
+  // hydrophobic residues are positive; charged forms for D, E, H, K, R
+  "wimley-white": {
+    name: "wimley-white",
+    label: "Wimley–White (octanol)",
+    values: {
+      A: -0.5,
+      R: -1.81,
+      N: -0.85,
+      D: -3.64,
+      C: 0.02,
+      Q: -0.77,
+      E: -3.63,
+      G: -1.15,
+      H: -2.33,
+      I: 1.12,
+      L: 1.25,
+      K: -2.8,
+      M: 0.67,
+      F: 1.71,
+      P: -0.14,
+      S: -0.46,
+      T: -0.25,
+      W: 2.09,
+      Y: 0.71,
+      V: 0.46,
+    },
+    window: 19,
+    threshold: 0.2,
+  },
+};
+
+export const DEFAULT_HYDROPATHY_SCALE: HydropathyScaleName = "kyte-doolittle";
+
+// Flank length used to count K/R for the positive-inside rule
+const TOPOLOGY_FLANK = 15;
+// Longer runs above threshold are split into several helices
+const MAX_HELIX_LENGTH = 40;
+const TYPICAL_HELIX_LENGTH = 21;
+
+export interface HydropathyProfile {
+  scale: HydropathyScaleName;
+  window: number;
+  threshold: number;
+  // Window average centred on each residue (null where the window does not fit)
+  values: (number | null)[];
+}
+
+export interface TransmembraneHelix {
+  // 1-based, inclusive
+  start: number;
+  end: number;
+  length: number;
+  // Mean hydropathy over the segment
+  score: number;
+  orientation: "in-out" | "out-in";
+}
+
+export interface TransmembranePrediction {
+  scale: HydropathyScaleName;
+  helices: TransmembraneHelix[];
+  nTerminus: "in" | "out" | null;
+  // e.g. "i12-32o45-65i" (i = cytoplasmic, o = non-cytoplasmic)
+  topology: string;
+}
+
+export interface TransmembraneOptions {
+  // Last residue of a predicted signal peptide; its h-region is not a TM helix
+  // and the mature N-terminus is non-cytoplasmic
+  signalPeptideEnd?: number;
+}
+
+/**
+ * Look up a scale, throwing on unknown names
+ */
+export function getHydropathyScale(name: string): HydropathyScale {
+  const scale = HYDROPATHY_SCALES[name as HydropathyScaleName];
+  if (!scale) {
+    throw new Error(
+      `Unknown hydropathy scale "${name}" (expected one of: ${Object.keys(
+        HYDROPATHY_SCALES
+      ).join(", ")})`
+    );
+  }
+  return scale;
+}
+
+/**
+ * Centred sliding-window average of a hydropathy scale
+ * Residues missing from the scale (X, B, ...) count as 0
+ */
+export function hydropathyProfile(
+  sequence: string,
+  scaleName: HydropathyScaleName = DEFAULT_HYDROPATHY_SCALE,
+  window?: number
+): HydropathyProfile {
+  const scale = getHydropathyScale(scaleName);
+  const size = window ?? scale.window;
+  const half = Math.floor(size / 2);
+  const values: (number | null)[] = new Array(sequence.length).fill(null);
+
+  let sum = 0;
+  for (let i = 0; i < sequence.length; i++) {
+    sum += scale.values[sequence[i]] ?? 0;
+    if (i >= size) sum -= scale.values[sequence[i - size]] ?? 0;
+    if (i >= size - 1) {
+      values[i - size + 1 + half] = Math.round((sum / size) * 1000) / 1000;
+    }
+  }
+
+  return {
+    scale: scale.name,
+    window: size,
+    threshold: scale.threshold,
+    values,
+  };
+}
+
+function countPositive(sequence: string, from: number, to: number): number {
+  let count = 0;
+  for (let i = Math.max(from, 0); i < Math.min(to, sequence.length); i++) {
+    if (sequence[i] === "K" || sequence[i] === "R") count++;
+  }
+  return count;
+}
+
+/**
+ * Predict membrane-spanning helices as runs of windows above the scale
+ * threshold, then orient them by the positive-inside rule
+ */
+export function predictTransmembraneHelices(
+  sequence: string,
+  scaleName: HydropathyScaleName = DEFAULT_HYDROPATHY_SCALE,
+  options: TransmembraneOptions = {}
+): TransmembranePrediction {
+  const profile = hydropathyProfile(sequence, scaleName);
+  const half = Math.floor(profile.window / 2);
+  const segments: [number, number][] = [];
+
+  // Runs of window centres above threshold, widened to the window edges;
+  // runs whose widened segments overlap are merged
+  const addSegment = (from: number, to: number) => {
+    const last = segments[segments.length - 1];
+    if (last && from <= last[1]) {
+      last[1] = to;
+    } else {
+      segments.push([from, to]);
+    }
+  };
+
+  let runStart = -1;
+  profile.values.forEach((value, i) => {
+    const above = value !== null && value > profile.threshold;
+    if (above && runStart < 0) runStart = i;
+    if (!above && runStart >= 0) {
+      addSegment(runStart - half, i - 1 + half);
+      runStart = -1;
+    }
+  });
+  if (runStart >= 0) addSegment(runStart - half, sequence.length - 1);
+
+  const spans: [number, number][] = [];
+  for (const [from, to] of segments) {
+    // Hydrophobic runs inside a signal peptide are its h-region
+    if (
+      options.signalPeptideEnd &&
+      (from + to) / 2 < options.signalPeptideEnd
+    ) {
+      continue;
+    }
+
+    const start = Math.max(from, 0);
+    const end = Math.min(to, sequence.length - 1);
+    const length = end - start + 1;
+
+    if (length <= MAX_HELIX_LENGTH) {
+      spans.push([start, end]);
+      continue;
+    }
+
+    const pieces = Math.round(length / TYPICAL_HELIX_LENGTH);
+    const pieceLength = Math.floor(length / pieces);
+    for (let p = 0; p < pieces; p++) {
+      spans.push([
+        start + p * pieceLength,
+        p === pieces - 1 ? end : start + (p + 1) * pieceLength - 1,
+      ]);
+    }
+  }
+
+  if (spans.length === 0) {
+    return { scale: profile.scale, helices: [], nTerminus: null, topology: "" };
+  }
+
+  // Positive-inside: compare K+R next to the helices on alternating sides
+  let oddSide = 0;
+  let evenSide = 0;
+  spans.forEach(([start, end], i) => {
+    const before = countPositive(sequence, start - TOPOLOGY_FLANK, start);
+    const after = countPositive(sequence, end + 1, end + 1 + TOPOLOGY_FLANK);
+    // Side 0 is the N-terminal side of the first helix
+    if (i % 2 === 0) {
+      evenSide += before;
+      oddSide += after;
+    } else {
+      oddSide += before;
+      evenSide += after;
+    }
+  });
+
+  const nTerminus =
+    options.signalPeptideEnd || evenSide < oddSide ? "out" : "in";
+  const scale = getHydropathyScale(profile.scale);
+
+  const helices = spans.map(([start, end], i) => {
+    let total = 0;
+    for (let r = start; r <= end; r++) total += scale.values[sequence[r]] ?? 0;
+
+    const startsInside = (i % 2 === 0) === (nTerminus === "in");
+
+    return {
+      start: start + 1,
+      end: end + 1,
+      length: end - start + 1,
+      score: Math.round((total / (end - start + 1)) * 1000) / 1000,
+      orientation: startsInside ? "in-out" : "out-in",
+    } as TransmembraneHelix;
+  });
+
+  const topology =
+    (nTerminus === "in" ? "i" : "o") +
+    helices
+      .map(
+        (h) => `${h.start}-${h.end}${h.orientation === "in-out" ? "o" : "i"}`
+      )
+      .join("");
+
+  return { scale: profile.scale, helices, nTerminus, topology };
+}
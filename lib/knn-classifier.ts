@@ -0,0 +1,130 @@
+/**
+ * Embedding nearest-neighbour classifier
+ * Transfers GO annotations from the most similar reference proteins
+ */
+
+import type { FunctionalCategory } from "./classification-engine";
+import type { ReferenceGoTerm, ReferenceIndex } from "./reference-index";
+import { evidence } from "./evidence";
+
+export interface ReferenceNeighbour {
+  accession: string;
+  name: string;
+  organism?: string;
+  similarity: number;
+  goTerms: string[];
+}
+
+export interface KnnOptions {
+  k?: number;
+  // Terms scoring below this are not reported
+  minConfidence?: number;
+}
+
+const DEFAULT_K = 10;
+const DEFAULT_MIN_CONFIDENCE = 0.3;
+
+/**
+ * Rank reference entries by cosine similarity to the query embedding
+ */
+export function findNearestNeighbours(
+  embedding: number[],
+  index: ReferenceIndex,
+  k = DEFAULT_K
+): (ReferenceNeighbour & { terms: ReferenceGoTerm[] })[] {
+  if (embedding.length !== index.dimension) {
+    throw new Error(
+      `Embedding dimension ${embedding.length} does not match reference index dimension ${index.dimension}`
+    );
+  }
+
+  const queryNorm = Math.sqrt(embedding.reduce((sq, v) => sq + v * v, 0));
+
+  const scored = index.entries.map((entry, i) => {
+    let dot = 0;
+    for (let d = 0; d < embedding.length; d++) {
+      dot += embedding[d] * entry.embedding[d];
+    }
+    const denominator = queryNorm * index.norms[i];
+    return { entry, similarity: denominator === 0 ? 0 : dot / denominator };
+  });
+
+  return scored
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, k)
+    .map(({ entry, similarity }) => ({
+      accession: entry.accession,
+      name: entry.name,
+      organism: entry.organism,
+      similarity,
+      goTerms: entry.goTerms.map((t) => t.id),
+      terms: entry.goTerms,
+    }));
+}
+
+/**
+ * Turn neighbours into GO predictions
+ * Confidence = similarity-weighted share of neighbours carrying the term,
+ * scaled by the similarity of the closest neighbour that carries it
+ */
+export function annotateFromNeighbours(
+  neighbours: (ReferenceNeighbour & { terms: ReferenceGoTerm[] })[],
+  options: KnnOptions = {}
+): FunctionalCategory[] {
+  const minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+  const weight = (n: ReferenceNeighbour) => Math.max(n.similarity, 0);
+  const totalWeight = neighbours.reduce((sum, n) => sum + weight(n), 0);
+  if (totalWeight === 0) return [];
+
+  const votes = new Map<
+    string,
+    { term: ReferenceGoTerm; weight: number; supporters: ReferenceNeighbour[] }
+  >();
+
+  for (const neighbour of neighbours) {
+    for (const term of neighbour.terms) {
+      const vote = votes.get(term.id) ?? { term, weight: 0, supporters: [] };
+      vote.weight += weight(neighbour);
+      vote.supporters.push(neighbour);
+      votes.set(term.id, vote);
+    }
+  }
+
+  const categories: FunctionalCategory[] = [];
+
+  for (const { term, weight: termWeight, supporters } of votes.values()) {
+    const best = supporters[0];
+    const confidence = (termWeight / totalWeight) * weight(best);
+    if (confidence < minConfidence) continue;
+
+    categories.push({
+      id: term.id,
+      name: term.name,
+      type: term.aspect,
+      confidence,
+      description: `Transferred from ${supporters.length} of ${
+        neighbours.length
+      } nearest reference proteins (closest: ${
+        best.accession
+      }, cosine ${best.similarity.toFixed(3)}).`,
+      examples: supporters.slice(0, 3).map((n) => n.name || n.accession),
+      references: {
+        geneOntology: term.id,
+        uniProt: best.accession,
+      },
+      embeddingBased: true,
+      neighbourAccessions: supporters.map((n) => n.accession),
+      evidence: supporters.map((n) =>
+        evidence(
+          "neighbour",
+          `Annotated in ${n.accession}${
+            n.name ? ` (${n.name})` : ""
+          }, cosine ${n.similarity.toFixed(3)}`,
+          { accession: n.accession, score: n.similarity }
+        )
+      ),
+    });
+  }
+
+  return categories.sort((a, b) => b.confidence - a.confidence);
+}
@@ -0,0 +1,126 @@
+/**
+ * SEG-style low-complexity region detection and masking
+ * Wootton & Federhen (1993) trigger/extension windows on compositional entropy
+ */
+
+// Default SEG parameters for proteins: window 12, K1 2.2 bits, K2 2.5 bits
+export const SEG_WINDOW = 12;
+export const SEG_TRIGGER = 2.2;
+export const SEG_EXTENSION = 2.5;
+
+export interface LowComplexityOptions {
+  window?: number;
+  trigger?: number;
+  extension?: number;
+}
+
+export interface LowComplexityRegion {
+  // 1-based, inclusive
+  start: number;
+  end: number;
+  // Compositional entropy of the whole region in bits
+  entropy: number;
+  sequence: string;
+}
+
+/**
+ * Shannon entropy (bits) of the residue composition of a segment
+ */
+export function compositionEntropy(segment: string): number {
+  const counts = new Map<string, number>();
+  for (const residue of segment) {
+    counts.set(residue, (counts.get(residue) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / segment.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Find low-complexity regions: windows at or below the trigger entropy seed a
+ * region, which grows over contiguous windows at or below the extension entropy
+ * (SEG's probability-based trimming step is not applied)
+ */
+export function findLowComplexityRegions(
+  sequence: string,
+  options: LowComplexityOptions = {}
+): LowComplexityRegion[] {
+  const window = options.window ?? SEG_WINDOW;
+  const trigger = options.trigger ?? SEG_TRIGGER;
+  const extension = options.extension ?? SEG_EXTENSION;
+  const residues = sequence.toUpperCase();
+
+  if (residues.length < window) return [];
+
+  const entropies: number[] = [];
+  for (let i = 0; i + window <= residues.length; i++) {
+    entropies.push(compositionEntropy(residues.slice(i, i + window)));
+  }
+
+  const regions: LowComplexityRegion[] = [];
+  for (let i = 0; i < entropies.length; i++) {
+    if (entropies[i] > trigger) continue;
+
+    let first = i;
+    let last = i;
+    while (first > 0 && entropies[first - 1] <= extension) first--;
+    while (last + 1 < entropies.length && entropies[last + 1] <= extension) {
+      last++;
+    }
+
+    const start = first;
+    const end = last + window;
+    const previous = regions[regions.length - 1];
+
+    if (previous && start < previous.end) {
+      previous.end = Math.max(previous.end, end);
+      previous.sequence = residues.slice(previous.start - 1, previous.end);
+      previous.entropy = compositionEntropy(previous.sequence);
+    } else {
+      const segment = residues.slice(start, end);
+      regions.push({
+        start: start + 1,
+        end,
+        entropy: compositionEntropy(segment),
+        sequence: segment,
+      });
+    }
+    i = last;
+  }
+
+  return regions.map((region) => ({
+    ...region,
+    entropy: Math.round(region.entropy * 1000) / 1000,
+  }));
+}
+
+/**
+ * Replace residues inside low-complexity regions with a mask character
+ */
+export function maskLowComplexity(
+  sequence: string,
+  regions: LowComplexityRegion[],
+  mask = "X"
+): string {
+  const residues = sequence.split("");
+  for (const region of regions) {
+    for (let i = region.start - 1; i < region.end; i++) residues[i] = mask;
+  }
+  return residues.join("");
+}
+
+/**
+ * Fraction of the sequence covered by low-complexity regions
+ */
+export function lowComplexityFraction(
+  regions: LowComplexityRegion[],
+  length: number
+): number {
+  if (length === 0) return 0;
+  const covered = regions.reduce((sum, r) => sum + r.end - r.start + 1, 0);
+  return Math.round((covered / length) * 1000) / 1000;
+}
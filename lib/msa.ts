@@ -0,0 +1,465 @@
+/**
+ * Progressive multiple sequence alignment and per-column conservation
+ * UPGMA guide tree from k-mer distances, then profile-profile Gotoh alignment
+ */
+
+import {
+  AlignmentError,
+  DEFAULT_GAP_EXTEND,
+  DEFAULT_GAP_OPEN,
+  MAX_ALIGNMENT_CELLS,
+} from "./alignment";
+import {
+  DEFAULT_SUBSTITUTION_MATRIX,
+  getSubstitutionMatrix,
+  MATRIX_ALPHABET,
+  matrixIndex,
+  type SubstitutionMatrixName,
+} from "./substitution-matrices";
+
+export interface MsaInput {
+  id: string;
+  sequence: string;
+}
+
+export interface MsaOptions {
+  matrix?: SubstitutionMatrixName;
+  gapOpen?: number;
+  gapExtend?: number;
+}
+
+export interface ColumnConservation {
+  // Shannon entropy of the residue distribution (bits, gaps excluded)
+  entropy: number;
+  // 1 - entropy / log2(20), scaled by the non-gap fraction
+  shannon: number;
+  // Jensen-Shannon divergence from the BLOSUM62 background (Capra & Singh
+  // 2007), scaled by the non-gap fraction
+  jsd: number;
+  gapFraction: number;
+}
+
+export interface MultipleAlignment {
+  // Input order, gapped with "-"
+  ids: string[];
+  rows: string[];
+  length: number;
+  // Most frequent residue per column ("-" where gaps dominate)
+  consensus: string;
+  conservation: ColumnConservation[];
+  // Newick, branch lengths in k-mer distance units
+  guideTree: string;
+}
+
+export const MAX_MSA_SEQUENCES = 100;
+
+const KMER_SIZE = 3;
+
+// The 20 standard amino acids, in matrix order
+const AMINO_ACIDS = MATRIX_ALPHABET.slice(0, 20);
+
+// BLOSUM62 background frequencies, in AMINO_ACIDS order (Capra & Singh)
+const BACKGROUND = [
+  0.078, 0.051, 0.041, 0.052, 0.024, 0.034, 0.059, 0.083, 0.025, 0.062, 0.092,
+  0.056, 0.024, 0.044, 0.043, 0.059, 0.055, 0.014, 0.034, 0.072,
+];
+
+// Pseudocount so log terms stay finite for absent residues
+const JSD_PSEUDOCOUNT = 1e-6;
+
+interface GuideNode {
+  // Leaf index, or -1 for internal nodes
+  leaf: number;
+  children: GuideNode[];
+  height: number;
+  size: number;
+}
+
+/**
+ * Fractional common k-mer distance (Edgar 2004): 1 minus the shared k-mer
+ * count over the k-mers in the shorter sequence
+ */
+export function kmerDistance(a: string, b: string, k = KMER_SIZE): number {
+  const countA = new Map<string, number>();
+  for (let i = 0; i + k <= a.length; i++) {
+    const word = a.slice(i, i + k);
+    countA.set(word, (countA.get(word) ?? 0) + 1);
+  }
+
+  let shared = 0;
+  const countB = new Map<string, number>();
+  for (let i = 0; i + k <= b.length; i++) {
+    const word = b.slice(i, i + k);
+    const seen = (countB.get(word) ?? 0) + 1;
+    countB.set(word, seen);
+    if (seen <= (countA.get(word) ?? 0)) shared++;
+  }
+
+  const possible = Math.min(a.length, b.length) - k + 1;
+  return possible > 0 ? 1 - shared / possible : 1;
+}
+
+/**
+ * UPGMA clustering of a distance matrix
+ */
+export function buildGuideTree(distances: number[][]): GuideNode {
+  let clusters: GuideNode[] = distances.map((_, i) => ({
+    leaf: i,
+    children: [],
+    height: 0,
+    size: 1,
+  }));
+  let matrix = distances.map((row) => [...row]);
+
+  while (clusters.length > 1) {
+    let bestI = 0;
+    let bestJ = 1;
+    for (let i = 0; i < clusters.length; i++) {
+      for (let j = i + 1; j < clusters.length; j++) {
+        if (matrix[i][j] < matrix[bestI][bestJ]) {
+          bestI = i;
+          bestJ = j;
+        }
+      }
+    }
+
+    const a = clusters[bestI];
+    const b = clusters[bestJ];
+    const merged: GuideNode = {
+      leaf: -1,
+      children: [a, b],
+      height: matrix[bestI][bestJ] / 2,
+      size: a.size + b.size,
+    };
+
+    const keep = clusters
+      .map((_, i) => i)
+      .filter((i) => i !== bestI && i !== bestJ);
+    const row = keep.map(
+      (k) =>
+        (matrix[bestI][k] * a.size + matrix[bestJ][k] * b.size) /
+        (a.size + b.size)
+    );
+
+    matrix = [
+      ...keep.map((i, r) => [...keep.map((j) => matrix[i][j]), row[r]]),
+      [...row, 0],
+    ];
+    clusters = [...keep.map((i) => clusters[i]), merged];
+  }
+
+  return clusters[0];
+}
+
+function toNewick(
+  node: GuideNode,
+  ids: string[],
+  parentHeight?: number
+): string {
+  const branch =
+    parentHeight === undefined
+      ? ""
+      : `:${Math.max(parentHeight - node.height, 0).toFixed(4)}`;
+  const label = (id: string) => id.replace(/[\s(),:;[\]']/g, "_");
+
+  if (node.leaf >= 0) return label(ids[node.leaf]) + branch;
+  return `(${node.children
+    .map((child) => toNewick(child, ids, node.height))
+    .join(",")})${branch}`;
+}
+
+interface Profile {
+  // Sequence indices and their gapped rows
+  members: number[];
+  rows: string[];
+  // Per column: matrix indices of residues present and their frequencies
+  // (over all rows, so gappy columns weigh less)
+  residues: number[][];
+  weights: number[][];
+}
+
+function makeProfile(members: number[], rows: string[]): Profile {
+  const length = rows[0].length;
+  const residues: number[][] = [];
+  const weights: number[][] = [];
+
+  for (let c = 0; c < length; c++) {
+    const counts = new Map<number, number>();
+    for (const row of rows) {
+      if (row[c] === "-") continue;
+      const index = matrixIndex(row[c]);
+      counts.set(index, (counts.get(index) ?? 0) + 1);
+    }
+    residues.push([...counts.keys()]);
+    weights.push([...counts.values()].map((n) => n / rows.length));
+  }
+
+  return { members, rows, residues, weights };
+}
+
+/**
+ * Global profile-profile alignment with affine gaps; end gaps cost only the
+ * extension penalty so fragments are not forced to open internal gaps
+ */
+function alignProfiles(
+  a: Profile,
+  b: Profile,
+  scores: number[][],
+  open: number,
+  extend: number
+): Profile {
+  const n = a.rows[0].length;
+  const m = b.rows[0].length;
+  if (n * m > MAX_ALIGNMENT_CELLS) {
+    throw new AlignmentError(
+      `Profiles too long to align (${n} x ${m} columns exceeds ${MAX_ALIGNMENT_CELLS.toLocaleString()} cells)`
+    );
+  }
+
+  // Expected score of each residue type against each column of b
+  const columnScores = b.residues.map((present, j) => {
+    const expected = new Float64Array(MATRIX_ALPHABET.length);
+    for (let x = 0; x < expected.length; x++) {
+      for (let r = 0; r < present.length; r++) {
+        expected[x] += b.weights[j][r] * scores[x][present[r]];
+      }
+    }
+    return expected;
+  });
+
+  const width = m + 1;
+  const size = (n + 1) * width;
+  const M = new Float64Array(size).fill(-Infinity);
+  const X = new Float64Array(size).fill(-Infinity);
+  const Y = new Float64Array(size).fill(-Infinity);
+  // 0 = from M, 1 = from X, 2 = from Y
+  const tM = new Uint8Array(size);
+  const tX = new Uint8Array(size);
+  const tY = new Uint8Array(size);
+
+  M[0] = 0;
+  for (let i = 1; i <= n; i++) {
+    X[i * width] = -extend * i;
+    tX[i * width] = i === 1 ? 0 : 1;
+  }
+  for (let j = 1; j <= m; j++) {
+    Y[j] = -extend * j;
+    tY[j] = j === 1 ? 0 : 2;
+  }
+
+  for (let i = 1; i <= n; i++) {
+    const present = a.residues[i - 1];
+    const weights = a.weights[i - 1];
+    for (let j = 1; j <= m; j++) {
+      const cell = i * width + j;
+
+      let pair = 0;
+      const expected = columnScores[j - 1];
+      for (let r = 0; r < present.length; r++) {
+        pair += weights[r] * expected[present[r]];
+      }
+
+      let prev = cell - width - 1;
+      let value = M[prev];
+      let from = 0;
+      if (X[prev] > value) [value, from] = [X[prev], 1];
+      if (Y[prev] > value) [value, from] = [Y[prev], 2];
+      M[cell] = value + pair;
+      tM[cell] = from;
+
+      // Gaps after the last column of either profile are end gaps
+      const openX = j === m ? extend : open;
+      prev = cell - width;
+      value = M[prev] - openX;
+      from = 0;
+      if (X[prev] - extend > value) [value, from] = [X[prev] - extend, 1];
+      if (Y[prev] - openX > value) [value, from] = [Y[prev] - openX, 2];
+      X[cell] = value;
+      tX[cell] = from;
+
+      const openY = i === n ? extend : open;
+      prev = cell - 1;
+      value = M[prev] - openY;
+      from = 0;
+      if (X[prev] - openY > value) [value, from] = [X[prev] - openY, 1];
+      if (Y[prev] - extend > value) [value, from] = [Y[prev] - extend, 2];
+      Y[cell] = value;
+      tY[cell] = from;
+    }
+  }
+
+  // Traceback into a column path: 0 = both, 1 = a only, 2 = b only
+  const end = size - 1;
+  let state =
+    M[end] >= X[end] && M[end] >= Y[end] ? 0 : X[end] >= Y[end] ? 1 : 2;
+  const path: number[] = [];
+  let i = n;
+  let j = m;
+
+  while (i > 0 || j > 0) {
+    if (i === 0) state = 2;
+    else if (j === 0) state = 1;
+
+    const cell = i * width + j;
+    path.push(state);
+    if (state === 0) {
+      state = tM[cell];
+      i--;
+      j--;
+    } else if (state === 1) {
+      state = tX[cell];
+      i--;
+    } else {
+      state = tY[cell];
+      j--;
+    }
+  }
+  path.reverse();
+
+  const rowsA = a.rows.map(() => [] as string[]);
+  const rowsB = b.rows.map(() => [] as string[]);
+  let ci = 0;
+  let cj = 0;
+
+  for (const step of path) {
+    a.rows.forEach((row, r) => rowsA[r].push(step === 2 ? "-" : row[ci]));
+    b.rows.forEach((row, r) => rowsB[r].push(step === 1 ? "-" : row[cj]));
+    if (step !== 2) ci++;
+    if (step !== 1) cj++;
+  }
+
+  return makeProfile(
+    [...a.members, ...b.members],
+    [...rowsA, ...rowsB].map((row) => row.join(""))
+  );
+}
+
+function log2(x: number): number {
+  return Math.log(x) / Math.LN2;
+}
+
+/**
+ * Shannon and Jensen-Shannon conservation of one alignment column
+ */
+export function columnConservation(column: string[]): ColumnConservation {
+  const counts = new Array(AMINO_ACIDS.length).fill(0);
+  let gaps = 0;
+  for (const residue of column) {
+    const index = AMINO_ACIDS.indexOf(residue);
+    if (index >= 0) counts[index]++;
+    else if (residue === "-") gaps++;
+  }
+
+  const gapFraction = column.length ? gaps / column.length : 1;
+  const total = counts.reduce((sum, n) => sum + n, 0);
+  if (total === 0) return { entropy: 0, shannon: 0, jsd: 0, gapFraction };
+
+  let entropy = 0;
+  for (const n of counts) {
+    if (n > 0) entropy -= (n / total) * log2(n / total);
+  }
+
+  const p = counts.map(
+    (n) =>
+      (n + JSD_PSEUDOCOUNT) / (total + AMINO_ACIDS.length * JSD_PSEUDOCOUNT)
+  );
+  let jsd = 0;
+  for (let k = 0; k < p.length; k++) {
+    const mid = 0.5 * p[k] + 0.5 * BACKGROUND[k];
+    jsd +=
+      0.5 * p[k] * log2(p[k] / mid) +
+      0.5 * BACKGROUND[k] * log2(BACKGROUND[k] / mid);
+  }
+
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  return {
+    entropy: round(entropy),
+    shannon: round(
+      (1 - entropy / log2(AMINO_ACIDS.length)) * (1 - gapFraction)
+    ),
+    jsd: round(jsd * (1 - gapFraction)),
+    gapFraction: round(gapFraction),
+  };
+}
+
+/**
+ * Align two or more sequences progressively along a UPGMA guide tree
+ */
+export function alignMultiple(
+  sequences: MsaInput[],
+  options: MsaOptions = {}
+): MultipleAlignment {
+  if (sequences.length < 2) {
+    throw new AlignmentError("At least two sequences are required");
+  }
+  if (sequences.length > MAX_MSA_SEQUENCES) {
+    throw new AlignmentError(
+      `At most ${MAX_MSA_SEQUENCES} sequences can be aligned (got ${sequences.length})`
+    );
+  }
+  if (sequences.some((s) => s.sequence.length === 0)) {
+    throw new AlignmentError("Sequences must be non-empty");
+  }
+
+  const open = options.gapOpen ?? DEFAULT_GAP_OPEN;
+  const extend = options.gapExtend ?? DEFAULT_GAP_EXTEND;
+  if (!(open >= 0) || !(extend >= 0) || extend > open) {
+    throw new AlignmentError(
+      "Gap penalties must be non-negative with gapExtend <= gapOpen"
+    );
+  }
+  const scores = getSubstitutionMatrix(
+    options.matrix ?? DEFAULT_SUBSTITUTION_MATRIX
+  ).scores;
+
+  const ids = sequences.map((s) => s.id);
+  const distances = sequences.map((a, i) =>
+    sequences.map((b, j) =>
+      i === j ? 0 : kmerDistance(a.sequence, b.sequence)
+    )
+  );
+  const tree = buildGuideTree(distances);
+
+  const build = (node: GuideNode): Profile =>
+    node.leaf >= 0
+      ? makeProfile([node.leaf], [sequences[node.leaf].sequence])
+      : alignProfiles(
+          build(node.children[0]),
+          build(node.children[1]),
+          scores,
+          open,
+          extend
+        );
+
+  const profile = build(tree);
+
+  // Restore input order
+  const rows: string[] = new Array(sequences.length);
+  profile.members.forEach((member, r) => (rows[member] = profile.rows[r]));
+
+  const length = rows[0].length;
+  const conservation: ColumnConservation[] = [];
+  let consensus = "";
+
+  for (let c = 0; c < length; c++) {
+    const column = rows.map((row) => row[c]);
+    conservation.push(columnConservation(column));
+
+    const counts = new Map<string, number>();
+    for (const residue of column) {
+      counts.set(residue, (counts.get(residue) ?? 0) + 1);
+    }
+    consensus += [...counts.entries()].sort(
+      (x, y) => y[1] - x[1] || x[0].localeCompare(y[0])
+    )[0][0];
+  }
+
+  return {
+    ids,
+    rows,
+    length,
+    consensus,
+    conservation,
+    guideTree: `${toNewick(tree, ids)};`,
+  };
+}
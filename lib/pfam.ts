@@ -0,0 +1,261 @@
+/**
+ * Local Pfam domain library and pfam2go annotation transfer
+ * Curated Pfam models are fetched with scripts/fetch-pfam-subset.ts. Until
+ * then a few single-sequence seed profiles (data/pfam) stand in for families;
+ * they are not Pfam models, so they are labelled separately and never used
+ * for GO or EC transfer
+ */
+
+import fs from "fs";
+import path from "path";
+import type { FunctionalCategory } from "./classification-engine";
+import { evidence } from "./evidence";
+import type { GoAspect } from "./go-rules";
+import {
+  parseHmmFile,
+  searchDomains,
+  type DomainHit,
+  type ProfileHmm,
+} from "./hmmer";
+
+export interface PfamGoTerm {
+  id: string;
+  name: string;
+  aspect: GoAspect;
+}
+
+export const DEFAULT_PFAM_PATH = path.join(process.cwd(), "data", "pfam");
+
+export const DEFAULT_PFAM2GO_PATH = path.join(
+  process.cwd(),
+  "data",
+  "pfam2go.tsv"
+);
+
+// Families in Pfam-A 37.0; E-values are scaled to a full release so a local
+// subset reports the same significance as hmmscan against all of Pfam
+export const PFAM_A_FAMILIES = 21979;
+
+// Seed profiles are named after the family they stand in for, e.g. Pkinase-like
+export const SEED_PROFILE_SUFFIX = "-like";
+
+const PFAM_ACCESSION = /^PF\d{5}(\.\d+)?$/;
+
+const ASPECTS: Record<string, GoAspect> = {
+  F: "molecular_function",
+  P: "biological_process",
+  C: "cellular_component",
+};
+
+// Domain confidence = base + slope * -log10(i-Evalue), capped
+const DOMAIN_CONFIDENCE_BASE = 0.6;
+const DOMAIN_CONFIDENCE_SLOPE = 0.02;
+const DOMAIN_CONFIDENCE_MAX = 0.95;
+
+/**
+ * Strip the version from a Pfam accession (PF00069.28 -> PF00069)
+ */
+export function pfamAccession(accession: string): string {
+  return accession.replace(/\.\d+$/, "");
+}
+
+/**
+ * Whether a model or hit comes from Pfam rather than a bundled seed profile
+ */
+export function isPfamAccession(accession: string): boolean {
+  return PFAM_ACCESSION.test(accession);
+}
+
+/**
+ * Read HMMs from a .hmm file or every .hmm file in a directory
+ */
+export function loadPfamLibrary(filePath: string): ProfileHmm[] {
+  const files = fs.statSync(filePath).isDirectory()
+    ? fs
+        .readdirSync(filePath)
+        .filter((name) => name.endsWith(".hmm"))
+        .sort()
+        .map((name) => path.join(filePath, name))
+    : [filePath];
+
+  const models = files.flatMap((file) => {
+    try {
+      return parseHmmFile(fs.readFileSync(file, "utf8"));
+    } catch (error) {
+      throw new Error(
+        `Failed to read Pfam HMMs ${file}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  });
+
+  // Pfam models supersede the seed profile standing in for their family
+  const families = new Set(
+    models
+      .filter((hmm) => isPfamAccession(hmm.accession))
+      .map((hmm) => hmm.name)
+  );
+  return models.filter(
+    (hmm) =>
+      isPfamAccession(hmm.accession) ||
+      !hmm.name.endsWith(SEED_PROFILE_SUFFIX) ||
+      !families.has(hmm.name.slice(0, -SEED_PROFILE_SUFFIX.length))
+  );
+}
+
+let cachedLibrary: { path: string; library: ProfileHmm[] | null } | null = null;
+
+/**
+ * Load the configured HMM library (PFAM_HMM_PATH or data/pfam)
+ * Returns null when no models are installed
+ */
+export function getPfamLibrary(): ProfileHmm[] | null {
+  const filePath = process.env.PFAM_HMM_PATH || DEFAULT_PFAM_PATH;
+
+  if (cachedLibrary?.path === filePath) return cachedLibrary.library;
+
+  let library: ProfileHmm[] | null = null;
+
+  if (fs.existsSync(filePath)) {
+    const models = loadPfamLibrary(filePath);
+    library = models.length > 0 ? models : null;
+  }
+
+  cachedLibrary = { path: filePath, library };
+  return library;
+}
+
+/**
+ * Search a sequence against the library with E-values for a full Pfam-A
+ * release, whatever the number of models installed
+ */
+export function searchPfamDomains(
+  sequence: string,
+  library: ProfileHmm[]
+): DomainHit[] {
+  return searchDomains(sequence, library, {
+    z: Math.max(library.length, PFAM_A_FAMILIES),
+  });
+}
+
+/**
+ * Parse the tab-separated pfam2go table
+ * (accession, name, GO id, aspect F/P/C, term name). This is the bundled
+ * subset's own format, not the GO Consortium's external2go file
+ */
+export function parsePfam2Go(text: string): Map<string, PfamGoTerm[]> {
+  const mapping = new Map<string, PfamGoTerm[]>();
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim() || line.startsWith("#")) continue;
+
+    const [accession, , id, aspect, name] = line.split("\t");
+    if (!/^PF\d{5}$/.test(accession) || !/^GO:\d{7}$/.test(id)) {
+      throw new Error(`Malformed pfam2go line: ${line}`);
+    }
+    if (!ASPECTS[aspect]) {
+      throw new Error(`Unknown GO aspect "${aspect}" in pfam2go line: ${line}`);
+    }
+
+    const terms = mapping.get(accession) ?? [];
+    terms.push({ id, name: name || id, aspect: ASPECTS[aspect] });
+    mapping.set(accession, terms);
+  }
+
+  return mapping;
+}
+
+let cachedPfam2Go: {
+  path: string;
+  mapping: Map<string, PfamGoTerm[]> | null;
+} | null = null;
+
+/**
+ * Get the pfam2go table (PFAM2GO_PATH or data/pfam2go.tsv)
+ * Returns null when the table is not installed
+ */
+export function getPfam2Go(): Map<string, PfamGoTerm[]> | null {
+  const filePath = process.env.PFAM2GO_PATH || DEFAULT_PFAM2GO_PATH;
+
+  if (cachedPfam2Go?.path === filePath) return cachedPfam2Go.mapping;
+
+  const mapping = fs.existsSync(filePath)
+    ? parsePfam2Go(fs.readFileSync(filePath, "utf8"))
+    : null;
+
+  cachedPfam2Go = { path: filePath, mapping };
+  return mapping;
+}
+
+function domainConfidence(evalue: number): number {
+  const significance = -Math.log10(Math.max(evalue, 1e-300));
+  return Math.min(
+    DOMAIN_CONFIDENCE_BASE + DOMAIN_CONFIDENCE_SLOPE * significance,
+    DOMAIN_CONFIDENCE_MAX
+  );
+}
+
+/**
+ * Turn Pfam domain hits into GO predictions via pfam2go (the configured table
+ * unless one is given); seed profile hits are ignored. Each term takes the
+ * confidence of its most significant domain
+ */
+export function annotateFromDomains(
+  hits: DomainHit[],
+  table?: Map<string, PfamGoTerm[]> | null
+): FunctionalCategory[] {
+  if (hits.length === 0) return [];
+
+  const mapping = table === undefined ? getPfam2Go() : table;
+  if (!mapping) return [];
+
+  const terms = new Map<
+    string,
+    { term: PfamGoTerm; best: DomainHit; domains: DomainHit[] }
+  >();
+
+  for (const hit of hits) {
+    if (!isPfamAccession(hit.accession)) continue;
+
+    for (const term of mapping.get(pfamAccession(hit.accession)) ?? []) {
+      const entry = terms.get(term.id) ?? { term, best: hit, domains: [] };
+      if (hit.evalue < entry.best.evalue) entry.best = hit;
+      entry.domains.push(hit);
+      terms.set(term.id, entry);
+    }
+  }
+
+  return [...terms.values()]
+    .map(({ term, best, domains }) => ({
+      id: term.id,
+      name: term.name,
+      type: term.aspect,
+      confidence: domainConfidence(best.evalue),
+      description: `Mapped by pfam2go from the ${best.name} domain (${pfamAccession(
+        best.accession
+      )}, residues ${best.seqFrom}-${best.seqTo}, E-value ${best.evalue.toExponential(
+        1
+      )}).`,
+      examples: [best.description || best.name],
+      references: { geneOntology: term.id },
+      domainAccessions: [
+        ...new Set(domains.map((d) => pfamAccession(d.accession))),
+      ],
+      evidence: domains.map((d) =>
+        evidence(
+          "domain",
+          `${pfamAccession(d.accession)} ${d.name} at ${d.seqFrom}-${
+            d.seqTo
+          }, E-value ${d.evalue.toExponential(1)}`,
+          {
+            accession: pfamAccession(d.accession),
+            start: d.seqFrom,
+            end: d.seqTo,
+            score: d.evalue,
+          }
+        )
+      ),
+    }))
+    .sort((a, b) => b.confidence - a.confidence);
+}
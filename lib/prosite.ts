@@ -0,0 +1,270 @@
+/**
+ * PROSITE pattern parsing and motif scanning
+ * Patterns are read from a prosite.dat-format file (data/prosite.dat by default)
+ */
+
+import fs from "fs";
+import path from "path";
+
+export interface PrositeMotif {
+  // Accession, e.g. PS00108
+  id: string;
+  // Entry name, e.g. PROTEIN_KINASE_ST
+  name: string;
+  description: string;
+  pattern: string;
+  // High-probability-of-occurrence patterns (PTM sites) are skipped by default
+  skip: boolean;
+  regex: RegExp;
+}
+
+export interface MotifHit {
+  id: string;
+  name: string;
+  // 1-based, inclusive
+  start: number;
+  end: number;
+  match: string;
+}
+
+export interface ScanOptions {
+  // Also report patterns flagged /SKIP-FLAG=TRUE
+  includeFrequent?: boolean;
+}
+
+/**
+ * Raised for malformed PROSITE pattern syntax
+ */
+export class PrositePatternError extends Error {
+  pattern: string;
+
+  constructor(pattern: string, message: string) {
+    super(`Invalid PROSITE pattern "${pattern}": ${message}`);
+    this.name = "PrositePatternError";
+    this.pattern = pattern;
+  }
+}
+
+export const DEFAULT_PROSITE_PATH = path.join(
+  process.cwd(),
+  "data",
+  "prosite.dat"
+);
+
+const RESIDUES = /^[A-Z]+$/;
+
+function parseElement(
+  element: string,
+  pattern: string,
+  first: boolean,
+  last: boolean
+): string {
+  let rest = element;
+  let prefix = "";
+  let suffix = "";
+
+  if (rest.startsWith("<")) {
+    if (!first) throw new PrositePatternError(pattern, `"<" must come first`);
+    prefix = "^";
+    rest = rest.slice(1);
+  }
+
+  const repeat = rest.match(/\((\d+)(?:,(\d+))?\)(>?)$/);
+  if (repeat) {
+    const min = Number(repeat[1]);
+    const max = repeat[2] === undefined ? undefined : Number(repeat[2]);
+    if (max !== undefined && max < min) {
+      throw new PrositePatternError(pattern, `bad repeat in "${element}"`);
+    }
+    suffix = max === undefined ? `{${min}}` : `{${min},${max}}`;
+    rest = rest.slice(0, repeat.index) + repeat[3];
+  }
+
+  // ">" after an element anchors to the C-terminus ("[G>]" is handled below)
+  let anchorEnd = false;
+  if (rest.endsWith(">")) {
+    if (!last) throw new PrositePatternError(pattern, `">" must come last`);
+    anchorEnd = true;
+    rest = rest.slice(0, -1);
+  }
+
+  let core: string;
+  if (rest === "x") {
+    core = ".";
+  } else if (rest.startsWith("[") && rest.endsWith("]")) {
+    // "[G>]" means G or the C-terminus
+    const inner = rest.slice(1, -1);
+    const residues = inner.replace(">", "");
+    if (!RESIDUES.test(residues)) {
+      throw new PrositePatternError(pattern, `bad residue set "${rest}"`);
+    }
+    core = inner.includes(">") ? `(?:[${residues}]|$)` : `[${residues}]`;
+  } else if (rest.startsWith("{") && rest.endsWith("}")) {
+    const residues = rest.slice(1, -1);
+    if (!RESIDUES.test(residues)) {
+      throw new PrositePatternError(pattern, `bad excluded set "${rest}"`);
+    }
+    core = `[^${residues}]`;
+  } else if (/^[A-Z]$/.test(rest)) {
+    core = rest;
+  } else {
+    throw new PrositePatternError(pattern, `unrecognised element "${element}"`);
+  }
+
+  return prefix + core + suffix + (anchorEnd ? "$" : "");
+}
+
+/**
+ * Convert PROSITE pattern syntax to a regular expression source
+ * e.g. "[LIVMFYC]-x-[HY]-x-D-[LIVMFY]-K-x(2)-N" -> "[LIVMFYC].[HY].D[LIVMFY]K.{2}N"
+ */
+export function prositeToRegex(pattern: string): string {
+  const body = pattern.trim().replace(/\.$/, "");
+  if (!body) throw new PrositePatternError(pattern, "empty pattern");
+
+  const elements = body.split("-");
+  return elements
+    .map((element, i) =>
+      parseElement(element, pattern, i === 0, i === elements.length - 1)
+    )
+    .join("");
+}
+
+/**
+ * Compile a PROSITE pattern into a global regular expression
+ */
+export function compilePrositePattern(pattern: string): RegExp {
+  return new RegExp(prositeToRegex(pattern), "g");
+}
+
+/**
+ * Parse prosite.dat-format text; entries without a PA line are ignored and
+ * entries whose pattern does not compile are skipped with a warning
+ */
+export function parsePrositeDat(
+  text: string,
+  warnings: string[] = []
+): PrositeMotif[] {
+  const motifs: PrositeMotif[] = [];
+
+  for (const entry of text.split(/^\/\/\s*$/m)) {
+    const fields: Record<string, string[]> = {};
+    for (const line of entry.split(/\r?\n/)) {
+      const code = line.slice(0, 2);
+      if (!/^[A-Z]{2}$/.test(code)) continue;
+      (fields[code] ??= []).push(line.slice(5).trim());
+    }
+
+    if (!fields.PA || !fields.AC) continue;
+
+    const id = fields.AC[0].replace(/;.*$/, "");
+    const pattern = fields.PA.join("");
+    let regex: RegExp;
+
+    try {
+      regex = compilePrositePattern(pattern);
+    } catch (error) {
+      if (!(error instanceof PrositePatternError)) throw error;
+      warnings.push(`${id}: ${error.message}`);
+      continue;
+    }
+
+    motifs.push({
+      id,
+      name: (fields.ID?.[0] ?? "").replace(/;.*$/, ""),
+      description: (fields.DE ?? []).join(" ").replace(/\.$/, ""),
+      pattern,
+      skip: (fields.CC ?? []).some((cc) => cc.includes("/SKIP-FLAG=TRUE")),
+      regex,
+    });
+  }
+
+  return motifs;
+}
+
+/**
+ * Read a prosite.dat file from disk
+ */
+export function loadPrositeLibrary(
+  filePath: string,
+  warnings?: string[]
+): PrositeMotif[] {
+  let text: string;
+
+  try {
+    text = fs.readFileSync(filePath, "utf8");
+  } catch (error) {
+    throw new Error(
+      `Failed to read PROSITE patterns ${filePath}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+
+  return parsePrositeDat(text, warnings);
+}
+
+let defaultLibrary: PrositeMotif[] | null = null;
+const defaultWarnings: string[] = [];
+
+/**
+ * Get the configured pattern library (PROSITE_PATH or data/prosite.dat)
+ * Loaded once per process
+ */
+export function getPrositeLibrary(): PrositeMotif[] {
+  if (!defaultLibrary) {
+    defaultLibrary = loadPrositeLibrary(
+      process.env.PROSITE_PATH || DEFAULT_PROSITE_PATH,
+      defaultWarnings
+    );
+  }
+  return defaultLibrary;
+}
+
+/**
+ * Entries of the configured library that were skipped while loading
+ */
+export function getPrositeWarnings(): string[] {
+  getPrositeLibrary();
+  return defaultWarnings;
+}
+
+/**
+ * Find non-overlapping matches of one motif, scanning left to right
+ */
+export function findMotif(sequence: string, motif: PrositeMotif): MotifHit[] {
+  const hits: MotifHit[] = [];
+  const regex = new RegExp(motif.regex.source, "g");
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(sequence)) !== null) {
+    // Zero-width matches cannot occur in PROSITE patterns, but guard anyway
+    if (match[0].length === 0) {
+      regex.lastIndex++;
+      continue;
+    }
+    hits.push({
+      id: motif.id,
+      name: motif.name,
+      start: match.index + 1,
+      end: match.index + match[0].length,
+      match: match[0],
+    });
+  }
+
+  return hits;
+}
+
+/**
+ * Scan a sequence against a motif library, ordered by position
+ */
+export function scanMotifs(
+  sequence: string,
+  library: PrositeMotif[] = getPrositeLibrary(),
+  options: ScanOptions = {}
+): MotifHit[] {
+  return library
+    .filter((motif) => options.includeFrequent || !motif.skip)
+    .flatMap((motif) => findMotif(sequence, motif))
+    .sort((a, b) => a.start - b.start || a.id.localeCompare(b.id));
+}
@@ -52,49 +52,35 @@ export async function fetchFromUniProt(uniprotId: string): Promise<ProteinSequen
   }
 }
 
-import { parseESM2Response, generateMockESM2Response } from "./esm2-embeddings"
-
 /**
- * Generate protein embeddings using ESM-2
- * Now supports official ESM-2 API response format
+ * Fetch the full UniProtKB JSON entry by accession or entry name
  */
-export async function generateEmbeddings(sequence: string): Promise<number[]> {
-  try {
-    // For production: replace with actual ESM-2 API call
-    // Example: const response = await fetch("https://api.esmatlas.com/v1/structure/predict", ...)
-    // Current: use mock response matching official API format
-
-    const esm2Response = generateMockESM2Response(sequence)
-    const embedding = parseESM2Response(esm2Response, 12) // Use layer 12 embeddings
+export async function fetchUniProtEntry(uniprotId: string): Promise<any> {
+  const response = await fetch(`https://rest.uniprot.org/uniprotkb/${encodeURIComponent(uniprotId)}`)
 
-    return embedding
-  } catch (error) {
-    throw new Error(`Failed to generate embeddings: ${error instanceof Error ? error.message : "Unknown error"}`)
+  if (!response.ok) {
+    throw new Error(`UniProt API error: ${response.statusText}`)
   }
+
+  return response.json()
 }
 
+import { normalizeResidues, parseSequenceInput, validateResidues } from "./sequence-parser"
+
 /**
  * Validate protein sequence format
+ * Use validateResidues from ./sequence-parser for per-position details
  */
 export function validateSequence(sequence: string): boolean {
-  const cleanedSequence = sequence.toUpperCase().replace(/\s/g, "")
-  // Standard IUPAC amino acid codes
-  const validChars = /^[ACDEFGHIKLMNPQRSTVWY*-]+$/
-  return validChars.test(cleanedSequence) && cleanedSequence.length > 0
+  return validateResidues(normalizeResidues(sequence)).valid
 }
 
 /**
  * Clean and normalize protein sequence
+ * Parses FASTA/GenBank/EMBL/raw input and returns the first record's residues
  */
 export function cleanSequence(sequence: string): string {
-  return sequence
-    .toUpperCase()
-    .replace(/\s+/g, "")
-    .replace(/[0-9]/g, "")
-    .replace(/[\n\r]/g, "")
-    .match(/^>.*$/m) // Remove FASTA headers
-    ? sequence.split("\n").slice(1).join("")
-    : sequence
+  return parseSequenceInput(sequence)[0]?.sequence ?? ""
 }
 
 /**
@@ -0,0 +1,400 @@
+/**
+ * ProtParam-style physicochemical properties
+ * Constants follow ExPASy ProtParam (as implemented in Biopython)
+ */
+
+const STANDARD_RESIDUES = "ACDEFGHIKLMNPQRSTVWY";
+
+// Free amino acid masses (Da); a water is removed per peptide bond
+const AVERAGE_MASSES: Record<string, number> = {
+  A: 89.0932,
+  C: 121.1582,
+  D: 133.1027,
+  E: 147.1293,
+  F: 165.1891,
+  G: 75.0666,
+  H: 155.1546,
+  I: 131.1729,
+  K: 146.1876,
+  L: 131.1729,
+  M: 149.2113,
+  N: 132.1179,
+  O: 255.3134,
+  P: 115.1305,
+  Q: 146.1445,
+  R: 174.201,
+  S: 105.0926,
+  T: 119.1192,
+  U: 168.0532,
+  V: 117.1463,
+  W: 204.2252,
+  Y: 181.1885,
+};
+
+const MONOISOTOPIC_MASSES: Record<string, number> = {
+  A: 89.047678,
+  C: 121.019749,
+  D: 133.037508,
+  E: 147.053158,
+  F: 165.078979,
+  G: 75.032028,
+  H: 155.069477,
+  I: 131.094629,
+  K: 146.105528,
+  L: 131.094629,
+  M: 149.051049,
+  N: 132.053492,
+  O: 255.158292,
+  P: 115.063329,
+  Q: 146.069142,
+  R: 174.111676,
+  S: 105.042593,
+  T: 119.058243,
+  U: 168.964203,
+  V: 117.078979,
+  W: 204.089878,
+  Y: 181.073893,
+};
+
+const AVERAGE_WATER = 18.0153;
+const MONOISOTOPIC_WATER = 18.010565;
+
+/**
+ * Kyte & Doolittle (1982) hydropathy scale
+ */
+export const KYTE_DOOLITTLE: Record<string, number> = {
+  A: 1.8,
+  R: -4.5,
+  N: -3.5,
+  D: -3.5,
+  C: 2.5,
+  Q: -3.5,
+  E: -3.5,
+  G: -0.4,
+  H: -3.2,
+  I: 4.5,
+  L: 3.8,
+  K: -3.9,
+  M: 1.9,
+  F: 2.8,
+  P: -1.6,
+  S: -0.8,
+  T: -0.7,
+  W: -0.9,
+  Y: -1.3,
+  V: 4.2,
+};
+
+// Side-chain and terminal pKa values (Bjellqvist et al. 1993/1994)
+const POSITIVE_PKS: Record<string, number> = { K: 10.0, R: 12.0, H: 5.98 };
+const NEGATIVE_PKS: Record<string, number> = {
+  D: 4.05,
+  E: 4.45,
+  C: 9.0,
+  Y: 10.0,
+};
+const N_TERMINAL_PK = 7.5;
+const C_TERMINAL_PK = 3.55;
+// Terminal pKa values that depend on the terminal residue
+const N_TERMINAL_PKS: Record<string, number> = {
+  A: 7.59,
+  M: 7.0,
+  S: 6.93,
+  P: 8.36,
+  T: 6.82,
+  V: 7.44,
+  E: 7.7,
+};
+const C_TERMINAL_PKS: Record<string, number> = { D: 4.55, E: 4.75 };
+
+/**
+ * Dipeptide instability weight values (Guruprasad et al. 1990)
+ * Rows are the first residue, columns the second, both in STANDARD_RESIDUES order
+ */
+const DIWV: number[][] = [
+  [
+    1.0, 44.94, -7.49, 1.0, 1.0, 1.0, -7.49, 1.0, 1.0, 1.0, 1.0, 1.0, 20.26,
+    1.0, 1.0, 1.0, 1.0, 1.0, 1.0, 1.0,
+  ],
+  [
+    1.0, 1.0, 20.26, 1.0, 1.0, 1.0, 33.6, 1.0, 1.0, 20.26, 33.6, 1.0, 20.26,
+    -6.54, 1.0, 1.0, 33.6, -6.54, 24.68, 1.0,
+  ],
+  [
+    1.0, 1.0, 1.0, 1.0, -6.54, 1.0, 1.0, 1.0, -7.49, 1.0, 1.0, 1.0, 1.0, 1.0,
+    -6.54, 20.26, -14.03, 1.0, 1.0, 1.0,
+  ],
+  [
+    1.0, 44.94, 20.26, 33.6, 1.0, 1.0, -6.54, 20.26, 1.0, 1.0, 1.0, 1.0, 20.26,
+    20.26, 1.0, 20.26, 1.0, 1.0, -14.03, 1.0,
+  ],
+  [
+    1.0, 1.0, 13.34, 1.0, 1.0, 1.0, 1.0, 1.0, -14.03, 1.0, 1.0, 1.0, 20.26, 1.0,
+    1.0, 1.0, 1.0, 1.0, 1.0, 33.601,
+  ],
+  [
+    -7.49, 1.0, 1.0, -6.54, 1.0, 13.34, 1.0, -7.49, -7.49, 1.0, 1.0, -7.49, 1.0,
+    1.0, 1.0, 1.0, -7.49, 1.0, 13.34, -7.49,
+  ],
+  [
+    1.0, 1.0, 1.0, 1.0, -9.37, -9.37, 1.0, 44.94, 24.68, 1.0, 1.0, 24.68, -1.88,
+    1.0, 1.0, 1.0, -6.54, 1.0, -1.88, 44.94,
+  ],
+  [
+    1.0, 1.0, 1.0, 44.94, 1.0, 1.0, 13.34, 1.0, -7.49, 20.26, 1.0, 1.0, -1.88,
+    1.0, 1.0, 1.0, 1.0, -7.49, 1.0, 1.0,
+  ],
+  [
+    1.0, 1.0, 1.0, 1.0, 1.0, -7.49, 1.0, -7.49, 1.0, -7.49, 33.6, 1.0, -6.54,
+    24.64, 33.6, 1.0, 1.0, -7.49, 1.0, 1.0,
+  ],
+  [
+    1.0, 1.0, 1.0, 1.0, 1.0, 1.0, 1.0, 1.0, -7.49, 1.0, 1.0, 1.0, 20.26, 33.6,
+    20.26, 1.0, 1.0, 1.0, 24.68, 1.0,
+  ],
+  [
+    13.34, 1.0, 1.0, 1.0, 1.0, 1.0, 58.28, 1.0, 1.0, 1.0, -1.88, 1.0, 44.94,
+    -6.54, -6.54, 44.94, -1.88, 1.0, 1.0, 24.68,
+  ],
+  [
+    1.0, -1.88, 1.0, 1.0, -14.03, -14.03, 1.0, 44.94, 24.68, 1.0, 1.0, 1.0,
+    -1.88, -6.54, 1.0, 1.0, -7.49, 1.0, -9.37, 1.0,
+  ],
+  [
+    20.26, -6.54, -6.54, 18.38, 20.26, 1.0, 1.0, 1.0, 1.0, 1.0, -6.54, 1.0,
+    20.26, 20.26, -6.54, 20.26, 1.0, 20.26, -1.88, 1.0,
+  ],
+  [
+    1.0, -6.54, 20.26, 20.26, -6.54, 1.0, 1.0, 1.0, 1.0, 1.0, 1.0, 1.0, 20.26,
+    20.26, 1.0, 44.94, 1.0, -6.54, 1.0, -6.54,
+  ],
+  [
+    1.0, 1.0, 1.0, 1.0, 1.0, -7.49, 20.26, 1.0, 1.0, 1.0, 1.0, 13.34, 20.26,
+    20.26, 58.28, 44.94, 1.0, 1.0, 58.28, -6.54,
+  ],
+  [
+    1.0, 33.6, 1.0, 20.26, 1.0, 1.0, 1.0, 1.0, 1.0, 1.0, 1.0, 1.0, 44.94, 20.26,
+    20.26, 20.26, 1.0, 1.0, 1.0, 1.0,
+  ],
+  [
+    1.0, 1.0, 1.0, 20.26, 13.34, -7.49, 1.0, 1.0, 1.0, 1.0, 1.0, -14.03, 1.0,
+    -6.54, 1.0, 1.0, 1.0, 1.0, -14.03, 1.0,
+  ],
+  [
+    1.0, 1.0, -14.03, 1.0, 1.0, -7.49, 1.0, 1.0, -1.88, 1.0, 1.0, 1.0, 20.26,
+    1.0, 1.0, 1.0, -7.49, 1.0, 1.0, -6.54,
+  ],
+  [
+    -14.03, 1.0, 1.0, 1.0, 1.0, -9.37, 24.68, 1.0, 1.0, 13.34, 24.68, 13.34,
+    1.0, 1.0, 1.0, 1.0, -14.03, -7.49, 1.0, 1.0,
+  ],
+  [
+    24.68, 1.0, 24.68, -6.54, 1.0, -7.49, 13.34, 1.0, 1.0, 1.0, 44.94, 1.0,
+    13.34, 1.0, -15.91, 1.0, -7.49, 1.0, -9.37, 13.34,
+  ],
+];
+
+// Proteins with an instability index above this are classed as unstable
+export const INSTABILITY_THRESHOLD = 40;
+
+export interface ProteinProperties {
+  length: number;
+  // Residues outside the 20 standard amino acids (+ U, O for mass), excluded
+  unknownResidues: number;
+  molecularWeight: number;
+  monoisotopicMass: number;
+  isoelectricPoint: number;
+  charge: { pH: number; value: number };
+  extinctionCoefficient: {
+    // M^-1 cm^-1 at 280 nm in water
+    reduced: number;
+    cystines: number;
+    // Abs 0.1% (= 1 g/L)
+    absorbanceReduced: number;
+    absorbanceCystines: number;
+  };
+  gravy: number;
+  instabilityIndex: number;
+  unstable: boolean;
+  aliphaticIndex: number;
+  aromaticity: number;
+}
+
+function countResidues(sequence: string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const aa of sequence) counts[aa] = (counts[aa] || 0) + 1;
+  return counts;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Sequence mass in Da (average or monoisotopic)
+ */
+export function molecularWeight(sequence: string, monoisotopic = false) {
+  const masses = monoisotopic ? MONOISOTOPIC_MASSES : AVERAGE_MASSES;
+  const water = monoisotopic ? MONOISOTOPIC_WATER : AVERAGE_WATER;
+  const residues = sequence.split("").filter((aa) => aa in masses);
+
+  if (residues.length === 0) return 0;
+
+  return (
+    residues.reduce((sum, aa) => sum + masses[aa], 0) -
+    (residues.length - 1) * water
+  );
+}
+
+/**
+ * Net charge at a given pH (Henderson-Hasselbalch)
+ */
+export function chargeAtPH(sequence: string, pH: number): number {
+  if (!sequence) return 0;
+
+  const counts = countResidues(sequence);
+  const nTermPK = N_TERMINAL_PKS[sequence[0]] ?? N_TERMINAL_PK;
+  const cTermPK =
+    C_TERMINAL_PKS[sequence[sequence.length - 1]] ?? C_TERMINAL_PK;
+
+  let positive = 1 / (10 ** (pH - nTermPK) + 1);
+  for (const [aa, pK] of Object.entries(POSITIVE_PKS)) {
+    positive += (counts[aa] || 0) / (10 ** (pH - pK) + 1);
+  }
+
+  let negative = 1 / (10 ** (cTermPK - pH) + 1);
+  for (const [aa, pK] of Object.entries(NEGATIVE_PKS)) {
+    negative += (counts[aa] || 0) / (10 ** (pK - pH) + 1);
+  }
+
+  return positive - negative;
+}
+
+/**
+ * Theoretical pI: the pH at which the net charge is zero (bisection)
+ */
+export function isoelectricPoint(sequence: string): number {
+  let low = 4.05;
+  let high = 12;
+  let pH = 7.775;
+
+  while (high - low > 0.0001) {
+    if (chargeAtPH(sequence, pH) > 0) {
+      low = pH;
+    } else {
+      high = pH;
+    }
+    pH = (low + high) / 2;
+  }
+
+  return pH;
+}
+
+/**
+ * Grand average of hydropathy (Kyte-Doolittle)
+ */
+export function gravy(sequence: string): number {
+  const values = sequence
+    .split("")
+    .filter((aa) => aa in KYTE_DOOLITTLE)
+    .map((aa) => KYTE_DOOLITTLE[aa]);
+
+  return values.length
+    ? values.reduce((sum, v) => sum + v, 0) / values.length
+    : 0;
+}
+
+/**
+ * Instability index (Guruprasad et al. 1990); above 40 suggests unstable
+ */
+export function instabilityIndex(sequence: string): number {
+  const residues = sequence
+    .split("")
+    .filter((aa) => STANDARD_RESIDUES.includes(aa));
+  if (residues.length === 0) return 0;
+
+  let score = 0;
+  for (let i = 0; i < residues.length - 1; i++) {
+    score +=
+      DIWV[STANDARD_RESIDUES.indexOf(residues[i])][
+        STANDARD_RESIDUES.indexOf(residues[i + 1])
+      ];
+  }
+
+  return (10 / residues.length) * score;
+}
+
+/**
+ * Aliphatic index (Ikai 1980): relative volume of aliphatic side chains
+ */
+export function aliphaticIndex(sequence: string): number {
+  if (!sequence) return 0;
+
+  const counts = countResidues(sequence);
+  const percent = (aa: string) => ((counts[aa] || 0) / sequence.length) * 100;
+
+  return (
+    percent("A") + 2.9 * percent("V") + 3.9 * (percent("I") + percent("L"))
+  );
+}
+
+/**
+ * Aromaticity (Lobry 1994): relative frequency of Phe + Trp + Tyr
+ */
+export function aromaticity(sequence: string): number {
+  if (!sequence) return 0;
+
+  const counts = countResidues(sequence);
+  return (
+    ((counts.F || 0) + (counts.W || 0) + (counts.Y || 0)) / sequence.length
+  );
+}
+
+/**
+ * Molar extinction coefficients at 280 nm (Pace et al. 1995)
+ * with all cysteines reduced and with all cysteine pairs forming cystines
+ */
+export function extinctionCoefficient(sequence: string) {
+  const counts = countResidues(sequence);
+  const reduced = (counts.W || 0) * 5500 + (counts.Y || 0) * 1490;
+  const cystines = reduced + Math.floor((counts.C || 0) / 2) * 125;
+
+  return { reduced, cystines };
+}
+
+/**
+ * Compute the full property set for a cleaned one-letter sequence
+ */
+export function calculateProteinProperties(
+  sequence: string,
+  pH = 7
+): ProteinProperties {
+  const residues = sequence.toUpperCase();
+  const standard = residues
+    .split("")
+    .filter((aa) => aa in AVERAGE_MASSES)
+    .join("");
+  const mass = molecularWeight(standard);
+  const extinction = extinctionCoefficient(standard);
+  const instability = instabilityIndex(standard);
+
+  return {
+    length: residues.length,
+    unknownResidues: residues.length - standard.length,
+    molecularWeight: round(mass, 2),
+    monoisotopicMass: round(molecularWeight(standard, true), 4),
+    isoelectricPoint: round(isoelectricPoint(standard), 2),
+    charge: { pH, value: round(chargeAtPH(standard, pH), 2) },
+    extinctionCoefficient: {
+      ...extinction,
+      absorbanceReduced: mass ? round(extinction.reduced / mass, 3) : 0,
+      absorbanceCystines: mass ? round(extinction.cystines / mass, 3) : 0,
+    },
+    gravy: round(gravy(standard), 3),
+    instabilityIndex: round(instability, 2),
+    unstable: instability > INSTABILITY_THRESHOLD,
+    aliphaticIndex: round(aliphaticIndex(standard), 2),
+    aromaticity: round(aromaticity(standard), 4),
+  };
+}
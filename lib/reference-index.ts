@@ -0,0 +1,174 @@
+/**
+ * Local reference index of annotated protein embeddings
+ * Used for nearest-neighbour annotation transfer
+ */
+
+import fs from "fs";
+import path from "path";
+import type { GoAspect } from "./go-rules";
+
+export interface ReferenceGoTerm {
+  id: string;
+  name: string;
+  aspect: GoAspect;
+}
+
+export interface ReferenceEntry {
+  accession: string;
+  name: string;
+  organism?: string;
+  goTerms: ReferenceGoTerm[];
+  embedding: number[];
+}
+
+export interface ReferenceIndex {
+  version: string;
+  model: string;
+  // Deepest layer, and every layer averaged into the embeddings
+  layer: number;
+  layers: number[];
+  dimension: number;
+  entries: ReferenceEntry[];
+  // Precomputed L2 norms, aligned with entries
+  norms: number[];
+}
+
+const ASPECTS: Record<string, GoAspect> = {
+  F: "molecular_function",
+  P: "biological_process",
+  C: "cellular_component",
+  molecular_function: "molecular_function",
+  biological_process: "biological_process",
+  cellular_component: "cellular_component",
+};
+
+export const DEFAULT_REFERENCE_INDEX_PATH = path.join(
+  process.cwd(),
+  "data",
+  "reference-index.json"
+);
+
+/**
+ * Parse a tab-separated annotation table: accession, GO id, aspect (F/P/C or
+ * the full aspect name) and term name
+ */
+export function parseGoAnnotations(
+  text: string
+): Map<string, ReferenceGoTerm[]> {
+  const annotations = new Map<string, ReferenceGoTerm[]>();
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim() || line.startsWith("#")) continue;
+
+    const [accession, id, aspect, name] = line.split("\t");
+    if (!accession || !/^GO:\d{7}$/.test(id) || !ASPECTS[aspect]) {
+      throw new Error(`Malformed annotation line: ${line}`);
+    }
+
+    const terms = annotations.get(accession) ?? [];
+    if (!terms.some((t) => t.id === id)) {
+      terms.push({ id, name: name || id, aspect: ASPECTS[aspect] });
+    }
+    annotations.set(accession, terms);
+  }
+
+  return annotations;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNumberArray(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "number");
+}
+
+/**
+ * Validate parsed index JSON and precompute embedding norms
+ */
+export function buildReferenceIndex(
+  data: unknown,
+  source = "index"
+): ReferenceIndex {
+  if (!isObject(data)) {
+    throw new Error(`Invalid reference index (${source}): not an object`);
+  }
+
+  const problems: string[] = [];
+  const { version, model, layer, layers, dimension, entries } = data;
+
+  if (typeof version !== "string") problems.push(`"version" missing`);
+  if (typeof model !== "string") problems.push(`"model" missing`);
+  if (typeof layer !== "number") problems.push(`"layer" missing`);
+  if (typeof dimension !== "number") problems.push(`"dimension" missing`);
+  if (!Array.isArray(entries)) {
+    problems.push(`"entries" must be an array`);
+  } else {
+    entries.forEach((entry: unknown, i: number) => {
+      if (!isObject(entry) || typeof entry.accession !== "string") {
+        problems.push(`entries[${i}]: "accession" missing`);
+      }
+      if (!isObject(entry) || !Array.isArray(entry.goTerms)) {
+        problems.push(`entries[${i}]: "goTerms" must be an array`);
+      }
+      if (
+        !isObject(entry) ||
+        !isNumberArray(entry.embedding) ||
+        entry.embedding.length !== dimension
+      ) {
+        problems.push(`entries[${i}]: embedding must have ${dimension} values`);
+      }
+    });
+  }
+
+  if (
+    problems.length > 0 ||
+    typeof version !== "string" ||
+    typeof model !== "string" ||
+    typeof layer !== "number" ||
+    typeof dimension !== "number"
+  ) {
+    throw new Error(
+      `Invalid reference index (${source}): ${problems.slice(0, 10).join("; ")}`
+    );
+  }
+
+  const validEntries = entries as ReferenceEntry[];
+
+  return {
+    version,
+    model,
+    layer,
+    layers: isNumberArray(layers) ? layers : [layer],
+    dimension,
+    entries: validEntries,
+    norms: validEntries.map((entry) =>
+      Math.sqrt(entry.embedding.reduce((sq, v) => sq + v * v, 0))
+    ),
+  };
+}
+
+let cachedIndex: { path: string; index: ReferenceIndex | null } | null = null;
+
+/**
+ * Load the configured reference index (REFERENCE_INDEX_PATH or
+ * data/reference-index.json). Returns null when no index is installed
+ */
+export function getReferenceIndex(): ReferenceIndex | null {
+  const filePath =
+    process.env.REFERENCE_INDEX_PATH || DEFAULT_REFERENCE_INDEX_PATH;
+
+  if (cachedIndex?.path === filePath) return cachedIndex.index;
+
+  let index: ReferenceIndex | null = null;
+
+  if (fs.existsSync(filePath)) {
+    index = buildReferenceIndex(
+      JSON.parse(fs.readFileSync(filePath, "utf8")),
+      filePath
+    );
+  }
+
+  cachedIndex = { path: filePath, index };
+  return index;
+}
@@ -0,0 +1,132 @@
+/**
+ * Per-residue feature tracks derived from ESM-2 residue representations
+ * Each track has one value per sequence position
+ */
+
+export interface ResidueTrack {
+  id: "norm" | "novelty" | "saliency";
+  label: string;
+  description: string;
+  values: number[];
+}
+
+// Window half-width used for local novelty
+const NOVELTY_HALF_WINDOW = 7;
+
+// Softmax temperature over cosine similarities, which lie in [-1, 1]
+const SALIENCY_TEMPERATURE = 0.1;
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function norm(v: number[]): number {
+  return Math.sqrt(dot(v, v));
+}
+
+/**
+ * L2 norm of each residue representation
+ */
+export function residueNorms(residues: number[][]): number[] {
+  return residues.map(norm);
+}
+
+/**
+ * 1 - cosine similarity between each residue and the mean of its neighbours
+ * High values mark residues that differ from their local context
+ */
+export function localNovelty(
+  residues: number[][],
+  halfWindow = NOVELTY_HALF_WINDOW
+): number[] {
+  const dimension = residues[0]?.length ?? 0;
+
+  return residues.map((residue, i) => {
+    const context = new Array(dimension).fill(0);
+    let count = 0;
+
+    for (
+      let j = Math.max(0, i - halfWindow);
+      j <= Math.min(residues.length - 1, i + halfWindow);
+      j++
+    ) {
+      if (j === i) continue;
+      for (let d = 0; d < dimension; d++) context[d] += residues[j][d];
+      count++;
+    }
+
+    if (count === 0) return 0;
+
+    const denominator = norm(residue) * norm(context);
+    return denominator === 0 ? 0 : 1 - dot(residue, context) / denominator;
+  });
+}
+
+/**
+ * Attention-like saliency: softmax of cosine similarities between each
+ * residue and the pooled embedding, rescaled so the maximum is 1
+ * Subtracting the top score before exponentiating gives exactly that scaling
+ * Cosine keeps the spread independent of embedding magnitude and dimension
+ */
+export function residueSaliency(
+  residues: number[][],
+  pooled: number[],
+  temperature = SALIENCY_TEMPERATURE
+): number[] {
+  if (residues.length === 0) return [];
+
+  const pooledNorm = norm(pooled);
+  const scores = residues.map((residue) => {
+    const denominator = norm(residue) * pooledNorm;
+    return denominator === 0
+      ? 0
+      : dot(residue, pooled) / denominator / temperature;
+  });
+  const maxScore = Math.max(...scores);
+
+  return scores.map((s) => Math.exp(s - maxScore));
+}
+
+/**
+ * Compute all residue tracks; pooled defaults to the mean of the residues
+ */
+export function computeResidueTracks(
+  residues: number[][],
+  pooled?: number[]
+): ResidueTrack[] {
+  const dimension = residues[0]?.length ?? 0;
+  const meanVector =
+    pooled && pooled.length === dimension
+      ? pooled
+      : Array.from(
+          { length: dimension },
+          (_, d) => residues.reduce((sum, r) => sum + r[d], 0) / residues.length
+        );
+
+  return [
+    {
+      id: "norm",
+      label: "Embedding norm",
+      description: "Magnitude of each residue representation",
+      values: residueNorms(residues).map(round),
+    },
+    {
+      id: "novelty",
+      label: "Local novelty",
+      description: `Dissimilarity to the surrounding ±${NOVELTY_HALF_WINDOW} residues`,
+      values: localNovelty(residues).map(round),
+    },
+    {
+      id: "saliency",
+      label: "Saliency",
+      description: "Contribution of each residue to the pooled embedding",
+      values: residueSaliency(residues, meanVector).map(round),
+    },
+  ];
+}
@@ -0,0 +1,279 @@
+/**
+ * Three-state secondary structure prediction (helix, strand, coil)
+ * Chou-Fasman nucleation and extension with window-averaged confidences
+ */
+
+export type SecondaryStructureState = "H" | "E" | "C";
+
+export interface SecondaryStructureSegment {
+  state: Exclude<SecondaryStructureState, "C">;
+  // 1-based, inclusive
+  start: number;
+  end: number;
+}
+
+export interface SecondaryStructurePrediction {
+  method: "chou-fasman";
+  // One state character per residue
+  states: string;
+  // Relative propensity of the assigned state in [0, 1], per residue
+  confidence: number[];
+  segments: SecondaryStructureSegment[];
+  fractions: { helix: number; strand: number; coil: number };
+}
+
+// Conformational parameters (Chou & Fasman 1978): helix, strand, turn
+const PROPENSITIES: Record<string, [number, number, number]> = {
+  A: [1.42, 0.83, 0.66],
+  R: [0.98, 0.93, 0.95],
+  N: [0.67, 0.89, 1.56],
+  D: [1.01, 0.54, 1.46],
+  C: [0.7, 1.19, 1.19],
+  Q: [1.11, 1.1, 0.98],
+  E: [1.51, 0.37, 0.74],
+  G: [0.57, 0.75, 1.56],
+  H: [1.0, 0.87, 0.95],
+  I: [1.08, 1.6, 0.47],
+  L: [1.21, 1.3, 0.59],
+  K: [1.14, 0.74, 1.01],
+  M: [1.45, 1.05, 0.6],
+  F: [1.13, 1.38, 0.6],
+  P: [0.57, 0.55, 1.52],
+  S: [0.77, 0.75, 1.43],
+  T: [0.83, 1.19, 0.96],
+  W: [1.08, 1.37, 0.96],
+  Y: [0.69, 1.47, 1.14],
+  V: [1.06, 1.7, 0.5],
+};
+const NEUTRAL: [number, number, number] = [1, 1, 1];
+
+// Bend frequencies at positions i..i+3 of a beta-turn (Chou & Fasman 1978)
+const BEND_FREQUENCIES: Record<string, [number, number, number, number]> = {
+  A: [0.06, 0.076, 0.035, 0.058],
+  R: [0.07, 0.106, 0.099, 0.085],
+  N: [0.161, 0.083, 0.191, 0.091],
+  D: [0.147, 0.11, 0.179, 0.081],
+  C: [0.149, 0.05, 0.117, 0.128],
+  Q: [0.074, 0.098, 0.037, 0.098],
+  E: [0.056, 0.06, 0.077, 0.064],
+  G: [0.102, 0.085, 0.19, 0.152],
+  H: [0.14, 0.047, 0.093, 0.054],
+  I: [0.043, 0.034, 0.013, 0.056],
+  L: [0.061, 0.025, 0.036, 0.07],
+  K: [0.055, 0.115, 0.072, 0.095],
+  M: [0.068, 0.082, 0.014, 0.055],
+  F: [0.059, 0.041, 0.065, 0.065],
+  P: [0.102, 0.301, 0.034, 0.068],
+  S: [0.12, 0.139, 0.125, 0.106],
+  T: [0.086, 0.108, 0.065, 0.079],
+  W: [0.077, 0.013, 0.064, 0.167],
+  Y: [0.082, 0.065, 0.114, 0.125],
+  V: [0.062, 0.048, 0.028, 0.053],
+};
+// Minimum product of the four bend frequencies for a turn
+const MIN_TURN_PROBABILITY = 7.5e-5;
+const NEUTRAL_BEND_FREQUENCY = 0.075;
+
+// Nucleation: 4 of 6 helix formers, 3 of 5 strand formers
+const HELIX_NUCLEUS = { window: 6, formers: 4 };
+const STRAND_NUCLEUS = { window: 5, formers: 3 };
+// Extension stops when a tetrapeptide averages below 1.0
+const EXTENSION_WINDOW = 4;
+// Minimum segment average to accept a region
+const MIN_HELIX_AVERAGE = 1.03;
+const MIN_STRAND_AVERAGE = 1.05;
+const MIN_HELIX_LENGTH = 5;
+const MIN_STRAND_LENGTH = 3;
+// Confidence window half-width
+const CONFIDENCE_HALF_WINDOW = 3;
+
+function propensities(sequence: string): [number, number, number][] {
+  return sequence
+    .toUpperCase()
+    .split("")
+    .map((residue) => PROPENSITIES[residue] ?? NEUTRAL);
+}
+
+function mean(
+  values: [number, number, number][],
+  start: number,
+  end: number,
+  k: number
+): number {
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += values[i][k];
+  return sum / Math.max(end - start, 1);
+}
+
+/**
+ * Nucleate and extend regions for one state (k = 0 helix, 1 strand)
+ * Returns a per-residue mask of accepted regions
+ */
+function findRegions(
+  values: [number, number, number][],
+  k: 0 | 1,
+  nucleus: { window: number; formers: number },
+  minAverage: number,
+  minLength: number
+): boolean[] {
+  const n = values.length;
+  const mask = new Array<boolean>(n).fill(false);
+  const other = k === 0 ? 1 : 0;
+
+  for (let i = 0; i + nucleus.window <= n; i++) {
+    if (mask[i]) continue;
+
+    let formers = 0;
+    for (let j = i; j < i + nucleus.window; j++) {
+      if (values[j][k] >= 1) formers++;
+    }
+    if (formers < nucleus.formers) continue;
+
+    let start = i;
+    let end = i + nucleus.window;
+
+    while (
+      start > 0 &&
+      mean(values, start - 1, start - 1 + EXTENSION_WINDOW, k) >= 1
+    ) {
+      start--;
+    }
+    while (
+      end < n &&
+      mean(values, end + 1 - EXTENSION_WINDOW, end + 1, k) >= 1
+    ) {
+      end++;
+    }
+
+    if (
+      end - start >= minLength &&
+      mean(values, start, end, k) >= minAverage &&
+      mean(values, start, end, k) > mean(values, start, end, other)
+    ) {
+      for (let j = start; j < end; j++) mask[j] = true;
+    }
+    i = end - 1;
+  }
+
+  return mask;
+}
+
+function toSegments(states: string): SecondaryStructureSegment[] {
+  const segments: SecondaryStructureSegment[] = [];
+
+  for (let i = 0; i < states.length;) {
+    let j = i;
+    while (j < states.length && states[j] === states[i]) j++;
+    if (states[i] !== "C") {
+      segments.push({
+        state: states[i] as SecondaryStructureSegment["state"],
+        start: i + 1,
+        end: j,
+      });
+    }
+    i = j;
+  }
+
+  return segments;
+}
+
+/**
+ * Predict H/E/C states per residue
+ * Helix/strand overlaps go to the state with the higher average propensity
+ * over the overlap; predicted beta-turns are reported as coil
+ */
+export function predictSecondaryStructure(
+  sequence: string
+): SecondaryStructurePrediction {
+  const values = propensities(sequence);
+  const n = values.length;
+
+  const helix = findRegions(
+    values,
+    0,
+    HELIX_NUCLEUS,
+    MIN_HELIX_AVERAGE,
+    MIN_HELIX_LENGTH
+  );
+  const strand = findRegions(
+    values,
+    1,
+    STRAND_NUCLEUS,
+    MIN_STRAND_AVERAGE,
+    MIN_STRAND_LENGTH
+  );
+
+  const states = new Array<SecondaryStructureState>(n).fill("C");
+  for (let i = 0; i < n;) {
+    if (!helix[i] && !strand[i]) {
+      i++;
+      continue;
+    }
+    if (helix[i] !== strand[i]) {
+      states[i] = helix[i] ? "H" : "E";
+      i++;
+      continue;
+    }
+
+    let j = i;
+    while (j < n && helix[j] && strand[j]) j++;
+    const state = mean(values, i, j, 0) >= mean(values, i, j, 1) ? "H" : "E";
+    for (let r = i; r < j; r++) states[r] = state;
+    i = j;
+  }
+
+  const residues = sequence.toUpperCase();
+  for (let i = 0; i + EXTENSION_WINDOW <= n; i++) {
+    const turn = mean(values, i, i + EXTENSION_WINDOW, 2);
+    let probability = 1;
+    for (let j = 0; j < EXTENSION_WINDOW; j++) {
+      probability *=
+        BEND_FREQUENCIES[residues[i + j]]?.[j] ?? NEUTRAL_BEND_FREQUENCY;
+    }
+
+    if (
+      probability > MIN_TURN_PROBABILITY &&
+      turn > 1 &&
+      turn > mean(values, i, i + EXTENSION_WINDOW, 0) &&
+      turn > mean(values, i, i + EXTENSION_WINDOW, 1)
+    ) {
+      for (let j = i; j < i + EXTENSION_WINDOW; j++) states[j] = "C";
+    }
+  }
+
+  // Turns can leave helix or strand fragments too short to stand alone
+  for (const segment of toSegments(states.join(""))) {
+    const minLength =
+      segment.state === "H" ? MIN_HELIX_LENGTH : MIN_STRAND_LENGTH;
+    if (segment.end - segment.start + 1 < minLength) {
+      for (let j = segment.start - 1; j < segment.end; j++) states[j] = "C";
+    }
+  }
+
+  const confidence = states.map((state, i) => {
+    const start = Math.max(0, i - CONFIDENCE_HALF_WINDOW);
+    const end = Math.min(n, i + CONFIDENCE_HALF_WINDOW + 1);
+    const scores = [0, 1, 2].map((k) => mean(values, start, end, k));
+    const k = state === "H" ? 0 : state === "E" ? 1 : 2;
+    const total = scores[0] + scores[1] + scores[2];
+    return Math.round((scores[k] / total) * 1000) / 1000;
+  });
+
+  const count = (state: SecondaryStructureState) =>
+    states.filter((s) => s === state).length;
+  const fraction = (state: SecondaryStructureState) =>
+    n === 0 ? 0 : Math.round((count(state) / n) * 1000) / 1000;
+  const joined = states.join("");
+
+  return {
+    method: "chou-fasman",
+    states: joined,
+    confidence,
+    segments: toSegments(joined),
+    fractions: {
+      helix: fraction("H"),
+      strand: fraction("E"),
+      coil: fraction("C"),
+    },
+  };
+}
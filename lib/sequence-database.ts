@@ -0,0 +1,169 @@
+/**
+ * Local protein sequence database with a k-mer word index
+ * Read from FASTA (data/sequence-db.fasta by default) for homology search
+ */
+
+import fs from "fs";
+import path from "path";
+import { parseFasta, type SequenceRecord } from "./sequence-parser";
+import { MATRIX_ALPHABET } from "./substitution-matrices";
+
+export interface DatabaseEntry {
+  accession: string;
+  entryName?: string;
+  description: string;
+  organism?: string;
+  sequence: string;
+}
+
+// Occurrences of each word, grouped by word code (CSR layout):
+// hits for code w are entry[offsets[w]..offsets[w + 1]) and position[...]
+export interface WordIndex {
+  offsets: Int32Array;
+  entry: Int32Array;
+  position: Int32Array;
+}
+
+export interface SequenceDatabase {
+  entries: DatabaseEntry[];
+  // Total residues, used for E-value search space
+  residues: number;
+  maxLength: number;
+  index: WordIndex;
+}
+
+export const WORD_SIZE = 3;
+
+// Words are drawn from the 20 standard residues (the first 20 matrix columns)
+export const WORD_ALPHABET_SIZE = 20;
+export const WORD_COUNT = WORD_ALPHABET_SIZE ** WORD_SIZE;
+
+export const DEFAULT_SEQUENCE_DB_PATH = path.join(
+  process.cwd(),
+  "data",
+  "sequence-db.fasta"
+);
+
+/**
+ * Matrix index of a residue if it is one of the 20 standard amino acids, else -1
+ */
+export function wordResidueIndex(residue: string): number {
+  const index = MATRIX_ALPHABET.indexOf(residue);
+  return index < WORD_ALPHABET_SIZE ? index : -1;
+}
+
+/**
+ * Code of the word starting at `start`, or -1 if it has a non-standard residue
+ */
+export function wordCode(sequence: string, start: number): number {
+  let code = 0;
+  for (let i = start; i < start + WORD_SIZE; i++) {
+    const index = wordResidueIndex(sequence[i]);
+    if (index < 0) return -1;
+    code = code * WORD_ALPHABET_SIZE + index;
+  }
+  return code;
+}
+
+function buildWordIndex(entries: DatabaseEntry[]): WordIndex {
+  const offsets = new Int32Array(WORD_COUNT + 1);
+
+  const codes = entries.map((entry) => {
+    const words = new Int32Array(
+      Math.max(entry.sequence.length - WORD_SIZE + 1, 0)
+    );
+    for (let i = 0; i < words.length; i++) {
+      words[i] = wordCode(entry.sequence, i);
+      if (words[i] >= 0) offsets[words[i] + 1]++;
+    }
+    return words;
+  });
+
+  for (let w = 0; w < WORD_COUNT; w++) offsets[w + 1] += offsets[w];
+
+  const fill = offsets.slice(0, WORD_COUNT);
+  const entry = new Int32Array(offsets[WORD_COUNT]);
+  const position = new Int32Array(offsets[WORD_COUNT]);
+
+  codes.forEach((words, e) => {
+    words.forEach((code, i) => {
+      if (code < 0) return;
+      entry[fill[code]] = e;
+      position[fill[code]] = i;
+      fill[code]++;
+    });
+  });
+
+  return { offsets, entry, position };
+}
+
+/**
+ * Index parsed sequence records; records without residues are dropped
+ */
+export function buildSequenceDatabase(
+  records: SequenceRecord[]
+): SequenceDatabase {
+  const entries: DatabaseEntry[] = records
+    .filter((record) => record.sequence.length > 0)
+    .map((record) => ({
+      accession: record.header?.accession || record.id,
+      entryName: record.header?.entryName,
+      description: record.header?.description || record.id,
+      organism: record.header?.organism,
+      sequence: record.sequence.toUpperCase(),
+    }));
+
+  return {
+    entries,
+    residues: entries.reduce((sum, entry) => sum + entry.sequence.length, 0),
+    maxLength: entries.reduce(
+      (max, entry) => Math.max(max, entry.sequence.length),
+      0
+    ),
+    index: buildWordIndex(entries),
+  };
+}
+
+/**
+ * Read and index a FASTA database from disk
+ */
+export function loadSequenceDatabase(filePath: string): SequenceDatabase {
+  let text: string;
+
+  try {
+    text = fs.readFileSync(filePath, "utf8");
+  } catch (error) {
+    throw new Error(
+      `Failed to read sequence database ${filePath}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+
+  return buildSequenceDatabase(parseFasta(text));
+}
+
+let cachedDatabase: {
+  path: string;
+  database: SequenceDatabase | null;
+} | null = null;
+
+/**
+ * Load the configured database (SEQUENCE_DB_PATH or data/sequence-db.fasta)
+ * Returns null when no database is installed
+ */
+export function getSequenceDatabase(): SequenceDatabase | null {
+  const filePath = process.env.SEQUENCE_DB_PATH || DEFAULT_SEQUENCE_DB_PATH;
+
+  if (cachedDatabase?.path === filePath) return cachedDatabase.database;
+
+  let database: SequenceDatabase | null = null;
+
+  if (fs.existsSync(filePath)) {
+    const loaded = loadSequenceDatabase(filePath);
+    database = loaded.entries.length > 0 ? loaded : null;
+  }
+
+  cachedDatabase = { path: filePath, database };
+  return database;
+}
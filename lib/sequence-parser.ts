@@ -0,0 +1,413 @@
+/**
+ * Sequence input parser
+ * Handles FASTA, multi-FASTA, GenBank/GenPept, EMBL/UniProt flat files and
+ * raw (optionally numbered) sequences, keeping header metadata
+ */
+
+import { convertThreeLetterToOneLetter } from "./three-letter-codes";
+
+export type SequenceFormat = "fasta" | "genbank" | "embl" | "raw";
+
+export type ResidueNotation = "one-letter" | "three-letter";
+
+export interface SequenceHeader {
+  raw: string;
+  id: string;
+  database?: string;
+  accession?: string;
+  entryName?: string;
+  description?: string;
+  organism?: string;
+  taxonId?: number;
+  gene?: string;
+  proteinExistence?: number;
+  sequenceVersion?: number;
+}
+
+export interface SequenceRecord {
+  id: string;
+  format: SequenceFormat;
+  header?: SequenceHeader;
+  sequence: string;
+  notation?: ResidueNotation;
+}
+
+export interface InvalidResidue {
+  // 1-based residue number in the cleaned sequence (whitespace, digits and
+  // headers removed), not an offset into the submitted text
+  position: number;
+  residue: string;
+}
+
+export interface ResidueValidation {
+  valid: boolean;
+  length: number;
+  invalidResidues: InvalidResidue[];
+}
+
+// IUPAC amino acid codes (including B/Z/X/U/O) plus stop and gap symbols
+const VALID_RESIDUES = new Set("ACDEFGHIKLMNPQRSTVWYBZXUO*-".split(""));
+
+// UniProt FASTA header keys, e.g. "OS=Homo sapiens OX=9606 GN=HBB PE=1 SV=2"
+const UNIPROT_HEADER_KEYS = ["OS", "OX", "GN", "PE", "SV"] as const;
+
+/**
+ * Detect the format of a sequence input
+ */
+export function detectSequenceFormat(text: string): SequenceFormat {
+  const trimmed = text.trimStart();
+
+  if (trimmed.startsWith(">")) return "fasta";
+  if (/^LOCUS\s/.test(trimmed)) return "genbank";
+  if (/^ID {3}/.test(trimmed)) return "embl";
+  return "raw";
+}
+
+/**
+ * Strip whitespace and position numbers, upper-case residues
+ * Any other character is kept so it can be reported as invalid
+ */
+export function normalizeResidues(text: string): string {
+  return text
+    .toUpperCase()
+    .replace(/[\s0-9]+/g, "")
+    .replace(/\*$/, ""); // Trailing stop codon symbol
+}
+
+/**
+ * Turn a block of sequence text into one-letter residues
+ * Three-letter notation (e.g. "Met-Val-His") is converted first
+ */
+export function parseResidues(text: string): {
+  sequence: string;
+  notation: ResidueNotation;
+} {
+  const converted = convertThreeLetterToOneLetter(text);
+
+  return converted
+    ? { sequence: converted.sequence, notation: "three-letter" }
+    : { sequence: normalizeResidues(text), notation: "one-letter" };
+}
+
+/**
+ * Parse a FASTA header line (without the leading ">")
+ * Extracts UniProt-style fields: sp|P12345|NAME_HUMAN Desc OS=... OX=...
+ */
+export function parseFastaHeader(line: string): SequenceHeader {
+  const raw = line.replace(/^>/, "").trim();
+  const [id = "", ...rest] = raw.split(/\s+/);
+  let description = rest.join(" ");
+
+  const header: SequenceHeader = { raw, id };
+
+  const pipeParts = id.split("|");
+  if (pipeParts.length >= 3 && /^(sp|tr)$/.test(pipeParts[0])) {
+    header.database = pipeParts[0];
+    header.accession = pipeParts[1];
+    header.entryName = pipeParts[2];
+  } else if (pipeParts.length >= 2) {
+    // Generic db|accession[|name] headers (e.g. NCBI "ref|XP_001|")
+    header.database = pipeParts[0];
+    header.accession = pipeParts[1] || undefined;
+    header.entryName = pipeParts[2] || undefined;
+  } else if (id) {
+    header.accession = id;
+  }
+
+  // Split description on " KEY=" markers and pull out known fields
+  const keyPattern = new RegExp(`\\s(${UNIPROT_HEADER_KEYS.join("|")})=`, "g");
+  const markers = [...` ${description}`.matchAll(keyPattern)];
+
+  if (markers.length > 0) {
+    const padded = ` ${description}`;
+    for (let i = 0; i < markers.length; i++) {
+      const start = markers[i].index! + markers[i][0].length;
+      const end =
+        i + 1 < markers.length ? markers[i + 1].index! : padded.length;
+      const value = padded.slice(start, end).trim();
+
+      switch (markers[i][1]) {
+        case "OS":
+          header.organism = value;
+          break;
+        case "OX":
+          header.taxonId = Number(value) || undefined;
+          break;
+        case "GN":
+          header.gene = value;
+          break;
+        case "PE":
+          header.proteinExistence = Number(value) || undefined;
+          break;
+        case "SV":
+          header.sequenceVersion = Number(value) || undefined;
+          break;
+      }
+    }
+    description = padded.slice(0, markers[0].index!).trim();
+  }
+
+  header.description = description || undefined;
+  return header;
+}
+
+/**
+ * Parse single or multi-record FASTA text
+ */
+export function parseFasta(text: string): SequenceRecord[] {
+  const records: SequenceRecord[] = [];
+  let current: SequenceRecord | null = null;
+  let buffer: string[] = [];
+
+  const flush = () => {
+    if (current) {
+      const residues = parseResidues(buffer.join("\n"));
+      current.sequence = residues.sequence;
+      current.notation = residues.notation;
+      records.push(current);
+    }
+    buffer = [];
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(";")) continue;
+
+    if (line.startsWith(">")) {
+      flush();
+      const header = parseFastaHeader(line);
+      current = {
+        id: header.accession || header.id || `record_${records.length + 1}`,
+        format: "fasta",
+        header,
+        sequence: "",
+      };
+    } else {
+      if (!current) {
+        // Residues before the first header form an unnamed record
+        current = {
+          id: `record_${records.length + 1}`,
+          format: "fasta",
+          sequence: "",
+        };
+      }
+      buffer.push(line);
+    }
+  }
+
+  flush();
+  return records;
+}
+
+/**
+ * Split flat-file text into entries terminated by "//"
+ */
+function splitFlatFileEntries(text: string): string[][] {
+  const entries: string[][] = [];
+  let current: string[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    if (line.trim() === "//") {
+      if (current.some((l) => l.trim())) entries.push(current);
+      current = [];
+    } else {
+      current.push(line);
+    }
+  }
+
+  if (current.some((l) => l.trim())) entries.push(current);
+  return entries;
+}
+
+/**
+ * Parse GenBank/GenPept records
+ * Protein records use the ORIGIN block; nucleotide records fall back to
+ * CDS /translation qualifiers
+ */
+export function parseGenBank(text: string): SequenceRecord[] {
+  const records: SequenceRecord[] = [];
+
+  for (const lines of splitFlatFileEntries(text)) {
+    const field = (name: string) => {
+      const index = lines.findIndex((l) => l.startsWith(name));
+      if (index === -1) return undefined;
+
+      const parts = [lines[index].slice(12).trim()];
+      for (
+        let i = index + 1;
+        i < lines.length && /^ {12}\S/.test(lines[i]);
+        i++
+      ) {
+        parts.push(lines[i].trim());
+      }
+      return parts.join(" ");
+    };
+
+    const locus = field("LOCUS")?.split(/\s+/)[0] || "";
+    const accession = field("ACCESSION")?.split(/\s+/)[0];
+    const version = field("VERSION")?.split(/\s+/)[0];
+    const definition = field("DEFINITION")?.replace(/\.$/, "");
+    // Only the first ORGANISM line; continuation lines hold the lineage
+    const organism = lines
+      .find((l) => l.startsWith("  ORGANISM"))
+      ?.slice(12)
+      .trim();
+    const taxonMatch = lines.join("\n").match(/\/db_xref="taxon:(\d+)"/);
+    const geneMatch = lines.join("\n").match(/\/gene="([^"]+)"/);
+
+    const header: SequenceHeader = {
+      raw: lines[0].trim(),
+      id: version || accession || locus,
+      database: "genbank",
+      accession: accession || locus,
+      entryName: locus || undefined,
+      description: definition,
+      organism,
+      taxonId: taxonMatch ? Number(taxonMatch[1]) : undefined,
+      gene: geneMatch?.[1],
+    };
+
+    const originIndex = lines.findIndex((l) => l.startsWith("ORIGIN"));
+    const isNucleotide = /\sbp\s/.test(lines[0]);
+
+    if (originIndex !== -1 && !isNucleotide) {
+      records.push({
+        id: header.accession || header.id,
+        format: "genbank",
+        header,
+        sequence: normalizeResidues(lines.slice(originIndex + 1).join("")),
+      });
+      continue;
+    }
+
+    const translations = [
+      ...lines.join("\n").matchAll(/\/translation="([^"]+)"/g),
+    ];
+    translations.forEach((match, i) => {
+      records.push({
+        id:
+          translations.length > 1
+            ? `${header.accession || header.id}_cds${i + 1}`
+            : header.accession || header.id,
+        format: "genbank",
+        header,
+        sequence: normalizeResidues(match[1]),
+      });
+    });
+  }
+
+  return records;
+}
+
+/**
+ * Parse EMBL / UniProtKB flat-file records
+ */
+export function parseEmbl(text: string): SequenceRecord[] {
+  const records: SequenceRecord[] = [];
+
+  for (const lines of splitFlatFileEntries(text)) {
+    const values = (code: string) =>
+      lines
+        .filter((l) => l.startsWith(`${code}   `))
+        .map((l) => l.slice(5).trim());
+
+    const entryName = values("ID")[0]?.split(/[\s;]+/)[0] || "";
+    const accession =
+      values("AC")
+        .join(" ")
+        .split(/[\s;]+/)[0] || undefined;
+    const description = values("DE")
+      .join(" ")
+      .replace(/^RecName:\s*Full=/, "")
+      .split(/[;{]/)[0]
+      .trim();
+    const organism = values("OS").join(" ").replace(/\.$/, "") || undefined;
+    const taxonMatch = values("OX")
+      .join(" ")
+      .match(/NCBI_TaxID=(\d+)/);
+    const geneMatch = values("GN")
+      .join(" ")
+      .match(/Name=([^;{\s]+)/);
+
+    const sqIndex = lines.findIndex((l) => l.startsWith("SQ"));
+    if (sqIndex === -1) continue;
+
+    const header: SequenceHeader = {
+      raw: lines[0].trim(),
+      id: accession || entryName,
+      database: "embl",
+      accession,
+      entryName: entryName || undefined,
+      description: description || undefined,
+      organism,
+      taxonId: taxonMatch ? Number(taxonMatch[1]) : undefined,
+      gene: geneMatch?.[1],
+    };
+
+    records.push({
+      id: accession || entryName || `record_${records.length + 1}`,
+      format: "embl",
+      header,
+      sequence: normalizeResidues(lines.slice(sqIndex + 1).join("")),
+    });
+  }
+
+  return records;
+}
+
+/**
+ * Parse any supported sequence input into records
+ */
+export function parseSequenceInput(text: string): SequenceRecord[] {
+  const format = detectSequenceFormat(text);
+
+  switch (format) {
+    case "fasta":
+      return parseFasta(text);
+    case "genbank":
+      return parseGenBank(text);
+    case "embl":
+      return parseEmbl(text);
+    case "raw": {
+      const { sequence, notation } = parseResidues(text);
+      return sequence ? [{ id: "query", format, sequence, notation }] : [];
+    }
+  }
+}
+
+/**
+ * Report every residue that is not a valid IUPAC amino acid code
+ * Positions are 1-based residue numbers in the normalized sequence, so
+ * "MKV123JJJ" reports J at 4-6
+ */
+export function validateResidues(sequence: string): ResidueValidation {
+  const invalidResidues: InvalidResidue[] = [];
+
+  for (let i = 0; i < sequence.length; i++) {
+    if (!VALID_RESIDUES.has(sequence[i])) {
+      invalidResidues.push({ position: i + 1, residue: sequence[i] });
+    }
+  }
+
+  return {
+    valid: sequence.length > 0 && invalidResidues.length === 0,
+    length: sequence.length,
+    invalidResidues,
+  };
+}
+
+/**
+ * Human-readable summary of invalid residues for error messages
+ */
+export function describeInvalidResidues(
+  invalidResidues: InvalidResidue[],
+  limit = 10
+): string {
+  const listed = invalidResidues
+    .slice(0, limit)
+    .map((r) => `${r.residue}${r.position}`)
+    .join(", ");
+  const remaining = invalidResidues.length - limit;
+
+  return remaining > 0 ? `${listed} and ${remaining} more` : listed;
+}
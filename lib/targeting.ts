@@ -0,0 +1,311 @@
+/**
+ * N-terminal targeting signal and nuclear localisation signal detection
+ * Heuristic scores in [0, 1]; 0.5 and above is reported as a likely signal
+ */
+
+import { KYTE_DOOLITTLE } from "./protein-properties";
+import { HYDROPATHY_SCALES } from "./hydropathy";
+
+export const TARGETING_THRESHOLD = 0.5;
+
+// Only the N-terminus is searched for cleavable signals
+const SIGNAL_PEPTIDE_SEARCH = 45;
+const TRANSIT_PEPTIDE_SEARCH = 40;
+const H_REGION_WINDOW = 8;
+const MAX_H_REGION = 20;
+
+// von Heijne (-3, -1) rule: small, neutral residues flank the cleavage site
+const MINUS_ONE: Record<string, number> = {
+  A: 1,
+  G: 0.8,
+  S: 0.8,
+  C: 0.6,
+  T: 0.5,
+  Q: 0.3,
+};
+const MINUS_THREE: Record<string, number> = {
+  A: 1,
+  V: 0.8,
+  S: 0.7,
+  T: 0.7,
+  G: 0.6,
+  C: 0.6,
+  I: 0.6,
+  L: 0.5,
+};
+
+export interface SignalPeptide {
+  score: number;
+  // Cleavage between cleavageSite and cleavageSite + 1 (1-based)
+  cleavageSite: number;
+  nRegion: [number, number];
+  hRegion: [number, number];
+  cRegion: [number, number];
+}
+
+export interface TransitPeptide {
+  score: number;
+  // Length of the N-terminal region that was scored
+  length: number;
+}
+
+export interface NuclearLocalisationSignal {
+  type: "monopartite" | "bipartite";
+  start: number;
+  end: number;
+  motif: string;
+}
+
+export interface TargetingPrediction {
+  signalPeptide: SignalPeptide | null;
+  mitochondrialTransit: TransitPeptide;
+  chloroplastTransit: TransitPeptide;
+  nls: NuclearLocalisationSignal[];
+}
+
+function clamp(value: number): number {
+  return Math.min(Math.max(value, 0), 1);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function count(segment: string, residues: string): number {
+  let n = 0;
+  for (const aa of segment) if (residues.includes(aa)) n++;
+  return n;
+}
+
+function meanHydropathy(segment: string): number {
+  let sum = 0;
+  for (const aa of segment) sum += KYTE_DOOLITTLE[aa] ?? 0;
+  return segment.length ? sum / segment.length : 0;
+}
+
+/**
+ * Score a candidate cleavage site after 0-based index `site` (the -1 residue)
+ */
+function cleavageSiteScore(sequence: string, site: number): number {
+  let score =
+    (MINUS_ONE[sequence[site]] ?? 0) + (MINUS_THREE[sequence[site - 2]] ?? 0);
+
+  for (let i = site - 2; i <= site + 1; i++) {
+    if (sequence[i] === "P") score -= 0.5;
+  }
+  for (let i = site - 2; i <= site; i++) {
+    if ("DEKR".includes(sequence[i])) score -= 0.3;
+  }
+
+  return score / 2;
+}
+
+/**
+ * Detect a Sec signal peptide from its n (positive), h (hydrophobic) and
+ * c (polar, -3/-1 cleavage site) regions
+ */
+export function predictSignalPeptide(sequence: string): SignalPeptide | null {
+  const head = sequence.slice(0, SIGNAL_PEPTIDE_SEARCH + 15);
+  if (head.length < 20) return null;
+
+  // Most hydrophobic window starting within the first 25 residues
+  let hStart = -1;
+  let best = -Infinity;
+  for (let i = 1; i <= Math.min(25, head.length - H_REGION_WINDOW); i++) {
+    const value = meanHydropathy(head.slice(i, i + H_REGION_WINDOW));
+    if (value > best) {
+      best = value;
+      hStart = i;
+    }
+  }
+  if (hStart < 0) return null;
+
+  let hEnd = hStart + H_REGION_WINDOW - 1;
+  while (
+    hEnd + 1 < head.length &&
+    hEnd - hStart + 1 < MAX_H_REGION &&
+    (KYTE_DOOLITTLE[head[hEnd + 1]] ?? 0) >= 0
+  ) {
+    hEnd++;
+  }
+  const hydropathy = meanHydropathy(head.slice(hStart, hEnd + 1));
+
+  // Cleavage 3-12 residues after the h-region
+  let site = -1;
+  let siteScore = -Infinity;
+  for (
+    let s = hEnd + 3;
+    s <= Math.min(hEnd + 12, SIGNAL_PEPTIDE_SEARCH, head.length - 2);
+    s++
+  ) {
+    const value = cleavageSiteScore(head, s);
+    if (value > siteScore) {
+      siteScore = value;
+      site = s;
+    }
+  }
+  if (site < 0) return null;
+
+  const nRegion = head.slice(0, hStart);
+  const nCharge = count(nRegion, "KR") - count(nRegion, "DE");
+  const nScore =
+    nRegion.length > 12 ? 0.1 : nCharge > 0 ? 1 : nCharge === 0 ? 0.6 : 0.2;
+
+  // Long uninterrupted hydrophobic stretches look like signal anchors instead
+  const hScore =
+    clamp((hydropathy - 1.2) / 1.6) *
+    (hEnd - hStart + 1 >= MAX_H_REGION ? 0.6 : 1);
+
+  const score = round(0.6 * hScore + 0.15 * nScore + 0.25 * clamp(siteScore));
+  if (score < 0.2) return null;
+
+  return {
+    score,
+    cleavageSite: site + 1,
+    nRegion: [1, hStart],
+    hRegion: [hStart + 1, hEnd + 1],
+    cRegion: [hEnd + 2, site + 1],
+  };
+}
+
+/**
+ * Largest hydrophobic moment of an 18-residue window in the region,
+ * assuming an alpha-helix (100 degrees per residue, Eisenberg scale)
+ */
+export function maxHydrophobicMoment(region: string, window = 18): number {
+  const scale = HYDROPATHY_SCALES.eisenberg.values;
+  const angle = (100 * Math.PI) / 180;
+  let best = 0;
+
+  for (let start = 0; start + window <= region.length; start++) {
+    let sin = 0;
+    let cos = 0;
+    for (let i = 0; i < window; i++) {
+      const h = scale[region[start + i]] ?? 0;
+      sin += h * Math.sin(i * angle);
+      cos += h * Math.cos(i * angle);
+    }
+    best = Math.max(best, Math.sqrt(sin * sin + cos * cos) / window);
+  }
+
+  return best;
+}
+
+/**
+ * Mitochondrial presequence: Arg-rich amphipathic helix with no acidic
+ * residues in the first 30 positions
+ */
+export function predictMitochondrialTransit(sequence: string): TransitPeptide {
+  const region = sequence.slice(1, TRANSIT_PEPTIDE_SEARCH);
+  if (region.length < 18) return { score: 0, length: region.length };
+
+  const basic = count(region, "RK") / region.length;
+  const arginine = count(region, "R") / region.length;
+  const acidic = count(region.slice(0, 30), "DE");
+  const moment = maxHydrophobicMoment(region);
+
+  const score =
+    0.35 * clamp((arginine - 0.05) / 0.1) +
+    0.15 * clamp((basic - 0.08) / 0.1) +
+    0.25 * (acidic === 0 ? 1 : 0) +
+    0.25 * clamp((moment - 0.25) / 0.25);
+
+  return { score: round(score), length: region.length + 1 };
+}
+
+/**
+ * Chloroplast transit peptide: Ser/Thr-rich, acidic-poor, net positive,
+ * often starting with Met-Ala
+ */
+export function predictChloroplastTransit(sequence: string): TransitPeptide {
+  const region = sequence.slice(0, TRANSIT_PEPTIDE_SEARCH + 10);
+  if (region.length < 25) return { score: 0, length: region.length };
+
+  const hydroxylated = count(region, "ST") / region.length;
+  const acidic = count(region, "DE");
+  const netCharge = count(region, "KR") - acidic;
+
+  const score =
+    0.45 * clamp((hydroxylated - 0.12) / 0.16) +
+    0.25 * (acidic <= 1 ? 1 : acidic <= 3 ? 0.5 : 0) +
+    0.15 * (region.startsWith("MA") ? 1 : 0) +
+    0.15 * (netCharge > 0 ? 1 : 0);
+
+  return { score: round(score), length: region.length };
+}
+
+/**
+ * Classical NLS motifs
+ * - monopartite: K-[KR]-X-[KR] within a basic cluster (SV40 PKKKRKV)
+ * - bipartite: two basic residues, a 10-12 residue linker, then at least
+ *   three basic residues out of five (nucleoplasmin)
+ */
+export function findNuclearLocalisationSignals(
+  sequence: string
+): NuclearLocalisationSignal[] {
+  const signals: NuclearLocalisationSignal[] = [];
+
+  for (const match of sequence.matchAll(/(?=(K[KR].[KR]))/g)) {
+    const start = match.index;
+    const cluster = sequence.slice(Math.max(start - 1, 0), start + 6);
+    if (count(cluster, "KR") >= 4) {
+      signals.push({
+        type: "monopartite",
+        start: start + 1,
+        end: start + 4,
+        motif: match[1],
+      });
+    }
+  }
+
+  for (const match of sequence.matchAll(/(?=([KR]{2}.{10,12}?[KR]{2}))/g)) {
+    const start = match.index;
+    const end = start + match[1].length;
+    const tail = sequence.slice(end - 2, end + 3);
+    if (count(tail, "KR") >= 3) {
+      signals.push({
+        type: "bipartite",
+        start: start + 1,
+        end: end + 3,
+        motif: sequence.slice(start, end + 3),
+      });
+    }
+  }
+
+  // Keep one signal per overlapping stretch, preferring bipartite hits
+  return signals
+    .sort((a, b) =>
+      a.type === b.type ? a.start - b.start : a.type === "bipartite" ? -1 : 1
+    )
+    .filter(
+      (signal, i, all) =>
+        !all
+          .slice(0, i)
+          .some(
+            (other) => signal.start <= other.end && other.start <= signal.end
+          )
+    )
+    .sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Run every targeting predictor
+ */
+export function predictTargeting(sequence: string): TargetingPrediction {
+  const signalPeptide = predictSignalPeptide(sequence);
+  const mitochondrialTransit = predictMitochondrialTransit(sequence);
+  const chloroplastTransit = predictChloroplastTransit(sequence);
+
+  // A confident signal peptide outranks transit peptide composition
+  if (signalPeptide && signalPeptide.score >= TARGETING_THRESHOLD) {
+    mitochondrialTransit.score = round(mitochondrialTransit.score * 0.5);
+    chloroplastTransit.score = round(chloroplastTransit.score * 0.5);
+  }
+
+  return {
+    signalPeptide,
+    mitochondrialTransit,
+    chloroplastTransit,
+    nls: findNuclearLocalisationSignals(sequence),
+  };
+}
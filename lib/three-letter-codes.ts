@@ -0,0 +1,95 @@
+/**
+ * Three-letter amino acid code support
+ * Detects and converts notation like "MetValHis" or "Met-Val-His" to one-letter
+ */
+
+export const THREE_TO_ONE: Record<string, string> = {
+  ALA: "A",
+  ARG: "R",
+  ASN: "N",
+  ASP: "D",
+  CYS: "C",
+  GLN: "Q",
+  GLU: "E",
+  GLY: "G",
+  HIS: "H",
+  ILE: "I",
+  LEU: "L",
+  LYS: "K",
+  MET: "M",
+  PHE: "F",
+  PRO: "P",
+  SER: "S",
+  THR: "T",
+  TRP: "W",
+  TYR: "Y",
+  VAL: "V",
+  // Ambiguity and non-standard residues
+  ASX: "B",
+  GLX: "Z",
+  XAA: "X",
+  UNK: "X",
+  SEC: "U",
+  PYL: "O",
+  // Translation stop
+  TER: "*",
+};
+
+export interface ThreeLetterConversion {
+  sequence: string;
+  residueCount: number;
+}
+
+// Separators allowed between codes, plus position numbers
+const SEPARATORS = /[\s\-.,;:_/|0-9]+/;
+
+function splitTriplets(token: string): string[] | null {
+  if (token.length === 0 || token.length % 3 !== 0) return null;
+
+  const triplets: string[] = [];
+  for (let i = 0; i < token.length; i += 3) {
+    const code = token.slice(i, i + 3);
+    if (!THREE_TO_ONE[code.toUpperCase()]) return null;
+    triplets.push(code);
+  }
+  return triplets;
+}
+
+/**
+ * Decide whether text is written in three-letter notation
+ * Requires either separated codes ("MET VAL", "Met-Val") or
+ * title-case runs ("MetValHis"), so one-letter input like "ALAGLY"
+ * is not misread
+ */
+export function isThreeLetterNotation(text: string): boolean {
+  const tokens = text.split(SEPARATORS).filter(Boolean);
+  if (tokens.length === 0) return false;
+
+  const triplets = tokens.map(splitTriplets);
+  if (triplets.some((t) => t === null)) return false;
+
+  const separated = tokens.length > 1 && tokens.every((t) => t.length === 3);
+  const titleCase = tokens.every((t) => /^(?:[A-Z][a-z]{2})+$/.test(t));
+
+  return separated || titleCase;
+}
+
+/**
+ * Convert three-letter notation to one-letter residues
+ * Returns null when the text is not valid three-letter notation
+ */
+export function convertThreeLetterToOneLetter(
+  text: string
+): ThreeLetterConversion | null {
+  if (!isThreeLetterNotation(text)) return null;
+
+  const sequence = text
+    .split(SEPARATORS)
+    .filter(Boolean)
+    .flatMap((token) => splitTriplets(token) ?? [])
+    .map((code) => THREE_TO_ONE[code.toUpperCase()])
+    .join("")
+    .replace(/\*$/, "");
+
+  return { sequence, residueCount: sequence.length };
+}
@@ -0,0 +1,426 @@
+/**
+ * Nucleotide detection and translation
+ * NCBI genetic code tables, six-frame translation and ORF finding
+ */
+
+export type MoleculeType = "protein" | "dna" | "rna";
+
+export interface GeneticCode {
+  id: number;
+  name: string;
+  // 64 amino acids in NCBI TCAG codon order (TTT, TTC, TTA, TTG, TCT, ...)
+  aminoAcids: string;
+  starts: string[];
+}
+
+export interface OpenReadingFrame {
+  id: string;
+  strand: "+" | "-";
+  frame: 1 | 2 | 3;
+  // 1-based nucleotide coordinates on the input (forward) strand, start <= end
+  start: number;
+  end: number;
+  length: number;
+  protein: string;
+  complete: boolean;
+}
+
+export interface OrfSearchOptions {
+  geneticCode?: number;
+  minLength?: number;
+  alternativeStarts?: boolean;
+  includeIncomplete?: boolean;
+}
+
+/**
+ * NCBI translation tables
+ * https://www.ncbi.nlm.nih.gov/Taxonomy/Utils/wprintgc.cgi
+ */
+export const GENETIC_CODES: GeneticCode[] = [
+  {
+    id: 1,
+    name: "Standard",
+    aminoAcids:
+      "FFLLSSSSYY**CC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: ["TTG", "CTG", "ATG"],
+  },
+  {
+    id: 2,
+    name: "Vertebrate Mitochondrial",
+    aminoAcids:
+      "FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIMMTTTTNNKKSS**VVVVAAAADDEEGGGG",
+    starts: ["ATT", "ATC", "ATA", "ATG", "GTG"],
+  },
+  {
+    id: 3,
+    name: "Yeast Mitochondrial",
+    aminoAcids:
+      "FFLLSSSSYY**CCWWTTTTPPPPHHQQRRRRIIMMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: ["ATA", "ATG", "GTG"],
+  },
+  {
+    id: 4,
+    name: "Mold, Protozoan and Coelenterate Mitochondrial; Mycoplasma/Spiroplasma",
+    aminoAcids:
+      "FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: ["TTA", "TTG", "CTG", "ATT", "ATC", "ATA", "ATG", "GTG"],
+  },
+  {
+    id: 5,
+    name: "Invertebrate Mitochondrial",
+    aminoAcids:
+      "FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIMMTTTTNNKKSSSSVVVVAAAADDEEGGGG",
+    starts: ["TTG", "ATT", "ATC", "ATA", "ATG", "GTG"],
+  },
+  {
+    id: 6,
+    name: "Ciliate, Dasycladacean and Hexamita Nuclear",
+    aminoAcids:
+      "FFLLSSSSYYQQCC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: ["ATG"],
+  },
+  {
+    id: 9,
+    name: "Echinoderm and Flatworm Mitochondrial",
+    aminoAcids:
+      "FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIIMTTTTNNNKSSSSVVVVAAAADDEEGGGG",
+    starts: ["ATG", "GTG"],
+  },
+  {
+    id: 10,
+    name: "Euplotid Nuclear",
+    aminoAcids:
+      "FFLLSSSSYY**CCCWLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: ["ATG"],
+  },
+  {
+    id: 11,
+    name: "Bacterial, Archaeal and Plant Plastid",
+    aminoAcids:
+      "FFLLSSSSYY**CC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: ["TTG", "CTG", "ATT", "ATC", "ATA", "ATG", "GTG"],
+  },
+  {
+    id: 12,
+    name: "Alternative Yeast Nuclear",
+    aminoAcids:
+      "FFLLSSSSYY**CC*WLLLSPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: ["CTG", "ATG"],
+  },
+  {
+    id: 13,
+    name: "Ascidian Mitochondrial",
+    aminoAcids:
+      "FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIMMTTTTNNKKSSGGVVVVAAAADDEEGGGG",
+    starts: ["TTG", "ATA", "ATG", "GTG"],
+  },
+  {
+    id: 14,
+    name: "Alternative Flatworm Mitochondrial",
+    aminoAcids:
+      "FFLLSSSSYYY*CCWWLLLLPPPPHHQQRRRRIIIMTTTTNNNKSSSSVVVVAAAADDEEGGGG",
+    starts: ["ATG"],
+  },
+  {
+    id: 15,
+    name: "Blepharisma Macronuclear",
+    aminoAcids:
+      "FFLLSSSSYY*QCC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: ["ATG"],
+  },
+  {
+    id: 16,
+    name: "Chlorophycean Mitochondrial",
+    aminoAcids:
+      "FFLLSSSSYY*LCC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: ["ATG"],
+  },
+  {
+    id: 21,
+    name: "Trematode Mitochondrial",
+    aminoAcids:
+      "FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIMMTTTTNNNKSSSSVVVVAAAADDEEGGGG",
+    starts: ["ATG", "GTG"],
+  },
+  {
+    id: 22,
+    name: "Scenedesmus obliquus Mitochondrial",
+    aminoAcids:
+      "FFLLSS*SYY*LCC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: ["ATG"],
+  },
+  {
+    id: 23,
+    name: "Thraustochytrium Mitochondrial",
+    aminoAcids:
+      "FF*LSSSSYY**CC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: ["ATT", "ATG", "GTG"],
+  },
+  {
+    id: 24,
+    name: "Pterobranchia Mitochondrial",
+    aminoAcids:
+      "FFLLSSSSYY**CCWWLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSSKVVVVAAAADDEEGGGG",
+    starts: ["TTG", "CTG", "ATG", "GTG"],
+  },
+  {
+    id: 25,
+    name: "Candidate Division SR1 and Gracilibacteria",
+    aminoAcids:
+      "FFLLSSSSYY**CCGWLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: ["TTG", "ATG", "GTG"],
+  },
+  {
+    id: 26,
+    name: "Pachysolen tannophilus Nuclear",
+    aminoAcids:
+      "FFLLSSSSYY**CC*WLLLAPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: ["CTG", "ATG"],
+  },
+  {
+    id: 27,
+    name: "Karyorelict Nuclear",
+    aminoAcids:
+      "FFLLSSSSYYQQCCWWLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: ["ATG"],
+  },
+  {
+    id: 28,
+    name: "Condylostoma Nuclear",
+    aminoAcids:
+      "FFLLSSSSYYQQCCWWLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: ["ATG"],
+  },
+  {
+    id: 29,
+    name: "Mesodinium Nuclear",
+    aminoAcids:
+      "FFLLSSSSYYYYCC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: ["ATG"],
+  },
+  {
+    id: 30,
+    name: "Peritrich Nuclear",
+    aminoAcids:
+      "FFLLSSSSYYEECC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: ["ATG"],
+  },
+  {
+    id: 31,
+    name: "Blastocrithidia Nuclear",
+    aminoAcids:
+      "FFLLSSSSYYEECCWWLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: ["ATG"],
+  },
+  {
+    id: 32,
+    name: "Balanophoraceae Plastid",
+    aminoAcids:
+      "FFLLSSSSYY*WCC*WLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSRRVVVVAAAADDEEGGGG",
+    starts: ["TTG", "CTG", "ATT", "ATC", "ATA", "ATG", "GTG"],
+  },
+  {
+    id: 33,
+    name: "Cephalodiscidae Mitochondrial",
+    aminoAcids:
+      "FFLLSSSSYYY*CCWWLLLLPPPPHHQQRRRRIIIMTTTTNNKKSSSKVVVVAAAADDEEGGGG",
+    starts: ["TTG", "CTG", "ATG", "GTG"],
+  },
+];
+
+const BASES = "TCAG";
+
+// Fraction of nucleotide characters above which input is treated as DNA/RNA
+const NUCLEOTIDE_FRACTION = 0.9;
+
+export const DEFAULT_MIN_ORF_LENGTH = 30;
+
+/**
+ * Look up a genetic code table by NCBI id
+ */
+export function getGeneticCode(id: number): GeneticCode {
+  const code = GENETIC_CODES.find((c) => c.id === id);
+
+  if (!code) {
+    throw new Error(
+      `Unknown genetic code ${id} (available: ${GENETIC_CODES.map(
+        (c) => c.id
+      ).join(", ")})`
+    );
+  }
+
+  return code;
+}
+
+/**
+ * Decide whether normalized residues are protein, DNA or RNA
+ */
+export function detectMoleculeType(sequence: string): MoleculeType {
+  const residues = sequence.toUpperCase().replace(/[^A-Z]/g, "");
+  if (residues.length === 0) return "protein";
+
+  const nucleotides = residues.replace(/[^ACGTUN]/g, "").length;
+  if (nucleotides / residues.length < NUCLEOTIDE_FRACTION) return "protein";
+
+  return residues.includes("U") && !residues.includes("T") ? "rna" : "dna";
+}
+
+/**
+ * Reverse complement of a DNA/RNA sequence (returned as DNA)
+ */
+export function reverseComplement(sequence: string): string {
+  const complement: Record<string, string> = {
+    A: "T",
+    T: "A",
+    U: "A",
+    G: "C",
+    C: "G",
+    N: "N",
+  };
+
+  let result = "";
+  for (let i = sequence.length - 1; i >= 0; i--) {
+    result += complement[sequence[i]] ?? "N";
+  }
+  return result;
+}
+
+function codonIndex(codon: string): number {
+  let index = 0;
+  for (const base of codon) {
+    const value = BASES.indexOf(base);
+    if (value === -1) return -1;
+    index = index * 4 + value;
+  }
+  return index;
+}
+
+function toDna(sequence: string): string {
+  return sequence
+    .toUpperCase()
+    .replace(/[^A-Z]/g, "")
+    .replace(/U/g, "T");
+}
+
+/**
+ * Translate a nucleotide sequence in one frame (0, 1 or 2)
+ * Codons with ambiguous bases translate to X
+ */
+export function translate(
+  sequence: string,
+  geneticCode = 1,
+  frame = 0
+): string {
+  const code = getGeneticCode(geneticCode);
+  const dna = toDna(sequence);
+  let protein = "";
+
+  for (let i = frame; i + 3 <= dna.length; i += 3) {
+    const index = codonIndex(dna.slice(i, i + 3));
+    protein += index === -1 ? "X" : code.aminoAcids[index];
+  }
+
+  return protein;
+}
+
+/**
+ * Translate all six reading frames
+ */
+export function sixFrameTranslation(sequence: string, geneticCode = 1) {
+  const dna = toDna(sequence);
+  const reverse = reverseComplement(dna);
+
+  return (["+", "-"] as const).flatMap((strand) =>
+    ([1, 2, 3] as const).map((frame) => ({
+      strand,
+      frame,
+      protein: translate(
+        strand === "+" ? dna : reverse,
+        geneticCode,
+        frame - 1
+      ),
+    }))
+  );
+}
+
+/**
+ * Find open reading frames in all six frames
+ * ORFs run from a start codon to the next in-frame stop; the initiator is
+ * always read as Met. Results are sorted longest first
+ */
+export function findOpenReadingFrames(
+  sequence: string,
+  options: OrfSearchOptions = {}
+): OpenReadingFrame[] {
+  const {
+    geneticCode = 1,
+    minLength = DEFAULT_MIN_ORF_LENGTH,
+    alternativeStarts = false,
+    includeIncomplete = false,
+  } = options;
+
+  const code = getGeneticCode(geneticCode);
+  const starts = new Set(alternativeStarts ? code.starts : ["ATG"]);
+  const dna = toDna(sequence);
+  const length = dna.length;
+  const orfs: OpenReadingFrame[] = [];
+
+  for (const strand of ["+", "-"] as const) {
+    const template = strand === "+" ? dna : reverseComplement(dna);
+
+    for (const frame of [1, 2, 3] as const) {
+      let orfStart = -1;
+      let protein = "";
+
+      const emit = (endExclusive: number, complete: boolean) => {
+        if (protein.length >= minLength && (complete || includeIncomplete)) {
+          // Convert template coordinates back to the forward strand
+          const [start, end] =
+            strand === "+"
+              ? [orfStart + 1, endExclusive]
+              : [length - endExclusive + 1, length - orfStart];
+
+          orfs.push({
+            id: `${strand}${frame}:${start}-${end}`,
+            strand,
+            frame,
+            start,
+            end,
+            length: protein.length,
+            protein,
+            complete,
+          });
+        }
+      };
+
+      for (let i = frame - 1; i + 3 <= length; i += 3) {
+        const codon = template.slice(i, i + 3);
+        const index = codonIndex(codon);
+        const aminoAcid = index === -1 ? "X" : code.aminoAcids[index];
+
+        if (orfStart === -1) {
+          if (starts.has(codon)) {
+            orfStart = i;
+            protein = "M";
+          }
+          continue;
+        }
+
+        if (aminoAcid === "*") {
+          emit(i + 3, true);
+          orfStart = -1;
+          protein = "";
+        } else {
+          protein += aminoAcid;
+        }
+      }
+
+      if (orfStart !== -1) {
+        const lastCodonEnd = orfStart + protein.length * 3;
+        emit(lastCodonEnd, false);
+      }
+    }
+  }
+
+  return orfs.sort((a, b) => b.length - a.length);
+}
@@ -3,6 +3,19 @@
  * Maps complex UniProt JSON to application-friendly formats
  */
 
+import type { GoAspect } from "./go-rules"
+
+export interface UniProtGoTerm {
+  id: string
+  name: string
+  aspect: GoAspect
+  // GO evidence code and assigning source, e.g. IDA / UniProtKB
+  evidence?: string
+  source?: string
+  // ECO codes attached to the cross-reference
+  ecoCodes: string[]
+}
+
 export interface ParsedUniProtData {
   accession: string
   proteinName: string
@@ -34,6 +47,9 @@ export interface ParsedUniProtData {
     database: string
     ids: string[]
   }[]
+  goTerms: UniProtGoTerm[]
+  // EC numbers of the recommended name, e.g. 2.7.11.1
+  ecNumbers: string[]
   lastUpdate: string
 }
 
@@ -236,6 +252,60 @@ function extractXrefs(data: any): { database: string; ids: string[] }[] {
   }))
 }
 
+const GO_ASPECTS: Record<string, GoAspect> = {
+  F: "molecular_function",
+  P: "biological_process",
+  C: "cellular_component",
+}
+
+/**
+ * Extract GO cross-references, e.g. GoTerm "C:cytoplasm", GoEvidenceType "IDA:UniProtKB"
+ */
+function extractGoTerms(data: any): UniProtGoTerm[] {
+  const terms: UniProtGoTerm[] = []
+
+  try {
+    for (const xref of data.uniProtKBCrossReferences ?? []) {
+      if (xref.database !== "GO" || !xref.id) continue
+
+      const properties = new Map<string, string>(
+        (xref.properties ?? []).map((p: any) => [p.key, p.value] as [string, string])
+      )
+      const [aspectCode, ...name] = (properties.get("GoTerm") ?? "").split(":")
+      const aspect = GO_ASPECTS[aspectCode]
+      if (!aspect) continue
+
+      const [evidence, source] = (properties.get("GoEvidenceType") ?? "").split(":")
+
+      terms.push({
+        id: xref.id,
+        name: name.join(":") || xref.id,
+        aspect,
+        evidence: evidence || undefined,
+        source: source || undefined,
+        ecoCodes: (xref.evidences ?? []).map((e: any) => e.evidenceCode).filter(Boolean),
+      })
+    }
+  } catch {
+    // Silent fail
+  }
+
+  return terms
+}
+
+/**
+ * Extract EC numbers from proteinDescription.recommendedName.ecNumbers
+ */
+function extractEcNumbers(data: any): string[] {
+  try {
+    return (data.proteinDescription?.recommendedName?.ecNumbers ?? [])
+      .map((ec: any) => ec.value)
+      .filter((value: unknown): value is string => typeof value === "string" && value.length > 0)
+  } catch {
+    return []
+  }
+}
+
 /**
  * Main parser function - converts UniProt API response to application format
  */
@@ -257,6 +327,8 @@ export function parseUniProtResponse(data: any): ParsedUniProtData {
     features: extractFeatures(data),
     references: extractReferences(data),
     xrefs: extractXrefs(data),
+    goTerms: extractGoTerms(data),
+    ecNumbers: extractEcNumbers(data),
     lastUpdate: data.entryAudit?.lastAnnotationUpdateDate || new Date().toISOString(),
   }
 }
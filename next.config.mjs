@@ -6,6 +6,10 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  // Rule sets and reference data are read from disk at runtime
+  outputFileTracingIncludes: {
+    '/api/**/*': ['./data/**/*'],
+  },
 }
 
 export default nextConfig
@@ -0,0 +1,229 @@
+/**
+ * Benchmark the classifier on a labelled set and fit confidence calibration
+ *
+ * Usage:
+ *   npm run benchmark -- --fasta set.fasta --annotations set.tsv \
+ *     [--out data/calibration.json] [--method isotonic|platt] [--holdout 0.2]
+ *
+ * The annotations file uses the reference-index format (accession, GO id,
+ * aspect, term name). One calibration model is fitted per rule (and for k-NN /
+ * Pfam transfer) plus one for the top primary prediction; raw and calibrated
+ * scores are compared on a held-out fraction (--holdout 0 evaluates
+ * in-sample), then the written file is refitted on every protein. Scores are
+ * recorded before ontology reconciliation, where the classifier applies
+ * calibration; predictions and annotations are propagated up the ontology
+ * when go-basic.obo is installed.
+ */
+
+import fs from "fs";
+import path from "path";
+import { parseSequenceInput } from "../lib/sequence-parser";
+import { analyzeSequence } from "../lib/analysis-pipeline";
+import { mapWithConcurrency } from "../lib/concurrency";
+import { parseGoAnnotations } from "../lib/reference-index";
+import { getGeneOntology, resolveTerm } from "../lib/gene-ontology";
+import {
+  brierScore,
+  evaluateFmax,
+  expectedCalibrationError,
+  propagateTerms,
+  type AspectMetrics,
+  type BenchmarkCase,
+} from "../lib/benchmark";
+import {
+  applyCalibration,
+  buildCalibration,
+  calibrateConfidence,
+  calibrationKey,
+  type CalibrationMethod,
+  type CalibrationPoint,
+} from "../lib/calibration";
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--")) {
+      args[argv[i].slice(2)] = argv[i + 1] ?? "";
+      i++;
+    }
+  }
+  return args;
+}
+
+function printMetrics(label: string, metrics: AspectMetrics[]) {
+  console.log(`\n${label}`);
+  for (const m of metrics) {
+    console.log(
+      `  ${m.aspect.padEnd(20)} n=${String(m.proteins).padEnd(5)} Fmax ${m.fmax.toFixed(3)} at ${m.threshold.toFixed(2)} (precision ${m.precision.toFixed(3)}, recall ${m.recall.toFixed(3)}, coverage ${m.coverage.toFixed(3)})`
+    );
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (!args.fasta || !args.annotations) {
+    console.error(
+      "Usage: benchmark --fasta <file> --annotations <file> [--out <file>] [--method isotonic|platt] [--holdout 0.2]"
+    );
+    process.exit(1);
+  }
+
+  const method = (args.method || "isotonic") as CalibrationMethod;
+  const holdout = args.holdout ? Number(args.holdout) : 0.2;
+  if (method !== "isotonic" && method !== "platt") {
+    throw new Error(`Unknown calibration method "${method}"`);
+  }
+
+  const out = args.out || path.join(process.cwd(), "data", "calibration.json");
+  const annotations = parseGoAnnotations(
+    fs.readFileSync(args.annotations, "utf8")
+  );
+  const records = parseSequenceInput(
+    fs.readFileSync(args.fasta, "utf8")
+  ).filter((r) => annotations.has(r.id));
+  const ontology = getGeneOntology();
+
+  if (records.length === 0) {
+    throw new Error("No sequences with annotations found");
+  }
+  console.log(
+    `Classifying ${records.length} proteins${
+      ontology ? ` (propagating with GO ${ontology.version ?? ""})` : ""
+    }`
+  );
+
+  const analyses = await mapWithConcurrency(
+    records,
+    Number(args.concurrency) || 2,
+    async (record, i) => {
+      const analysis = await analyzeSequence(record.sequence, record.id, {
+        calibration: null,
+        ontology: null,
+      });
+      if ((i + 1) % 25 === 0) console.log(`  ${i + 1}/${records.length}`);
+      return { record, classification: analysis.classification };
+    }
+  );
+
+  // Predictions are not reconciled, so match them to the truth by current id
+  const currentId = (id: string) =>
+    ontology ? resolveTerm(ontology, id)?.id : id;
+
+  const labelled = analyses.map(({ record, classification }) => {
+    const truth = annotations.get(record.id) ?? [];
+    const truthTerms = propagateTerms(
+      truth.map((t) => t.id),
+      ontology
+    );
+    const functions = [
+      ...classification.primaryFunctions,
+      ...classification.secondaryFunctions,
+    ].map((fn) => ({ fn, correct: truthTerms.has(currentId(fn.id) ?? "") }));
+
+    // Raw score of the top primary prediction, for the overall calibration
+    const first = classification.primaryFunctions[0];
+    const top: CalibrationPoint | undefined = first && {
+      score: first.confidence,
+      correct: truthTerms.has(currentId(first.id) ?? ""),
+    };
+
+    return { accession: record.id, truth, functions, top };
+  });
+  type LabelledCase = (typeof labelled)[number];
+
+  const fit = (cases: LabelledCase[]) => {
+    const points = new Map<string, CalibrationPoint[]>();
+    for (const { fn, correct } of cases.flatMap((c) => c.functions)) {
+      const key = calibrationKey(fn);
+      points.set(key, [
+        ...(points.get(key) ?? []),
+        { score: fn.confidence, correct },
+      ]);
+    }
+
+    return {
+      sources: points.size,
+      calibration: buildCalibration(
+        points,
+        cases.flatMap((c) => (c.top ? [c.top] : [])),
+        method,
+        path.basename(args.annotations)
+      ),
+    };
+  };
+
+  // Every k-th protein is held out so the split is reproducible
+  let train = labelled;
+  let test = labelled;
+  let split = "in-sample";
+  if (holdout > 0 && holdout < 1) {
+    const every = Math.max(2, Math.round(1 / holdout));
+    test = labelled.filter((_, i) => i % every === 0);
+    train = labelled.filter((_, i) => i % every !== 0);
+    split = "held-out";
+    console.log(
+      `Fitting calibration on ${train.length}, evaluating on ${test.length}`
+    );
+  }
+
+  const validation = fit(train).calibration;
+
+  const rawCases: BenchmarkCase[] = test.map((c) => ({
+    accession: c.accession,
+    truth: c.truth,
+    predictions: c.functions.map(({ fn }) => fn),
+  }));
+  const calibratedCases: BenchmarkCase[] = test.map((c) => ({
+    accession: c.accession,
+    truth: c.truth,
+    predictions: c.functions.map(({ fn }) => ({
+      id: fn.id,
+      type: fn.type,
+      confidence: calibrateConfidence(validation, fn),
+    })),
+  }));
+
+  const rawPoints = test.flatMap((c) =>
+    c.functions.map(({ fn, correct }) => ({ score: fn.confidence, correct }))
+  );
+  const calibratedPoints = test.flatMap((c) =>
+    c.functions.map(({ fn, correct }) => ({
+      score: calibrateConfidence(validation, fn),
+      correct,
+    }))
+  );
+  const rawTop = test.flatMap((c) => (c.top ? [c.top] : []));
+  const calibratedTop = rawTop.map(({ score, correct }) => ({
+    score: validation.overall
+      ? applyCalibration(validation.overall, score)
+      : score,
+    correct,
+  }));
+
+  printMetrics(`Raw scores (${split})`, evaluateFmax(rawCases, ontology));
+  printMetrics(
+    `Calibrated (${method}, ${split})`,
+    evaluateFmax(calibratedCases, ontology)
+  );
+  console.log(
+    `\nPredictions (${rawPoints.length}): Brier ${brierScore(rawPoints)} -> ${brierScore(calibratedPoints)}, ECE ${expectedCalibrationError(rawPoints)} -> ${expectedCalibrationError(calibratedPoints)}`
+  );
+  console.log(
+    `Top primary (${rawTop.length}): Brier ${brierScore(rawTop)} -> ${brierScore(calibratedTop)}, ECE ${expectedCalibrationError(rawTop)} -> ${expectedCalibrationError(calibratedTop)}`
+  );
+
+  // The written calibration is refitted on every protein
+  const { sources, calibration } = fit(labelled);
+  console.log(
+    `Fitted ${Object.keys(calibration.models).length} of ${sources} sources on all ${labelled.length} proteins; the rest use the fallback`
+  );
+
+  fs.writeFileSync(out, JSON.stringify(calibration, null, 2) + "\n");
+  console.log(`Wrote ${out}`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,97 @@
+/**
+ * Build the bundled seed profiles from representative domains
+ *
+ * Usage:
+ *   npm run build:pfam-seed -- [--seeds data/pfam/seeds.tsv] \
+ *     [--db data/sequence-db.fasta] [--out data/pfam/seed-profiles.hmm]
+ *
+ * Each family in the seeds table becomes a single-sequence profile HMM of its
+ * domain in one protein of the sequence database, with calibrated E-value
+ * statistics. The profile is named <family>-like and takes the domain
+ * (UniProt/start-end) as accession, so it is never mistaken for the Pfam
+ * model: it transfers no GO terms or EC numbers. `npm run fetch:pfam`
+ * downloads the curated models, which replace the seed of their family.
+ */
+
+import fs from "fs";
+import path from "path";
+import {
+  buildSingleSequenceHmm,
+  formatHmmFile,
+  parseHmmFile,
+} from "../lib/hmmer";
+import { SEED_PROFILE_SUFFIX } from "../lib/pfam";
+import { loadSequenceDatabase } from "../lib/sequence-database";
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--")) {
+      args[argv[i].slice(2)] = argv[i + 1] ?? "";
+      i++;
+    }
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const dataDir = path.join(process.cwd(), "data");
+  const seedsPath = args.seeds || path.join(dataDir, "pfam", "seeds.tsv");
+  const out = args.out || path.join(dataDir, "pfam", "seed-profiles.hmm");
+  const database = loadSequenceDatabase(
+    args.db || path.join(dataDir, "sequence-db.fasta")
+  );
+
+  const models = fs
+    .readFileSync(seedsPath, "utf8")
+    .split(/\r?\n/)
+    .filter((line) => line.trim() && !line.startsWith("#"))
+    .map((line) => {
+      const [accession, name, description, uniprot, start, end] =
+        line.split("\t");
+      const entry = database.entries.find((e) => e.accession === uniprot);
+      const from = Number(start);
+      const to = Number(end);
+
+      if (!entry) {
+        throw new Error(`${accession}: ${uniprot} is not in the database`);
+      }
+      if (!(from >= 1 && to <= entry.sequence.length && from < to)) {
+        throw new Error(
+          `${accession}: ${from}-${to} is outside ${uniprot} (${entry.sequence.length} aa)`
+        );
+      }
+
+      const domain = `${uniprot}/${from}-${to}`;
+      const hmm = buildSingleSequenceHmm(entry.sequence.slice(from - 1, to), {
+        name: `${name}${SEED_PROFILE_SUFFIX}`,
+        accession: domain,
+        description: `${description} (seed profile)`,
+      });
+      console.log(
+        `  ${accession} ${name}: ${domain}, Viterbi mu ${hmm.stats.viterbi.mu.toFixed(
+          2
+        )}, Forward tau ${hmm.stats.forward.tau.toFixed(2)}`
+      );
+
+      return {
+        ...hmm,
+        comment: `single-sequence profile of ${domain} standing in for ${accession}`,
+      };
+    });
+
+  const text = formatHmmFile(models);
+  if (parseHmmFile(text).length !== models.length) {
+    throw new Error("Written models do not parse back");
+  }
+
+  fs.mkdirSync(path.dirname(out), { recursive: true });
+  fs.writeFileSync(out, text);
+  console.log(`Wrote ${models.length} HMMs to ${out}`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,105 @@
+/**
+ * Build the k-NN reference index from annotated proteins
+ *
+ * Usage:
+ *   npm run build:reference-index -- --fasta refs.fasta --annotations refs.tsv \
+ *     [--out data/reference-index.json] [--model 35m] [--layers 12]
+ *
+ * The annotations file is tab-separated: accession, GO id, aspect (F/P/C or
+ * the full aspect name) and term name. Embeddings come from the provider
+ * selected by EMBEDDING_PROVIDER.
+ */
+
+import fs from "fs";
+import path from "path";
+import { parseSequenceInput } from "../lib/sequence-parser";
+import { getEmbeddingProvider } from "../lib/embedding-providers";
+import {
+  parseESM2Layers,
+  resolveEmbeddingRequest,
+} from "../lib/esm2-embeddings";
+import { mapWithConcurrency } from "../lib/concurrency";
+import {
+  parseGoAnnotations,
+  type ReferenceEntry,
+} from "../lib/reference-index";
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--")) {
+      args[argv[i].slice(2)] = argv[i + 1] ?? "";
+      i++;
+    }
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (!args.fasta || !args.annotations) {
+    console.error(
+      "Usage: build-reference-index --fasta <file> --annotations <file> [--out <file>] [--model 35m] [--layers 12[,11,...]]"
+    );
+    process.exit(1);
+  }
+
+  const provider = getEmbeddingProvider();
+  const { model, layers } = resolveEmbeddingRequest(
+    args.model || provider.model,
+    args.layers ? args.layers.split(",").map(Number) : undefined
+  );
+  const out =
+    args.out || path.join(process.cwd(), "data", "reference-index.json");
+  const annotations = parseGoAnnotations(
+    fs.readFileSync(args.annotations, "utf8")
+  );
+  const records = parseSequenceInput(fs.readFileSync(args.fasta, "utf8"));
+
+  const annotated = records.filter((r) => annotations.has(r.id));
+  console.log(
+    `Embedding ${annotated.length} of ${records.length} sequences with the ${provider.name} provider`
+  );
+
+  const entries: ReferenceEntry[] = await mapWithConcurrency(
+    annotated,
+    Number(args.concurrency) || 2,
+    async (record, i) => {
+      const response = await provider.embed(record.sequence, {
+        model: model.size,
+        layers,
+      });
+      if ((i + 1) % 25 === 0) console.log(`  ${i + 1}/${annotated.length}`);
+
+      return {
+        accession: record.id,
+        name: record.header?.description || record.id,
+        organism: record.header?.organism,
+        goTerms: annotations.get(record.id) ?? [],
+        embedding: parseESM2Layers(response, layers),
+      };
+    }
+  );
+
+  if (entries.length === 0) {
+    throw new Error("No sequences with annotations found");
+  }
+
+  const index = {
+    version: new Date().toISOString().slice(0, 10),
+    model: `${model.name} (${provider.name})`,
+    layer: layers[layers.length - 1],
+    layers,
+    dimension: entries[0].embedding.length,
+    entries,
+  };
+
+  fs.writeFileSync(out, JSON.stringify(index));
+  console.log(`Wrote ${entries.length} entries to ${out}`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
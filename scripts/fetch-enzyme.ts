@@ -0,0 +1,90 @@
+/**
+ * Download the ENZYME nomenclature database (enzyme.dat and enzclass.txt)
+ *
+ * Usage:
+ *   npm run fetch:enzyme -- [--out data] [--url <ENZYME FTP directory>]
+ *
+ * EC numbers in data/ec-rules.json that are unknown, deleted or transferred
+ * in the downloaded release are listed so the rules can be updated.
+ */
+
+import fs from "fs";
+import path from "path";
+import { ecLevel, parseEnzymeClasses, parseEnzymeDat } from "../lib/enzyme";
+import { getEcRules } from "../lib/ec-prediction";
+
+const ENZYME_URL = "https://ftp.expasy.org/databases/enzyme";
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--")) {
+      args[argv[i].slice(2)] = argv[i + 1] ?? "";
+      i++;
+    }
+  }
+  return args;
+}
+
+async function download(url: string): Promise<string> {
+  console.log(`Fetching ${url}`);
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`ENZYME returned ${response.status} for ${url}`);
+  }
+  return response.text();
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const out = args.out || path.join(process.cwd(), "data");
+  const url = (args.url || ENZYME_URL).replace(/\/$/, "");
+
+  const enzymeText = await download(`${url}/enzyme.dat`);
+  const classText = await download(`${url}/enzclass.txt`);
+
+  const database = parseEnzymeDat(enzymeText);
+  const classes = parseEnzymeClasses(classText);
+  if (database.entries.size === 0) {
+    throw new Error("Download contained no ENZYME entries");
+  }
+
+  fs.mkdirSync(out, { recursive: true });
+  fs.writeFileSync(path.join(out, "enzyme.dat"), enzymeText);
+  fs.writeFileSync(path.join(out, "enzclass.txt"), classText);
+  console.log(
+    `Wrote ${database.entries.size} entries (${
+      database.release ?? "unversioned"
+    }), ${database.byUniProt.size} Swiss-Prot accessions and ${
+      classes.size
+    } classes to ${out}`
+  );
+
+  for (const rule of getEcRules().rules) {
+    if (ecLevel(rule.ec) < 4) {
+      if (!classes.has(rule.ec)) {
+        console.warn(`  ${rule.ec} (rule ${rule.id}) is not an ENZYME class`);
+      }
+      continue;
+    }
+
+    const entry = database.entries.get(rule.ec);
+    if (!entry) {
+      console.warn(`  ${rule.ec} (rule ${rule.id}) is unknown`);
+    } else if (entry.deleted) {
+      console.warn(`  ${rule.ec} (rule ${rule.id}) is deleted`);
+    } else if (entry.transferredTo) {
+      console.warn(
+        `  ${rule.ec} (rule ${
+          rule.id
+        }) is transferred to ${entry.transferredTo.join(", ")}`
+      );
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
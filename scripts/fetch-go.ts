@@ -0,0 +1,81 @@
+/**
+ * Download go-basic.obo and check the GO ids the app can emit against it
+ *
+ * Usage:
+ *   npm run fetch:go -- [--out data/go-basic.obo] [--url <OBO url>]
+ *
+ * Rule-set and pfam2go terms that are obsolete or unknown in the downloaded
+ * release are listed so the data files can be updated.
+ */
+
+import fs from "fs";
+import path from "path";
+import { parseObo, resolveTerm } from "../lib/gene-ontology";
+import { getRuleSet } from "../lib/go-rules";
+import { getPfam2Go } from "../lib/pfam";
+
+const GO_BASIC_URL = "https://current.geneontology.org/ontology/go-basic.obo";
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--")) {
+      args[argv[i].slice(2)] = argv[i + 1] ?? "";
+      i++;
+    }
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const out = args.out || path.join(process.cwd(), "data", "go-basic.obo");
+  const url = args.url || GO_BASIC_URL;
+
+  console.log(`Fetching ${url}`);
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Gene Ontology returned ${response.status}`);
+  }
+
+  const text = await response.text();
+  const ontology = parseObo(text);
+  if (ontology.terms.size === 0) {
+    throw new Error("Download contained no GO terms");
+  }
+
+  fs.mkdirSync(path.dirname(out), { recursive: true });
+  fs.writeFileSync(out, text);
+  console.log(
+    `Wrote ${ontology.terms.size} terms (${ontology.version ?? "unversioned"}) to ${out}`
+  );
+
+  const emitted = new Map<string, string>();
+  for (const rule of getRuleSet().rules) {
+    emitted.set(rule.go.id, `rule ${rule.id}`);
+  }
+  for (const [accession, terms] of getPfam2Go() ?? []) {
+    for (const term of terms) emitted.set(term.id, `pfam2go ${accession}`);
+  }
+
+  for (const [id, source] of emitted) {
+    const term = resolveTerm(ontology, id);
+    if (!term) {
+      console.warn(
+        `  ${id} (${source}) is ${
+          ontology.terms.has(id) ? "obsolete with no replacement" : "unknown"
+        }`
+      );
+    } else if (term.id !== id) {
+      console.warn(
+        `  ${id} (${source}) is replaced by ${term.id} ${term.name}`
+      );
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
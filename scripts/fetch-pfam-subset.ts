@@ -0,0 +1,85 @@
+/**
+ * Download the Pfam HMMs referenced by data/pfam2go.tsv from InterPro
+ *
+ * Usage:
+ *   npm run fetch:pfam -- [--out data/pfam/Pfam-subset.hmm] [--accessions PF00069,PF00089]
+ *
+ * Accessions default to every family in the pfam2go table. The combined
+ * HMMER3 file is validated with the same parser the app uses.
+ */
+
+import fs from "fs";
+import path from "path";
+import zlib from "zlib";
+import { parseHmmFile } from "../lib/hmmer";
+import { getPfam2Go } from "../lib/pfam";
+import { mapWithConcurrency } from "../lib/concurrency";
+
+const INTERPRO_HMM_URL = "https://www.ebi.ac.uk/interpro/api/entry/pfam";
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--")) {
+      args[argv[i].slice(2)] = argv[i + 1] ?? "";
+      i++;
+    }
+  }
+  return args;
+}
+
+async function fetchHmm(accession: string): Promise<string> {
+  const response = await fetch(
+    `${INTERPRO_HMM_URL}/${accession}?annotation=hmm`
+  );
+  if (!response.ok) {
+    throw new Error(`${accession}: InterPro returned ${response.status}`);
+  }
+
+  // The annotation is served gzip-compressed
+  const body = Buffer.from(await response.arrayBuffer());
+  const text =
+    body[0] === 0x1f && body[1] === 0x8b
+      ? zlib.gunzipSync(body).toString("utf8")
+      : body.toString("utf8");
+
+  const models = parseHmmFile(text);
+  if (models.length !== 1) {
+    throw new Error(`${accession}: expected one HMM, got ${models.length}`);
+  }
+  return text.trimEnd() + "\n";
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const out =
+    args.out || path.join(process.cwd(), "data", "pfam", "Pfam-subset.hmm");
+  const accessions = args.accessions
+    ? args.accessions.split(",").map((a) => a.trim())
+    : [...(getPfam2Go()?.keys() ?? [])];
+
+  if (accessions.length === 0) {
+    throw new Error("No pfam2go table installed; pass --accessions");
+  }
+
+  console.log(`Fetching ${accessions.length} Pfam HMMs from InterPro`);
+
+  const hmms = await mapWithConcurrency(
+    accessions,
+    Number(args.concurrency) || 2,
+    async (accession) => {
+      const hmm = await fetchHmm(accession);
+      console.log(`  ${accession}`);
+      return hmm;
+    }
+  );
+
+  fs.mkdirSync(path.dirname(out), { recursive: true });
+  fs.writeFileSync(out, hmms.join(""));
+  console.log(`Wrote ${hmms.length} HMMs to ${out}`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
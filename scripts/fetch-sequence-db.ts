@@ -0,0 +1,61 @@
+/**
+ * Download reviewed UniProtKB (Swiss-Prot) sequences for homology search
+ *
+ * Usage:
+ *   npm run fetch:sequence-db -- [--out data/sequence-db.fasta] [--taxon 33090]
+ *     [--query "<UniProt query>"]
+ *
+ * The default query is every reviewed green plant (Viridiplantae) entry.
+ * The FASTA is indexed with the same loader the app uses before writing.
+ */
+
+import fs from "fs";
+import path from "path";
+import { buildSequenceDatabase } from "../lib/sequence-database";
+import { parseFasta } from "../lib/sequence-parser";
+
+const UNIPROT_STREAM_URL = "https://rest.uniprot.org/uniprotkb/stream";
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--")) {
+      args[argv[i].slice(2)] = argv[i + 1] ?? "";
+      i++;
+    }
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const out = args.out || path.join(process.cwd(), "data", "sequence-db.fasta");
+  const query =
+    args.query || `reviewed:true AND taxonomy_id:${args.taxon || "33090"}`;
+
+  console.log(`Fetching UniProtKB sequences for "${query}"`);
+
+  const response = await fetch(
+    `${UNIPROT_STREAM_URL}?format=fasta&query=${encodeURIComponent(query)}`
+  );
+  if (!response.ok) {
+    throw new Error(`UniProt returned ${response.status}`);
+  }
+
+  const text = await response.text();
+  const database = buildSequenceDatabase(parseFasta(text));
+  if (database.entries.length === 0) {
+    throw new Error("Query returned no sequences");
+  }
+
+  fs.mkdirSync(path.dirname(out), { recursive: true });
+  fs.writeFileSync(out, text);
+  console.log(
+    `Wrote ${database.entries.length} sequences (${database.residues} residues) to ${out}`
+  );
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,180 @@
+/**
+ * Train the embedding classifier head from a labelled embedding dump
+ *
+ * Usage:
+ *   npm run train:classifier-head -- [--index data/reference-index.json] \
+ *     [--out data/classifier-head.json] [--hidden 0] [--epochs 50] \
+ *     [--lr 0.001] [--l2 0.0001] [--min-examples 5] [--holdout 0.2]
+ *
+ * The dump is a reference index as written by build:reference-index. Labels
+ * with fewer than --min-examples positive proteins are dropped; when
+ * go-basic.obo is installed annotations are propagated to their ancestors
+ * first. --hidden 0 trains logistic regression, otherwise a one-hidden-layer
+ * MLP. A held-out fraction is used to report Fmax before the final fit.
+ *
+ * No head is bundled: a head only applies to embeddings from the model and
+ * layers it was trained on, so train it locally against the provider used at
+ * inference. For the default 35M checkpoint and final layer:
+ *   EMBEDDING_PROVIDER=onnx npm run build:reference-index -- \
+ *     --fasta refs.fasta --annotations refs.tsv --model 35m --layers 12
+ *   npm run train:classifier-head
+ */
+
+import fs from "fs";
+import path from "path";
+import {
+  DEFAULT_REFERENCE_INDEX_PATH,
+  buildReferenceIndex,
+  type ReferenceEntry,
+  type ReferenceGoTerm,
+} from "../lib/reference-index";
+import {
+  predictWithHead,
+  trainClassifierHead,
+  type ClassifierHead,
+  type TrainingExample,
+  type TrainingOptions,
+} from "../lib/classifier-head";
+import { getGeneOntology } from "../lib/gene-ontology";
+import { evaluateFmax, propagateTerms } from "../lib/benchmark";
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--")) {
+      args[argv[i].slice(2)] = argv[i + 1] ?? "";
+      i++;
+    }
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const input = args.index || DEFAULT_REFERENCE_INDEX_PATH;
+  const out =
+    args.out || path.join(process.cwd(), "data", "classifier-head.json");
+  const minExamples = Number(args["min-examples"]) || 5;
+  const holdout = args.holdout ? Number(args.holdout) : 0.2;
+  const training: TrainingOptions = {
+    hidden: Number(args.hidden) || 0,
+    epochs: Number(args.epochs) || 50,
+    learningRate: Number(args.lr) || 1e-3,
+    l2: args.l2 ? Number(args.l2) : 1e-4,
+    seed: Number(args.seed) || 1,
+  };
+
+  const data = JSON.parse(fs.readFileSync(input, "utf8"));
+  const index = buildReferenceIndex(data, input);
+  const ontology = getGeneOntology();
+
+  if (index.model.includes("(mock)")) {
+    console.warn(
+      "Warning: the index holds mock embeddings; the head will only be used with the mock provider"
+    );
+  }
+
+  // Labels per protein, propagated to ancestors when GO is installed
+  const terms = new Map<string, ReferenceGoTerm>();
+  const labelled = index.entries.map((entry) => {
+    for (const term of entry.goTerms) terms.set(term.id, term);
+    const ids = propagateTerms(
+      entry.goTerms.map((t) => t.id),
+      ontology
+    );
+    for (const id of ids) {
+      const term = ontology?.terms.get(id);
+      if (term && !terms.has(id)) {
+        terms.set(id, { id, name: term.name, aspect: term.namespace });
+      }
+    }
+    return { entry, ids: [...ids] };
+  });
+
+  const counts = new Map<string, number>();
+  for (const { ids } of labelled) {
+    for (const id of ids) counts.set(id, (counts.get(id) ?? 0) + 1);
+  }
+  const labels = [...counts]
+    .filter(([id, count]) => count >= minExamples && terms.has(id))
+    .map(([id]) => terms.get(id)!)
+    .sort((a, b) => a.id.localeCompare(b.id));
+
+  if (labels.length === 0) {
+    throw new Error(
+      `No GO term is annotated to at least ${minExamples} proteins`
+    );
+  }
+
+  const examples: (TrainingExample & { entry: ReferenceEntry })[] =
+    labelled.map(({ entry, ids }) => ({
+      entry,
+      embedding: entry.embedding,
+      labels: ids,
+    }));
+  console.log(
+    `${examples.length} proteins, ${labels.length} labels, ${index.dimension}-dim ${index.model} embeddings`
+  );
+
+  const log: TrainingOptions["onEpoch"] = (epoch, loss) => {
+    if (epoch % 10 === 0 || epoch === training.epochs) {
+      console.log(`  epoch ${epoch}: loss ${loss.toFixed(4)}`);
+    }
+  };
+
+  if (holdout > 0 && holdout < 1) {
+    // Every k-th protein is held out so the split is reproducible
+    const every = Math.max(2, Math.round(1 / holdout));
+    const test = examples.filter((_, i) => i % every === 0);
+    const train = examples.filter((_, i) => i % every !== 0);
+
+    console.log(`Validation fit on ${train.length}, testing on ${test.length}`);
+    const validation = {
+      version: "validation",
+      model: index.model,
+      ...trainClassifierHead(train, labels, { ...training, onEpoch: log }),
+    };
+
+    const metrics = evaluateFmax(
+      test.map(({ entry }) => ({
+        accession: entry.accession,
+        truth: entry.goTerms,
+        predictions: predictWithHead(validation, entry.embedding).map(
+          ({ term, probability }) => ({
+            id: term.id,
+            type: term.aspect,
+            confidence: probability,
+          })
+        ),
+      })),
+      ontology
+    );
+    for (const m of metrics) {
+      console.log(
+        `  ${m.aspect.padEnd(20)} n=${String(m.proteins).padEnd(5)} Fmax ${m.fmax.toFixed(3)} at ${m.threshold.toFixed(2)}`
+      );
+    }
+  }
+
+  console.log(`Training on all ${examples.length} proteins`);
+  const head: ClassifierHead = {
+    version: new Date().toISOString().slice(0, 10),
+    model: index.model,
+    layers: index.layers,
+    ...trainClassifierHead(examples, labels, { ...training, onEpoch: log }),
+  };
+
+  // Six significant digits keeps the file small without affecting predictions
+  fs.writeFileSync(
+    out,
+    JSON.stringify(head, (_, value) =>
+      typeof value === "number" ? Number(value.toPrecision(6)) : value
+    )
+  );
+  console.log(`Wrote ${out}`);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
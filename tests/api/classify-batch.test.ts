@@ -0,0 +1,133 @@
+import { NextRequest } from "next/server";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/classify/batch/route";
+import { fetchUniProtEntry } from "@/lib/protein-api";
+
+// Keep UniProt offline; the rest of the module is used by the pipeline
+vi.mock("@/lib/protein-api", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/protein-api")>()),
+  fetchUniProtEntry: vi.fn(),
+}));
+
+const HBA =
+  "MVLSPADKTNVKAAWGKVGAHAGEYGAEALERMFLSFPTTKTYFPHFDLSHGSAQVKGHGKKVADALTNAVAHVDDMPNALSALSDLHAHKLRVDPVNFKLLSHCLLVTLAAHLPAEFTPAVHASLDKFLASVSTVLTSKYR";
+const INS =
+  "MALWMRLLPLLALLALWGPDPAAAFVNQHLCGSHLVEALYLVCGERGFFYTPKTRREAEDLQVGQVELGGGPGAGSLQPLALEGSLQKRGIVEQCCTSICSLYQLENYCN";
+
+function batch(body: unknown) {
+  return POST(
+    new NextRequest("http://localhost/api/classify/batch", {
+      method: "POST",
+      body: JSON.stringify(body),
+    })
+  );
+}
+
+beforeEach(() => {
+  vi.mocked(fetchUniProtEntry).mockReset();
+});
+
+describe("POST /api/classify/batch", () => {
+  it("classifies every FASTA record with the mock provider", async () => {
+    const response = await batch({
+      fasta: `>sp|P69905|HBA_HUMAN Hemoglobin subunit alpha\n${HBA}\n>ins\n${INS}\n`,
+      model: "8m",
+    });
+    const { data } = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({ total: 2, succeeded: 2, failed: 0 });
+    expect(
+      data.results.map((r: { sequenceId: string }) => r.sequenceId)
+    ).toEqual(["P69905", "ins"]);
+    expect(data.results[0].data.embeddingStats).toMatchObject({
+      dimension: 320,
+      layers: [6],
+    });
+  });
+
+  it("passes pH, hydropathyScale and perResidue to every record", async () => {
+    const response = await batch({
+      fasta: HBA,
+      model: "8m",
+      pH: 5,
+      hydropathyScale: "eisenberg",
+      perResidue: true,
+    });
+    const [result] = (await response.json()).data.results;
+
+    expect(result.status).toBe("ok");
+    expect(result.data.properties.charge.pH).toBe(5);
+    expect(result.data.hydropathy.profile.scale).toBe("eisenberg");
+    expect(result.data.residueTracks.length).toBeGreaterThan(0);
+  });
+
+  it("reports failing records without failing the batch", async () => {
+    const response = await batch({
+      fasta: `>good\n${HBA}\n>bad\nMKVJJJJJJJJJJ\n`,
+      model: "8m",
+    });
+    const { data } = await response.json();
+
+    expect(data).toMatchObject({ succeeded: 1, failed: 1 });
+    expect(data.results[1]).toMatchObject({
+      index: 1,
+      sequenceId: "bad",
+      status: "error",
+    });
+    expect(data.results[1].error).toContain("J4");
+  });
+
+  it("fetches UniProt accessions", async () => {
+    vi.mocked(fetchUniProtEntry).mockImplementation(async (id: string) => {
+      if (id === "P01308") {
+        return { primaryAccession: "P01308", sequence: { value: INS } };
+      }
+      throw new Error(`UniProt entry ${id} not found`);
+    });
+
+    const response = await batch({
+      uniprotIds: ["P01308", " ", "P99999"],
+      model: "8m",
+    });
+    const { data } = await response.json();
+
+    expect(data.total).toBe(2);
+    expect(data.results[0]).toMatchObject({
+      sequenceId: "P01308",
+      status: "ok",
+    });
+    expect(data.results[1]).toMatchObject({
+      sequenceId: "P99999",
+      status: "error",
+      error: "UniProt entry P99999 not found",
+    });
+  });
+
+  it.each([
+    [{}, "Either fasta or a non-empty uniprotIds array is required"],
+    [{ fasta: HBA, pH: 15 }, "pH must be a number between 0 and 14"],
+    [{ fasta: HBA, pH: "7" }, "pH must be a number between 0 and 14"],
+    [
+      { fasta: HBA, hydropathyScale: "hopp-woods" },
+      "hydropathyScale must be one of",
+    ],
+    [{ fasta: HBA, model: "3b" }, 'Unknown ESM-2 model "3b"'],
+    [{ fasta: HBA, model: "8m", layers: [7] }, "Layer 7 not present"],
+    [{ uniprotIds: [" "] }, "No sequences found in request"],
+  ])("rejects %j with a 400", async (body, message) => {
+    const response = await batch(body);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain(message);
+  });
+
+  it("limits the number of records", async () => {
+    const response = await batch({
+      uniprotIds: Array.from({ length: 501 }, (_, i) => `P${i}`),
+    });
+
+    expect(response.status).toBe(400);
+    expect(fetchUniProtEntry).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,167 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import {
+  MIN_CALIBRATION_POINTS,
+  applyCalibration,
+  buildCalibration,
+  calibrateConfidence,
+  fitIsotonic,
+  fitPlatt,
+  loadCalibration,
+  type CalibrationPoint,
+} from "@/lib/calibration";
+import { category } from "./fixtures";
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "calibration-"));
+
+afterAll(() => {
+  fs.rmSync(tmp, { recursive: true, force: true });
+});
+
+function points(pairs: [number, boolean][]): CalibrationPoint[] {
+  return pairs.map(([score, correct]) => ({ score, correct }));
+}
+
+// Correct whenever the score exceeds a threshold, with some noise around it
+function synthetic(count: number): CalibrationPoint[] {
+  return Array.from({ length: count }, (_, i) => {
+    const score = i / (count - 1);
+    return { score, correct: score > 0.5 ? i % 5 !== 0 : i % 5 === 0 };
+  });
+}
+
+describe("fitIsotonic", () => {
+  it("pools adjacent violators into a non-decreasing step function", () => {
+    const model = fitIsotonic(
+      points([
+        [0.1, false],
+        [0.2, true],
+        [0.3, false],
+        [0.4, true],
+        [0.5, true],
+      ])
+    );
+
+    expect(model).toEqual({
+      method: "isotonic",
+      thresholds: [0.1, 0.2, 0.4],
+      values: [0, 0.5, 1],
+    });
+  });
+
+  it("maps scores through the steps", () => {
+    const model = fitIsotonic(
+      points([
+        [0.2, false],
+        [0.6, true],
+      ])
+    );
+
+    expect(applyCalibration(model, 0.1)).toBe(0);
+    expect(applyCalibration(model, 0.59)).toBe(0);
+    expect(applyCalibration(model, 0.6)).toBe(1);
+    expect(applyCalibration(model, 0.9)).toBe(1);
+  });
+});
+
+describe("fitPlatt", () => {
+  it("fits an increasing sigmoid", () => {
+    const model = fitPlatt(synthetic(100));
+
+    expect(model.method).toBe("platt");
+    expect(applyCalibration(model, 0.9)).toBeGreaterThan(0.7);
+    expect(applyCalibration(model, 0.1)).toBeLessThan(0.3);
+    expect(applyCalibration(model, 0.5)).toBeCloseTo(0.5, 1);
+  });
+
+  it("stays finite on separable data", () => {
+    const model = fitPlatt(
+      points([
+        [0.1, false],
+        [0.2, false],
+        [0.8, true],
+        [0.9, true],
+      ])
+    );
+    expect(model.method === "platt" && Number.isFinite(model.a)).toBe(true);
+  });
+});
+
+describe("buildCalibration", () => {
+  it("fits sources with enough mixed outcomes and a fallback for the rest", () => {
+    const calibration = buildCalibration(
+      new Map([
+        ["rule-a", synthetic(MIN_CALIBRATION_POINTS)],
+        ["rule-b", synthetic(MIN_CALIBRATION_POINTS - 1)],
+        [
+          "rule-c",
+          synthetic(MIN_CALIBRATION_POINTS).map((p) => ({
+            ...p,
+            correct: true,
+          })),
+        ],
+      ]),
+      synthetic(30),
+      "isotonic"
+    );
+
+    expect(Object.keys(calibration.models)).toEqual(["rule-a"]);
+    expect(calibration.fallback?.method).toBe("isotonic");
+    expect(calibration.overall).toBeDefined();
+  });
+
+  it("calibrates predictions by their source", () => {
+    const calibration = buildCalibration(
+      new Map([["rule-a", synthetic(40)]]),
+      [],
+      "platt"
+    );
+    const ruled = { ...category("GO:0004672", 0.9), ruleId: "rule-a" };
+    const transferred = category("GO:0004672", 0.9);
+
+    expect(calibrateConfidence(calibration, ruled)).not.toBe(0.9);
+    expect(calibrateConfidence(calibration, transferred)).toBe(
+      calibrateConfidence(calibration, ruled)
+    );
+    expect(
+      calibrateConfidence({ ...calibration, fallback: undefined }, transferred)
+    ).toBe(0.9);
+  });
+});
+
+describe("loadCalibration", () => {
+  it("round-trips a fitted file", () => {
+    const file = path.join(tmp, "calibration.json");
+    const calibration = buildCalibration(
+      new Map([["rule-a", synthetic(40)]]),
+      synthetic(40),
+      "isotonic"
+    );
+    fs.writeFileSync(file, JSON.stringify(calibration));
+
+    expect(loadCalibration(file)).toEqual(
+      JSON.parse(JSON.stringify(calibration))
+    );
+  });
+
+  it("lists what is wrong with an invalid file", () => {
+    const file = path.join(tmp, "invalid.json");
+    fs.writeFileSync(
+      file,
+      JSON.stringify({
+        version: "1",
+        models: {
+          a: { method: "platt", a: "1", b: 0 },
+          b: { method: "isotonic", thresholds: [0], values: [] },
+          c: { method: "beta" },
+        },
+      })
+    );
+
+    expect(() => loadCalibration(file)).toThrow(
+      /models\.a: platt.*models\.b: isotonic.*models\.c: unknown method "beta"/
+    );
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import {
+  annotateFromHead,
+  buildClassifierHead,
+  predictWithHead,
+  trainClassifierHead,
+  type HeadPrediction,
+} from "@/lib/classifier-head";
+import type { ReferenceGoTerm } from "@/lib/reference-index";
+
+const KINASE: ReferenceGoTerm = {
+  id: "GO:0004672",
+  name: "protein kinase activity",
+  aspect: "molecular_function",
+};
+const MEMBRANE: ReferenceGoTerm = {
+  id: "GO:0016020",
+  name: "membrane",
+  aspect: "cellular_component",
+};
+
+// Two separable clusters, one per label
+const EXAMPLES = Array.from({ length: 40 }, (_, i) => {
+  const kinase = i % 2 === 0;
+  const jitter = ((i * 7) % 10) / 50;
+  return {
+    embedding: kinase ? [1 + jitter, -jitter] : [-jitter, 1 + jitter],
+    labels: [kinase ? KINASE.id : MEMBRANE.id],
+  };
+});
+
+function train(hidden: number) {
+  return buildClassifierHead({
+    version: "test",
+    model: "test",
+    ...trainClassifierHead(EXAMPLES, [KINASE, MEMBRANE], {
+      hidden,
+      epochs: 200,
+      learningRate: 0.05,
+      batchSize: 8,
+      seed: 7,
+    }),
+  });
+}
+
+describe("trainClassifierHead", () => {
+  it.each([0, 4])("separates the clusters with %i hidden units", (hidden) => {
+    const head = train(hidden);
+
+    expect(head.network).toHaveLength(hidden > 0 ? 2 : 1);
+    expect(predictWithHead(head, [1, 0])[0]).toMatchObject({ term: KINASE });
+    expect(predictWithHead(head, [0, 1])[0]).toMatchObject({ term: MEMBRANE });
+    expect(predictWithHead(head, [1, 0])[0].probability).toBeGreaterThan(0.9);
+  });
+
+  it("is deterministic for a seed", () => {
+    expect(train(4).network).toEqual(train(4).network);
+  });
+
+  it("refuses to train without examples", () => {
+    expect(() => trainClassifierHead([], [KINASE])).toThrow(
+      "No training examples"
+    );
+  });
+});
+
+describe("buildClassifierHead", () => {
+  const valid = {
+    version: "test",
+    model: "test",
+    dimension: 2,
+    labels: [KINASE],
+    mean: [0, 0],
+    std: [1, 1],
+    network: [{ weights: [[1, 0]], bias: [0] }],
+  };
+
+  it("accepts a consistent head", () => {
+    expect(buildClassifierHead(valid)).toEqual(valid);
+  });
+
+  it("rejects inconsistent shapes", () => {
+    expect(() => buildClassifierHead({ ...valid, std: [1] })).toThrow(
+      `"std" must have 2 values`
+    );
+    expect(() =>
+      buildClassifierHead({
+        ...valid,
+        network: [{ weights: [[1, 0, 0]], bias: [0] }],
+      })
+    ).toThrow("network[0]: expected 1 x 2 weights");
+  });
+
+  it("checks the output layer against the labels", () => {
+    expect(() =>
+      buildClassifierHead({
+        version: "test",
+        model: "test",
+        dimension: 1,
+        labels: [KINASE, MEMBRANE],
+        mean: [0],
+        std: [1],
+        network: [{ weights: [[1]], bias: [0] }],
+      })
+    ).toThrow("output layer has 1 units for 2 labels");
+  });
+});
+
+describe("predictWithHead", () => {
+  it("rejects embeddings of another dimension", () => {
+    expect(() => predictWithHead(train(0), [1, 0, 0])).toThrow(
+      "Embedding dimension 3 does not match classifier head dimension 2"
+    );
+  });
+});
+
+describe("annotateFromHead", () => {
+  const predictions: HeadPrediction[] = [
+    { term: KINASE, probability: 0.9 },
+    { term: { ...KINASE, id: "GO:0016301" }, probability: 0.8 },
+    { term: MEMBRANE, probability: 0.6 },
+    { term: { ...MEMBRANE, id: "GO:0005886" }, probability: 0.2 },
+  ];
+
+  it("keeps the best few per aspect above the threshold", () => {
+    const categories = annotateFromHead(predictions, {
+      maxPerAspect: 1,
+      version: "v1",
+    });
+
+    expect(categories.map((c) => [c.id, c.confidence])).toEqual([
+      ["GO:0004672", 0.9],
+      ["GO:0016020", 0.6],
+    ]);
+    expect(categories[0]).toMatchObject({ headBased: true });
+    expect(categories[0].evidence[0].label).toBe(
+      "Classifier head v1: p = 0.900"
+    );
+  });
+
+  it("stops at the minimum confidence", () => {
+    expect(annotateFromHead(predictions, { minConfidence: 0.7 })).toHaveLength(
+      2
+    );
+  });
+});
@@ -0,0 +1,214 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import {
+  DEFAULT_EC_RULES_PATH,
+  loadEcRules,
+  predictEcNumbers,
+  type EcRuleSet,
+} from "@/lib/ec-prediction";
+import {
+  parseEnzymeClasses,
+  parseEnzymeDat,
+  type EnzymeDatabase,
+} from "@/lib/enzyme";
+import type { DomainHit } from "@/lib/hmmer";
+import { searchDatabase } from "@/lib/homology-search";
+import { loadSequenceDatabase } from "@/lib/sequence-database";
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "ec-rules-"));
+
+afterAll(() => {
+  fs.rmSync(tmp, { recursive: true, force: true });
+});
+
+const ENZYME_DAT = `CC   ENZYME nomenclature database
+CC   Release of 17-Jan-2024
+//
+ID   2.7.11.11
+DE   cAMP-dependent protein kinase.
+CA   ATP + L-seryl-[protein] = ADP + H(+) + O-phospho-L-seryl-[protein].
+DR   P17612, KAPCA_HUMAN;
+//
+ID   3.2.1.17
+DE   Lysozyme.
+DR   P61626, LYSC_HUMAN;  P00698, LYSC_CHICK;
+//
+ID   3.2.1.99
+DE   Deleted entry.
+DR   Q00001, TEST_HUMAN;
+//
+`;
+
+const ENZCLASS = `
+ 2. -. -.-  Transferases.
+ 2. 7. -.-   Transferring phosphorus-containing groups.
+ 2. 7.11.-    Protein-serine/threonine kinases.
+`;
+
+const database: EnzymeDatabase = {
+  ...parseEnzymeDat(ENZYME_DAT),
+  classes: parseEnzymeClasses(ENZCLASS),
+};
+
+const rules: EcRuleSet = {
+  version: "test",
+  rules: [
+    {
+      id: "kinase-motif",
+      ec: "2.7.11.-",
+      motif: "PS00108",
+      confidence: 0.75,
+      description: "kinase active site",
+    },
+    {
+      id: "kinase-domain",
+      ec: "2.7.11.-",
+      domain: "PF00069",
+      confidence: 0.6,
+      description: "kinase domain",
+    },
+  ],
+};
+
+const KINASE_MOTIF = {
+  id: "PS00108",
+  name: "PROTEIN_KINASE_ST",
+  start: 164,
+  end: 176,
+  match: "YRDLKPENLLIDQ",
+};
+
+const KINASE_DOMAIN: DomainHit = {
+  accession: "PF00069.28",
+  name: "Pkinase",
+  description: "Protein kinase domain",
+  seqFrom: 44,
+  seqTo: 298,
+  hmmFrom: 1,
+  hmmTo: 264,
+  modelLength: 264,
+  score: 200,
+  evalue: 1e-60,
+  sequenceScore: 200,
+  sequenceEvalue: 1e-60,
+};
+
+describe("predictEcNumbers", () => {
+  it("assigns rule EC numbers from motif and domain hits", () => {
+    const [prediction, ...rest] = predictEcNumbers(
+      { motifs: [KINASE_MOTIF], domains: [KINASE_DOMAIN] },
+      { rules }
+    );
+
+    expect(rest).toEqual([]);
+    // Two rules are one kind of evidence: the best score counts, no boost
+    expect(prediction).toMatchObject({
+      ec: "2.7.11.-",
+      level: 3,
+      confidence: 0.75,
+      classPath: ["Transferases"],
+    });
+    expect(prediction.evidence.map((e) => e.ruleId)).toEqual([
+      "kinase-motif",
+      "kinase-domain",
+    ]);
+  });
+
+  it("combines independent kinds of evidence by noisy-OR", () => {
+    const predictions = predictEcNumbers(
+      {
+        motifs: [KINASE_MOTIF],
+        neighbours: [
+          { accession: "P17612", name: "", similarity: 0.8, goTerms: [] },
+        ],
+      },
+      { rules, database }
+    );
+
+    expect(predictions.map((p) => [p.ec, p.confidence])).toEqual([
+      ["2.7.11.-", 0.95],
+      ["2.7.11.11", 0.8],
+    ]);
+    expect(predictions[0].classPath).toEqual([
+      "Transferases",
+      "Transferring phosphorus-containing groups",
+      "Protein-serine/threonine kinases",
+    ]);
+    expect(predictions[1]).toMatchObject({
+      name: "cAMP-dependent protein kinase",
+      reactions: [expect.stringContaining("ATP + L-seryl-[protein]")],
+    });
+  });
+
+  it("transfers EC numbers from significant homologs", () => {
+    const sequences = loadSequenceDatabase(
+      path.join(process.cwd(), "data", "sequence-db.fasta")
+    );
+    const lysozyme = sequences.entries.find((e) => e.accession === "P61626")!;
+    const homologs = searchDatabase(lysozyme.sequence, sequences);
+
+    const [prediction] = predictEcNumbers({ homologs }, { rules, database });
+
+    // The full number is as confident as its sub-subclass, which is dropped
+    expect(prediction).toMatchObject({ ec: "3.2.1.17", confidence: 1 });
+    expect(prediction.evidence.map((e) => e.accession)).toEqual(
+      expect.arrayContaining(["P61626", "P00698"])
+    );
+  });
+
+  it("ignores deleted entries and transfers without a database", () => {
+    const neighbours = [
+      { accession: "Q00001", name: "", similarity: 0.9, goTerms: [] },
+      { accession: "P17612", name: "", similarity: 0.9, goTerms: [] },
+    ];
+
+    // Half the neighbour weight, scaled by the closest similarity
+    expect(
+      predictEcNumbers({ neighbours }, { rules, database }).map((p) => [
+        p.ec,
+        p.confidence,
+      ])
+    ).toEqual([["2.7.11.11", 0.45]]);
+    expect(predictEcNumbers({ neighbours }, { rules })).toEqual([]);
+  });
+});
+
+describe("loadEcRules", () => {
+  it("loads the bundled rules", () => {
+    expect(loadEcRules(DEFAULT_EC_RULES_PATH).rules.length).toBeGreaterThan(0);
+  });
+
+  it("lists what is wrong with each rule", () => {
+    const file = path.join(tmp, "invalid.json");
+    fs.writeFileSync(
+      file,
+      JSON.stringify({
+        version: "1",
+        rules: [
+          { id: "a", ec: "2.7.11.-", motif: "PS0010", confidence: 0.5 },
+          { id: "b", ec: "2.7.11.-", domain: 69, confidence: 0.5 },
+          {
+            id: "c",
+            ec: "2.7.11.-",
+            motif: "PS00108",
+            domain: "PF00069",
+            confidence: 0.5,
+          },
+          { id: "d", ec: "2.7.x.1", domain: "PF00069", confidence: 1.5 },
+        ],
+      })
+    );
+
+    expect(() => loadEcRules(file)).toThrow(
+      [
+        `rules[0] (a): "motif" must be a PROSITE accession (PS00000)`,
+        `rules[1] (b): "domain" must be a Pfam accession (PF00000)`,
+        `rules[2] (c): set exactly one of "motif" or "domain"`,
+        `rules[3] (d): "ec" must look like 1.2.3.4 or 1.2.3.-`,
+        `rules[3] (d): "confidence" must be in (0, 1]`,
+      ].join("; ")
+    );
+  });
+});
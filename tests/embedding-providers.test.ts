@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createEmbeddingProvider,
+  getEmbeddingProvider,
+} from "@/lib/embedding-providers";
+import {
+  ESM2_MODELS,
+  EmbeddingRequestError,
+  parseESM2Response,
+  resolveEmbeddingRequest,
+} from "@/lib/esm2-embeddings";
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe("getEmbeddingProvider", () => {
+  it("selects the provider named by EMBEDDING_PROVIDER", () => {
+    vi.stubEnv("EMBEDDING_PROVIDER", " Mock ");
+    expect(getEmbeddingProvider().name).toBe("mock");
+  });
+
+  it("defaults to biolm when unset", () => {
+    vi.stubEnv("EMBEDDING_PROVIDER", "");
+    expect(getEmbeddingProvider().name).toBe("biolm");
+  });
+
+  it("reuses the provider until the configuration changes", () => {
+    vi.stubEnv("EMBEDDING_PROVIDER", "mock");
+    const first = getEmbeddingProvider();
+    expect(getEmbeddingProvider()).toBe(first);
+
+    vi.stubEnv("EMBEDDING_PROVIDER", "biolm");
+    expect(getEmbeddingProvider()).not.toBe(first);
+  });
+
+  it("rejects unknown providers", () => {
+    vi.stubEnv("EMBEDDING_PROVIDER", "openai");
+    expect(() => getEmbeddingProvider()).toThrow(
+      'Unknown embedding provider "openai"'
+    );
+  });
+});
+
+describe("mock provider", () => {
+  const provider = createEmbeddingProvider("mock");
+
+  it("returns deterministic embeddings of the model dimension", async () => {
+    const first = await provider.embed("MKTAYIAKQR", { layers: [12] });
+    const second = await provider.embed("MKTAYIAKQR", { layers: [12] });
+    const embedding = parseESM2Response(first, 12);
+
+    expect(embedding).toHaveLength(ESM2_MODELS["35m"].dimension);
+    expect(embedding).toEqual(parseESM2Response(second, 12));
+  });
+
+  it("fails to parse a layer that was not requested", async () => {
+    const response = await provider.embed("MKTAYIAKQR", { layers: [6] });
+    expect(() => parseESM2Response(response, 12)).toThrow();
+  });
+
+  it("returns one vector per residue when asked", async () => {
+    const response = await provider.embed("MKTAY", {
+      layers: [12],
+      perResidue: true,
+    });
+    expect(
+      response.results[0].per_token_embeddings?.[0].embeddings
+    ).toHaveLength(5);
+  });
+});
+
+describe("resolveEmbeddingRequest", () => {
+  it("defaults to the final layer of the model", () => {
+    const { model, layers } = resolveEmbeddingRequest("8m");
+    expect(layers).toEqual([model.layers]);
+  });
+
+  it("rejects layers beyond the model depth", () => {
+    expect(() => resolveEmbeddingRequest("8m", [99])).toThrow(
+      EmbeddingRequestError
+    );
+  });
+});
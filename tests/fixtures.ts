@@ -0,0 +1,95 @@
+import type { FunctionalCategory } from "@/lib/classification-engine";
+import type { GoAspect } from "@/lib/go-rules";
+
+// Small GO fragment: a kinase branch of molecular_function and the nucleus
+// branch of cellular_component, with alt ids and obsolete terms
+export const TEST_OBO = `format-version: 1.2
+data-version: releases/2024-01-17
+
+[Term]
+id: GO:0003674
+name: molecular_function
+namespace: molecular_function
+
+[Term]
+id: GO:0003824
+name: catalytic activity
+namespace: molecular_function
+is_a: GO:0003674 ! molecular_function
+
+[Term]
+id: GO:0016301
+name: kinase activity
+namespace: molecular_function
+is_a: GO:0003824 ! catalytic activity
+
+[Term]
+id: GO:0004672
+name: protein kinase activity
+namespace: molecular_function
+is_a: GO:0016301 ! kinase activity
+
+[Term]
+id: GO:0004674
+name: protein serine/threonine kinase activity
+namespace: molecular_function
+alt_id: GO:0099999
+is_a: GO:0004672 ! protein kinase activity
+
+[Term]
+id: GO:0000001
+name: obsolete kinase term
+namespace: molecular_function
+is_obsolete: true
+replaced_by: GO:0004672
+
+[Term]
+id: GO:0000002
+name: obsolete unreplaced term
+namespace: molecular_function
+is_obsolete: true
+
+[Term]
+id: GO:0005575
+name: cellular_component
+namespace: cellular_component
+
+[Term]
+id: GO:0043231
+name: intracellular membrane-bounded organelle
+namespace: cellular_component
+is_a: GO:0005575 ! cellular_component
+
+[Term]
+id: GO:0005634
+name: nucleus
+namespace: cellular_component
+is_a: GO:0043231 ! intracellular membrane-bounded organelle
+
+[Term]
+id: GO:0005654
+name: nucleoplasm
+namespace: cellular_component
+relationship: part_of GO:0005634 ! nucleus
+
+[Typedef]
+id: part_of
+name: part of
+`;
+
+export function category(
+  id: string,
+  confidence = 0.5,
+  type: GoAspect = "molecular_function"
+): FunctionalCategory {
+  return {
+    id,
+    name: id,
+    type,
+    confidence,
+    description: "",
+    examples: [],
+    references: { geneOntology: id },
+    evidence: [],
+  };
+}
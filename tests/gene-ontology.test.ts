@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseObo,
+  reconcileWithOntology,
+  resolveTerm,
+  termAncestors,
+  termLineage,
+} from "@/lib/gene-ontology";
+import { TEST_OBO, category } from "./fixtures";
+
+const ontology = parseObo(TEST_OBO);
+
+describe("parseObo", () => {
+  it("reads terms, relations and the release", () => {
+    expect(ontology.version).toBe("releases/2024-01-17");
+    expect(ontology.terms.size).toBe(11);
+    expect(ontology.terms.has("part_of")).toBe(false);
+    expect(ontology.terms.get("GO:0005654")?.parents).toEqual([
+      { id: "GO:0005634", relation: "part_of" },
+    ]);
+    expect(ontology.altIds.get("GO:0099999")).toBe("GO:0004674");
+  });
+
+  it("rejects terms without a namespace", () => {
+    expect(() => parseObo("[Term]\nid: GO:1\nname: x\n")).toThrow(
+      "GO term GO:1 is missing a name or namespace"
+    );
+  });
+});
+
+describe("resolveTerm", () => {
+  it("follows alt ids and replacements", () => {
+    expect(resolveTerm(ontology, "GO:0099999")?.id).toBe("GO:0004674");
+    expect(resolveTerm(ontology, "GO:0000001")?.id).toBe("GO:0004672");
+  });
+
+  it("drops unknown and unreplaced obsolete terms", () => {
+    expect(resolveTerm(ontology, "GO:0000002")).toBeNull();
+    expect(resolveTerm(ontology, "GO:1234567")).toBeNull();
+  });
+});
+
+describe("termAncestors and termLineage", () => {
+  it("walks is_a and part_of edges", () => {
+    expect([...termAncestors(ontology, "GO:0005654")].sort()).toEqual([
+      "GO:0005575",
+      "GO:0005634",
+      "GO:0043231",
+    ]);
+  });
+
+  it("lists the path from the aspect root", () => {
+    expect(termLineage(ontology, "GO:0004672").map((s) => s.id)).toEqual([
+      "GO:0003674",
+      "GO:0003824",
+      "GO:0016301",
+      "GO:0004672",
+    ]);
+    expect(termLineage(ontology, "GO:0005654").at(-1)).toMatchObject({
+      id: "GO:0005654",
+      relation: "part_of",
+    });
+  });
+});
+
+describe("reconcileWithOntology", () => {
+  it("propagates confidence to unpredicted ancestors but not the roots", () => {
+    const { propagated } = reconcileWithOntology(
+      [category("GO:0004674", 0.8), category("GO:0004672", 0.6)],
+      ontology
+    );
+
+    expect(propagated.map((t) => t.id).sort()).toEqual([
+      "GO:0003824",
+      "GO:0016301",
+    ]);
+    expect(propagated.find((t) => t.id === "GO:0016301")).toMatchObject({
+      confidence: 0.8,
+      from: ["GO:0004674", "GO:0004672"],
+    });
+  });
+
+  it("raises a predicted ancestor to its descendant's confidence", () => {
+    const { categories } = reconcileWithOntology(
+      [category("GO:0004674", 0.8), category("GO:0016301", 0.3)],
+      ontology
+    );
+    expect(categories.find((c) => c.id === "GO:0016301")?.confidence).toBe(0.8);
+  });
+
+  it("replaces obsolete ids, merges duplicates and drops unknown terms", () => {
+    const { categories, notes } = reconcileWithOntology(
+      [
+        category("GO:0000001", 0.7),
+        category("GO:0004672", 0.4),
+        category("GO:0000002"),
+        category("GO:1234567"),
+      ],
+      ontology
+    );
+
+    expect(categories).toHaveLength(1);
+    expect(categories[0]).toMatchObject({
+      id: "GO:0004672",
+      replacedId: "GO:0000001",
+      confidence: 0.7,
+    });
+    expect(notes).toEqual([
+      expect.stringContaining("GO:0000001"),
+      expect.stringContaining("GO:0000002 (GO:0000002) is obsolete"),
+      expect.stringContaining("GO:1234567 (GO:1234567) is not in the ontology"),
+    ]);
+  });
+});
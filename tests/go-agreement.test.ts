@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import type { ClassificationResult } from "@/lib/classification-engine";
+import { parseObo } from "@/lib/gene-ontology";
+import { compareWithUniProt } from "@/lib/go-agreement";
+import type { UniProtGoTerm } from "@/lib/uniprot-parser";
+import { TEST_OBO, category } from "./fixtures";
+
+const ontology = parseObo(TEST_OBO);
+
+function classification(ids: string[]): ClassificationResult {
+  return {
+    sequence: "M",
+    sequenceId: "P00000",
+    length: 1,
+    primaryFunctions: ids.map((id) => category(id)),
+    secondaryFunctions: [],
+    confidence: 0.5,
+    notes: [],
+  };
+}
+
+function curated(id: string): UniProtGoTerm {
+  return { id, name: id, aspect: "molecular_function", ecoCodes: [] };
+}
+
+describe("compareWithUniProt", () => {
+  it("confirms exact matches, including through alt ids", () => {
+    const agreement = compareWithUniProt(
+      classification(["GO:0099999"]),
+      "P00000",
+      [curated("GO:0004674")],
+      ontology
+    );
+
+    expect(agreement.predictions[0].status).toBe("confirmed");
+    expect(agreement.missed).toEqual([]);
+  });
+
+  it("marks ancestors as related without covering the curated term", () => {
+    const agreement = compareWithUniProt(
+      classification(["GO:0016301"]),
+      "P00000",
+      [curated("GO:0004672")],
+      ontology
+    );
+
+    expect(agreement.predictions[0]).toMatchObject({
+      status: "related",
+      relatedTo: [{ id: "GO:0004672", relation: "ancestor" }],
+    });
+    expect(agreement.missed.map((t) => t.id)).toEqual(["GO:0004672"]);
+  });
+
+  it("counts a more specific prediction as covering the curated term", () => {
+    const agreement = compareWithUniProt(
+      classification(["GO:0004674"]),
+      "P00000",
+      [curated("GO:0016301")],
+      ontology
+    );
+
+    expect(agreement.predictions[0].relatedTo[0].relation).toBe("descendant");
+    expect(agreement.missed).toEqual([]);
+  });
+
+  it("falls back to exact matching without an ontology", () => {
+    const agreement = compareWithUniProt(
+      classification(["GO:0004674", "GO:0005634"]),
+      "P00000",
+      [curated("GO:0016301")]
+    );
+
+    expect(agreement.ontologyUsed).toBe(false);
+    expect(agreement.predictions.map((p) => p.status)).toEqual([
+      "novel",
+      "novel",
+    ]);
+    expect(agreement.curatedCount).toBe(1);
+    expect(agreement.missed).toHaveLength(1);
+  });
+});
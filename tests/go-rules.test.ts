@@ -0,0 +1,198 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import {
+  DEFAULT_RULES_PATH,
+  RuleSetValidationError,
+  evaluateRules,
+  loadRuleSet,
+  validateRuleSet,
+  type GoRule,
+  type RuleContext,
+} from "@/lib/go-rules";
+import { getPrositeLibrary } from "@/lib/prosite";
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "go-rules-"));
+
+afterAll(() => {
+  fs.rmSync(tmp, { recursive: true, force: true });
+});
+
+function rule(overrides: Partial<GoRule> = {}): GoRule {
+  return {
+    id: "basic",
+    tier: "primary",
+    go: { id: "GO:0003677", name: "DNA binding", aspect: "molecular_function" },
+    description: "",
+    examples: [],
+    when: { feature: "stats.netCharge", op: ">", value: 5 },
+    confidence: { base: 0.5 },
+    ...overrides,
+  };
+}
+
+function issuesOf(data: unknown, motifIds?: ReadonlySet<string>): string[] {
+  try {
+    validateRuleSet(data, "test", motifIds);
+  } catch (error) {
+    if (error instanceof RuleSetValidationError) return error.issues;
+    throw error;
+  }
+  return [];
+}
+
+describe("validateRuleSet", () => {
+  it("accepts a well-formed rule set", () => {
+    const ruleSet = { version: "1", rules: [rule()] };
+    expect(validateRuleSet(ruleSet)).toBe(ruleSet);
+  });
+
+  it("rejects non-object roots and missing rule arrays", () => {
+    expect(issuesOf(null)).toEqual(["root must be an object"]);
+    expect(issuesOf({ version: "1" })).toEqual([`"rules" must be an array`]);
+  });
+
+  it("reports every problem with the rule it belongs to", () => {
+    const issues = issuesOf({
+      version: "1",
+      rules: [
+        rule(),
+        rule({
+          tier: "tertiary" as GoRule["tier"],
+          go: { id: "GO:1", name: "", aspect: "molecular_function" },
+        }),
+        rule({
+          id: "typo",
+          when: { feature: "stats.netcharge", op: ">", value: 5 },
+        }),
+        rule({
+          id: "bad-op",
+          when: {
+            all: [
+              { feature: "stats.length", op: "=>" as ">", value: 1 },
+              { pattern: "[" },
+            ],
+          },
+        }),
+      ],
+    });
+
+    expect(issues).toEqual(
+      expect.arrayContaining([
+        "rules[1] (basic): duplicate rule id",
+        `rules[1] (basic): "tier" must be "primary" or "secondary"`,
+        "rules[1] (basic): go.id must look like GO:0000000",
+        "rules[1] (basic): go.name must be a non-empty string",
+        expect.stringMatching(
+          /^rules\[2\] \(typo\).*unknown feature "stats\.netcharge"/
+        ),
+        expect.stringMatching(/^rules\[3\] \(bad-op\)/),
+      ])
+    );
+    expect(issues.filter((i) => i.startsWith("rules[3]"))).toHaveLength(2);
+  });
+
+  it("checks motif accessions against the library when given", () => {
+    const data = {
+      version: "1",
+      rules: [rule({ when: { motif: "PS99999" } })],
+    };
+
+    expect(issuesOf(data)).toEqual([]);
+    expect(issuesOf(data, new Set(["PS00108"]))).toEqual([
+      expect.stringContaining("motif PS99999 is not in the PROSITE library"),
+    ]);
+  });
+});
+
+describe("loadRuleSet", () => {
+  it("loads the bundled rules against the bundled PROSITE library", () => {
+    const motifIds = new Set(getPrositeLibrary().map((m) => m.id));
+    expect(
+      loadRuleSet(DEFAULT_RULES_PATH, motifIds).rules.length
+    ).toBeGreaterThan(0);
+  });
+
+  it("reports unreadable files with their path", () => {
+    const file = path.join(tmp, "broken.json");
+    fs.writeFileSync(file, "{ not json");
+    expect(() => loadRuleSet(file)).toThrow(
+      `Failed to read GO rule set ${file}`
+    );
+  });
+
+  it("reports validation problems with their path", () => {
+    const file = path.join(tmp, "invalid.json");
+    fs.writeFileSync(file, JSON.stringify({ version: "", rules: [] }));
+    expect(() => loadRuleSet(file)).toThrow(RuleSetValidationError);
+    expect(() => loadRuleSet(file)).toThrow(file);
+  });
+});
+
+describe("evaluateRules", () => {
+  const context: RuleContext = {
+    sequence: "MKRKRKRKHHHH",
+    stats: { netCharge: 8, length: 12 },
+    motifs: [
+      { id: "PS00108", name: "kinase", start: 1, end: 5, match: "MKRKR" },
+    ],
+  };
+
+  it("fires rules whose condition holds and records the triggers", () => {
+    const [match] = evaluateRules({ version: "1", rules: [rule()] }, context);
+    expect(match.confidence).toBe(0.5);
+    expect(match.triggers).toEqual([
+      { feature: "stats.netCharge", op: ">", threshold: 5, value: 8 },
+    ]);
+  });
+
+  it("combines patterns, motifs and negation", () => {
+    const matches = evaluateRules(
+      {
+        version: "1",
+        rules: [
+          rule({
+            id: "combined",
+            when: {
+              all: [
+                { pattern: "H{4}$" },
+                { motif: "PS00108" },
+                { not: { feature: "stats.length", op: "<", value: 10 } },
+              ],
+            },
+          }),
+          rule({ id: "two-hits", when: { motif: "PS00108", minHits: 2 } }),
+          rule({
+            id: "missing",
+            when: { feature: "stats.hydrophobicity", op: "<", value: 0 },
+          }),
+        ],
+      },
+      context
+    );
+
+    expect(matches.map((m) => m.rule.id)).toEqual(["combined"]);
+    expect(matches[0].motifHits).toHaveLength(1);
+  });
+
+  it("adds terms and adjustments and clamps the confidence", () => {
+    const [match] = evaluateRules(
+      {
+        version: "1",
+        rules: [
+          rule({
+            confidence: {
+              base: 0.5,
+              terms: [{ feature: "stats.netCharge", scale: 0.1, offset: 5 }],
+              adjustments: [{ when: { pattern: "^MK" }, add: 0.3 }],
+              max: 0.95,
+            },
+          }),
+        ],
+      },
+      context
+    );
+    expect(match.confidence).toBe(0.95);
+  });
+});
@@ -0,0 +1,101 @@
+import fs from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import {
+  HmmParseError,
+  buildSingleSequenceHmm,
+  formatHmmFile,
+  parseHmmFile,
+  searchDomains,
+  viterbiScore,
+} from "@/lib/hmmer";
+
+// Protein kinase N-lobe fragment
+const SEED = "GEVLGKGAFGVVYKARDKETGEIVAVKKLNLEKEDEEGIPSTALREISLLKELKHPNIVKL";
+const UNRELATED = "MSTNPQRWYHDAEQPPGSQWERTYHNMSTNPQRWYHDAEQPPGSQWERTYHN";
+
+const hmm = buildSingleSequenceHmm(SEED, {
+  name: "kinase",
+  accession: "T00001",
+  description: "test profile",
+  seed: 42,
+});
+
+describe("parseHmmFile", () => {
+  it("round-trips models written by formatHmmFile", () => {
+    const [parsed] = parseHmmFile(formatHmmFile([hmm]));
+
+    expect(parsed).toMatchObject({
+      name: "kinase",
+      accession: "T00001",
+      description: "test profile",
+      length: SEED.length,
+    });
+    expect(parsed.stats.viterbi.mu).toBeCloseTo(hmm.stats.viterbi.mu, 3);
+    expect(viterbiScore(parsed, SEED)).toBeCloseTo(viterbiScore(hmm, SEED), 1);
+  });
+
+  it("reads the bundled seed profiles", () => {
+    const text = fs.readFileSync(
+      path.join(process.cwd(), "data", "pfam", "seed-profiles.hmm"),
+      "utf8"
+    );
+    const models = parseHmmFile(text);
+
+    expect(models.length).toBeGreaterThan(0);
+    expect(models.every((m) => m.name.endsWith("-like"))).toBe(true);
+  });
+
+  it("rejects malformed text", () => {
+    const text = formatHmmFile([hmm]).replace(/^LENG\s+\d+/m, "LENG  abc");
+    expect(() => parseHmmFile(text)).toThrow(HmmParseError);
+    expect(() => parseHmmFile("not a model")).toThrow(HmmParseError);
+  });
+});
+
+describe("searchDomains", () => {
+  it("locates an embedded domain", () => {
+    const [hit, ...rest] = searchDomains(
+      "MSTNPQRWYHDAEQ" + SEED + "PPGSQWERTYHN",
+      [hmm]
+    );
+
+    expect(rest).toEqual([]);
+    expect(hit).toMatchObject({
+      accession: "T00001",
+      seqFrom: 15,
+      seqTo: 14 + SEED.length,
+      hmmFrom: 1,
+      hmmTo: SEED.length,
+    });
+    expect(hit.evalue).toBeLessThan(1e-20);
+  });
+
+  it("scales E-values with the database size", () => {
+    const [small] = searchDomains(SEED, [hmm]);
+    const [large] = searchDomains(SEED, [hmm], { z: 1000 });
+    expect(large.evalue / small.evalue).toBeCloseTo(1000, 0);
+  });
+
+  it("reports nothing for unrelated or empty sequences", () => {
+    expect(searchDomains(UNRELATED, [hmm])).toEqual([]);
+    expect(searchDomains("", [hmm])).toEqual([]);
+  });
+
+  it("scores the seed far above unrelated sequence", () => {
+    expect(viterbiScore(hmm, SEED)).toBeGreaterThan(100);
+    expect(viterbiScore(hmm, UNRELATED)).toBeLessThan(0);
+  });
+});
+
+describe("buildSingleSequenceHmm", () => {
+  it("refuses an empty sequence", () => {
+    expect(() =>
+      buildSingleSequenceHmm("", {
+        name: "empty",
+        accession: "T0",
+        description: "",
+      })
+    ).toThrow("empty: cannot build a model from no residues");
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { createMockProvider } from "@/lib/embedding-providers";
+import { parseESM2Response } from "@/lib/esm2-embeddings";
+import {
+  annotateFromNeighbours,
+  findNearestNeighbours,
+} from "@/lib/knn-classifier";
+import {
+  buildReferenceIndex,
+  type ReferenceGoTerm,
+} from "@/lib/reference-index";
+
+const KINASE: ReferenceGoTerm = {
+  id: "GO:0004672",
+  name: "protein kinase activity",
+  aspect: "molecular_function",
+};
+const NUCLEUS: ReferenceGoTerm = {
+  id: "GO:0005634",
+  name: "nucleus",
+  aspect: "cellular_component",
+};
+const MEMBRANE: ReferenceGoTerm = {
+  id: "GO:0016020",
+  name: "membrane",
+  aspect: "cellular_component",
+};
+
+// Hand-placed 3-d embeddings so similarities are easy to reason about
+const index = buildReferenceIndex({
+  version: "test",
+  model: "test",
+  layer: 1,
+  dimension: 3,
+  entries: [
+    {
+      accession: "K1",
+      name: "",
+      goTerms: [KINASE, NUCLEUS],
+      embedding: [1, 0, 0],
+    },
+    { accession: "K2", name: "", goTerms: [KINASE], embedding: [0.8, 0.6, 0] },
+    { accession: "M1", name: "", goTerms: [MEMBRANE], embedding: [0, 0, 1] },
+  ],
+});
+
+describe("findNearestNeighbours", () => {
+  it("ranks references by cosine similarity", () => {
+    const neighbours = findNearestNeighbours([2, 0, 0], index, 2);
+
+    expect(neighbours.map((n) => n.accession)).toEqual(["K1", "K2"]);
+    expect(neighbours.map((n) => n.similarity)).toEqual([1, 0.8]);
+    expect(neighbours[0].goTerms).toEqual(["GO:0004672", "GO:0005634"]);
+  });
+
+  it("rejects embeddings of another dimension", () => {
+    expect(() => findNearestNeighbours([1, 2], index)).toThrow(
+      "Embedding dimension 2 does not match reference index dimension 3"
+    );
+  });
+
+  it("retrieves a reference from its own mock embedding", async () => {
+    const provider = createMockProvider();
+    const embed = async (sequence: string) =>
+      parseESM2Response(
+        await provider.embed(sequence, { model: "8m", layers: [6] }),
+        6
+      );
+    const sequences = ["MKTAYIAKQRQISFVKSHFSRQ", "WWWWWWWWWW", "AAAAAAAAAA"];
+    const mockIndex = buildReferenceIndex({
+      version: "test",
+      model: "esm2_t6_8M_UR50D (mock)",
+      layer: 6,
+      dimension: 320,
+      entries: await Promise.all(
+        sequences.map(async (sequence, i) => ({
+          accession: `R${i}`,
+          name: "",
+          goTerms: [],
+          embedding: await embed(sequence),
+        }))
+      ),
+    });
+
+    const [nearest] = findNearestNeighbours(
+      await embed("WWWWWWWWWW"),
+      mockIndex
+    );
+    expect(nearest.accession).toBe("R1");
+    expect(nearest.similarity).toBeCloseTo(1, 9);
+  });
+});
+
+describe("annotateFromNeighbours", () => {
+  it("weights votes by similarity and cites every supporter", () => {
+    const neighbours = findNearestNeighbours([1, 0, 0], index, 2);
+    const [kinase, nucleus, ...rest] = annotateFromNeighbours(neighbours, {
+      minConfidence: 0,
+    });
+
+    expect(kinase).toMatchObject({
+      id: "GO:0004672",
+      confidence: 1,
+      embeddingBased: true,
+      neighbourAccessions: ["K1", "K2"],
+      references: { uniProt: "K1" },
+    });
+    expect(kinase.evidence).toHaveLength(2);
+    // Carried by K1 alone: 1 / (1 + 0.8) of the weight
+    expect(nucleus.id).toBe("GO:0005634");
+    expect(nucleus.confidence).toBeCloseTo(1 / 1.8, 9);
+    expect(rest).toEqual([]);
+  });
+
+  it("scales by the closest supporter's similarity", () => {
+    const neighbours = findNearestNeighbours([0.8, 0.6, 0], index, 1);
+    const [kinase] = annotateFromNeighbours(neighbours);
+    expect(kinase.neighbourAccessions).toEqual(["K2"]);
+    expect(kinase.confidence).toBeCloseTo(1, 9);
+  });
+
+  it("drops terms below the minimum confidence", () => {
+    const neighbours = findNearestNeighbours([1, 0, 0.2], index);
+    const ids = annotateFromNeighbours(neighbours, { minConfidence: 0.5 }).map(
+      (c) => c.id
+    );
+
+    expect(ids).toEqual(["GO:0004672"]);
+  });
+
+  it("returns nothing without positive similarity", () => {
+    expect(
+      annotateFromNeighbours(findNearestNeighbours([0, -1, 0], index, 1))
+    ).toEqual([]);
+  });
+});
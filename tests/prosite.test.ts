@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  PrositePatternError,
+  compilePrositePattern,
+  findMotif,
+  parsePrositeDat,
+  prositeToRegex,
+  scanMotifs,
+} from "@/lib/prosite";
+
+describe("prositeToRegex", () => {
+  it("converts sets, exclusions, wildcards and repeats", () => {
+    expect(prositeToRegex("[LIVMFYC]-x-[HY]-x-D-[LIVMFY]-K-x(2)-N.")).toBe(
+      "[LIVMFYC].[HY].D[LIVMFY]K.{2}N"
+    );
+    expect(prositeToRegex("C-{P}-x(2,4)-C")).toBe("C[^P].{2,4}C");
+  });
+
+  it("anchors to the termini", () => {
+    expect(prositeToRegex("<M-x-K")).toBe("^M.K");
+    expect(prositeToRegex("K-D-E-L>")).toBe("KDEL$");
+    expect(prositeToRegex("S-K-[LF>]")).toBe("SK(?:[LF]|$)");
+  });
+
+  it("rejects malformed patterns", () => {
+    for (const pattern of ["", "M-<K", "K>-L", "x(4,2)", "[l]", "{1}", "AB"]) {
+      expect(() => prositeToRegex(pattern)).toThrow(PrositePatternError);
+    }
+  });
+});
+
+describe("findMotif", () => {
+  const motif = {
+    id: "PS00016",
+    name: "RGD",
+    description: "Cell attachment sequence",
+    pattern: "R-G-D",
+    skip: false,
+    regex: compilePrositePattern("R-G-D"),
+  };
+
+  it("reports 1-based inclusive, non-overlapping hits", () => {
+    expect(findMotif("ARGDRGDK", motif)).toEqual([
+      { id: "PS00016", name: "RGD", start: 2, end: 4, match: "RGD" },
+      { id: "PS00016", name: "RGD", start: 5, end: 7, match: "RGD" },
+    ]);
+  });
+
+  it("skips frequent patterns unless asked", () => {
+    const frequent = { ...motif, skip: true };
+    expect(scanMotifs("ARGD", [frequent])).toEqual([]);
+    expect(
+      scanMotifs("ARGD", [frequent], { includeFrequent: true })
+    ).toHaveLength(1);
+  });
+});
+
+describe("parsePrositeDat", () => {
+  const dat = [
+    "ID   ASN_GLYCOSYLATION; PATTERN.",
+    "AC   PS00001;",
+    "DE   N-glycosylation site.",
+    "PA   N-{P}-[ST]-{P}.",
+    "CC   /SKIP-FLAG=TRUE;",
+    "//",
+    "ID   BROKEN; PATTERN.",
+    "AC   PS99999;",
+    "PA   N-[st].",
+    "//",
+    "ID   PROFILE_ONLY; MATRIX.",
+    "AC   PS50011;",
+    "//",
+  ].join("\n");
+
+  it("parses pattern entries and skips broken ones with a warning", () => {
+    const warnings: string[] = [];
+    const motifs = parsePrositeDat(dat, warnings);
+
+    expect(motifs).toHaveLength(1);
+    expect(motifs[0]).toMatchObject({
+      id: "PS00001",
+      name: "ASN_GLYCOSYLATION",
+      description: "N-glycosylation site",
+      skip: true,
+    });
+    expect(warnings).toEqual([expect.stringMatching(/^PS99999: /)]);
+  });
+});
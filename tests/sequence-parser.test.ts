@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeInvalidResidues,
+  detectSequenceFormat,
+  parseFasta,
+  parseFastaHeader,
+  parseSequenceInput,
+  validateResidues,
+} from "@/lib/sequence-parser";
+import {
+  convertThreeLetterToOneLetter,
+  isThreeLetterNotation,
+} from "@/lib/three-letter-codes";
+
+describe("parseSequenceInput", () => {
+  it("strips whitespace, position numbers and a trailing stop", () => {
+    const [record] = parseSequenceInput("  1 mkta yiak 11 qr*\n");
+    expect(record).toMatchObject({
+      id: "query",
+      format: "raw",
+      sequence: "MKTAYIAKQR",
+      notation: "one-letter",
+    });
+  });
+
+  it("returns no records for blank input", () => {
+    expect(parseSequenceInput(" \n\t")).toEqual([]);
+  });
+
+  it("splits multi-record FASTA and names headerless residues", () => {
+    const records = parseFasta(
+      [
+        "MKV",
+        ">sp|P69905|HBA_HUMAN Hemoglobin subunit alpha OS=Homo sapiens OX=9606 GN=HBA1 PE=1 SV=2",
+        "MVLSPADKTN",
+        "; comment line",
+        "VKAAWGKVGA",
+        ">second",
+        "",
+      ].join("\r\n")
+    );
+
+    expect(records.map((r) => r.id)).toEqual(["record_1", "P69905", "second"]);
+    expect(records[1].sequence).toBe("MVLSPADKTNVKAAWGKVGA");
+    expect(records[2].sequence).toBe("");
+  });
+
+  it("detects GenBank and EMBL flat files", () => {
+    expect(detectSequenceFormat("LOCUS       TEST")).toBe("genbank");
+    expect(detectSequenceFormat("ID   TEST")).toBe("embl");
+    expect(detectSequenceFormat("\n>x")).toBe("fasta");
+  });
+});
+
+describe("parseFastaHeader", () => {
+  it("extracts UniProt fields", () => {
+    const header = parseFastaHeader(
+      ">sp|P69905|HBA_HUMAN Hemoglobin subunit alpha OS=Homo sapiens OX=9606 GN=HBA1 PE=1 SV=2"
+    );
+
+    expect(header).toMatchObject({
+      accession: "P69905",
+      description: "Hemoglobin subunit alpha",
+    });
+  });
+});
+
+describe("validateResidues", () => {
+  it("reports positions in the cleaned sequence", () => {
+    const [record] = parseSequenceInput("MKV123JJJ");
+    const validation = validateResidues(record.sequence);
+
+    expect(validation.valid).toBe(false);
+    expect(validation.invalidResidues).toEqual([
+      { position: 4, residue: "J" },
+      { position: 5, residue: "J" },
+      { position: 6, residue: "J" },
+    ]);
+  });
+
+  it("accepts ambiguity codes, stops and gaps", () => {
+    expect(validateResidues("ACDBZXUO*-").valid).toBe(true);
+  });
+
+  it("treats an empty sequence as invalid", () => {
+    expect(validateResidues("").valid).toBe(false);
+  });
+
+  it("summarises long lists", () => {
+    const invalid = Array.from({ length: 12 }, (_, i) => ({
+      position: i + 1,
+      residue: "J",
+    }));
+    expect(describeInvalidResidues(invalid, 2)).toBe("J1, J2 and 10 more");
+  });
+});
+
+describe("three-letter notation", () => {
+  it("converts separated and title-case runs", () => {
+    expect(convertThreeLetterToOneLetter("Met-Val-His-Leu")?.sequence).toBe(
+      "MVHL"
+    );
+    expect(convertThreeLetterToOneLetter("MET VAL HIS")?.sequence).toBe("MVH");
+    expect(convertThreeLetterToOneLetter("MetValHis")?.sequence).toBe("MVH");
+  });
+
+  it("does not misread one-letter input made of code-like triplets", () => {
+    expect(isThreeLetterNotation("ALAGLY")).toBe(false);
+    expect(parseSequenceInput("ALAGLY")[0].sequence).toBe("ALAGLY");
+  });
+
+  it("rejects text with unknown codes", () => {
+    expect(convertThreeLetterToOneLetter("Met-Xyz-His")).toBeNull();
+  });
+
+  it("is used by the FASTA parser", () => {
+    const [record] = parseSequenceInput(">pep\nMet-Lys\nThr-Ala");
+    expect(record).toMatchObject({
+      sequence: "MKTA",
+      notation: "three-letter",
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  detectMoleculeType,
+  findOpenReadingFrames,
+  getGeneticCode,
+  reverseComplement,
+  sixFrameTranslation,
+  translate,
+} from "@/lib/translation";
+
+describe("translate", () => {
+  it("translates with the standard code", () => {
+    expect(translate("ATGAAATAG")).toBe("MK*");
+  });
+
+  it("reads RNA and ambiguous bases", () => {
+    expect(translate("AUGNNNUGG")).toBe("MXW");
+  });
+
+  it("honours alternative genetic codes", () => {
+    // TGA is Trp in the vertebrate mitochondrial code
+    expect(translate("TGA", 1)).toBe("*");
+    expect(translate("TGA", 2)).toBe("W");
+  });
+
+  it("drops incomplete trailing codons", () => {
+    expect(translate("ATGAA", 1, 0)).toBe("M");
+    expect(translate("CATGAAA", 1, 1)).toBe("MK");
+  });
+
+  it("rejects unknown codes", () => {
+    expect(() => getGeneticCode(99)).toThrow("Unknown genetic code 99");
+  });
+});
+
+describe("detectMoleculeType", () => {
+  it("distinguishes protein, DNA and RNA", () => {
+    expect(detectMoleculeType("MKTAYIAKQRQISFVKSHFSRQ")).toBe("protein");
+    expect(detectMoleculeType("ATGGCCATTGTAATGGGCCGC")).toBe("dna");
+    expect(detectMoleculeType("AUGGCCAUUGUAAUGGGCCGC")).toBe("rna");
+  });
+});
+
+describe("reverse complement and six frames", () => {
+  it("complements RNA as DNA", () => {
+    expect(reverseComplement("AUGC")).toBe("GCAT");
+  });
+
+  it("translates all six frames", () => {
+    const frames = sixFrameTranslation("ATGAAACCC");
+    expect(frames).toHaveLength(6);
+    expect(frames[0]).toMatchObject({ strand: "+", frame: 1, protein: "MKP" });
+    expect(frames[3]).toMatchObject({ strand: "-", frame: 1, protein: "GFH" });
+  });
+});
+
+describe("findOpenReadingFrames", () => {
+  const orf = "ATG" + "GCT".repeat(5) + "TAA";
+
+  it("reports forward ORFs in forward coordinates", () => {
+    const [found] = findOpenReadingFrames("CC" + orf, { minLength: 3 });
+    expect(found).toMatchObject({
+      strand: "+",
+      frame: 3,
+      start: 3,
+      end: 23,
+      protein: "MAAAAA",
+      complete: true,
+    });
+  });
+
+  it("maps reverse-strand ORFs back to the forward strand", () => {
+    const [found] = findOpenReadingFrames(reverseComplement(orf), {
+      minLength: 3,
+    });
+    expect(found).toMatchObject({ strand: "-", start: 1, end: 21 });
+  });
+
+  it("only reports ORFs without a stop when asked", () => {
+    const open = "ATG" + "GCT".repeat(5);
+    expect(findOpenReadingFrames(open, { minLength: 3 })).toEqual([]);
+    expect(
+      findOpenReadingFrames(open, { minLength: 3, includeIncomplete: true })[0]
+    ).toMatchObject({ complete: false, protein: "MAAAAA" });
+  });
+
+  it("applies the minimum length", () => {
+    expect(findOpenReadingFrames(orf, { minLength: 7 })).toEqual([]);
+  });
+});
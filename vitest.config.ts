@@ -0,0 +1,18 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["tests/**/*.test.ts"],
+    // Keep the suite independent of local .env settings
+    env: {
+      EMBEDDING_PROVIDER: "mock",
+    },
+  },
+});